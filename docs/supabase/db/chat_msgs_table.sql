@@ -47,3 +47,32 @@ END $$;
 -- 3. Create Index and Composite Index
 CREATE INDEX IF NOT EXISTS idx_chat_msgs_user_id ON public.chat_msgs (user_id);
 CREATE INDEX IF NOT EXISTS idx_chat_msgs_user_id_archived ON public.chat_msgs (user_id, archived);
+
+-- 4. 按消息写入：客户端只改动一条消息，不覆盖任务进程同时写回的其它消息
+-- 以调用者身份执行（SECURITY INVOKER），仍受上面的 RLS 策略限制
+CREATE OR REPLACE FUNCTION public.append_chat_message(p_chat_id uuid, p_message jsonb, p_title text DEFAULT NULL)
+RETURNS SETOF public.chat_msgs AS $$
+  UPDATE public.chat_msgs
+  SET messages = (
+        CASE WHEN json_typeof(messages) = 'array' THEN messages::jsonb ELSE '[]'::jsonb END
+        || jsonb_build_array(p_message)
+      )::json,
+      title = COALESCE(p_title, title)
+  WHERE id = p_chat_id
+  RETURNING *;
+$$ LANGUAGE sql;
+
+-- 合并 p_patch 到 ID 为 p_message_id 的消息，其它消息保持数据库中的最新内容与顺序
+CREATE OR REPLACE FUNCTION public.update_chat_message(p_chat_id uuid, p_message_id text, p_patch jsonb)
+RETURNS SETOF public.chat_msgs AS $$
+  UPDATE public.chat_msgs
+  SET messages = (
+    SELECT COALESCE(
+      jsonb_agg(CASE WHEN m ->> 'id' = p_message_id THEN m || p_patch ELSE m END ORDER BY ord),
+      '[]'::jsonb
+    )
+    FROM jsonb_array_elements(messages::jsonb) WITH ORDINALITY AS t(m, ord)
+  )::json
+  WHERE id = p_chat_id AND json_typeof(messages) = 'array'
+  RETURNING *;
+$$ LANGUAGE sql;
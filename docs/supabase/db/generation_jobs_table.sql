@@ -0,0 +1,120 @@
+-- =================================================================================================
+-- Generation Jobs Table Schema, Policy and Triggers
+-- =================================================================================================
+
+-- 服务端生成任务：客户端写入任务，由任务进程（npm run worker）领取执行并回写 chat_msgs 与 assets
+-- 每个任务对应一条消息中一个模型的若干张图片
+
+-- 1. 确保 generation_jobs 表结构正确
+DO $$ 
+BEGIN
+  -- Check if table exists
+  IF NOT EXISTS (
+    SELECT FROM pg_tables 
+    WHERE schemaname = 'public' 
+    AND tablename = 'generation_jobs'
+  ) THEN
+    -- Create table if it doesn't exist
+    CREATE TABLE public.generation_jobs (
+      id uuid not null default gen_random_uuid(),
+      created_at timestamp with time zone not null default now(),
+      updated_at timestamp with time zone not null default now(),
+      user_id uuid not null default auth.uid(),
+      chat_id uuid not null,
+      message_id text not null,
+      model_id text not null, -- models.json 中的模型 ID
+      model_name text not null, -- 消息结果中该模型的分组名称
+      result_ids jsonb not null default '[]'::jsonb, -- 本任务负责的结果占位 ID
+      request jsonb not null, -- 提示词、参考图与高级参数
+      status text not null default 'queued', -- queued / running / completed / failed
+      results jsonb not null default '{}'::jsonb, -- 已完成的结果，按结果 ID 索引
+      progress jsonb not null default '{}'::jsonb, -- 异步任务的中间状态，按结果 ID 索引
+      error text null,
+      attempts int not null default 0, -- 被领取的次数，任务进程异常退出后重新排队时累加
+      locked_by text null,
+      locked_at timestamp with time zone null, -- 执行中的任务进程定期刷新，超时未刷新视为进程已退出
+      finished_at timestamp with time zone null,
+
+      constraint generation_jobs_pkey primary key (id),
+      constraint generation_jobs_status_check check (status in ('queued', 'running', 'completed', 'failed')),
+      constraint generation_jobs_chat_id_fkey foreign KEY (chat_id) references chat_msgs (id) on delete cascade,
+      constraint generation_jobs_user_id_fkey foreign KEY (user_id) references auth.users (id) on delete cascade
+    ) TABLESPACE pg_default;
+  END IF;
+END $$;
+
+-- 2. Enable RLS and create policies if not exists
+-- 用户只能新增与读取自己的任务，执行与回写由任务进程以数据库所有者身份完成
+ALTER TABLE public.generation_jobs ENABLE ROW LEVEL SECURITY;
+DO $$ 
+BEGIN
+  IF NOT EXISTS (
+    SELECT FROM pg_policies 
+    WHERE schemaname = 'public' 
+    AND tablename = 'generation_jobs'
+    AND policyname = 'Allow users to read their own jobs'
+  ) THEN
+    CREATE POLICY "Allow users to read their own jobs" ON public.generation_jobs
+    FOR SELECT
+    TO public
+    USING (auth.uid() = user_id);
+  END IF;
+
+  -- 任务进程以数据库所有者身份写回结果，不受 RLS 限制，入队时需确认对话属于当前用户
+  -- 每次重建该策略，使已部署的旧策略也带上对话归属检查
+  DROP POLICY IF EXISTS "Allow users to enqueue their own jobs" ON public.generation_jobs;
+  CREATE POLICY "Allow users to enqueue their own jobs" ON public.generation_jobs
+  FOR INSERT
+  TO public
+  WITH CHECK (
+    auth.uid() = user_id
+    AND status = 'queued'
+    AND EXISTS (SELECT 1 FROM public.chat_msgs c WHERE c.id = chat_id AND c.user_id = auth.uid())
+  );
+END $$;
+
+-- 3. Triggers: 新任务通知任务进程，更新时刷新 updated_at
+CREATE OR REPLACE FUNCTION public.notify_generation_job()
+RETURNS trigger AS $$
+BEGIN
+  PERFORM pg_notify('generation_jobs', NEW.id::text);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION public.touch_generation_job()
+RETURNS trigger AS $$
+BEGIN
+  NEW.updated_at = now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS generation_jobs_notify ON public.generation_jobs;
+CREATE TRIGGER generation_jobs_notify
+  AFTER INSERT ON public.generation_jobs
+  FOR EACH ROW EXECUTE FUNCTION public.notify_generation_job();
+
+DROP TRIGGER IF EXISTS generation_jobs_touch ON public.generation_jobs;
+CREATE TRIGGER generation_jobs_touch
+  BEFORE UPDATE ON public.generation_jobs
+  FOR EACH ROW EXECUTE FUNCTION public.touch_generation_job();
+
+-- 4. 客户端通过 Realtime 订阅任务进度（本地 Postgres 没有该 publication 时跳过）
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT FROM pg_publication WHERE pubname = 'supabase_realtime'
+  ) AND NOT EXISTS (
+    SELECT FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime'
+    AND schemaname = 'public'
+    AND tablename = 'generation_jobs'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.generation_jobs;
+  END IF;
+END $$;
+
+-- 5. Create Index and Composite Index
+CREATE INDEX IF NOT EXISTS idx_generation_jobs_status_created_at ON public.generation_jobs (status, created_at);
+CREATE INDEX IF NOT EXISTS idx_generation_jobs_user_id_chat_id ON public.generation_jobs (user_id, chat_id);
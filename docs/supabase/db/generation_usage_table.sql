@@ -0,0 +1,67 @@
+-- =================================================================================================
+-- Generation Usage Table Schema and Policy
+-- =================================================================================================
+
+-- 每次向服务商发起的生成请求记录一行，用于统计用量与预估费用
+
+-- 1. 确保 generation_usage 表结构正确
+DO $$ 
+BEGIN
+  -- Check if table exists
+  IF NOT EXISTS (
+    SELECT FROM pg_tables 
+    WHERE schemaname = 'public' 
+    AND tablename = 'generation_usage'
+  ) THEN
+    -- Create table if it doesn't exist
+    CREATE TABLE public.generation_usage (
+      id bigint generated by default as identity not null,
+      created_at timestamp with time zone not null default now(),
+      user_id uuid not null default auth.uid(),
+      model_id text not null, -- 'doubao-seedream-3-0-t2i-250415', etc.
+      model_group text not null, -- 'doubao', 'tongyi', etc.
+      count int not null default 1, -- 本次请求的图片数量
+      success boolean not null,
+      latency_ms int null, -- 从开始请求到返回结果的耗时，含重试，不含排队
+      estimated_cost numeric(12, 4) not null default 0, -- 按 models.json 中的单价估算（元），失败不计费
+      error text null,
+
+      constraint generation_usage_pkey primary key (id),
+      constraint generation_usage_user_id_fkey foreign KEY (user_id) references auth.users (id) on delete cascade
+    ) TABLESPACE pg_default;
+  END IF;
+END $$;
+
+-- 2. Enable RLS and create policies if not exists
+-- 用量记录只允许新增与读取，不允许用户修改或删除
+ALTER TABLE public.generation_usage ENABLE ROW LEVEL SECURITY;
+DO $$ 
+BEGIN
+  IF NOT EXISTS (
+    SELECT FROM pg_policies 
+    WHERE schemaname = 'public' 
+    AND tablename = 'generation_usage'
+    AND policyname = 'Allow users to read their own usage'
+  ) THEN
+    CREATE POLICY "Allow users to read their own usage" ON public.generation_usage
+    FOR SELECT
+    TO public
+    USING (auth.uid() = user_id);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT FROM pg_policies 
+    WHERE schemaname = 'public' 
+    AND tablename = 'generation_usage'
+    AND policyname = 'Allow users to record their own usage'
+  ) THEN
+    CREATE POLICY "Allow users to record their own usage" ON public.generation_usage
+    FOR INSERT
+    TO public
+    WITH CHECK (auth.uid() = user_id);
+  END IF;
+END $$;
+
+-- 3. Create Index and Composite Index
+CREATE INDEX IF NOT EXISTS idx_generation_usage_user_id_created_at ON public.generation_usage (user_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_generation_usage_user_id_model_id_created_at ON public.generation_usage (user_id, model_id, created_at);
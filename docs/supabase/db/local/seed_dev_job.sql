@@ -0,0 +1,42 @@
+-- =================================================================================================
+-- Local Development Seed: a chat with one message and a queued mock generation job
+-- =================================================================================================
+
+-- 使用离线模拟模型，无需密钥与网络；任务进程启动后即可领取执行，
+-- 结果写回 chat_msgs.messages 与 assets，可据此验证整条链路
+
+INSERT INTO public.chat_msgs (id, user_id, title, messages)
+VALUES (
+  '00000000-0000-0000-0000-0000000000c1',
+  '00000000-0000-0000-0000-000000000001',
+  '本地任务示例',
+  '[{
+    "id": "msg_dev_1",
+    "content": "a lighthouse at dusk",
+    "createdAt": "2025-07-18T00:00:00.000Z",
+    "models": [{ "id": "mock-image-v1", "name": "离线模拟", "count": 2 }],
+    "results": {
+      "images": {
+        "离线模拟": [
+          { "id": "img_dev_1", "url": null, "text": null, "error": null, "errorMessage": null, "isGenerating": true, "createdAt": null, "jobId": "00000000-0000-0000-0000-0000000000a1" },
+          { "id": "img_dev_2", "url": null, "text": null, "error": null, "errorMessage": null, "isGenerating": true, "createdAt": null, "jobId": "00000000-0000-0000-0000-0000000000a1" }
+        ]
+      },
+      "status": { "success": 0, "failed": 0, "total": 2, "generating": 2 }
+    }
+  }]'::json
+)
+ON CONFLICT (id) DO NOTHING;
+
+INSERT INTO public.generation_jobs (id, user_id, chat_id, message_id, model_id, model_name, result_ids, request)
+VALUES (
+  '00000000-0000-0000-0000-0000000000a1',
+  '00000000-0000-0000-0000-000000000001',
+  '00000000-0000-0000-0000-0000000000c1',
+  'msg_dev_1',
+  'mock-image-v1',
+  '离线模拟',
+  '["img_dev_1", "img_dev_2"]'::jsonb,
+  '{ "prompt": "a lighthouse at dusk" }'::jsonb
+)
+ON CONFLICT (id) DO NOTHING;
@@ -0,0 +1,45 @@
+-- =================================================================================================
+-- Local Postgres Stand-in for Supabase
+-- =================================================================================================
+
+-- 在普通 Postgres 中模拟表结构依赖的 Supabase 对象，使 ../*.sql 可原样执行，
+-- 仅用于本地开发任务进程，不要在 Supabase 项目中执行
+
+-- 1. 角色：策略中使用 TO public，这里只需保证常用角色存在
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT FROM pg_roles WHERE rolname = 'anon') THEN
+    CREATE ROLE anon NOLOGIN;
+  END IF;
+  IF NOT EXISTS (SELECT FROM pg_roles WHERE rolname = 'authenticated') THEN
+    CREATE ROLE authenticated NOLOGIN;
+  END IF;
+END $$;
+
+-- 2. auth schema：用户表与 auth.uid()
+CREATE SCHEMA IF NOT EXISTS auth;
+
+CREATE TABLE IF NOT EXISTS auth.users (
+  id uuid not null default gen_random_uuid(),
+  email text null,
+  created_at timestamp with time zone not null default now(),
+
+  constraint users_pkey primary key (id)
+);
+
+-- 与 Supabase 一致，从请求的 JWT claims 中读取当前用户，未设置时为 null
+CREATE OR REPLACE FUNCTION auth.uid()
+RETURNS uuid AS $$
+  SELECT nullif(
+    coalesce(
+      current_setting('request.jwt.claim.sub', true),
+      current_setting('request.jwt.claims', true)::jsonb ->> 'sub'
+    ),
+    ''
+  )::uuid
+$$ LANGUAGE sql STABLE;
+
+-- 3. 本地开发用户，写入测试任务时使用
+INSERT INTO auth.users (id, email)
+VALUES ('00000000-0000-0000-0000-000000000001', 'dev@localhost')
+ON CONFLICT (id) DO NOTHING;
@@ -0,0 +1,47 @@
+-- =================================================================================================
+-- Model Catalog Table Schema and Policy
+-- =================================================================================================
+
+-- 每行保存一份完整的模型目录（与 src/config/models.json 结构相同），客户端读取最新一份启用的目录
+
+-- 1. 确保 model_catalog 表结构正确
+DO $$ 
+BEGIN
+  -- Check if table exists
+  IF NOT EXISTS (
+    SELECT FROM pg_tables 
+    WHERE schemaname = 'public' 
+    AND tablename = 'model_catalog'
+  ) THEN
+    -- Create table if it doesn't exist
+    CREATE TABLE public.model_catalog (
+      id bigint generated by default as identity not null,
+      created_at timestamp with time zone not null default now(),
+      config jsonb not null, -- { configs, models, budget }
+      is_active boolean not null default true,
+
+      constraint model_catalog_pkey primary key (id)
+    ) TABLESPACE pg_default;
+  END IF;
+END $$;
+
+-- 2. Enable RLS and create policies if not exists
+-- 所有人可读取目录，修改只能通过 service role（绕过 RLS）进行
+ALTER TABLE public.model_catalog ENABLE ROW LEVEL SECURITY;
+DO $$ 
+BEGIN
+  IF NOT EXISTS (
+    SELECT FROM pg_policies 
+    WHERE schemaname = 'public' 
+    AND tablename = 'model_catalog'
+    AND policyname = 'Allow everyone to read the model catalog'
+  ) THEN
+    CREATE POLICY "Allow everyone to read the model catalog" ON public.model_catalog
+    FOR SELECT
+    TO public
+    USING (true);
+  END IF;
+END $$;
+
+-- 3. Create Index
+CREATE INDEX IF NOT EXISTS idx_model_catalog_is_active_created_at ON public.model_catalog (is_active, created_at);
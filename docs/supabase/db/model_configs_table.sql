@@ -21,6 +21,8 @@ BEGIN
       enabled boolean null,
       test_status int null, -- 0: not tested, 1: testing, 2: tested failed, 3: tested passed
       last_tested_at timestamp with time zone null,
+      last_test_latency_ms int null, -- 最近一次连接测试耗时
+      last_test_message text null, -- 最近一次连接测试的结果说明（失败时为失败原因）
       config_json json null,
 
       constraint model_configs_pkey primary key (id),
@@ -30,6 +32,10 @@ BEGIN
   END IF;
 END $$;
 
+-- 已存在的表补充连接测试结果字段
+ALTER TABLE public.model_configs ADD COLUMN IF NOT EXISTS last_test_latency_ms int null;
+ALTER TABLE public.model_configs ADD COLUMN IF NOT EXISTS last_test_message text null;
+
 -- 2. Enable RLS and create policy if not exists
 ALTER TABLE public.model_configs ENABLE ROW LEVEL SECURITY;
 DO $$ 
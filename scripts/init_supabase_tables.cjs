@@ -6,7 +6,7 @@
  * @version 1.0.0
  * @date 2025-07-01
  *
- * This script connects to a Supabase PostgreSQL instance and creates the required tables (chat_msgs, assets, model_configs)
+ * This script connects to a Supabase PostgreSQL instance and creates the required tables (chat_msgs, assets, model_configs, generation_usage, generation_jobs)
  * by executing the corresponding SQL files. It is intended for development and deployment automation.
  *
  * Usage:
@@ -25,6 +25,9 @@ const path = require('path');
 const create_chat_msgs_sql = fs.readFileSync(path.join(__dirname, '../docs/supabase/db/chat_msgs_table.sql'), 'utf8');
 const create_assets_sql = fs.readFileSync(path.join(__dirname, '../docs/supabase/db/assets_table.sql'), 'utf8');
 const create_model_configs_sql = fs.readFileSync(path.join(__dirname, '../docs/supabase/db/model_configs_table.sql'), 'utf8');
+const create_generation_usage_sql = fs.readFileSync(path.join(__dirname, '../docs/supabase/db/generation_usage_table.sql'), 'utf8');
+const create_generation_jobs_sql = fs.readFileSync(path.join(__dirname, '../docs/supabase/db/generation_jobs_table.sql'), 'utf8');
+const create_model_catalog_sql = fs.readFileSync(path.join(__dirname, '../docs/supabase/db/model_catalog_table.sql'), 'utf8');
 
 // ? -> Please refer to `docs/supabase/db/README.md` for how to get the connection string
 const client = new Client({
@@ -62,6 +65,24 @@ async function main() {
     const res_model_configs = await client.query(create_model_configs_sql);
     console.log('[INFO] Model configs table result:', res_model_configs.rows);
     console.log('[INFO] Model configs table created successfully.');
+
+    // Create generation_usage table
+    console.log('[INFO] Creating generation_usage table...');
+    const res_generation_usage = await client.query(create_generation_usage_sql);
+    console.log('[INFO] Generation usage table result:', res_generation_usage.rows);
+    console.log('[INFO] Generation usage table created successfully.');
+
+    // Create generation_jobs table (after chat_msgs)
+    console.log('[INFO] Creating generation_jobs table...');
+    const res_generation_jobs = await client.query(create_generation_jobs_sql);
+    console.log('[INFO] Generation jobs table result:', res_generation_jobs.rows);
+    console.log('[INFO] Generation jobs table created successfully.');
+
+    // Create model_catalog table
+    console.log('[INFO] Creating model_catalog table...');
+    const res_model_catalog = await client.query(create_model_catalog_sql);
+    console.log('[INFO] Model catalog table result:', res_model_catalog.rows);
+    console.log('[INFO] Model catalog table created successfully.');
   } catch (error) {
     console.error('[ERROR] Error creating tables:', error);
     process.exit(1);
@@ -27,6 +27,7 @@ import TestsIndex from '@/pages/Tests';
 import ChatTest from '@/pages/Tests/ChatTest';
 import StorageTest from '@/pages/Tests/StorageTest';
 import SupabaseTest from '@/pages/Tests/SupabaseTest';
+import Usage from '@/pages/Usage';
 // --- Providers ---
 import { AuthProvider } from '@/providers/AuthProvider';
 import ContextMenuProvider from '@/providers/ContextMenuProvider';
@@ -46,6 +47,7 @@ const ROUTES = {
   TEST_STORAGE: '/test/storage',
   TEST_SUPABASE: '/test/supabase',
   ASSETS: '/assets',
+  USAGE: '/usage',
   WILDCARD: '*',
 } as const;
 
@@ -73,6 +75,9 @@ const App: FC = () => {
             {/* Protected assets route */}
             <Route path={ROUTES.ASSETS} element={<ProtectedRoute><Assets /></ProtectedRoute>} />
 
+            {/* Protected usage route */}
+            <Route path={ROUTES.USAGE} element={<ProtectedRoute><Usage /></ProtectedRoute>} />
+
             {/* Tests route */}
             <Route path={ROUTES.TESTS} element={<TestsIndex />} />
 
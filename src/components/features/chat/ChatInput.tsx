@@ -17,13 +17,20 @@ import type { FC } from 'react';
 import { useTranslation } from 'react-i18next';
 
 // --- Third-party Libraries ---
-import { PaperAirplaneIcon, SparklesIcon } from '@heroicons/react/24/solid';
+import { CurrencyYenIcon, PaintBrushIcon, PaperAirplaneIcon, SparklesIcon, StopIcon } from '@heroicons/react/24/solid';
 
 // --- Internal Libraries ---
+// --- Services ---
+import { modelManager } from '@/services/model';
+import { usageService } from '@/services/usage';
 // --- Types ---
-import type { SelectedModel, DesignImage } from '@/types/chat';
+import type { SelectedModel, DesignImage, GenerationParams } from '@/types/chat';
+// --- Utils ---
+import { getRequiredCapability, partitionSelectedModels } from '@/utils/modelUtils';
+import { formatCost } from '@/utils/usageCost';
 
 // --- Relative Imports ---
+import { GenerationParamsPanel } from './GenerationParamsPanel';
 import { ModelDrawer } from './ModelDrawer';
 
 // =================================================================================================
@@ -33,15 +40,19 @@ import { ModelDrawer } from './ModelDrawer';
 interface ChatInputProps {
   input: string;
   selectedModels: SelectedModel[];
+  generationParams: GenerationParams;
   designImage: DesignImage | null;
   isGenerating: boolean;
+  canStop: boolean;
   isSending: boolean;
   user: any;
   textareaRef: React.RefObject<HTMLTextAreaElement>;
   onInputChange: (e: React.ChangeEvent<HTMLTextAreaElement>) => void;
   onInputKeyDown: (e: React.KeyboardEvent<HTMLTextAreaElement>) => void;
   onSendMessage: (e: FormEvent) => void;
+  onStopGeneration: () => void;
   onModelChange: (models: SelectedModel[]) => void;
+  onGenerationParamsChange: (params: GenerationParams) => void;
   onDesignImageClose: (e: React.MouseEvent) => void;
   isDesignImageMenuVisible: boolean;
   isMobile: boolean;
@@ -54,25 +65,43 @@ interface ChatInputProps {
 export const ChatInput: FC<ChatInputProps> = ({
   input,
   selectedModels,
+  generationParams,
   designImage,
   isGenerating,
+  canStop,
   isSending,
   user,
   textareaRef,
   onInputChange,
   onInputKeyDown,
   onSendMessage,
+  onStopGeneration,
   onModelChange,
+  onGenerationParamsChange,
   onDesignImageClose,
   isDesignImageMenuVisible,
   isMobile,
 }) => {
   const { t } = useTranslation();
 
+  // 仅具备当前模式所需能力（文生图、图片编辑、局部重绘）且未下线的已选模型会参与生成，与发送时的筛选一致
+  const isInpainting = !!designImage?.maskUrl;
+  const requiredCapability = getRequiredCapability(designImage);
+  const { usable: usableModels, unsupported: unsupportedModels, retired: retiredModels } = partitionSelectedModels(
+    selectedModels,
+    requiredCapability,
+    modelManager
+  );
+  const usableModelCount = usableModels.length;
+  // 发送前展示预估费用，同样只计入会参与生成的模型
+  const expectedCost = usageService.estimateCost(usableModels.map(({ id, count }) => ({ modelId: id, count })));
+  const promptLimit = modelManager.getPromptLengthLimit(usableModels.map(({ id }) => id));
+  const isPromptTooLong = promptLimit !== undefined && input.length > promptLimit;
+
   return (
     <div className="border-t border-primary-100 dark:border-gray-700 bg-white/50 dark:bg-gray-800 backdrop-blur-sm p-4">
-      {designImage ? (
-        <div className="flex items-center gap-3">
+      {designImage && (
+        <div className="flex items-center gap-3 mb-3">
           <div
             className="group relative flex items-center gap-3 cursor-pointer ml-3"
             onClick={() => {
@@ -85,11 +114,18 @@ export const ChatInput: FC<ChatInputProps> = ({
                 alt={designImage?.alt || 'Design reference'} 
                 className="w-full h-full object-cover transition-transform duration-200 group-hover:scale-105"
               />
+              {isInpainting && (
+                <img
+                  src={designImage.maskUrl || ''}
+                  alt=""
+                  className="absolute inset-0 w-full h-full object-cover opacity-50 mix-blend-screen"
+                />
+              )}
               <div className="absolute inset-0 bg-black/0 group-hover:bg-black/10 transition-colors duration-200" />
             </div>
             <div className="flex flex-col">
               <span className="text-sm font-medium text-gray-900 dark:text-gray-100">
-                {t('chat.input.designTitle')}
+                {isInpainting ? t('chat.input.inpaintTitle') : t('chat.input.designTitle')}
               </span>
             </div>
             <button
@@ -109,13 +145,13 @@ export const ChatInput: FC<ChatInputProps> = ({
             </button>
           </div>
         </div>
-      ) : (
-        <ModelDrawer
-          selectedModels={selectedModels}
-          onModelChange={onModelChange}
-          disabled={isGenerating}
-        />
       )}
+      <ModelDrawer
+        selectedModels={selectedModels}
+        onModelChange={onModelChange}
+        designImage={designImage}
+        disabled={isGenerating}
+      />
       
       <form onSubmit={onSendMessage} className="mt-4">
         <div className="relative flex items-center">
@@ -136,19 +172,30 @@ export const ChatInput: FC<ChatInputProps> = ({
               }`}
               rows={1}
             />
-            <button
-              type="submit"
-              disabled={!input.trim() || (selectedModels.length === 0 && !designImage && !user?.user_metadata?.hide_model_info) || isSending || isGenerating}
-              className="absolute right-2 bottom-2 p-2 text-indigo-500 dark:text-indigo-400 hover:text-indigo-600 dark:hover:text-indigo-500 disabled:text-indigo-400 disabled:cursor-not-allowed transition-colors duration-200 rounded-lg disabled:hover:bg-transparent"
-            >
-              {isSending ? (
-                <div className="w-5 h-5 border-2 border-indigo-500 border-t-transparent rounded-full animate-spin" />
-              ) : isGenerating ? (
-                <SparklesIcon className="h-5 w-5 animate-pulse text-indigo-500" />
-              ) : (
-                <PaperAirplaneIcon className="h-5 w-5" />
-              )}
-            </button>
+            {isGenerating ? (
+              <button
+                type="button"
+                onClick={onStopGeneration}
+                disabled={!canStop}
+                title={canStop ? t('chat.input.stop') : t('chat.input.stopUnavailable')}
+                aria-label={t('chat.input.stop')}
+                className="absolute right-2 bottom-2 p-2 text-red-500 dark:text-red-400 hover:text-red-600 dark:hover:text-red-500 disabled:text-gray-400 disabled:hover:text-gray-400 disabled:cursor-not-allowed transition-colors duration-200 rounded-lg"
+              >
+                <StopIcon className="h-5 w-5" />
+              </button>
+            ) : (
+              <button
+                type="submit"
+                disabled={!input.trim() || (selectedModels.length === 0 && !user?.user_metadata?.hide_model_info) || (selectedModels.length > 0 && usableModelCount === 0) || isPromptTooLong || isSending}
+                className="absolute right-2 bottom-2 p-2 text-indigo-500 dark:text-indigo-400 hover:text-indigo-600 dark:hover:text-indigo-500 disabled:text-indigo-400 disabled:cursor-not-allowed transition-colors duration-200 rounded-lg disabled:hover:bg-transparent"
+              >
+                {isSending ? (
+                  <div className="w-5 h-5 border-2 border-indigo-500 border-t-transparent rounded-full animate-spin" />
+                ) : (
+                  <PaperAirplaneIcon className="h-5 w-5" />
+                )}
+              </button>
+            )}
           </div>
         </div>
 
@@ -166,26 +213,62 @@ export const ChatInput: FC<ChatInputProps> = ({
               </svg>
               {t('chat.input.ctrlEnterToNewLine')}
             </span>
-            {designImage ? (
-              <span className="flex items-center text-indigo-600 dark:text-indigo-400">
+            {designImage && (
+              isInpainting ? (
+                <span className="flex items-center text-pink-600 dark:text-pink-400">
+                  <PaintBrushIcon className="h-4 w-4 mr-1" />
+                  {t('chat.input.inpaintMode')}
+                </span>
+              ) : (
+                <span className="flex items-center text-indigo-600 dark:text-indigo-400">
+                  <SparklesIcon className="h-4 w-4 mr-1" />
+                  {t('chat.input.designMode', '图片编辑模式')}
+                </span>
+              )
+            )}
+            <GenerationParamsPanel
+              params={generationParams}
+              selectedModels={selectedModels}
+              onChange={onGenerationParamsChange}
+              disabled={isGenerating}
+            />
+            {!(user?.user_metadata?.hide_model_info ?? false) && selectedModels.length > 0 && (
+              <span className="flex items-center">
                 <SparklesIcon className="h-4 w-4 mr-1" />
-                {t('chat.input.designMode', '图片编辑模式')}
+                {t('chat.input.selectedModels', { count: selectedModels.length })}
+              </span>
+            )}
+            {selectedModels.length > 0 && usableModelCount === 0 && (
+              <span className="flex items-center text-amber-600 dark:text-amber-400">
+                {t(`chat.input.unsupportedModels.${requiredCapability}.none`)}
+              </span>
+            )}
+            {usableModelCount > 0 && unsupportedModels.length > 0 && (
+              <span className="flex items-center text-amber-600 dark:text-amber-400">
+                {t(`chat.input.unsupportedModels.${requiredCapability}.skipped`, { models: unsupportedModels.map(({ name }) => name).join('、') })}
+              </span>
+            )}
+            {usableModelCount > 0 && retiredModels.length > 0 && (
+              <span className="flex items-center text-amber-600 dark:text-amber-400">
+                {t('chat.input.retiredModels', { models: retiredModels.map(({ name }) => name).join('、') })}
+              </span>
+            )}
+            {isPromptTooLong && (
+              <span className="flex items-center text-red-500 dark:text-red-400">
+                {t('chat.input.promptTooLong', { count: input.length, max: promptLimit })}
+              </span>
+            )}
+            {expectedCost > 0 && (
+              <span className="flex items-center" title={t('chat.input.expectedCostTitle')}>
+                <CurrencyYenIcon className="h-4 w-4 mr-1" />
+                {t('chat.input.expectedCost', { cost: formatCost(expectedCost) })}
+              </span>
+            )}
+            {isGenerating && (
+              <span className="flex items-center text-indigo-600 dark:text-indigo-400">
+                <SparklesIcon className="h-4 w-4 mr-1 animate-pulse" />
+                {t('chat.input.generating')}
               </span>
-            ) : (
-              <>
-                {!(user?.user_metadata?.hide_model_info ?? false) && selectedModels.length > 0 && (
-                  <span className="flex items-center">
-                    <SparklesIcon className="h-4 w-4 mr-1" />
-                    {t('chat.input.selectedModels', { count: selectedModels.length })}
-                  </span>
-                )}
-                {isGenerating && (
-                  <span className="flex items-center text-indigo-600 dark:text-indigo-400">
-                    <SparklesIcon className="h-4 w-4 mr-1 animate-pulse" />
-                    {t('chat.input.generating')}
-                  </span>
-                )}
-              </>
             )}
           </div>
           <div className="text-xs text-gray-500 dark:text-gray-400">
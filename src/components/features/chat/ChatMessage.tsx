@@ -18,7 +18,7 @@ import { useTranslation } from 'react-i18next';
 import ReactMarkdown from 'react-markdown';
 
 // --- Third-party Libraries ---
-import { SparklesIcon, ExclamationCircleIcon, ClockIcon } from '@heroicons/react/24/solid';
+import { SparklesIcon, ExclamationCircleIcon, ClockIcon, StopCircleIcon, ArrowPathIcon, PauseCircleIcon } from '@heroicons/react/24/solid';
 import remarkGfm from 'remark-gfm';
 
 // --- Internal Libraries ---
@@ -27,12 +27,14 @@ import TextModal from '@/components/features/chat/TextModal';
 import { ImagePreview } from '@/components/shared/common/ImagePreview';
 // --- Services ---
 import type { ImageResult, Message, Chat } from '@/services/chat';
+import { modelManager } from '@/services/model';
 // --- Store ---
 import { useAuthStore } from '@/store/authStore';
 // --- Types ---
-import type { SelectedImage } from '@/types/chat';
+import type { DesignTarget, SelectedImage } from '@/types/chat';
 // --- Utils ---
 import { getAvatarClasses, getAvatarSizeClasses } from '@/utils/avatar';
+import { getLocalizedModelText } from '@/utils/modelUtils';
 
 // =================================================================================================
 // Type Definitions
@@ -42,8 +44,10 @@ interface ChatMessageProps {
   message: Message;
   userAvatar: string;
   currentChat: Chat | null;
-  onEnterDesign?: (image: SelectedImage) => void;
+  onEnterDesign?: (image: SelectedImage, maskUrl?: string) => void;
   onJumpToReference?: (messageId: string, resultId: string) => void;
+  onRegenerateResult?: (messageId: string, resultId: string) => void | Promise<void>;
+  onResumeInterrupted?: (messageId: string) => void | Promise<void>;
 }
 
 interface ImageResultItemProps {
@@ -51,6 +55,7 @@ interface ImageResultItemProps {
   messageCreatedAt: string;
   onClick: () => void;
   onTextClick?: (text: string) => void;
+  onRegenerate?: () => void;
 }
 
 // =================================================================================================
@@ -63,7 +68,7 @@ const GENERATION_TIMEOUT_MS = 10 * 60 * 1000; // 10 minutes in milliseconds
 // Utility Components
 // =================================================================================================
 
-const ImageResultItem: FC<ImageResultItemProps> = ({ result, messageCreatedAt, onClick, onTextClick }) => {
+const ImageResultItem: FC<ImageResultItemProps> = ({ result, messageCreatedAt, onClick, onTextClick, onRegenerate }) => {
   const { t } = useTranslation();
   const isTimedOut =
     result.isGenerating &&
@@ -90,11 +95,41 @@ const ImageResultItem: FC<ImageResultItemProps> = ({ result, messageCreatedAt, o
             <div className="flex flex-col items-center gap-2">
               <div className="w-8 h-8 border-4 border-indigo-200 border-t-indigo-600 rounded-full animate-spin"></div>
               <span className="text-sm text-gray-600 dark:text-gray-300">
-                {t('common.generating')}
+                {result.text || t('common.generating')}
               </span>
             </div>
           </div>
         )
+      ) : result.cancelled ? (
+        <div className="absolute inset-0 flex items-center justify-center cursor-default bg-gray-50 dark:bg-gray-900/60">
+          <div className="flex flex-col items-center gap-2">
+            <StopCircleIcon className="h-6 w-6 text-gray-400" />
+            <span className="text-sm text-gray-500 dark:text-gray-400">
+              {t('chat.generation.cancelledResult')}
+            </span>
+          </div>
+        </div>
+      ) : result.interrupted ? (
+        <div className="absolute inset-0 flex items-center justify-center cursor-default bg-amber-50 dark:bg-amber-900/20">
+          <div className="flex flex-col items-center gap-2 p-4">
+            <PauseCircleIcon className="h-6 w-6 text-amber-500" />
+            <span className="text-sm text-amber-700 dark:text-amber-300 text-center">
+              {t('chat.generation.interruptedResult')}
+            </span>
+          </div>
+        </div>
+      ) : result.timedOut ? (
+        <div className="absolute inset-0 flex items-center justify-center cursor-default bg-yellow-50 dark:bg-yellow-900/30">
+          <div className="flex flex-col items-center gap-2 p-4">
+            <ClockIcon className="h-6 w-6 text-yellow-500" />
+            <span className="text-sm text-yellow-700 dark:text-yellow-300 text-center font-medium">
+              {t('chat.generation.timedOutResult')}
+            </span>
+            <p className="text-xs text-yellow-600 dark:text-yellow-400 text-center break-words">
+              {result.errorMessage}
+            </p>
+          </div>
+        </div>
       ) : result.error || result.errorMessage ? (
         result.text ? (
           <div
@@ -163,6 +198,24 @@ const ImageResultItem: FC<ImageResultItemProps> = ({ result, messageCreatedAt, o
           <span className="text-sm text-gray-500 dark:text-gray-400">{t('common.loading')}</span>
         </div>
       )}
+
+      {/* Regenerate button */}
+      {onRegenerate && !result.isGenerating && (
+        <button
+          type="button"
+          onClick={(e) => {
+            e.stopPropagation();
+            onRegenerate();
+          }}
+          className="absolute right-2 top-2 z-10 flex items-center gap-1 rounded-full bg-white/90 px-2 py-1 text-xs font-medium text-gray-600 opacity-0 shadow-sm backdrop-blur-sm transition-opacity hover:text-indigo-600 group-hover:opacity-100 focus:opacity-100 dark:bg-gray-800/90 dark:text-gray-300 dark:hover:text-indigo-400"
+          title={t('chat.regenerate')}
+        >
+          <ArrowPathIcon className="h-3.5 w-3.5" />
+          {(result.history?.length ?? 0) > 0 && (
+            <span>{result.history!.length + 1}</span>
+          )}
+        </button>
+      )}
     </div>
   );
 };
@@ -177,6 +230,8 @@ export const ChatMessage: FC<ChatMessageProps> = ({
   currentChat,
   onEnterDesign,
   onJumpToReference,
+  onRegenerateResult,
+  onResumeInterrupted,
 }) => {
   // --- State and Refs ---
   const [selectedImage, setSelectedImage] = useState<SelectedImage | null>(null);
@@ -185,7 +240,7 @@ export const ChatMessage: FC<ChatMessageProps> = ({
   const [selectedText, setSelectedText] = useState<string>('');
 
   // --- Hooks ---
-  const { t } = useTranslation();
+  const { t, i18n } = useTranslation();
   const { user } = useAuthStore();
 
   // --- Logic and Event Handlers ---
@@ -196,6 +251,13 @@ export const ChatMessage: FC<ChatMessageProps> = ({
     return originalMessage?.content || '';
   }, [currentChat]);
 
+  // 结果按发送时的模型名称分组，展示时按模型 ID 取当前语言的名称，目录中已没有的模型保留原名称
+  const getModelDisplayName = useCallback((modelName: string): string => {
+    const modelId = message.models.find(model => model.name === modelName)?.id;
+    const model = modelId ? modelManager.getModelById(modelId) : undefined;
+    return model ? getLocalizedModelText(model, i18n.language).name : modelName;
+  }, [message.models, i18n.language]);
+
   const handleJumpToReference = useCallback((messageId: string, resultId: string) => {
     onJumpToReference?.(messageId, resultId);
   }, [onJumpToReference]);
@@ -210,13 +272,25 @@ export const ChatMessage: FC<ChatMessageProps> = ({
     setSelectedImage(null);
   }, []);
 
-  const handleEnterDesign = useCallback(() => {
+  const handleEnterDesign = useCallback((target?: DesignTarget) => {
     if (selectedImage) {
-      onEnterDesign?.(selectedImage);
+      // 预览中切换过图片时以当前展示的图片为准
+      onEnterDesign?.(target ? {
+        ...selectedImage,
+        url: target.url,
+        messageId: target.messageId,
+        resultId: target.id,
+      } : selectedImage, target?.maskUrl);
       setSelectedImage(null);
     }
   }, [onEnterDesign, selectedImage]);
 
+  const handleRegenerate = useCallback((resultId: string) => {
+    // 重新生成后原图片进入历史，关闭预览避免展示过期内容
+    setSelectedImage(null);
+    onRegenerateResult?.(message.id, resultId);
+  }, [onRegenerateResult, message.id]);
+
   const handleTextClick = useCallback((text: string) => {
     console.log('text', text);
     setSelectedText(text);
@@ -255,6 +329,7 @@ export const ChatMessage: FC<ChatMessageProps> = ({
           onClose={handleClosePreview}
           alt="Message image preview"
           onDesignClick={handleEnterDesign}
+          onRegenerate={onRegenerateResult ? handleRegenerate : undefined}
         />
       )}
 
@@ -347,7 +422,11 @@ export const ChatMessage: FC<ChatMessageProps> = ({
                     <>
                       {message.results.status?.generating > 0 
                         ? t('chat.generation.generating')
-                        : message.results.status?.failed === message.results.status?.total
+                        : (message.results.status?.interrupted ?? 0) > 0
+                          ? t('chat.generation.interrupted')
+                        : (message.results.status?.cancelled ?? 0) > 0
+                          ? t('chat.generation.cancelled')
+                          : message.results.status?.failed === message.results.status?.total
                           ? t('chat.generation.failed')
                           : message.results.status?.failed > 0
                             ? t('chat.generation.partialSuccess')
@@ -358,6 +437,16 @@ export const ChatMessage: FC<ChatMessageProps> = ({
                           ({Object.values(message.results.images).flat().length} {t('chat.images')})
                         </span>
                       )}
+                      {onResumeInterrupted && (message.results.status?.interrupted ?? 0) > 0 && (
+                        <button
+                          type="button"
+                          onClick={() => onResumeInterrupted(message.id)}
+                          className="ml-2 inline-flex items-center gap-1 text-xs font-medium text-indigo-600 hover:text-indigo-700 dark:text-indigo-400 dark:hover:text-indigo-300"
+                        >
+                          <ArrowPathIcon className="h-3.5 w-3.5" />
+                          {t('chat.generation.resume', { count: message.results.status.interrupted })}
+                        </button>
+                      )}
                     </>
                   ) : (
                     <>
@@ -387,14 +476,15 @@ export const ChatMessage: FC<ChatMessageProps> = ({
                             isReference: false,
                           })}
                           onTextClick={handleTextClick}
+                          onRegenerate={onRegenerateResult ? () => handleRegenerate(result.id) : undefined}
                         />
                       ))}
                   </div>
                 </div>
               ) : (
                 // 显示模型信息模式下的图片展示
-                Object.entries(message.results.images).map(([modelId, results], index) => (
-                  <div key={modelId} className="mb-4">
+                Object.entries(message.results.images).map(([modelName, results], index) => (
+                  <div key={modelName} className="mb-4">
                     {!message.userImage && (
                       <div className="flex items-center gap-2 mb-2">
                         <div className="h-5 w-5 rounded-full bg-gradient-to-br from-indigo-100 to-indigo-200 dark:from-indigo-500 dark:to-indigo-600 flex items-center justify-center shadow-sm">
@@ -403,7 +493,7 @@ export const ChatMessage: FC<ChatMessageProps> = ({
                           </span>
                         </div>
                         <h4 className="text-sm font-medium text-gray-800 dark:text-gray-200 flex items-center gap-1.5">
-                          <span className="text-indigo-600 dark:text-indigo-400">{modelId}</span>
+                          <span className="text-indigo-600 dark:text-indigo-400">{getModelDisplayName(modelName)}</span>
                           <span className="text-gray-400 dark:text-gray-600">•</span>
                           <span className="text-gray-400 dark:text-gray-500">
                             {results.length} {t('chat.images')}
@@ -425,6 +515,7 @@ export const ChatMessage: FC<ChatMessageProps> = ({
                             isReference: false,
                           })}
                           onTextClick={handleTextClick}
+                          onRegenerate={onRegenerateResult ? () => handleRegenerate(result.id) : undefined}
                         />
                       ))}
                     </div>
@@ -0,0 +1,317 @@
+/**
+ * @file GenerationParamsPanel.tsx
+ * @description Popover panel for advanced generation parameters (size, aspect ratio, seed, steps, CFG, negative prompt)
+ * @author fmw666@github
+ * @date 2025-07-18
+ */
+
+// =================================================================================================
+// Imports
+// =================================================================================================
+
+// --- Core Libraries ---
+import { useState, useEffect, useRef, useCallback, useMemo } from 'react';
+import type { FC, ReactNode } from 'react';
+
+// --- Core-related Libraries ---
+import { useTranslation } from 'react-i18next';
+
+// --- Third-party Libraries ---
+import { AdjustmentsHorizontalIcon, ArrowPathIcon } from '@heroicons/react/24/outline';
+import { AnimatePresence, motion } from 'framer-motion';
+
+// --- Internal Libraries ---
+// --- Services ---
+import { modelManager, type GenerationParamKey } from '@/services/model';
+// --- Types ---
+import type { AspectRatio, GenerationParams, SelectedModel } from '@/types/chat';
+// --- Utils ---
+import { ASPECT_RATIOS, CFG_SCALE_RANGE, IMAGE_QUALITIES, IMAGE_SIZES, STEPS_RANGE, countActiveParams } from '@/utils/generationParams';
+
+// =================================================================================================
+// Type Definitions
+// =================================================================================================
+
+interface GenerationParamsPanelProps {
+  params: GenerationParams;
+  selectedModels: SelectedModel[];
+  onChange: (params: GenerationParams) => void;
+  disabled?: boolean;
+}
+
+interface ParamSupport {
+  disabled: boolean;
+  unsupportedModels: string[];
+}
+
+// =================================================================================================
+// Constants
+// =================================================================================================
+
+const MAX_SEED = 2 ** 32 - 1;
+
+// =================================================================================================
+// Utility Functions
+// =================================================================================================
+
+/**
+ * Parses a number input value, empty input means "use model default"
+ * @param value - Raw input value
+ * @returns Parsed number or undefined
+ */
+const parseOptionalNumber = (value: string): number | undefined => {
+  if (value.trim() === '') return undefined;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : undefined;
+};
+
+// =================================================================================================
+// Component
+// =================================================================================================
+
+export const GenerationParamsPanel: FC<GenerationParamsPanelProps> = ({
+  params,
+  selectedModels,
+  onChange,
+  disabled = false,
+}) => {
+  // --- State and Refs ---
+  const [isOpen, setIsOpen] = useState(false);
+  const panelRef = useRef<HTMLDivElement>(null);
+
+  // --- Hooks ---
+  const { t } = useTranslation();
+
+  // --- Computed Values ---
+  const activeCount = useMemo(() => countActiveParams(params), [params]);
+
+  // 根据已选模型判断参数或选项是否生效：全部不支持时置灰，部分不支持时提示
+  const getSupport = useCallback((isSupported: (modelId: string) => boolean): ParamSupport => {
+    const unsupportedModels = selectedModels
+      .filter(({ id }) => !isSupported(id))
+      .map(({ name }) => name);
+    return {
+      disabled: selectedModels.length > 0 && unsupportedModels.length === selectedModels.length,
+      unsupportedModels,
+    };
+  }, [selectedModels]);
+
+  const getParamSupport = useCallback((key: GenerationParamKey): ParamSupport => (
+    getSupport(modelId => modelManager.supportsParam(modelId, key))
+  ), [getSupport]);
+
+  // --- Logic and Event Handlers ---
+  const handleClickOutside = useCallback((event: MouseEvent) => {
+    if (panelRef.current && !panelRef.current.contains(event.target as Node)) {
+      setIsOpen(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (isOpen) {
+      document.addEventListener('mousedown', handleClickOutside);
+    }
+    return () => {
+      document.removeEventListener('mousedown', handleClickOutside);
+    };
+  }, [isOpen, handleClickOutside]);
+
+  const handleParamChange = useCallback(<K extends keyof GenerationParams>(key: K, value: GenerationParams[K]) => {
+    onChange({ ...params, [key]: value });
+  }, [params, onChange]);
+
+  const handleRandomSeed = useCallback(() => {
+    handleParamChange('seed', Math.floor(Math.random() * MAX_SEED));
+  }, [handleParamChange]);
+
+  const handleReset = useCallback(() => {
+    onChange({});
+  }, [onChange]);
+
+  // --- Render Logic ---
+  const getSupportHint = (support: ParamSupport) => (
+    support.disabled
+      ? t('chat.params.unsupported')
+      : support.unsupportedModels.length > 0
+        ? t('chat.params.partiallyUnsupported', { models: support.unsupportedModels.join('、') })
+        : undefined
+  );
+
+  const renderField = (key: GenerationParamKey, label: string, children: ReactNode) => {
+    const support = getParamSupport(key);
+    const hint = getSupportHint(support);
+    return (
+      <fieldset
+        disabled={support.disabled}
+        title={hint}
+        className={`space-y-1.5 ${support.disabled ? 'opacity-40 cursor-not-allowed' : ''}`}
+      >
+        <legend className="flex items-center gap-1 text-xs font-medium text-gray-700 dark:text-gray-300">
+          {label}
+          {!support.disabled && support.unsupportedModels.length > 0 && (
+            <span className="text-amber-500">*</span>
+          )}
+        </legend>
+        {children}
+      </fieldset>
+    );
+  };
+
+  // 模型目录限定了可选的宽高比或尺寸时，已选模型均不支持的选项置灰
+  const renderChip = (isActive: boolean, label: string, onClick: () => void, support?: ParamSupport) => (
+    <button
+      key={label}
+      type="button"
+      onClick={onClick}
+      disabled={support?.disabled}
+      title={support ? getSupportHint(support) : undefined}
+      className={`px-2.5 py-1 text-xs rounded-lg border transition-colors duration-200 disabled:opacity-40 disabled:cursor-not-allowed ${
+        isActive
+          ? 'bg-indigo-50 dark:bg-indigo-900/50 border-indigo-300 dark:border-indigo-700 text-indigo-700 dark:text-indigo-300'
+          : 'border-gray-200 dark:border-gray-700 text-gray-600 dark:text-gray-400 hover:bg-gray-50 dark:hover:bg-gray-800'
+      }`}
+    >
+      {label}
+    </button>
+  );
+
+  const inputClassName = 'w-full px-3 py-1.5 text-xs text-gray-900 dark:text-gray-100 placeholder-gray-400 bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded-lg outline-none focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500 disabled:cursor-not-allowed';
+
+  return (
+    <div className="relative" ref={panelRef}>
+      <button
+        type="button"
+        onClick={() => setIsOpen(!isOpen)}
+        disabled={disabled}
+        className={`flex items-center transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed ${
+          activeCount > 0 ? 'text-indigo-600 dark:text-indigo-400' : 'hover:text-gray-700 dark:hover:text-gray-300'
+        }`}
+      >
+        <AdjustmentsHorizontalIcon className="h-4 w-4 mr-1" />
+        {activeCount > 0 ? t('chat.params.titleWithCount', { count: activeCount }) : t('chat.params.title')}
+      </button>
+
+      <AnimatePresence>
+        {isOpen && (
+          <motion.div
+            initial={{ opacity: 0, y: 8 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: 8 }}
+            transition={{ duration: 0.15 }}
+            className="absolute bottom-full left-0 mb-2 w-80 max-w-[calc(100vw-2rem)] p-4 space-y-4 bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded-xl shadow-lg z-20"
+          >
+            <div className="flex items-center justify-between">
+              <h4 className="text-sm font-semibold text-gray-900 dark:text-white">
+                {t('chat.params.title')}
+              </h4>
+              <button
+                type="button"
+                onClick={handleReset}
+                disabled={activeCount === 0}
+                className="text-xs text-gray-500 hover:text-indigo-600 dark:hover:text-indigo-400 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {t('chat.params.reset')}
+              </button>
+            </div>
+
+            {renderField('size', t('chat.params.aspectRatio'), (
+              <div className="flex flex-wrap gap-1.5">
+                {renderChip(!params.aspectRatio, t('chat.params.auto'), () => handleParamChange('aspectRatio', undefined))}
+                {ASPECT_RATIOS.map(ratio => renderChip(
+                  params.aspectRatio === ratio,
+                  ratio,
+                  () => handleParamChange('aspectRatio', ratio as AspectRatio),
+                  getSupport(modelId => modelManager.supportsAspectRatio(modelId, ratio))
+                ))}
+              </div>
+            ))}
+
+            {renderField('size', t('chat.params.size'), (
+              <div className="flex flex-wrap gap-1.5">
+                {renderChip(!params.size, t('chat.params.auto'), () => handleParamChange('size', undefined))}
+                {IMAGE_SIZES.map(size => renderChip(
+                  params.size === size,
+                  `${size}px`,
+                  () => handleParamChange('size', size),
+                  getSupport(modelId => modelManager.supportsImageSize(modelId, size))
+                ))}
+              </div>
+            ))}
+
+            {renderField('quality', t('chat.params.quality'), (
+              <div className="flex flex-wrap gap-1.5">
+                {renderChip(!params.quality, t('chat.params.auto'), () => handleParamChange('quality', undefined))}
+                {IMAGE_QUALITIES.map(quality => renderChip(
+                  params.quality === quality,
+                  t(`chat.params.qualityOptions.${quality}`),
+                  () => handleParamChange('quality', quality)
+                ))}
+              </div>
+            ))}
+
+            <div className="grid grid-cols-3 gap-3">
+              {renderField('seed', t('chat.params.seed'), (
+                <div className="relative">
+                  <input
+                    type="number"
+                    min={0}
+                    max={MAX_SEED}
+                    value={params.seed ?? ''}
+                    onChange={(e) => handleParamChange('seed', parseOptionalNumber(e.target.value))}
+                    placeholder={t('chat.params.random')}
+                    className={`${inputClassName} pr-7`}
+                  />
+                  <button
+                    type="button"
+                    onClick={handleRandomSeed}
+                    className="absolute right-1.5 top-1/2 -translate-y-1/2 p-0.5 text-gray-400 hover:text-indigo-500 disabled:cursor-not-allowed"
+                    aria-label={t('chat.params.randomSeed')}
+                  >
+                    <ArrowPathIcon className="h-3.5 w-3.5" />
+                  </button>
+                </div>
+              ))}
+              {renderField('steps', t('chat.params.steps'), (
+                <input
+                  type="number"
+                  min={STEPS_RANGE.min}
+                  max={STEPS_RANGE.max}
+                  value={params.steps ?? ''}
+                  onChange={(e) => handleParamChange('steps', parseOptionalNumber(e.target.value))}
+                  placeholder={t('chat.params.default')}
+                  className={inputClassName}
+                />
+              ))}
+              {renderField('cfgScale', t('chat.params.cfgScale'), (
+                <input
+                  type="number"
+                  min={CFG_SCALE_RANGE.min}
+                  max={CFG_SCALE_RANGE.max}
+                  step={CFG_SCALE_RANGE.step}
+                  value={params.cfgScale ?? ''}
+                  onChange={(e) => handleParamChange('cfgScale', parseOptionalNumber(e.target.value))}
+                  placeholder={t('chat.params.default')}
+                  className={inputClassName}
+                />
+              ))}
+            </div>
+
+            {renderField('negativePrompt', t('chat.params.negativePrompt'), (
+              <textarea
+                value={params.negativePrompt ?? ''}
+                onChange={(e) => handleParamChange('negativePrompt', e.target.value || undefined)}
+                placeholder={t('chat.params.negativePromptPlaceholder')}
+                rows={2}
+                className={`${inputClassName} resize-none`}
+              />
+            ))}
+
+            <p className="text-[11px] leading-4 text-gray-400 dark:text-gray-500">
+              {t('chat.params.hint')}
+            </p>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+};
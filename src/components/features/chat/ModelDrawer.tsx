@@ -17,16 +17,18 @@ import type { FC } from 'react';
 import { useTranslation } from 'react-i18next';
 
 // --- Third-party Libraries ---
-import { MagnifyingGlassIcon, XMarkIcon, PlusIcon } from '@heroicons/react/24/outline';
+import { ExclamationTriangleIcon, MagnifyingGlassIcon, XMarkIcon, PlusIcon } from '@heroicons/react/24/outline';
 import { AnimatePresence, motion } from 'framer-motion';
 
 // --- Internal Libraries ---
 // --- Hooks ---
 import { useModel } from '@/hooks/model';
 // --- Services ---
-import { type ImageModel } from '@/services/model/modelManager';
+import { modelManager, type ImageModel } from '@/services/model/modelManager';
+// --- Types ---
+import type { DesignImage } from '@/types/chat';
 // --- Utils ---
-import { getDefaultSelectedModels } from '@/utils/modelUtils';
+import { getDefaultSelectedModels, getLocalizedModelText, getRequiredCapability, isModelDeprecated, isModelRetired } from '@/utils/modelUtils';
 
 // =================================================================================================
 // Type Definitions
@@ -42,6 +44,7 @@ interface SelectedModel {
 interface ModelDrawerProps {
   selectedModels: SelectedModel[];
   onModelChange: (models: SelectedModel[]) => void;
+  designImage?: DesignImage | null;  // 存在时只能选择支持图片编辑（或局部重绘）的模型
   disabled?: boolean;
 }
 
@@ -50,10 +53,8 @@ interface ModelDrawerProps {
 // =================================================================================================
 
 const MIN_COUNT = 1;
-const MAX_COUNT = 4;
 const DEFAULT_CATEGORY = 'all';
 const DRAWER_MAX_HEIGHT = '60vh';
-const DATE_LOCALE = 'zh-CN';
 const DATE_OPTIONS = {
   year: 'numeric',
   month: 'long',
@@ -80,10 +81,11 @@ const sortModelsByPublishDate = (models: ImageModel[]): ImageModel[] => {
 /**
  * Formats a date to a localized string
  * @param date - Date to format
+ * @param locale - Language of the UI
  * @returns Formatted date string
  */
-const formatDate = (date: string | number | Date): string => {
-  return new Date(date).toLocaleDateString(DATE_LOCALE, DATE_OPTIONS);
+const formatDate = (date: string | number | Date, locale: string): string => {
+  return new Date(date).toLocaleDateString(locale, DATE_OPTIONS);
 };
 
 // =================================================================================================
@@ -93,6 +95,7 @@ const formatDate = (date: string | number | Date): string => {
 export const ModelDrawer: FC<ModelDrawerProps> = ({
   selectedModels,
   onModelChange,
+  designImage = null,
   disabled = false
 }) => {
   // --- State and Refs ---
@@ -104,7 +107,7 @@ export const ModelDrawer: FC<ModelDrawerProps> = ({
   const isInitialMount = useRef(true);
 
   // --- Hooks ---
-  const { t } = useTranslation();
+  const { t, i18n } = useTranslation();
   const {
     isLoading,
     isInitialized,
@@ -112,6 +115,8 @@ export const ModelDrawer: FC<ModelDrawerProps> = ({
   } = useModel();
 
   // --- Computed Values ---
+  const requiredCapability = getRequiredCapability(designImage);
+
   // Get only enabled and test-passed models
   const enabledModels = useMemo(() => {
     if (isLoading || !isInitialized) return [];
@@ -125,11 +130,32 @@ export const ModelDrawer: FC<ModelDrawerProps> = ({
     return [DEFAULT_CATEGORY, ...uniqueCategories];
   }, [enabledModels]);
 
+  // 模型名称、描述与分类按当前语言展示，分组与已选模型仍使用目录中的默认取值
+  const localize = useCallback((model: ImageModel) => getLocalizedModelText(model, i18n.language), [i18n.language]);
+
+  const categoryLabels = useMemo(() => (
+    new Map(enabledModels.map(model => [model.category, localize(model).category]))
+  ), [enabledModels, localize]);
+
   // --- Logic and Event Handlers ---
+  // 弃用或已下线模型的提示，附带下线日期与替代模型
+  const getLifecycleHint = useCallback((model: ImageModel): string | undefined => {
+    if (!isModelDeprecated(model)) return undefined;
+    const date = model.sunsetDate ? formatDate(model.sunsetDate, i18n.language) : '';
+    const status = isModelRetired(model)
+      ? t('model.retired', { date })
+      : date ? t('model.sunset', { date }) : t('model.deprecated');
+    const replacement = model.replacedBy ? modelManager.getModelById(model.replacedBy) : undefined;
+    return replacement ? `${status}${t('model.replacedBy', { name: localize(replacement).name })}` : status;
+  }, [t, i18n.language, localize]);
+
   // Set default models only on initial mount
   useEffect(() => {
     if (isInitialMount.current && enabledModels.length > 0) {
-      const sortedModels = sortModelsByPublishDate(enabledModels);
+      // 默认选中的模型需能直接文生图，仅支持图片编辑的模型不参与
+      const sortedModels = sortModelsByPublishDate(
+        enabledModels.filter(model => modelManager.supportsCapability(model.id, 'textToImage'))
+      );
       const defaultModels = getDefaultSelectedModels(sortedModels);
       onModelChange(defaultModels);
       isInitialMount.current = false;
@@ -153,21 +179,23 @@ export const ModelDrawer: FC<ModelDrawerProps> = ({
     };
   }, [isOpen, handleClickOutside]);
 
-  // Filter models based on category and search query
+  // Filter models based on category and search query (matches both the localized and the default text)
   const filteredModels = useMemo(() => {
+    const query = searchQuery.toLowerCase();
     return enabledModels.filter(model => {
+      const { name, description } = localize(model);
       const matchesCategory = selectedCategory === DEFAULT_CATEGORY || model.category === selectedCategory;
-      const matchesSearch = model.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
-                           model.description.toLowerCase().includes(searchQuery.toLowerCase());
+      const matchesSearch = [name, description, model.name, model.description]
+        .some(text => text.toLowerCase().includes(query));
       return matchesCategory && matchesSearch;
     });
-  }, [enabledModels, selectedCategory, searchQuery]);
+  }, [enabledModels, selectedCategory, searchQuery, localize]);
 
   const handleModelSelect = useCallback((modelId: string) => {
     const isSelected = selectedModels.some(m => m.id === modelId);
     if (isSelected) {
       onModelChange(selectedModels.filter(m => m.id !== modelId));
-    } else {
+    } else if (modelManager.supportsCapability(modelId, requiredCapability) && !modelManager.isModelRetired(modelId)) {
       const model = enabledModels.find(m => m.id === modelId);
       onModelChange([...selectedModels, { 
         id: modelId, 
@@ -176,10 +204,10 @@ export const ModelDrawer: FC<ModelDrawerProps> = ({
         name: model?.name || '' 
       }]);
     }
-  }, [selectedModels, onModelChange, enabledModels]);
+  }, [selectedModels, onModelChange, enabledModels, requiredCapability]);
 
   const handleCountChange = useCallback((modelId: string, newCount: number) => {
-    const validCount = Math.max(MIN_COUNT, Math.min(MAX_COUNT, newCount));
+    const validCount = Math.max(MIN_COUNT, Math.min(modelManager.getMaxCount(modelId), newCount));
     onModelChange(
       selectedModels.map(m => 
         m.id === modelId ? { ...m, count: validCount } : m
@@ -228,23 +256,29 @@ export const ModelDrawer: FC<ModelDrawerProps> = ({
           <>
             {selectedModels.map(({ id, count }) => {
               const model = enabledModels.find(m => m.id === id);
+              const lifecycleHint = model && getLifecycleHint(model);
               return (
                 <div
                   key={id}
+                  title={lifecycleHint}
                   className="flex items-center gap-2 px-3 py-1 bg-indigo-50 dark:bg-indigo-900 text-indigo-700 dark:text-indigo-300 rounded-full text-sm"
                 >
-                  <span>{model?.name}</span>
+                  {lifecycleHint && <ExclamationTriangleIcon className="h-4 w-4 text-amber-500" />}
+                  <span>{model && localize(model).name}</span>
                   <div className="flex items-center gap-1">
                     <button
                       onClick={() => handleCountChange(id, count - 1)}
-                      className="w-5 h-5 flex items-center justify-center rounded-full bg-indigo-100 dark:bg-indigo-500 hover:bg-indigo-200 dark:hover:bg-indigo-600"
+                      disabled={count <= MIN_COUNT}
+                      className="w-5 h-5 flex items-center justify-center rounded-full bg-indigo-100 dark:bg-indigo-500 hover:bg-indigo-200 dark:hover:bg-indigo-600 disabled:opacity-40 disabled:cursor-not-allowed"
                     >
                       -
                     </button>
                     <span className="text-xs font-medium">{count}</span>
                     <button
                       onClick={() => handleCountChange(id, count + 1)}
-                      className="w-5 h-5 flex items-center justify-center rounded-full bg-indigo-100 dark:bg-indigo-500 hover:bg-indigo-200 dark:hover:bg-indigo-600"
+                      disabled={count >= modelManager.getMaxCount(id)}
+                      title={count >= modelManager.getMaxCount(id) ? t('model.maxCount', { count: modelManager.getMaxCount(id) }) : undefined}
+                      className="w-5 h-5 flex items-center justify-center rounded-full bg-indigo-100 dark:bg-indigo-500 hover:bg-indigo-200 dark:hover:bg-indigo-600 disabled:opacity-40 disabled:cursor-not-allowed"
                     >
                       +
                     </button>
@@ -309,11 +343,19 @@ export const ModelDrawer: FC<ModelDrawerProps> = ({
                   {filteredModels.map((model) => {
                     const isSelected = selectedModels.some(m => m.id === model.id);
                     const selectedCount = selectedModels.find(m => m.id === model.id)?.count || 1;
+                    const maxCount = modelManager.getMaxCount(model.id);
+                    // 不具备当前模式所需能力或已下线的模型不可选择，已选中的仍可取消
+                    const isUnsupported = !modelManager.supportsCapability(model.id, requiredCapability);
+                    const isDisabled = isUnsupported || isModelRetired(model);
+                    const lifecycleHint = getLifecycleHint(model);
+                    const { name, description } = localize(model);
                     return (
                       <div
                         key={model.id}
                         onClick={() => handleModelSelect(model.id)}
-                        className={`w-full p-3 rounded-lg text-left transition-colors cursor-pointer ${
+                        className={`w-full p-3 rounded-lg text-left transition-colors ${
+                          isDisabled && !isSelected ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer'
+                        } ${
                           isSelected
                             ? 'bg-indigo-50 dark:bg-indigo-900 border-indigo-200 dark:border-indigo-800'
                             : 'hover:bg-gray-50 dark:hover:bg-gray-800 border-transparent'
@@ -321,11 +363,22 @@ export const ModelDrawer: FC<ModelDrawerProps> = ({
                       >
                         <div className="flex justify-between items-start">
                           <div>
-                            <h3 className="font-medium text-gray-900 dark:text-gray-100">{model.name}</h3>
-                            <p className="text-sm text-gray-500 dark:text-gray-400">{model.description}</p>
+                            <h3 className="font-medium text-gray-900 dark:text-gray-100">{name}</h3>
+                            <p className="text-sm text-gray-500 dark:text-gray-400">{description}</p>
                             {model.publishDate && (
                               <p className="text-xs text-gray-400 dark:text-gray-600 mt-1">
-                                {t('model.publishDate')}: {formatDate(model.publishDate)}
+                                {t('model.publishDate')}: {formatDate(model.publishDate, i18n.language)}
+                              </p>
+                            )}
+                            {isUnsupported && (
+                              <p className="text-xs text-amber-600 dark:text-amber-400 mt-1">
+                                {t(`model.unsupported.${requiredCapability}`)}
+                              </p>
+                            )}
+                            {lifecycleHint && (
+                              <p className="flex items-center gap-1 text-xs text-amber-600 dark:text-amber-400 mt-1">
+                                <ExclamationTriangleIcon className="h-3.5 w-3.5 flex-shrink-0" />
+                                {lifecycleHint}
                               </p>
                             )}
                           </div>
@@ -333,14 +386,17 @@ export const ModelDrawer: FC<ModelDrawerProps> = ({
                             <div className="flex items-center gap-2">
                               <button
                                 onClick={(e) => handleCountButtonClick(e, model.id, -1)}
-                                className="w-6 h-6 flex items-center justify-center rounded-full bg-gray-100 dark:bg-gray-500 hover:bg-gray-200 dark:hover:bg-gray-600"
+                                disabled={selectedCount <= MIN_COUNT}
+                                className="w-6 h-6 flex items-center justify-center rounded-full bg-gray-100 dark:bg-gray-500 hover:bg-gray-200 dark:hover:bg-gray-600 disabled:opacity-40 disabled:cursor-not-allowed"
                               >
                                 -
                               </button>
                               <span className="text-sm font-medium text-gray-900 dark:text-gray-100">{selectedCount}</span>
                               <button
                                 onClick={(e) => handleCountButtonClick(e, model.id, 1)}
-                                className="w-6 h-6 flex items-center justify-center rounded-full bg-gray-100 dark:bg-gray-500 hover:bg-gray-200 dark:hover:bg-gray-600"
+                                disabled={selectedCount >= maxCount}
+                                title={selectedCount >= maxCount ? t('model.maxCount', { count: maxCount }) : undefined}
+                                className="w-6 h-6 flex items-center justify-center rounded-full bg-gray-100 dark:bg-gray-500 hover:bg-gray-200 dark:hover:bg-gray-600 disabled:opacity-40 disabled:cursor-not-allowed"
                               >
                                 +
                               </button>
@@ -419,7 +475,7 @@ export const ModelDrawer: FC<ModelDrawerProps> = ({
                         : 'bg-gray-100 text-gray-700 dark:bg-gray-800 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700'
                     }`}
                   >
-                    {category === DEFAULT_CATEGORY ? t('model.all') : category}
+                    {category === DEFAULT_CATEGORY ? t('model.all') : categoryLabels.get(category) ?? category}
                   </button>
                 ))}
               </div>}
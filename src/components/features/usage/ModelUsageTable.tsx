@@ -0,0 +1,83 @@
+/**
+ * @file ModelUsageTable.tsx
+ * @description Table of generation count, success rate, average latency and favorite rate per model.
+ * @author fmw666@github
+ * @date 2025-07-18
+ */
+
+// =================================================================================================
+// Imports
+// =================================================================================================
+
+// --- Core Libraries ---
+import type { FC } from 'react';
+
+// --- Core-related Libraries ---
+import { useTranslation } from 'react-i18next';
+
+// --- Internal Libraries ---
+// --- Utils ---
+import { formatLatency, formatRate, type ModelUsageStats } from '@/utils/usageStats';
+
+// =================================================================================================
+// Type Definitions
+// =================================================================================================
+
+interface ModelUsageTableProps {
+  models: ModelUsageStats[];
+}
+
+// =================================================================================================
+// Component
+// =================================================================================================
+
+const ModelUsageTable: FC<ModelUsageTableProps> = ({ models }) => {
+  // --- Hooks ---
+  const { t } = useTranslation();
+
+  // --- Render Logic ---
+  return (
+    <div className="p-4 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-xl">
+      <h3 className="mb-3 text-sm font-semibold text-gray-900 dark:text-white">
+        {t('usage.models.title')}
+      </h3>
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-xs text-left text-gray-500 dark:text-gray-400 border-b border-gray-100 dark:border-gray-700">
+              <th className="py-2 pr-4 font-medium">{t('usage.models.model')}</th>
+              <th className="py-2 pr-4 font-medium text-right">{t('usage.models.total')}</th>
+              <th className="py-2 pr-4 font-medium min-w-[140px]">{t('usage.models.successRate')}</th>
+              <th className="py-2 pr-4 font-medium text-right">{t('usage.models.avgLatency')}</th>
+              <th className="py-2 font-medium text-right">{t('usage.models.favoriteRate')}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {models.map(model => (
+              <tr key={model.name} className="border-b last:border-b-0 border-gray-100 dark:border-gray-700 text-gray-700 dark:text-gray-300">
+                <td className="py-2 pr-4 whitespace-nowrap">{model.name}</td>
+                <td className="py-2 pr-4 text-right tabular-nums">{model.total}</td>
+                <td className="py-2 pr-4">
+                  <div className="flex items-center gap-2">
+                    <div className="flex-1 h-1.5 rounded-full bg-red-100 dark:bg-red-900/40 overflow-hidden">
+                      <div className="h-full bg-green-500" style={{ width: formatRate(model.successRate) }} />
+                    </div>
+                    <span className="w-12 text-right text-xs tabular-nums">{formatRate(model.successRate)}</span>
+                  </div>
+                </td>
+                <td className="py-2 pr-4 text-right tabular-nums">{formatLatency(model.avgLatencyMs)}</td>
+                <td className="py-2 text-right tabular-nums">{formatRate(model.favoriteRate)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+// =================================================================================================
+// Default Export
+// =================================================================================================
+
+export default ModelUsageTable;
@@ -0,0 +1,70 @@
+/**
+ * @file TopErrorsList.tsx
+ * @description List of the most common error messages of failed generations.
+ * @author fmw666@github
+ * @date 2025-07-18
+ */
+
+// =================================================================================================
+// Imports
+// =================================================================================================
+
+// --- Core Libraries ---
+import type { FC } from 'react';
+
+// --- Core-related Libraries ---
+import { useTranslation } from 'react-i18next';
+
+// --- Internal Libraries ---
+// --- Utils ---
+import type { ErrorUsageStats } from '@/utils/usageStats';
+
+// =================================================================================================
+// Type Definitions
+// =================================================================================================
+
+interface TopErrorsListProps {
+  errors: ErrorUsageStats[];
+}
+
+// =================================================================================================
+// Component
+// =================================================================================================
+
+const TopErrorsList: FC<TopErrorsListProps> = ({ errors }) => {
+  // --- Hooks ---
+  const { t } = useTranslation();
+
+  // --- Render Logic ---
+  return (
+    <div className="p-4 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-xl">
+      <h3 className="mb-3 text-sm font-semibold text-gray-900 dark:text-white">
+        {t('usage.errors.title')}
+      </h3>
+      {errors.length === 0 ? (
+        <p className="py-6 text-sm text-center text-gray-400 dark:text-gray-500">
+          {t('usage.errors.empty')}
+        </p>
+      ) : (
+        <ul className="space-y-2">
+          {errors.map(({ message, count }) => (
+            <li key={message} className="flex items-start justify-between gap-3 text-sm">
+              <span className="text-gray-700 dark:text-gray-300 break-all" title={message}>
+                {message || t('usage.errors.unknown')}
+              </span>
+              <span className="shrink-0 px-2 py-0.5 text-xs rounded-full tabular-nums bg-red-50 dark:bg-red-900/30 text-red-600 dark:text-red-400">
+                {count}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+// =================================================================================================
+// Default Export
+// =================================================================================================
+
+export default TopErrorsList;
@@ -0,0 +1,74 @@
+/**
+ * @file UsageSummaryCards.tsx
+ * @description Summary cards showing total generations, success rate, average latency and favorite rate.
+ * @author fmw666@github
+ * @date 2025-07-18
+ */
+
+// =================================================================================================
+// Imports
+// =================================================================================================
+
+// --- Core Libraries ---
+import type { FC } from 'react';
+
+// --- Core-related Libraries ---
+import { useTranslation } from 'react-i18next';
+
+// --- Third-party Libraries ---
+import { CheckCircleIcon, ClockIcon, SparklesIcon, StarIcon } from '@heroicons/react/24/outline';
+
+// --- Internal Libraries ---
+// --- Utils ---
+import { formatLatency, formatRate, type UsageStats } from '@/utils/usageStats';
+
+// =================================================================================================
+// Type Definitions
+// =================================================================================================
+
+interface UsageSummaryCardsProps {
+  stats: UsageStats;
+}
+
+// =================================================================================================
+// Component
+// =================================================================================================
+
+const UsageSummaryCards: FC<UsageSummaryCardsProps> = ({ stats }) => {
+  // --- Hooks ---
+  const { t } = useTranslation();
+
+  // --- Computed Values ---
+  const cards = [
+    { id: 'total', icon: SparklesIcon, label: t('usage.summary.total'), value: String(stats.total) },
+    { id: 'successRate', icon: CheckCircleIcon, label: t('usage.summary.successRate'), value: formatRate(stats.successRate) },
+    { id: 'avgLatency', icon: ClockIcon, label: t('usage.summary.avgLatency'), value: formatLatency(stats.avgLatencyMs) },
+    { id: 'favoriteRate', icon: StarIcon, label: t('usage.summary.favoriteRate'), value: formatRate(stats.favoriteRate) },
+  ];
+
+  // --- Render Logic ---
+  return (
+    <div className="grid grid-cols-2 lg:grid-cols-4 gap-3 sm:gap-4">
+      {cards.map(({ id, icon: Icon, label, value }) => (
+        <div
+          key={id}
+          className="p-4 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-xl"
+        >
+          <div className="flex items-center gap-1.5 text-xs text-gray-500 dark:text-gray-400">
+            <Icon className="h-4 w-4" />
+            {label}
+          </div>
+          <div className="mt-2 text-2xl font-semibold text-gray-900 dark:text-white">
+            {value}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+// =================================================================================================
+// Default Export
+// =================================================================================================
+
+export default UsageSummaryCards;
@@ -0,0 +1,100 @@
+/**
+ * @file UsageTrendChart.tsx
+ * @description Stacked bar chart of succeeded and failed generations per day.
+ * @author fmw666@github
+ * @date 2025-07-18
+ */
+
+// =================================================================================================
+// Imports
+// =================================================================================================
+
+// --- Core Libraries ---
+import { useMemo } from 'react';
+import type { FC } from 'react';
+
+// --- Core-related Libraries ---
+import { useTranslation } from 'react-i18next';
+
+// --- Internal Libraries ---
+// --- Utils ---
+import type { DailyUsageStats } from '@/utils/usageStats';
+
+// =================================================================================================
+// Type Definitions
+// =================================================================================================
+
+interface UsageTrendChartProps {
+  daily: DailyUsageStats[];
+}
+
+// =================================================================================================
+// Constants
+// =================================================================================================
+
+const MAX_AXIS_LABELS = 7;
+
+// =================================================================================================
+// Component
+// =================================================================================================
+
+const UsageTrendChart: FC<UsageTrendChartProps> = ({ daily }) => {
+  // --- Hooks ---
+  const { t } = useTranslation();
+
+  // --- Computed Values ---
+  const maxTotal = useMemo(() => Math.max(1, ...daily.map(day => day.success + day.failed)), [daily]);
+  // 天数较多时只标注部分日期，避免横轴文字重叠
+  const labelStep = Math.ceil(daily.length / MAX_AXIS_LABELS);
+
+  // --- Render Logic ---
+  return (
+    <div className="p-4 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-xl">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-sm font-semibold text-gray-900 dark:text-white">
+          {t('usage.trend.title')}
+        </h3>
+        <div className="flex items-center gap-3 text-xs text-gray-500 dark:text-gray-400">
+          <span className="flex items-center gap-1">
+            <span className="h-2.5 w-2.5 rounded-sm bg-indigo-500" />
+            {t('usage.trend.success')}
+          </span>
+          <span className="flex items-center gap-1">
+            <span className="h-2.5 w-2.5 rounded-sm bg-red-400" />
+            {t('usage.trend.failed')}
+          </span>
+        </div>
+      </div>
+
+      <div className="flex items-end gap-px sm:gap-1 h-40">
+        {daily.map(day => (
+          <div
+            key={day.date}
+            className="flex-1 h-full flex flex-col justify-end"
+            title={`${day.date}  ${t('usage.trend.success')} ${day.success} / ${t('usage.trend.failed')} ${day.failed}`}
+          >
+            <div className="bg-red-400 rounded-t-sm" style={{ height: `${(day.failed / maxTotal) * 100}%` }} />
+            <div
+              className={`bg-indigo-500 ${day.failed === 0 ? 'rounded-t-sm' : ''}`}
+              style={{ height: `${(day.success / maxTotal) * 100}%` }}
+            />
+          </div>
+        ))}
+      </div>
+
+      <div className="flex gap-px sm:gap-1 mt-2 text-[10px] text-gray-400 dark:text-gray-500">
+        {daily.map((day, index) => (
+          <div key={day.date} className="flex-1 text-center whitespace-nowrap overflow-visible">
+            {index % labelStep === 0 ? day.date.slice(5) : ''}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+// =================================================================================================
+// Default Export
+// =================================================================================================
+
+export default UsageTrendChart;
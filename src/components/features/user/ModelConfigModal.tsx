@@ -28,7 +28,10 @@ import { Modal } from '@/components/shared/common/Modal';
 import { useAuth } from '@/hooks/auth';
 import { useModel } from '@/hooks/model';
 // --- Services ---
-import { TestStatus } from '@/services/model';
+import { modelApiManager } from '@/services/api';
+import { getMissingCredentials, providerRegistry, TestStatus, type CredentialField, type ModelGroupType, type ModelLocaleText } from '@/services/model';
+// --- Utils ---
+import { getLocalizedModelText } from '@/utils/modelUtils';
 
 // --- Relative Imports ---
 import ModelDetailModal from './ModelDetailModal';
@@ -37,24 +40,25 @@ import ModelDetailModal from './ModelDetailModal';
 // Type Definitions
 // =================================================================================================
 
+type Credentials = Record<string, string>;
+
 interface ModelConfig {
   id: string;
   name: string;
+  locales?: Record<string, ModelLocaleText>;  // 按语言覆盖服务商名称
   enabled: boolean;
-  apiKey: string;
-  apiSecret: string;
-  arkApiKey?: string;
+  credentialSchema: CredentialField[];
+  credentials: Credentials; // 按服务商凭证字段 key 存储
   systemPrompt: string;
   testStatus: number | null; // 0: not tested, 1: testing, 2: tested failed, 3: tested passed
+  lastTestedAt: string | null;
+  lastTestLatencyMs: number | null;
+  lastTestMessage: string | null; // 失败时为失败原因
   isTesting: boolean;
   isExpanded: boolean;
-  showApiKey: boolean;
-  showApiSecret: boolean;
-  showArkApiKey?: boolean;
+  visibleFields: Record<string, boolean>;
   isEditing: boolean;
-  tempApiKey: string;
-  tempApiSecret: string;
-  tempArkApiKey?: string;
+  tempCredentials: Credentials;
   tempSystemPrompt: string;
 }
 
@@ -67,42 +71,21 @@ interface ModelConfigModalProps {
 // Constants
 // =================================================================================================
 
-const DEFAULT_MODELS: Omit<ModelConfig, 'isExpanded' | 'showApiKey' | 'showApiSecret' | 'showArkApiKey' | 'isEditing' | 'tempApiKey' | 'tempApiSecret' | 'tempArkApiKey' | 'tempSystemPrompt'>[] = [
-  {
-    id: 'doubao',
-    name: '豆包',
-    enabled: false,
-    apiKey: '',
-    apiSecret: '',
-    arkApiKey: '',
-    systemPrompt: '',
-    testStatus: TestStatus.NOT_TESTED,
-    isTesting: false,
-  },
-  {
-    id: 'tongyi',
-    name: '通义万相',
-    enabled: false,
-    apiKey: '',
-    apiSecret: '',
-    systemPrompt: '',
-    testStatus: TestStatus.NOT_TESTED,
-    isTesting: false,
-  },
-  {
-    id: 'openai',
-    name: 'OpenAI',
-    enabled: false,
-    apiKey: '',
-    apiSecret: '', // 保持字段但不渲染
-    systemPrompt: '',
-    testStatus: TestStatus.NOT_TESTED,
-    isTesting: false,
-  }
-];
-
-const TEST_DELAY_MS = 2000;
-const SUCCESS_RATE = 0.7; // 70% success rate for testing
+// 设置页展示所有已注册的服务商，凭证表单由适配器的 credentialSchema 生成
+const DEFAULT_MODELS: Omit<ModelConfig, 'isExpanded' | 'visibleFields' | 'isEditing' | 'tempCredentials' | 'tempSystemPrompt'>[] = providerRegistry.getAll().map(adapter => ({
+  id: adapter.group,
+  name: adapter.name,
+  locales: adapter.locales,
+  enabled: false,
+  credentialSchema: adapter.credentialSchema,
+  credentials: {},
+  systemPrompt: '',
+  testStatus: TestStatus.NOT_TESTED,
+  lastTestedAt: null,
+  lastTestLatencyMs: null,
+  lastTestMessage: null,
+  isTesting: false,
+}));
 
 // =================================================================================================
 // Component
@@ -114,7 +97,7 @@ export const ModelConfigModal: FC<ModelConfigModalProps> = ({ isOpen, onClose })
   const [selectedModelForDetail, setSelectedModelForDetail] = useState<string | null>(null);
 
   // --- Hooks ---
-  const { t } = useTranslation();
+  const { t, i18n } = useTranslation();
   const { user } = useAuth();
   const {
     modelConfigs,
@@ -128,13 +111,9 @@ export const ModelConfigModal: FC<ModelConfigModalProps> = ({ isOpen, onClose })
     const initializedModels = DEFAULT_MODELS.map(model => ({
       ...model,
       isExpanded: false,
-      showApiKey: false,
-      showApiSecret: false,
-      showArkApiKey: false,
+      visibleFields: {},
       isEditing: false,
-      tempApiKey: model.apiKey,
-      tempApiSecret: model.apiSecret,
-      tempArkApiKey: model.arkApiKey ?? '',
+      tempCredentials: model.credentials,
       tempSystemPrompt: model.systemPrompt,
     }));
     setModels(initializedModels);
@@ -145,17 +124,19 @@ export const ModelConfigModal: FC<ModelConfigModalProps> = ({ isOpen, onClose })
       prevModels.map(model => {
         const modelConfig = modelConfigs.find(mc => mc.model_id === model.id);
         if (modelConfig) {
+          const credentials = Object.fromEntries(
+            model.credentialSchema.map(field => [field.key, modelConfig.config_json?.[field.key] ?? ''])
+          );
           return {
             ...model,
             enabled: modelConfig.enabled ?? false,
-            apiKey: modelConfig.config_json?.api_key ?? '',
-            apiSecret: modelConfig.config_json?.api_secret ?? '',
-            arkApiKey: modelConfig.config_json?.ark_api_key ?? '',
+            credentials,
             systemPrompt: modelConfig.config_json?.system_prompt ?? '',
             testStatus: modelConfig.test_status,
-            tempApiKey: modelConfig.config_json?.api_key ?? '',
-            tempApiSecret: modelConfig.config_json?.api_secret ?? '',
-            tempArkApiKey: modelConfig.config_json?.ark_api_key ?? '',
+            lastTestedAt: modelConfig.last_tested_at,
+            lastTestLatencyMs: modelConfig.last_test_latency_ms ?? null,
+            lastTestMessage: modelConfig.last_test_message ?? null,
+            tempCredentials: credentials,
             tempSystemPrompt: modelConfig.config_json?.system_prompt ?? '',
           };
         }
@@ -168,28 +149,21 @@ export const ModelConfigModal: FC<ModelConfigModalProps> = ({ isOpen, onClose })
     toggleModelEnabled(modelId, enabled)
   }, [toggleModelEnabled]);
 
-  const handleModelConfigChange = useCallback((modelId: string, field: 'apiKey' | 'apiSecret' | 'arkApiKey' | 'systemPrompt', value: string) => {
-    setModels(models => models.map(model => model.id === modelId ? { ...model, [field]: value, testStatus: TestStatus.NOT_TESTED } : model));
+  const handleModelConfigChange = useCallback((modelId: string, field: string, value: string) => {
+    setModels(models => models.map(model => {
+      if (model.id !== modelId) return model;
+      return field === 'systemPrompt'
+        ? { ...model, systemPrompt: value, testStatus: TestStatus.NOT_TESTED }
+        : { ...model, credentials: { ...model.credentials, [field]: value }, testStatus: TestStatus.NOT_TESTED };
+    }));
   }, []);
 
   const handleTestConnection = useCallback(async (modelId: string) => {
     const model = models.find(m => m.id === modelId);
     if (!model) return;
-    if (model.id === 'openai') {
-      if (!model.apiKey) {
-        toast.error(t('settings.models.testConnectionError'));
-        return;
-      }
-    } else if (model.id === 'doubao') {
-      if (!model.apiKey || !model.apiSecret || !model.arkApiKey) {
-        toast.error(t('settings.models.testConnectionError'));
-        return;
-      }
-    } else {
-      if (!model.apiKey || !model.apiSecret) {
-        toast.error(t('settings.models.testConnectionError'));
-        return;
-      }
+    if (getMissingCredentials(model.credentialSchema, model.credentials).length > 0) {
+      toast.error(t('settings.models.testConnectionError'));
+      return;
     }
     setModels(prevModels =>
       prevModels.map(m =>
@@ -197,19 +171,25 @@ export const ModelConfigModal: FC<ModelConfigModalProps> = ({ isOpen, onClose })
       )
     );
     try {
-      await new Promise(resolve => setTimeout(resolve, TEST_DELAY_MS));
-      const isSuccess = Math.random() > (1 - SUCCESS_RATE);
-      const testStatus = isSuccess ? TestStatus.TESTED_PASSED : TestStatus.TESTED_FAILED;
-      updateModelTestStatus(modelId, testStatus);
+      const result = await modelApiManager.testConnection(model.id as ModelGroupType, model.credentials);
+      const testStatus = result.success ? TestStatus.TESTED_PASSED : TestStatus.TESTED_FAILED;
+      updateModelTestStatus(modelId, testStatus, { latencyMs: result.latencyMs, message: result.message });
       setModels(prevModels =>
         prevModels.map(m =>
-          m.id === modelId ? { ...m, isTesting: false, testStatus } : m
+          m.id === modelId ? {
+            ...m,
+            isTesting: false,
+            testStatus,
+            lastTestedAt: new Date().toISOString(),
+            lastTestLatencyMs: result.latencyMs,
+            lastTestMessage: result.message,
+          } : m
         )
       );
-      if (isSuccess) {
+      if (result.success) {
         toast.success(t('settings.models.testConnectionSuccess'));
       } else {
-        toast.error(t('settings.models.testConnectionFailed'));
+        toast.error(t('settings.models.testConnectionFailedWithReason', { reason: result.message }));
       }
     } catch (error) {
       setModels(prevModels =>
@@ -241,9 +221,7 @@ export const ModelConfigModal: FC<ModelConfigModalProps> = ({ isOpen, onClose })
           // 只有在不处于编辑状态时才重置编辑状态
           ...(m.id === modelId && !m.isEditing ? {
             isEditing: false,
-            tempApiKey: m.apiKey,
-            tempApiSecret: m.apiSecret,
-            tempArkApiKey: m.arkApiKey ?? '',
+            tempCredentials: m.credentials,
             tempSystemPrompt: m.systemPrompt,
           } : {})
         }))
@@ -251,10 +229,10 @@ export const ModelConfigModal: FC<ModelConfigModalProps> = ({ isOpen, onClose })
     }
   }, [models]);
 
-  const handleToggleApiKeyVisibility = useCallback((modelId: string, field: 'showApiKey' | 'showApiSecret' | 'showArkApiKey') => {
+  const handleToggleFieldVisibility = useCallback((modelId: string, fieldKey: string) => {
     setModels(prevModels => 
       prevModels.map(m => 
-        m.id === modelId ? { ...m, [field]: !m[field] } : m
+        m.id === modelId ? { ...m, visibleFields: { ...m.visibleFields, [fieldKey]: !m.visibleFields[fieldKey] } } : m
       )
     );
   }, []);
@@ -273,9 +251,7 @@ export const ModelConfigModal: FC<ModelConfigModalProps> = ({ isOpen, onClose })
         const updatedModel = m.id === modelId ? { 
           ...m, 
           isEditing: true,
-          tempApiKey: m.apiKey,
-          tempApiSecret: m.apiSecret,
-          tempArkApiKey: m.arkApiKey ?? '',
+          tempCredentials: m.credentials,
           tempSystemPrompt: m.systemPrompt,
         } : m;
         return updatedModel;
@@ -289,9 +265,7 @@ export const ModelConfigModal: FC<ModelConfigModalProps> = ({ isOpen, onClose })
         m.id === modelId ? { 
           ...m, 
           isEditing: false,
-          tempApiKey: m.apiKey,
-          tempApiSecret: m.apiSecret,
-          tempArkApiKey: m.arkApiKey ?? '',
+          tempCredentials: m.credentials,
           tempSystemPrompt: m.systemPrompt,
         } : m
       )
@@ -306,9 +280,7 @@ export const ModelConfigModal: FC<ModelConfigModalProps> = ({ isOpen, onClose })
       m.id === modelId ? { 
         ...m, 
         isEditing: false,
-        apiKey: m.tempApiKey,
-        apiSecret: m.tempApiSecret,
-        arkApiKey: m.tempArkApiKey ?? '',
+        credentials: m.tempCredentials,
         systemPrompt: m.tempSystemPrompt,
         testStatus: TestStatus.NOT_TESTED, // Reset connection status when config changes
       } : m
@@ -317,15 +289,10 @@ export const ModelConfigModal: FC<ModelConfigModalProps> = ({ isOpen, onClose })
     try {
       const updatedModel = updatedModels.find(m => m.id === modelId);
       if (updatedModel) {
-        const configJson: any = {
-          api_key: updatedModel.apiKey,
-          api_secret: updatedModel.apiSecret,
+        updateModelConfigJson(modelId, {
+          ...updatedModel.credentials,
           system_prompt: updatedModel.systemPrompt,
-        };
-        if (modelId === 'doubao') {
-          configJson.ark_api_key = updatedModel.arkApiKey;
-        }
-        updateModelConfigJson(modelId, configJson);
+        });
       }
       toast.success(t('settings.models.configUpdated'));
     } catch (error) {
@@ -334,11 +301,14 @@ export const ModelConfigModal: FC<ModelConfigModalProps> = ({ isOpen, onClose })
     }
   }, [models, user, t, updateModelConfigJson]);
 
-  const handleTempConfigChange = useCallback((modelId: string, field: 'tempApiKey' | 'tempApiSecret' | 'tempArkApiKey' | 'tempSystemPrompt', value: string) => {
+  const handleTempConfigChange = useCallback((modelId: string, field: string, value: string) => {
     setModels(prevModels => 
-      prevModels.map(m => 
-        m.id === modelId ? { ...m, [field]: value } : m
-      )
+      prevModels.map(m => {
+        if (m.id !== modelId) return m;
+        return field === 'tempSystemPrompt'
+          ? { ...m, tempSystemPrompt: value }
+          : { ...m, tempCredentials: { ...m.tempCredentials, [field]: value } };
+      })
     );
   }, []);
 
@@ -352,59 +322,74 @@ export const ModelConfigModal: FC<ModelConfigModalProps> = ({ isOpen, onClose })
 
   // --- Render Logic ---
   // Render API field (hidden/visible)
-  const renderApiField = useCallback((model: ModelConfig, field: 'apiKey' | 'apiSecret' | 'arkApiKey', showField: 'showApiKey' | 'showApiSecret' | 'showArkApiKey') => {
-    const value = model.isEditing ? model[field === 'apiKey' ? 'tempApiKey' : field === 'apiSecret' ? 'tempApiSecret' : 'tempArkApiKey'] : model[field];
-    const isVisible = model[showField] ?? false;
+  const renderApiField = useCallback((model: ModelConfig, field: CredentialField) => {
+    const value = (model.isEditing ? model.tempCredentials[field.key] : model.credentials[field.key]) ?? '';
+    const isSecret = field.secret ?? true;
+    const isVisible = !isSecret || (model.visibleFields[field.key] ?? false);
     const isDisabled = !model.isEditing;
+    const handleChange = (value: string) => {
+      if (model.isEditing) {
+        handleTempConfigChange(model.id, field.key, value);
+      } else {
+        handleModelConfigChange(model.id, field.key, value);
+      }
+    };
+
+    if (field.multiline) {
+      return (
+        <textarea
+          value={value}
+          onChange={(e) => handleChange(e.target.value)}
+          disabled={isDisabled}
+          placeholder={field.placeholder ? t(field.placeholder) : undefined}
+          rows={6}
+          spellCheck={false}
+          className={`block w-full px-4 py-3 border border-gray-200 dark:border-gray-600 rounded-xl shadow-sm placeholder-gray-400 dark:placeholder-gray-500 bg-white dark:bg-gray-800 text-xs font-mono text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 resize-y transition-all duration-200 ${
+            isDisabled ? 'opacity-50 cursor-not-allowed bg-gray-50 dark:bg-gray-700' : ''
+          }`}
+        />
+      );
+    }
+
     return (
       <div className="relative">
         <div className="flex items-center">
           <div className="absolute left-3 top-1/2 transform -translate-y-1/2">
-            {field === 'apiKey' ? (
-              <KeyIcon className="h-4 w-4 text-gray-400" />
-            ) : field === 'apiSecret' ? (
+            {field.icon === 'secret' ? (
               <ShieldCheckIcon className="h-4 w-4 text-gray-400" />
+            ) : field.icon === 'setting' ? (
+              <Cog6ToothIcon className="h-4 w-4 text-gray-400" />
             ) : (
-              <KeyIcon className="h-4 w-4 text-green-400" />
+              <KeyIcon className="h-4 w-4 text-gray-400" />
             )}
           </div>
           <input
             type={isVisible ? "text" : "password"}
             value={value}
-            onChange={(e) => {
-              if (model.isEditing) {
-                handleTempConfigChange(model.id, field === 'apiKey' ? 'tempApiKey' : field === 'apiSecret' ? 'tempApiSecret' : 'tempArkApiKey', e.target.value);
-              } else {
-                handleModelConfigChange(model.id, field, e.target.value);
-              }
-            }}
+            onChange={(e) => handleChange(e.target.value)}
             disabled={isDisabled}
-            placeholder={
-              field === 'apiKey'
-                ? t('settings.models.table.apiKeyPlaceholder')
-                : field === 'apiSecret'
-                ? t('settings.models.table.apiSecretPlaceholder')
-                : 'Ark API Key'
-            }
+            placeholder={field.placeholder ? t(field.placeholder) : undefined}
             className={`block w-full pl-10 pr-12 py-3 border border-gray-200 dark:border-gray-600 rounded-xl shadow-sm placeholder-gray-400 dark:placeholder-gray-500 bg-white dark:bg-gray-800 text-sm text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 transition-all duration-200 ${
               isDisabled ? 'opacity-50 cursor-not-allowed bg-gray-50 dark:bg-gray-700' : ''
             }`}
           />
-          <button
-            type="button"
-            onClick={() => handleToggleApiKeyVisibility(model.id, showField)}
-            className='absolute right-3 top-1/2 transform -translate-y-1/2 p-1 rounded-lg transition-colors duration-200 hover:bg-gray-100 dark:hover:bg-gray-700'
-          >
-            {isVisible ? (
-              <EyeSlashIcon className="h-4 w-4 text-gray-400 hover:text-gray-600" />
-            ) : (
-              <EyeIcon className="h-4 w-4 text-gray-400 hover:text-gray-600" />
-            )}
-          </button>
+          {isSecret && (
+            <button
+              type="button"
+              onClick={() => handleToggleFieldVisibility(model.id, field.key)}
+              className='absolute right-3 top-1/2 transform -translate-y-1/2 p-1 rounded-lg transition-colors duration-200 hover:bg-gray-100 dark:hover:bg-gray-700'
+            >
+              {isVisible ? (
+                <EyeSlashIcon className="h-4 w-4 text-gray-400 hover:text-gray-600" />
+              ) : (
+                <EyeIcon className="h-4 w-4 text-gray-400 hover:text-gray-600" />
+              )}
+            </button>
+          )}
         </div>
       </div>
     );
-  }, [handleTempConfigChange, handleModelConfigChange, t, handleToggleApiKeyVisibility]);
+  }, [handleTempConfigChange, handleModelConfigChange, t, handleToggleFieldVisibility]);
 
   // Render status badge
   const renderStatusBadge = useCallback((model: ModelConfig) => {
@@ -450,6 +435,29 @@ export const ModelConfigModal: FC<ModelConfigModalProps> = ({ isOpen, onClose })
     );
   }, [t]);
 
+  // Render latest test result (time, latency, failure reason)
+  const renderTestResult = useCallback((model: ModelConfig) => {
+    if (model.isTesting || !model.lastTestedAt || model.testStatus === TestStatus.NOT_TESTED) return null;
+    const isFailed = model.testStatus === TestStatus.TESTED_FAILED;
+    return (
+      <div className="mt-1 space-y-0.5">
+        {model.lastTestLatencyMs !== null && (
+          <p className="text-xs text-gray-400 dark:text-gray-500">
+            {t('settings.models.lastTestResult', {
+              time: new Date(model.lastTestedAt).toLocaleString(),
+              latency: model.lastTestLatencyMs,
+            })}
+          </p>
+        )}
+        {isFailed && model.lastTestMessage && (
+          <p className="text-xs text-red-500 dark:text-red-400 max-w-md truncate" title={model.lastTestMessage}>
+            {model.lastTestMessage}
+          </p>
+        )}
+      </div>
+    );
+  }, [t]);
+
   return (
     <>
       <Modal
@@ -515,11 +523,12 @@ export const ModelConfigModal: FC<ModelConfigModalProps> = ({ isOpen, onClose })
                       {/* Model Info */}
                       <div>
                         <h3 className="text-md font-semibold text-gray-900 dark:text-white">
-                          {model.name}
+                          {getLocalizedModelText(model, i18n.language).name}
                         </h3>
                         <p className="text-sm text-gray-500 dark:text-gray-400">
                           {model.enabled ? t('settings.models.enabled') : t('settings.models.disabled')}
                         </p>
+                        {renderTestResult(model)}
                       </div>
                     </div>
 
@@ -579,7 +588,7 @@ export const ModelConfigModal: FC<ModelConfigModalProps> = ({ isOpen, onClose })
                     <motion.div
                       key={`${model.id}-details`}
                       initial={{ opacity: 0, maxHeight: 0 }}
-                      animate={{ opacity: 1, maxHeight: 500 }}
+                      animate={{ opacity: 1, maxHeight: 1200 }}
                       exit={{ opacity: 0, maxHeight: 0 }}
                       transition={{ 
                         duration: 0.3,
@@ -631,33 +640,14 @@ export const ModelConfigModal: FC<ModelConfigModalProps> = ({ isOpen, onClose })
 
                         {/* Configuration Fields */}
                         <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-                          {/* API Key */}
-                          <div className="space-y-2">
-                            <label className="block text-sm font-semibold text-gray-700 dark:text-gray-300">
-                              {t('settings.models.table.apiKey')}
-                            </label>
-                            {renderApiField(model, 'apiKey', 'showApiKey')}
-                          </div>
-
-                          {/* API Secret */}
-                          {model.id !== 'openai' && (
-                            <div className="space-y-2">
+                          {model.credentialSchema.map(field => (
+                            <div key={field.key} className={`space-y-2 ${field.multiline ? 'md:col-span-2' : ''}`}>
                               <label className="block text-sm font-semibold text-gray-700 dark:text-gray-300">
-                                {t('settings.models.table.apiSecret')}
+                                {t(field.label)}
                               </label>
-                              {renderApiField(model, 'apiSecret', 'showApiSecret')}
+                              {renderApiField(model, field)}
                             </div>
-                          )}
-
-                          {/* Ark API Key */}
-                          {model.id === 'doubao' && (
-                            <div className="space-y-2">
-                              <label className="block text-sm font-semibold text-gray-700 dark:text-gray-300">
-                                Ark API Key
-                              </label>
-                              {renderApiField(model, 'arkApiKey', 'showArkApiKey')}
-                            </div>
-                          )}
+                          ))}
                         </div>
 
                         {/* System Prompt */}
@@ -18,6 +18,10 @@ import { useTranslation } from 'react-i18next';
 // --- Internal Libraries ---
 // --- Components ---
 import { Modal } from '@/components/shared/common/Modal';
+// --- Services ---
+import type { ModelLocaleText } from '@/services/model';
+// --- Utils ---
+import { getLocalizedModelText } from '@/utils/modelUtils';
 
 // =================================================================================================
 // Type Definitions
@@ -27,6 +31,7 @@ interface ModelInfo {
   id: string;
   name: string;
   description: string;
+  locales?: Record<string, ModelLocaleText>;  // 按语言覆盖名称与描述
   features: string[];
   pricing: {
     type: 'free' | 'pay-per-use' | 'subscription';
@@ -69,6 +74,7 @@ const MODEL_INFO: Record<string, ModelInfo> = {
     id: 'doubao',
     name: '豆包',
     description: '字节跳动推出的AI绘画模型，支持多种艺术风格和创作需求，具有强大的图像生成和编辑能力。',
+    locales: { en: { name: 'Doubao', description: 'ByteDance\'s AI image model supporting a wide range of art styles and creative needs, with strong image generation and editing capabilities.' } },
     features: [
       '支持多种艺术风格（写实、动漫、水彩、油画等）',
       '高质量图像生成，分辨率可达1024x1024',
@@ -110,6 +116,7 @@ const MODEL_INFO: Record<string, ModelInfo> = {
     id: 'tongyi',
     name: '通义万相',
     description: '阿里云推出的AI绘画模型，基于先进的深度学习技术，能够生成高质量的艺术作品和创意图像。',
+    locales: { en: { name: 'Tongyi Wanx', description: 'Alibaba Cloud\'s AI image model built on advanced deep learning, generating high-quality artwork and creative images.' } },
     features: [
       '支持多种艺术风格和创作类型',
       '高质量图像生成，细节丰富',
@@ -137,7 +144,7 @@ const MODEL_INFO: Record<string, ModelInfo> = {
     },
     requirements: {
       apiKey: true,
-      apiSecret: true,
+      apiSecret: false,
       systemPrompt: true
     },
     documentation: 'https://help.aliyun.com/zh/dashscope/',
@@ -146,6 +153,246 @@ const MODEL_INFO: Record<string, ModelInfo> = {
       '一幅山水画，国画风格，云雾缭绕',
       '科幻城市，未来建筑，霓虹灯效果'
     ]
+  },
+  cogview: {
+    id: 'cogview',
+    name: '智谱',
+    description: '智谱AI推出的 CogView 系列文生图模型，支持在图像中生成汉字，擅长将中文描述转化为高质量图像。',
+    locales: { en: { name: 'Zhipu', description: 'Zhipu AI\'s CogView text-to-image models, which can render Chinese characters in images and excel at turning Chinese descriptions into high-quality images.' } },
+    features: [
+      '支持在图像中生成中英文文字',
+      '多种宽高比，最高1440x720',
+      '中文提示词理解准确',
+      '提供免费的 Flash 版本'
+    ],
+    pricing: {
+      type: 'pay-per-use',
+      details: '按调用次数计费，CogView-3-Flash 免费使用'
+    },
+    capabilities: {
+      imageGeneration: true,
+      imageEditing: false,
+      textToImage: true,
+      imageToImage: false,
+      inpainting: false,
+      outpainting: false
+    },
+    performance: {
+      speed: 'fast',
+      quality: 'high',
+      resolution: '最高1440x720'
+    },
+    requirements: {
+      apiKey: true,
+      apiSecret: false,
+      systemPrompt: false
+    },
+    documentation: 'https://open.bigmodel.cn/dev/api/image-model/cogview',
+    examples: [
+      '一张写有"新年快乐"的红色春联，喜庆风格',
+      '一只在樱花树下打盹的橘猫，日系插画风格',
+      '赛博朋克风格的城市街道，霓虹招牌'
+    ]
+  },
+  jimeng: {
+    id: 'jimeng',
+    name: '即梦',
+    description: '字节跳动旗下即梦AI推出的图片生成模型，与豆包同属火山引擎视觉服务，擅长海报设计与文字排版。',
+    locales: { en: { name: 'Jimeng', description: 'Image generation model from ByteDance\'s Jimeng AI, part of the Volcano Engine visual services alongside Doubao, strong at poster design and text layout.' } },
+    features: [
+      '一句话定制个性化海报',
+      '支持在图像中生成中文文字',
+      '3.0 版本支持更高分辨率输出',
+      '使用火山引擎 AccessKey / SecretKey 鉴权'
+    ],
+    pricing: {
+      type: 'pay-per-use',
+      details: '按调用次数计费，具体价格请参考火山引擎官方文档'
+    },
+    capabilities: {
+      imageGeneration: true,
+      imageEditing: false,
+      textToImage: true,
+      imageToImage: false,
+      inpainting: false,
+      outpainting: false
+    },
+    performance: {
+      speed: 'medium',
+      quality: 'high',
+      resolution: '最高2048x2048'
+    },
+    requirements: {
+      apiKey: true,
+      apiSecret: true,
+      systemPrompt: false
+    },
+    documentation: 'https://www.volcengine.com/docs/85621/1537648',
+    examples: [
+      '一张写有「夏日限定」的冰饮海报，清新插画风格',
+      '国潮风格的中秋节海报，月亮与玉兔',
+      '极简风格的咖啡店招牌设计'
+    ]
+  },
+  'openai-images': {
+    id: 'openai-images',
+    name: 'OpenAI Images',
+    description: '标准的 OpenAI Images API，支持文生图、图片编辑与局部重绘，Base URL 与模型名可配置，兼容任意实现该接口的服务。',
+    locales: { en: { description: 'The standard OpenAI Images API with text-to-image, image editing and inpainting; the base URL and model name are configurable, so any service implementing the API works.' } },
+    features: [
+      '支持 /images/generations 与 /images/edits',
+      '可配置 Base URL，对接兼容接口的本地服务',
+      '尺寸与质量按模型自动映射',
+      '支持 b64_json 与 URL 两种返回格式'
+    ],
+    pricing: {
+      type: 'pay-per-use',
+      details: '按生成张数与质量计费，具体价格请参考 OpenAI 官方文档'
+    },
+    capabilities: {
+      imageGeneration: true,
+      imageEditing: true,
+      textToImage: true,
+      imageToImage: true,
+      inpainting: true,
+      outpainting: false
+    },
+    performance: {
+      speed: 'medium',
+      quality: 'high',
+      resolution: '最高1792x1024'
+    },
+    requirements: {
+      apiKey: true,
+      apiSecret: false,
+      systemPrompt: false
+    },
+    documentation: 'https://platform.openai.com/docs/api-reference/images',
+    examples: [
+      'A watercolor illustration of a lighthouse at dawn',
+      '一张写有"开业大吉"的中式海报，红金配色',
+      '把参考图中的天空替换为极光'
+    ]
+  },
+  sdwebui: {
+    id: 'sdwebui',
+    name: 'Stable Diffusion WebUI',
+    description: '对接本地部署的 Stable Diffusion WebUI（AUTOMATIC1111），使用 WebUI 中加载的任意模型出图，数据不离开本地网络。',
+    locales: { en: { description: 'Connects to a self-hosted Stable Diffusion WebUI (AUTOMATIC1111) and generates with any model loaded in the WebUI, keeping data inside your local network.' } },
+    features: [
+      '支持文生图、图生图与局部重绘',
+      '可配置模型、采样器、步数、CFG 与种子',
+      '支持负向提示词',
+      'WebUI 需以 --api 启动，浏览器直连时需配置 --cors-allow-origins'
+    ],
+    pricing: {
+      type: 'free',
+      details: '本地部署，不产生调用费用'
+    },
+    capabilities: {
+      imageGeneration: true,
+      imageEditing: true,
+      textToImage: true,
+      imageToImage: true,
+      inpainting: true,
+      outpainting: false
+    },
+    performance: {
+      speed: 'medium',
+      quality: 'high',
+      resolution: '取决于本地模型与显存'
+    },
+    requirements: {
+      apiKey: false,
+      apiSecret: false,
+      systemPrompt: false
+    },
+    documentation: 'https://github.com/AUTOMATIC1111/stable-diffusion-webui/wiki/API',
+    examples: [
+      'masterpiece, best quality, a cozy cabin in snowy mountains',
+      '赛博朋克风格的城市夜景，霓虹灯光',
+      '水墨风格的山水画，远山与小舟'
+    ]
+  },
+  comfyui: {
+    id: 'comfyui',
+    name: 'ComfyUI',
+    description: '对接本地部署的 ComfyUI，运行导出的 API 格式工作流，通过占位符把提示词、种子、尺寸与参考图绑定到工作流节点。',
+    locales: { en: { description: 'Connects to a self-hosted ComfyUI and runs an exported API-format workflow, binding prompt, seed, size and reference image to workflow nodes through placeholders.' } },
+    features: [
+      '工作流按用户保存，可对接任意节点组合',
+      '支持 {{prompt}}、{{seed}}、{{width}}、{{height}}、{{image}} 等占位符',
+      '通过 websocket 实时回报进度，不可用时回退为轮询',
+      'ComfyUI 需以 --enable-cors-header 启动以允许浏览器访问'
+    ],
+    pricing: {
+      type: 'free',
+      details: '本地部署，不产生调用费用'
+    },
+    capabilities: {
+      imageGeneration: true,
+      imageEditing: true,
+      textToImage: true,
+      imageToImage: true,
+      inpainting: false,
+      outpainting: false
+    },
+    performance: {
+      speed: 'medium',
+      quality: 'high',
+      resolution: '取决于工作流与本地模型'
+    },
+    requirements: {
+      apiKey: false,
+      apiSecret: false,
+      systemPrompt: false
+    },
+    documentation: 'https://docs.comfy.org/development/comfyui-server/comms_routes',
+    examples: [
+      'a cinematic photo of a red fox in the snow, 35mm',
+      '国风插画，亭台楼阁与远山',
+      '基于参考图生成同风格的系列海报'
+    ]
+  },
+  mock: {
+    id: 'mock',
+    name: '离线模拟',
+    description: '内置的离线模拟服务，根据提示词与种子在本地绘制确定的图片，无需密钥与网络，适用于开发调试与演示。',
+    locales: { en: { name: 'Offline Mock', description: 'Built-in offline mock service that draws deterministic images locally from the prompt and seed, needing no keys or network; for development and demos.' } },
+    features: [
+      '相同提示词与种子始终得到相同图片',
+      '可配置响应延迟',
+      '可模拟超时、429 限流与内容审核失败',
+      '与真实服务走相同的排队、进度与存储流程'
+    ],
+    pricing: {
+      type: 'free',
+      details: '本地生成，不产生任何费用'
+    },
+    capabilities: {
+      imageGeneration: true,
+      imageEditing: false,
+      textToImage: true,
+      imageToImage: false,
+      inpainting: false,
+      outpainting: false
+    },
+    performance: {
+      speed: 'fast',
+      quality: 'low',
+      resolution: '1024x1024'
+    },
+    requirements: {
+      apiKey: false,
+      apiSecret: false,
+      systemPrompt: false
+    },
+    documentation: 'https://github.com/fmw666/DesignChat',
+    examples: [
+      '任意提示词均可，用于验证生成流程',
+      '配置失败模式为 rate_limit 以演示限流提示',
+      '配置失败模式为 random 以演示部分失败'
+    ]
   }
 };
 
@@ -155,7 +402,7 @@ const MODEL_INFO: Record<string, ModelInfo> = {
 
 export const ModelDetailModal: FC<ModelDetailModalProps> = ({ isOpen, onClose, modelId }) => {
   // --- Hooks ---
-  const { t } = useTranslation();
+  const { t, i18n } = useTranslation();
 
   // --- Render Logic ---
   const modelInfo = MODEL_INFO[modelId];
@@ -164,6 +411,8 @@ export const ModelDetailModal: FC<ModelDetailModalProps> = ({ isOpen, onClose, m
     return null;
   }
 
+  const { name, description } = getLocalizedModelText(modelInfo, i18n.language);
+
   return (
     <Modal
       isOpen={isOpen}
@@ -175,10 +424,10 @@ export const ModelDetailModal: FC<ModelDetailModalProps> = ({ isOpen, onClose, m
     >
       <div className="relative flex flex-col items-center justify-center min-h-[220px] py-10 px-4 bg-gradient-to-br from-indigo-50 via-white to-purple-50 dark:from-indigo-900/30 dark:via-gray-900 dark:to-purple-900/30 rounded-2xl shadow-lg">
         <h2 className="text-2xl font-bold text-gray-900 dark:text-white mb-4 text-center tracking-tight">
-          {modelInfo.name}
+          {name}
         </h2>
         <p className="text-base text-gray-600 dark:text-gray-300 text-center max-w-md mb-2">
-          {modelInfo.description}
+          {description}
         </p>
         {/* 右下角查看文档按钮 */}
         <a
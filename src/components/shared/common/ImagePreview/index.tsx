@@ -18,7 +18,7 @@ import toast from 'react-hot-toast';
 import { useTranslation } from 'react-i18next';
 
 // --- Third-party Libraries ---
-import { XMarkIcon, DocumentDuplicateIcon, PencilSquareIcon, ChatBubbleLeftEllipsisIcon } from '@heroicons/react/24/outline';
+import { XMarkIcon, DocumentDuplicateIcon, PencilSquareIcon, ChatBubbleLeftEllipsisIcon, PaintBrushIcon, ArrowUturnLeftIcon } from '@heroicons/react/24/outline';
 import { StarIcon, ArrowPathIcon, ArrowDownTrayIcon } from '@heroicons/react/24/solid';
 import { motion, AnimatePresence } from 'framer-motion';
 
@@ -29,7 +29,10 @@ import { Modal } from '@/components/shared/common/Modal';
 // --- Hooks ---
 import { useChat } from '@/hooks/chat';
 // --- Services ---
-import type { Message } from '@/services/chat';
+import type { ImageResultAttempt, Message } from '@/services/chat';
+import { storageService } from '@/services/storage';
+// --- Types ---
+import type { DesignTarget } from '@/types/chat';
 // --- Utils ---
 import { copyToClipboard } from '@/utils/clipboard';
 
@@ -44,7 +47,8 @@ interface ImagePreviewProps {
   isReference: boolean;
   onClose: () => void;
   alt?: string;
-  onDesignClick?: (imageInfo?: { url: string; id: string; messageId: string }) => void;
+  onDesignClick?: (imageInfo?: DesignTarget) => void | Promise<void>;
+  onRegenerate?: (resultId: string) => void;
 }
 
 interface ImageInfo {
@@ -58,6 +62,7 @@ interface ImageInfo {
   errorMessage?: string;
   isUser?: boolean;
   isFavorite?: boolean;
+  history?: ImageResultAttempt[];
 }
 
 // =================================================================================================
@@ -79,10 +84,12 @@ export const ImagePreview: FC<ImagePreviewProps> = ({
   onClose,
   alt = 'Preview',
   onDesignClick,
+  onRegenerate,
 }) => {
   // --- State and Refs ---
   const [imageSize, setImageSize] = useState({ width: 0, height: 0 });
   const [showViewer, setShowViewer] = useState(false);
+  const [viewerMaskMode, setViewerMaskMode] = useState(false);
   const [isFavoriteLoading, setIsFavoriteLoading] = useState(false);
   const [isCopyLoading, setIsCopyLoading] = useState(false);
   const [isDownloadLoading, setIsDownloadLoading] = useState(false);
@@ -122,6 +129,7 @@ export const ImagePreview: FC<ImagePreviewProps> = ({
             error: img.error || undefined,
             errorMessage: img.errorMessage || undefined,
             isFavorite: img.isFavorite,
+            history: img.history,
           });
         }})
       })
@@ -158,6 +166,12 @@ export const ImagePreview: FC<ImagePreviewProps> = ({
   }, []);
 
   const handleViewerOpen = useCallback(() => {
+    setViewerMaskMode(false);
+    setShowViewer(true);
+  }, []);
+
+  const handleInpaintOpen = useCallback(() => {
+    setViewerMaskMode(true);
     setShowViewer(true);
   }, []);
 
@@ -222,6 +236,29 @@ export const ImagePreview: FC<ImagePreviewProps> = ({
     }
   }, [isDesignLoading, onDesignClick, t, imageInfo]);
 
+  // 上传蒙版后以局部重绘的方式进入设计模式
+  const handleMaskSubmit = useCallback(async (mask: Blob) => {
+    if (!onDesignClick || !imageInfo) return;
+
+    const uploadResult = await storageService.uploadImage(mask);
+    if (!uploadResult.success || !uploadResult.url) {
+      toast.error(t('imagePreview.maskUploadFailed'));
+      return;
+    }
+
+    try {
+      setShowViewer(false);
+      await onDesignClick({
+        url: imageInfo.url,
+        id: imageInfo.id,
+        messageId: imageInfo.messageId,
+        maskUrl: uploadResult.url,
+      });
+    } catch (err) {
+      toast.error(t('imagePreview.designFailed'));
+    }
+  }, [onDesignClick, imageInfo, t]);
+
   // --- Side Effects ---
   useEffect(() => {
     setImageSize({ width: 0, height: 0 }); // 每次切换图片先重置
@@ -247,6 +284,8 @@ export const ImagePreview: FC<ImagePreviewProps> = ({
           src={imageInfo.url}
           alt={alt}
           onClose={handleViewerClose}
+          onMaskSubmit={onDesignClick ? handleMaskSubmit : undefined}
+          defaultMaskMode={viewerMaskMode}
         />
       )}
 
@@ -452,6 +491,35 @@ export const ImagePreview: FC<ImagePreviewProps> = ({
                             )}
                           </div>
                         </div>
+                        {imageInfo.history && imageInfo.history.length > 0 && (
+                          <div className="space-y-2">
+                            <div className="text-xs font-medium text-gray-500 dark:text-gray-400">
+                              {t('imagePreview.history', { count: imageInfo.history.length })}
+                            </div>
+                            <div className="flex flex-wrap gap-2">
+                              {imageInfo.history.map((attempt, idx) => attempt.url ? (
+                                <a
+                                  key={idx}
+                                  href={attempt.url}
+                                  target="_blank"
+                                  rel="noopener noreferrer"
+                                  className="h-12 w-12 overflow-hidden rounded-lg border border-gray-200 opacity-80 transition-opacity hover:opacity-100 dark:border-gray-700"
+                                  title={attempt.createdAt ? new Date(attempt.createdAt).toLocaleString() : undefined}
+                                >
+                                  <img src={attempt.url} alt={alt} className="h-full w-full object-cover" draggable={false} />
+                                </a>
+                              ) : (
+                                <div
+                                  key={idx}
+                                  className="flex h-12 w-12 items-center justify-center rounded-lg border border-dashed border-red-200 text-[10px] text-red-400 dark:border-red-800"
+                                  title={attempt.errorMessage || undefined}
+                                >
+                                  {attempt.cancelled ? t('chat.generation.cancelledResult') : t('imagePreview.historyFailed')}
+                                </div>
+                              ))}
+                            </div>
+                          </div>
+                        )}
                       </div>
                     </div>
                   </motion.div>
@@ -493,6 +561,26 @@ export const ImagePreview: FC<ImagePreviewProps> = ({
                         )}
                       </button>
                     )}
+                    {/* Regenerate */}
+                    {!isReference && onRegenerate && (
+                      <button
+                        onClick={() => onRegenerate(imageInfo.id)}
+                        className="group flex flex-1 items-center justify-center gap-1 rounded-lg bg-gray-100 py-2 text-sm font-medium text-gray-400 shadow transition-all hover:bg-indigo-50 hover:text-indigo-500 dark:bg-gray-800 dark:hover:bg-indigo-900/20"
+                        title={t('imagePreview.regenerate')}
+                      >
+                        <ArrowUturnLeftIcon className="h-5 w-5" />
+                      </button>
+                    )}
+                    {/* Inpaint */}
+                    {onDesignClick && (
+                      <button
+                        onClick={handleInpaintOpen}
+                        className="group flex flex-1 items-center justify-center gap-1 rounded-lg bg-gray-100 py-2 text-sm font-medium text-gray-400 shadow transition-all hover:bg-pink-50 hover:text-pink-500 dark:bg-gray-800 dark:hover:bg-pink-900/20"
+                        title={t('imagePreview.inpaint')}
+                      >
+                        <PaintBrushIcon className="h-5 w-5" />
+                      </button>
+                    )}
                   </div>
                 </div>
               </div>
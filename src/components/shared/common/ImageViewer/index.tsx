@@ -1,6 +1,7 @@
 /**
  * @file ImageViewer.tsx
- * @description ImageViewer component, provides a full-screen image viewer with zoom and pan functionality.
+ * @description ImageViewer component, provides a full-screen image viewer with zoom and pan functionality,
+ *              and an optional mask painting mode for inpainting.
  * @author fmw666@github
  * @date 2025-07-18
  */
@@ -15,9 +16,10 @@ import type { FC } from 'react';
 
 // --- Core-related Libraries ---
 import { createPortal } from 'react-dom';
+import { useTranslation } from 'react-i18next';
 
 // --- Third-party Libraries ---
-import { XMarkIcon } from '@heroicons/react/24/outline';
+import { ArrowPathIcon, ArrowUturnLeftIcon, BackspaceIcon, PaintBrushIcon, TrashIcon, XMarkIcon } from '@heroicons/react/24/outline';
 import { motion } from 'framer-motion';
 
 // --- Internal Libraries ---
@@ -32,6 +34,9 @@ interface ImageViewerProps {
   src: string;
   alt?: string;
   onClose: () => void;
+  // 提供时可进入蒙版模式，提交白色为重绘区域、黑色为保留区域的 PNG 蒙版
+  onMaskSubmit?: (mask: Blob) => void | Promise<void>;
+  defaultMaskMode?: boolean;
 }
 
 interface Position {
@@ -39,6 +44,13 @@ interface Position {
   y: number;
 }
 
+interface Size {
+  width: number;
+  height: number;
+}
+
+type MaskTool = 'brush' | 'eraser';
+
 // =================================================================================================
 // Constants
 // =================================================================================================
@@ -47,21 +59,96 @@ const MIN_SCALE = 0.5;
 const MAX_SCALE = 3;
 const SCALE_STEP = 0.1;
 
+const MASK_COLOR = '#ec4899';
+const MASK_OPACITY = 0.5;
+const BRUSH_SIZE_RANGE = { min: 5, max: 120, default: 40 };
+const MAX_UNDO_STEPS = 20;
+
+// =================================================================================================
+// Utility Functions
+// =================================================================================================
+
+/**
+ * Checks whether any pixel of the canvas has been painted
+ * @param canvas - Canvas to inspect
+ * @returns Whether the canvas contains painted pixels
+ */
+const hasPaintedPixels = (canvas: HTMLCanvasElement): boolean => {
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return false;
+  const { data } = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  for (let i = 3; i < data.length; i += 4) {
+    if (data[i] > 0) return true;
+  }
+  return false;
+};
+
+/**
+ * Converts the painted overlay into a black and white mask, white marks the area to repaint
+ * @param overlay - Canvas holding the painted strokes
+ * @returns PNG blob of the mask
+ */
+const exportMask = (overlay: HTMLCanvasElement): Promise<Blob | null> => {
+  const { width, height } = overlay;
+
+  const painted = document.createElement('canvas');
+  painted.width = width;
+  painted.height = height;
+  const paintedCtx = painted.getContext('2d');
+
+  const mask = document.createElement('canvas');
+  mask.width = width;
+  mask.height = height;
+  const maskCtx = mask.getContext('2d');
+
+  if (!paintedCtx || !maskCtx) return Promise.resolve(null);
+
+  // 笔触统一染成白色，再叠加到黑色底上
+  paintedCtx.drawImage(overlay, 0, 0);
+  paintedCtx.globalCompositeOperation = 'source-in';
+  paintedCtx.fillStyle = '#ffffff';
+  paintedCtx.fillRect(0, 0, width, height);
+
+  maskCtx.fillStyle = '#000000';
+  maskCtx.fillRect(0, 0, width, height);
+  maskCtx.drawImage(painted, 0, 0);
+
+  return new Promise(resolve => mask.toBlob(resolve, 'image/png'));
+};
+
 // =================================================================================================
 // Component
 // =================================================================================================
 
-export const ImageViewer: FC<ImageViewerProps> = ({ src, alt = '', onClose }) => {
+export const ImageViewer: FC<ImageViewerProps> = ({
+  src,
+  alt = '',
+  onClose,
+  onMaskSubmit,
+  defaultMaskMode = false,
+}) => {
   // --- State and Refs ---
   const [scale, setScale] = useState(1);
   const [offset, setOffset] = useState<Position>({ x: 0, y: 0 });
   const [isDragging, setIsDragging] = useState(false);
+  const [isMasking, setIsMasking] = useState(defaultMaskMode && !!onMaskSubmit);
+  const [maskTool, setMaskTool] = useState<MaskTool>('brush');
+  const [brushSize, setBrushSize] = useState(BRUSH_SIZE_RANGE.default);
+  const [naturalSize, setNaturalSize] = useState<Size | null>(null);
+  const [undoCount, setUndoCount] = useState(0);
+  const [hasStrokes, setHasStrokes] = useState(false);
+  const [isSubmittingMask, setIsSubmittingMask] = useState(false);
   
   const dragging = useRef(false);
   const lastPos = useRef<Position>({ x: 0, y: 0 });
-  const imageRef = useRef<HTMLImageElement>(null);
+  const stageRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const painting = useRef(false);
+  const lastPaintPos = useRef<Position | null>(null);
+  const undoStack = useRef<ImageData[]>([]);
 
   // --- Hooks ---
+  const { t } = useTranslation();
   const id = useId();
   const numericId = useRef(parseInt(id.replace(/:/g, ''), 36)); 
   const stack = useSyncExternalStore(modalStackStore.subscribe, modalStackStore.getSnapshot);
@@ -71,13 +158,14 @@ export const ImageViewer: FC<ImageViewerProps> = ({ src, alt = '', onClose }) =>
   // --- Logic and Event Handlers ---
   const handleMouseDown = useCallback((e: React.MouseEvent) => {
     e.preventDefault();
+    if (isMasking) return;
     dragging.current = true;
     setIsDragging(true);
     lastPos.current = { 
       x: e.clientX - offset.x, 
       y: e.clientY - offset.y 
     };
-  }, [offset]);
+  }, [offset, isMasking]);
 
   const handleMouseMove = useCallback((e: MouseEvent) => {
     if (!dragging.current) return;
@@ -105,17 +193,135 @@ export const ImageViewer: FC<ImageViewerProps> = ({ src, alt = '', onClose }) =>
     });
   }, []);
 
-  const handleKeyDown = useCallback((e: KeyboardEvent) => {
-    if (e.key === 'Escape' && isTopModal) {
-      onClose();
-    }
-  }, [onClose, isTopModal]);
-
   const resetView = useCallback(() => {
     setScale(1);
     setOffset({ x: 0, y: 0 });
   }, []);
 
+  // --- Mask Painting ---
+  const getCanvasContext = useCallback(() => {
+    return canvasRef.current?.getContext('2d') ?? null;
+  }, []);
+
+  const pushUndoSnapshot = useCallback(() => {
+    const canvas = canvasRef.current;
+    const ctx = getCanvasContext();
+    if (!canvas || !ctx) return;
+    undoStack.current = [
+      ...undoStack.current.slice(-(MAX_UNDO_STEPS - 1)),
+      ctx.getImageData(0, 0, canvas.width, canvas.height),
+    ];
+    setUndoCount(undoStack.current.length);
+  }, [getCanvasContext]);
+
+  const resetMask = useCallback(() => {
+    undoStack.current = [];
+    setUndoCount(0);
+    setHasStrokes(false);
+    painting.current = false;
+    lastPaintPos.current = null;
+  }, []);
+
+  /** 将指针坐标换算为画布（原图）像素坐标，画笔粗细按屏幕像素保持一致 */
+  const toCanvasPoint = useCallback((e: React.PointerEvent<HTMLCanvasElement>) => {
+    const canvas = e.currentTarget;
+    const rect = canvas.getBoundingClientRect();
+    const ratio = canvas.width / rect.width;
+    return {
+      point: { x: (e.clientX - rect.left) * ratio, y: (e.clientY - rect.top) * ratio },
+      ratio,
+    };
+  }, []);
+
+  const drawStroke = useCallback((from: Position, to: Position, ratio: number) => {
+    const ctx = getCanvasContext();
+    if (!ctx) return;
+    ctx.globalCompositeOperation = maskTool === 'eraser' ? 'destination-out' : 'source-over';
+    ctx.strokeStyle = MASK_COLOR;
+    ctx.lineWidth = brushSize * ratio;
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+    ctx.beginPath();
+    ctx.moveTo(from.x, from.y);
+    ctx.lineTo(to.x, to.y);
+    ctx.stroke();
+  }, [getCanvasContext, maskTool, brushSize]);
+
+  const handlePaintStart = useCallback((e: React.PointerEvent<HTMLCanvasElement>) => {
+    e.preventDefault();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    pushUndoSnapshot();
+    const { point, ratio } = toCanvasPoint(e);
+    painting.current = true;
+    lastPaintPos.current = point;
+    drawStroke(point, point, ratio);
+  }, [pushUndoSnapshot, toCanvasPoint, drawStroke]);
+
+  const handlePaintMove = useCallback((e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!painting.current || !lastPaintPos.current) return;
+    const { point, ratio } = toCanvasPoint(e);
+    drawStroke(lastPaintPos.current, point, ratio);
+    lastPaintPos.current = point;
+  }, [toCanvasPoint, drawStroke]);
+
+  const handlePaintEnd = useCallback(() => {
+    if (!painting.current) return;
+    painting.current = false;
+    lastPaintPos.current = null;
+    if (canvasRef.current) setHasStrokes(hasPaintedPixels(canvasRef.current));
+  }, []);
+
+  const handleUndo = useCallback(() => {
+    const ctx = getCanvasContext();
+    const snapshot = undoStack.current.pop();
+    if (!ctx || !snapshot) return;
+    ctx.putImageData(snapshot, 0, 0);
+    setUndoCount(undoStack.current.length);
+    if (canvasRef.current) setHasStrokes(hasPaintedPixels(canvasRef.current));
+  }, [getCanvasContext]);
+
+  const handleClearMask = useCallback(() => {
+    const canvas = canvasRef.current;
+    const ctx = getCanvasContext();
+    if (!canvas || !ctx) return;
+    pushUndoSnapshot();
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    setHasStrokes(false);
+  }, [getCanvasContext, pushUndoSnapshot]);
+
+  const handleMaskModeToggle = useCallback(() => {
+    resetMask();
+    setIsMasking(prev => !prev);
+  }, [resetMask]);
+
+  const handleMaskSubmit = useCallback(async () => {
+    const canvas = canvasRef.current;
+    if (!canvas || !onMaskSubmit || isSubmittingMask) return;
+
+    setIsSubmittingMask(true);
+    try {
+      const mask = await exportMask(canvas);
+      if (mask) await onMaskSubmit(mask);
+    } finally {
+      setIsSubmittingMask(false);
+    }
+  }, [onMaskSubmit, isSubmittingMask]);
+
+  const handleKeyDown = useCallback((e: KeyboardEvent) => {
+    if (!isTopModal) return;
+    if (e.key === 'Escape') {
+      // 蒙版模式下先退出蒙版模式
+      if (isMasking) {
+        handleMaskModeToggle();
+      } else {
+        onClose();
+      }
+    } else if (isMasking && e.key === 'z' && (e.ctrlKey || e.metaKey)) {
+      e.preventDefault();
+      handleUndo();
+    }
+  }, [onClose, isTopModal, isMasking, handleMaskModeToggle, handleUndo]);
+
   // --- Side Effects ---
   useEffect(() => {
     const currentId = numericId.current;
@@ -146,17 +352,17 @@ export const ImageViewer: FC<ImageViewerProps> = ({ src, alt = '', onClose }) =>
   }, [isDragging, handleMouseMove, handleMouseUp]);
 
   useEffect(() => {
-    const imageElement = imageRef.current;
-    if (!imageElement) return;
+    const stageElement = stageRef.current;
+    if (!stageElement) return;
 
     const handleWheelEvent = (e: WheelEvent) => {
       handleWheel(e);
     };
 
-    imageElement.addEventListener('wheel', handleWheelEvent, { passive: false });
+    stageElement.addEventListener('wheel', handleWheelEvent, { passive: false });
 
     return () => {
-      imageElement.removeEventListener('wheel', handleWheelEvent);
+      stageElement.removeEventListener('wheel', handleWheelEvent);
     };
   }, [handleWheel]);
 
@@ -167,10 +373,12 @@ export const ImageViewer: FC<ImageViewerProps> = ({ src, alt = '', onClose }) =>
     };
   }, [handleKeyDown]);
 
-  // Reset view when image changes
+  // Reset view and mask when image changes
   useEffect(() => {
     resetView();
-  }, [src, resetView]);
+    resetMask();
+    setNaturalSize(null);
+  }, [src, resetView, resetMask]);
 
   // --- Render Logic ---
   const viewer = (
@@ -193,25 +401,127 @@ export const ImageViewer: FC<ImageViewerProps> = ({ src, alt = '', onClose }) =>
         </button>
 
         {/* Image area */}
-        <motion.img
-          ref={imageRef}
-          src={src}
-          alt={alt}
+        <div
+          ref={stageRef}
+          className="relative"
           style={{
-            cursor: isDragging ? 'grabbing' : 'grab',
+            cursor: isMasking ? 'crosshair' : isDragging ? 'grabbing' : 'grab',
             transform: `translate(${offset.x}px, ${offset.y}px) scale(${scale})`,
-            maxWidth: '90vw',
-            maxHeight: '80vh',
-            userSelect: 'none',
           }}
-          className="select-none rounded-xl shadow-2xl"
           onMouseDown={handleMouseDown}
-          draggable={false}
-          onError={(e) => {
-            console.error('Failed to load image:', src);
-            e.currentTarget.style.display = 'none';
-          }}
-        />
+        >
+          <motion.img
+            src={src}
+            alt={alt}
+            style={{
+              maxWidth: '90vw',
+              maxHeight: '80vh',
+              userSelect: 'none',
+            }}
+            className="block select-none rounded-xl shadow-2xl"
+            draggable={false}
+            onLoad={(e) => setNaturalSize({
+              width: e.currentTarget.naturalWidth,
+              height: e.currentTarget.naturalHeight,
+            })}
+            onError={(e) => {
+              console.error('Failed to load image:', src);
+              e.currentTarget.style.display = 'none';
+            }}
+          />
+
+          {/* Mask canvas, sized to the original image so the exported mask matches it pixel for pixel */}
+          {isMasking && naturalSize && (
+            <canvas
+              ref={canvasRef}
+              width={naturalSize.width}
+              height={naturalSize.height}
+              className="absolute inset-0 h-full w-full touch-none rounded-xl"
+              style={{ opacity: MASK_OPACITY }}
+              onPointerDown={handlePaintStart}
+              onPointerMove={handlePaintMove}
+              onPointerUp={handlePaintEnd}
+              onPointerCancel={handlePaintEnd}
+            />
+          )}
+        </div>
+
+        {/* Mask toolbar */}
+        {onMaskSubmit && (
+          isMasking ? (
+            <div className="fixed bottom-4 left-1/2 z-10 flex -translate-x-1/2 items-center gap-2 rounded-xl bg-white/90 px-3 py-2 text-sm text-gray-700 shadow">
+              <button
+                onClick={() => setMaskTool('brush')}
+                className={`flex items-center gap-1 rounded-lg px-2 py-1 ${maskTool === 'brush' ? 'bg-pink-100 text-pink-600' : 'hover:bg-gray-100'}`}
+                aria-pressed={maskTool === 'brush'}
+              >
+                <PaintBrushIcon className="h-4 w-4" />
+                {t('imageViewer.mask.brush')}
+              </button>
+              <button
+                onClick={() => setMaskTool('eraser')}
+                className={`flex items-center gap-1 rounded-lg px-2 py-1 ${maskTool === 'eraser' ? 'bg-pink-100 text-pink-600' : 'hover:bg-gray-100'}`}
+                aria-pressed={maskTool === 'eraser'}
+              >
+                <BackspaceIcon className="h-4 w-4" />
+                {t('imageViewer.mask.eraser')}
+              </button>
+              <label className="flex items-center gap-2 px-1">
+                <span className="whitespace-nowrap text-xs text-gray-500">{t('imageViewer.mask.brushSize')}</span>
+                <input
+                  type="range"
+                  min={BRUSH_SIZE_RANGE.min}
+                  max={BRUSH_SIZE_RANGE.max}
+                  value={brushSize}
+                  onChange={(e) => setBrushSize(Number(e.target.value))}
+                  className="w-24 accent-pink-500"
+                />
+              </label>
+              <button
+                onClick={handleUndo}
+                disabled={undoCount === 0}
+                className="rounded-lg p-1.5 hover:bg-gray-100 disabled:opacity-40 disabled:cursor-not-allowed"
+                title={t('imageViewer.mask.undo')}
+                aria-label={t('imageViewer.mask.undo')}
+              >
+                <ArrowUturnLeftIcon className="h-4 w-4" />
+              </button>
+              <button
+                onClick={handleClearMask}
+                disabled={!hasStrokes}
+                className="rounded-lg p-1.5 hover:bg-gray-100 disabled:opacity-40 disabled:cursor-not-allowed"
+                title={t('imageViewer.mask.clear')}
+                aria-label={t('imageViewer.mask.clear')}
+              >
+                <TrashIcon className="h-4 w-4" />
+              </button>
+              <div className="mx-1 h-5 w-px bg-gray-200" />
+              <button
+                onClick={handleMaskModeToggle}
+                disabled={isSubmittingMask}
+                className="rounded-lg px-2 py-1 hover:bg-gray-100 disabled:opacity-40"
+              >
+                {t('imageViewer.mask.cancel')}
+              </button>
+              <button
+                onClick={handleMaskSubmit}
+                disabled={!hasStrokes || isSubmittingMask}
+                className="flex items-center gap-1 rounded-lg bg-gradient-to-r from-indigo-500 to-purple-500 px-3 py-1 font-medium text-white disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isSubmittingMask && <ArrowPathIcon className="h-4 w-4 animate-spin" />}
+                {t('imageViewer.mask.submit')}
+              </button>
+            </div>
+          ) : (
+            <button
+              onClick={handleMaskModeToggle}
+              className="fixed bottom-4 left-1/2 z-10 flex -translate-x-1/2 items-center gap-1 rounded bg-white/80 px-3 py-1 text-sm text-gray-700 shadow hover:bg-white"
+            >
+              <PaintBrushIcon className="h-4 w-4" />
+              {t('imageViewer.mask.enter')}
+            </button>
+          )
+        )}
 
         {/* Scale percentage indicator */}
         <div className="fixed bottom-4 right-4 z-10 rounded bg-white/80 px-3 py-1 text-sm text-gray-700 shadow">
@@ -42,7 +42,8 @@ interface DoubaoResult {
 // Constants
 // =================================================================================================
 
-const MODEL_NAMES: Record<DoubaoModel, string> = {
+// 测试页只做文生图，不包含需要参考图的编辑模型
+const MODEL_NAMES: Record<Exclude<DoubaoModel, 'doubao-seededit-3-0-i2i-250628'>, string> = {
   'doubao-seedream-3-0-t2i-250415': '豆包3.0-文生图',
   high_aes_general_v21_L: '通用2.1-文生图',
   high_aes_general_v20_L: '通用2.0Pro-文生图',
@@ -1,8 +1,19 @@
-export type ModelGroupType = 'doubao' | 'openai' | 'cogview' | 'tongyi' | 'jimeng';
+import type { AspectRatio } from '@/types/chat';
+
+export type ModelGroupType = 'doubao' | 'openai' | 'cogview' | 'tongyi' | 'jimeng' | 'openai-images' | 'sdwebui' | 'comfyui' | 'mock';
 
 export interface GroupConfig {
   maxConcurrent: number;
   cooldownMs: number;
+  burst?: number;  // 令牌桶容量，空闲后可连续发出的请求数，默认 1
+  retry?: Partial<RetryConfig>;  // 失败重试策略，未配置的字段使用默认值
+  timeoutMs?: number;  // 单次请求的时限（含异步任务轮询），超时后中止请求
+}
+
+export interface RetryConfig {
+  maxAttempts: number;  // 总尝试次数（含首次），1 表示不重试
+  baseDelayMs: number;  // 首次重试的基准等待时间，之后按指数增长
+  maxDelayMs: number;  // 单次等待上限，Retry-After 同样受此限制
 }
 
 export interface ImageModel {
@@ -11,19 +22,55 @@ export interface ImageModel {
   publishDate: string; // JSON 中的日期是字符串格式
   description: string;
   category: string;
+  locales?: Record<string, ModelLocaleText>; // 按语言（如 en、en-US）覆盖展示文案，未覆盖时使用上面的字段
   group: ModelGroupType; // 模型组，同一组的模型共享相同的配置
+  timeoutMs?: number; // 覆盖模型组的请求时限，用于明显慢于同组其它模型的模型
+  price?: number; // 每张图片的预估费用（元），未配置视为免费
+  budget?: UsageBudget; // 每位用户在该模型上的费用上限
+  capabilities?: ModelCapabilities; // 模型自身的能力与限制，覆盖服务商适配器的默认声明
+  deprecated?: boolean; // 已弃用，仍可选择但会提示，且不再默认选中
+  sunsetDate?: string; // 下线日期（YYYY-MM-DD），当天起不可选择，重新生成时改用 replacedBy
+  replacedBy?: string; // 替代模型 ID
   demo?: {
     prompt: string;
     images: string[];
   };
 }
 
+// 模型面向用户的文案在某种语言下的取值，category 仅用于展示，分组仍按默认语言的 category
+export interface ModelLocaleText {
+  name?: string;
+  description?: string;
+  category?: string;
+}
+
+// 模型能力，未配置的项沿用服务商适配器的声明或不做限制
+export interface ModelCapabilities {
+  textToImage?: boolean;
+  imageToImage?: boolean;
+  inpainting?: boolean;
+  sizes?: number[]; // 支持的长边像素，对应输入框中的尺寸选项
+  aspectRatios?: AspectRatio[];
+  maxCount?: number; // 一次发送最多生成的张数
+  maxPromptLength?: number; // 提示词最大字符数，超出时不允许发送
+  seed?: boolean; // 设为 false 时即使服务商支持也不传随机种子
+  negativePrompt?: boolean;
+}
+
 // 转换后的模型类型（日期已转换为 Date 对象）
 export interface ImageModelWithDate extends Omit<ImageModel, 'publishDate'> {
   publishDate: Date;
 }
 
+export type BudgetPeriod = 'daily' | 'monthly';
+
+export interface UsageBudget {
+  period: BudgetPeriod;  // 按自然日或自然月统计
+  limit: number;  // 周期内预估费用上限（元）
+}
+
 export interface ModelsConfig {
   configs: Record<ModelGroupType, GroupConfig>;
   models: ImageModel[];
+  budget?: UsageBudget;  // 每位用户在所有模型上的费用上限
 }
@@ -1,20 +1,37 @@
 /**
  * @file modelsLoader.ts
- * @description 模型配置加载器，用于从 JSON 配置文件加载模型配置。
+ * @description 模型配置加载器，默认使用打包的 JSON 配置文件，运行时加载的目录通过 setModelsConfig 替换。
  * @author fmw666@github
  * @date 2025-07-18
  */
 
 import modelsConfig from './models.json';
-import { ModelsConfig, ImageModel, ImageModelWithDate, GroupConfig, ModelGroupType } from './models.types';
+import { ModelsConfig, ImageModel, ImageModelWithDate, GroupConfig, ModelGroupType, UsageBudget } from './models.types';
+
+// 当前生效的模型目录，启动时为打包的 models.json
+let currentConfig: ModelsConfig = modelsConfig as ModelsConfig;
 
 /**
- * 从 JSON 配置文件加载模型配置
+ * 获取当前生效的模型配置
  */
 export function loadModelsConfig(): ModelsConfig {
+  return currentConfig;
+}
+
+/**
+ * 获取打包的模型配置，远程目录不可用时的兜底
+ */
+export function getBundledModelsConfig(): ModelsConfig {
   return modelsConfig as ModelsConfig;
 }
 
+/**
+ * 替换当前生效的模型配置，调用方需先完成校验
+ */
+export function setModelsConfig(config: ModelsConfig): void {
+  currentConfig = config;
+}
+
 /**
  * 将字符串日期转换为 Date 对象
  */
@@ -48,3 +65,11 @@ export function getAllGroupConfigs(): Record<ModelGroupType, GroupConfig> {
   const config = loadModelsConfig();
   return config.configs;
 }
+
+/**
+ * 获取每位用户的总费用上限
+ */
+export function getUserBudget(): UsageBudget | undefined {
+  const config = loadModelsConfig();
+  return config.budget;
+}
@@ -29,10 +29,10 @@ export const streamGenerationExample = async () => {
   console.log('开始流式批量生成图片...');
 
   try {
-    await modelApiManager.generateImageWithDoubaoStream(
+    await modelApiManager.generateImageStream(
+      model,
       {
         prompt,
-        model,
         count,
       },
       {
@@ -95,8 +95,9 @@ export const useStreamGeneration = () => {
     setProgress({ current: 0, total: count });
 
     try {
-      await modelApiManager.generateImageWithDoubaoStream(
-        { prompt, model, count },
+      await modelApiManager.generateImageStream(
+        model,
+        { prompt, count },
         {
           count,
           onProgress: (result, index, total) => {
@@ -7,6 +7,9 @@
 
 export { useChat } from './useChat';
 export { useChatInput } from './useChatInput';
+export { useRegenerateResult } from './useRegenerateResult';
+export { useGenerationJobs } from './useGenerationJobs';
+export { useUsageBudget } from './useUsageBudget';
 export { useChatScroll } from './useChatScroll';
 export { useChatNavigation } from './useChatNavigation';
 export { useArchivedChats } from './useArchivedChats';
@@ -14,34 +14,35 @@ import { useRef, useCallback } from 'react';
 import type { ChangeEvent, FormEvent, KeyboardEvent } from 'react';
 
 // --- Core-related Libraries ---
+import toast from 'react-hot-toast';
 import { useTranslation } from 'react-i18next';
 
 // --- Internal Libraries ---
 // --- Hooks ---
+import { useUsageBudget } from '@/hooks/chat/useUsageBudget';
 import { useModel } from '@/hooks/model';
 // --- Services ---
 import { modelApiManager } from '@/services/api';
 import type { Chat, Message, Results } from '@/services/chat';
+import { generationJobService, type GenerationJobRequest, type NewGenerationJob } from '@/services/jobs';
 import { modelManager, type ImageModel } from '@/services/model';
 // --- Types ---
-import type { DesignImage, SelectedModel } from '@/types/chat';
+import type { DesignImage, GenerationParams, SelectedModel } from '@/types/chat';
 // --- Utils ---
 import { eventBus, EVENT_NEED_SIGN_IN } from '@/utils/eventBus';
+import { toGenerationRequestParams } from '@/utils/generationParams';
+import { summarizeResults } from '@/utils/messageResults';
+import { getRequiredCapability, partitionSelectedModels } from '@/utils/modelUtils';
 
 // =================================================================================================
 // Type Definitions
 // =================================================================================================
 
-interface StreamResponse {
-  role: 'assistant' | 'StreamClosed';
-  status: 'streaming' | 'image';
-  content: string;
-}
-
 interface UseChatInputProps {
   user: any;
   currentChat: Chat | null;
   selectedModels: SelectedModel[];
+  generationParams: GenerationParams;
   designImage: DesignImage | null;
   onSendMessage: (message: Message) => Promise<void>;
   onUpdateMessageResults: (messageId: string, results: Results, updateInDatabase?: boolean) => Promise<void>;
@@ -58,8 +59,6 @@ interface UseChatInputProps {
 // =================================================================================================
 
 const TEXTAREA_MAX_HEIGHT = 200;
-const STREAM_UPDATE_INTERVAL = 1000;
-const STREAM_MAX_RETRIES = 5;
 
 // =================================================================================================
 // Hook
@@ -69,6 +68,7 @@ export const useChatInput = ({
   user,
   currentChat,
   selectedModels,
+  generationParams,
   designImage,
   onSendMessage,
   onUpdateMessageResults,
@@ -81,100 +81,52 @@ export const useChatInput = ({
 }: UseChatInputProps) => {
   const { t } = useTranslation();
   const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
   const { modelConfigs } = useModel();
+  const { checkBudgets } = useUsageBudget();
 
   // =================================================================================================
-  // Stream Processing
+  // Message Sending
   // =================================================================================================
 
-  const processStreamResponse = useCallback(async (message: Message, stream: ReadableStream<Uint8Array>) => {
-    const reader = stream.getReader();
-    const decoder = new TextDecoder('utf-8');
-    let buffer = '';
-    let accumulatedContent = '';
-    let retryCount = 0;
-    let lastUpdateTime = Date.now();
-
+  /**
+   * 服务端任务模式：每个模型写入一个任务，由任务进程生成并回写结果，关闭页面不影响生成
+   * 找不到的模型没有任务，与写入失败的任务一样直接标记为失败
+   */
+  const enqueueJobs = useCallback(async (chatId: string, message: Message, request: GenerationJobRequest) => {
+    const jobs: NewGenerationJob[] = message.models.flatMap(({ id, name }) => {
+      const jobId = message.results.images[name]?.[0]?.jobId;
+      return jobId ? [{
+        id: jobId,
+        chat_id: chatId,
+        message_id: message.id,
+        model_id: id,
+        model_name: name,
+        result_ids: message.results.images[name].map(result => result.id),
+        request,
+      }] : [];
+    });
+
+    let enqueueError: string | null = null;
     try {
-      for (;;) {
-        try {
-          const { done, value } = await reader.read();
-          if (done) break;
-
-          buffer += decoder.decode(value, { stream: true });
-          let endIndex;
-          while ((endIndex = buffer.indexOf('\n')) !== -1) {
-            const line = buffer.slice(0, endIndex).trim();
-            buffer = buffer.slice(endIndex + 1);
-
-            if (line.startsWith('data: ')) {
-              try {
-                const jsonStr = line.slice(6);
-                const response: StreamResponse = JSON.parse(jsonStr.replace(/'/g, '"'));
-
-                if (response.role === 'assistant') {
-                  if (response.status === 'streaming') {
-                    accumulatedContent += response.content;
-                    const now = Date.now();
-                    if (now - lastUpdateTime >= STREAM_UPDATE_INTERVAL) {
-                      message.results.images['gpt-4o-image'][0].text = accumulatedContent;
-                      await onUpdateMessageResults(message.id, { ...message.results, images: { 'gpt-4o-image': [message.results.images['gpt-4o-image'][0] ] } }, true);
-                      lastUpdateTime = now;
-                    } else {
-                      message.results.images['gpt-4o-image'][0].text = accumulatedContent;
-                    }
-                  } else if (response.status === 'image') {
-                    const updatedResults = {
-                      ...message.results,
-                      images: {
-                        'gpt-4o-image': [{
-                          id: `img_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-                          url: `https://cdn.designgpt.art/${response.content}`,
-                          text: null, error: null, errorMessage: null, isGenerating: false
-                        }]
-                      }
-                    };
-                    message.results = updatedResults;
-                    await onUpdateMessageResults(message.id, updatedResults, true);
-                  }
-                }
-              } catch (e) {
-                console.error('Error parsing stream data:', e, 'Line:', line);
-              }
-            } else if (line === 'event: close') {
-              const finalContent = accumulatedContent || t('chat.generation.success');
-              message.results.images['gpt-4o-image'][0].text = finalContent;
-              await onUpdateMessageResults(message.id, { ...message.results, images: { 'gpt-4o-image': [message.results.images['gpt-4o-image'][0] ] } }, true);
-              console.log('Stream closed normally.');
-            }
-          }
-        } catch (error) {
-          if (error instanceof TypeError && error.message === 'network error' && retryCount < STREAM_MAX_RETRIES) {
-            retryCount++;
-            console.log(`Retrying network error... (${retryCount}/${STREAM_MAX_RETRIES})`);
-            await new Promise(resolve => setTimeout(resolve, 1000 * retryCount));
-            continue;
-          }
-          throw error;
-        }
-      }
+      await generationJobService.enqueue(jobs);
     } catch (error) {
-      console.error('Error reading stream:', error);
-      const errorMessage = error instanceof Error ? error.message : '生成失败';
-      const errorResults = {
-        ...message.results,
-        images: { 'gpt-4o-image': [{ ...message.results.images['gpt-4o-image'][0], error: '生成失败', errorMessage, isGenerating: false }] }
-      };
-      message.results = errorResults;
-      await onUpdateMessageResults(message.id, errorResults, true);
-    } finally {
-      reader.releaseLock();
+      enqueueError = error instanceof Error ? error.message : '任务提交失败';
     }
-  }, [t, onUpdateMessageResults]);
-
-  // =================================================================================================
-  // Message Sending
-  // =================================================================================================
+    if (!enqueueError && jobs.length === message.models.length) return;
+
+    const images = Object.fromEntries(Object.entries(message.results.images).map(([name, results]) => [
+      name,
+      results.map(result => (result.jobId && !enqueueError ? result : {
+        ...result,
+        jobId: undefined,
+        isGenerating: false,
+        error: '生成失败',
+        errorMessage: enqueueError || `模型未找到: ${name}`,
+      })),
+    ]));
+    await onUpdateMessageResults(message.id, { images, status: summarizeResults(images) }, true);
+  }, [onUpdateMessageResults]);
 
   const handleSendMessage = useCallback(async (e: FormEvent) => {
     e.preventDefault();
@@ -183,9 +135,47 @@ export const useChatInput = ({
       return;
     }
 
+    // 只发给具备当前模式所需能力且未下线的已选模型：文生图、图片编辑或局部重绘，原图与蒙版随请求传给服务商
+    const sourceImage = designImage?.url
+      ? { imageUrl: designImage.url, ...(designImage.maskUrl ? { maskUrl: designImage.maskUrl } : {}) }
+      : null;
+    const requiredCapability = getRequiredCapability(designImage);
+    const { usable, unsupported, retired } = partitionSelectedModels(selectedModels, requiredCapability, modelManager);
+    if (usable.length === 0) {
+      toast.error(t(`chat.input.unsupportedModels.${requiredCapability}.none`));
+      return;
+    }
+    const toNames = (models: SelectedModel[]) => models.map(({ name }) => name).join('、');
+    if (unsupported.length > 0) {
+      toast(t(`chat.input.unsupportedModels.${requiredCapability}.skipped`, { models: toNames(unsupported) }));
+    }
+    if (retired.length > 0) {
+      toast(t('chat.input.retiredModels', { models: toNames(retired) }));
+    }
+    const currentModels = usable.map(model => ({ ...model, count: Math.min(model.count, modelManager.getMaxCount(model.id)) }));
+
+    // 超出任一模型的提示词长度限制时不发送
+    const promptLength = (textareaRef.current?.value || '').length;
+    const promptLimit = modelManager.getPromptLengthLimit(currentModels.map(({ id }) => id));
+    if (promptLimit !== undefined && promptLength > promptLimit) {
+      toast.error(t('chat.input.promptTooLong', { count: promptLength, max: promptLimit }));
+      return;
+    }
+
     onSetIsSending(true);
+
+    // 预算不足时不发送
+    if (!(await checkBudgets(currentModels))) {
+      onSetIsSending(false);
+      return;
+    }
+
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
     const currentInput = textareaRef.current?.value || '';
-    const currentModels = designImage ? [{ id: 'gpt-4o-image', name: 'gpt-4o-image', count: 1 }] : selectedModels;
+    const requestParams = { ...toGenerationRequestParams(generationParams), ...sourceImage };
+    const useJobs = generationJobService.isEnabled();
+    const sentAt = new Date().toISOString();
 
     try {
       const totalCount = currentModels.reduce((sum, model) => sum + model.count, 0);
@@ -196,12 +186,17 @@ export const useChatInput = ({
           total: totalCount,
           generating: totalCount
         },
-        images: designImage ? {} : currentModels.reduce((acc, model) => ({
+        images: currentModels.reduce((acc, model) => ({
           ...acc,
-          [model.name]: Array(model.count).fill(null).map((_, index) => ({
-            id: `img_${Date.now()}_${index}_${Math.random().toString(36).substring(2, 9)}`,
-            url: null, text: null, error: null, errorMessage: null, isGenerating: true, createdAt: null
-          }))
+          [model.name]: (() => {
+            // 服务端任务模式下同一模型的结果由同一个任务生成
+            const jobId = useJobs && modelManager.getModelById(model.id) ? crypto.randomUUID() : undefined;
+            return Array(model.count).fill(null).map((_, index) => ({
+              id: `img_${Date.now()}_${index}_${Math.random().toString(36).substring(2, 9)}`,
+              url: null, text: null, error: null, errorMessage: null, isGenerating: true, createdAt: null, startedAt: sentAt,
+              ...(jobId ? { jobId } : {}),
+            }));
+          })()
         }), {})
       };
       
@@ -210,13 +205,15 @@ export const useChatInput = ({
         content: currentInput,
         models: currentModels,
         results: initialResults,
-        createdAt: new Date().toISOString(),
+        createdAt: sentAt,
         userImage: designImage ? {
           url: designImage.url,
           alt: designImage.alt || 'User uploaded image',
           referenceMessageId: designImage.referenceMessageId,
           referenceResultId: designImage.referenceResultId,
-        } : undefined
+          ...(designImage.maskUrl ? { maskUrl: designImage.maskUrl } : {}),
+        } : undefined,
+        generationParams,
       };
       
       let chat: Chat | null = currentChat;
@@ -230,175 +227,212 @@ export const useChatInput = ({
         await onSendMessage(message);
       }
 
+      // 同一用户同一对话的请求归为一组，调度时与其它对话轮流执行
+      const lane = `${user.id}:${chat.id}`;
+
       // 重置状态
       onSetInput('');
       onSetIsSending(false);
       onSetIsGenerating(true);
       onScrollToBottom(false);
+
+      if (useJobs) {
+        await enqueueJobs(chat.id, message, { prompt: currentInput, ...requestParams });
+        return;
+      }
       
-      if (designImage) {
-        const requestBody = {
-          messages: [{ role: "user", content: [{ type: "text", text: currentInput }, { type: "image_url", image_url: { url: designImage.url } }] }]
-        };
-        try {
-          const response = await fetch('https://invo-one-ajzmkpolem.cn-shenzhen.fcapp.run/stream', {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify(requestBody)
-          });
-          if (!response.ok || !response.body) throw new Error(`HTTP error! status: ${response.status}`);
-          await processStreamResponse(message, response.body);
-        } catch (error) {
-          console.error('Error in design mode:', error);
-          const errorMessage = error instanceof Error ? error.message : '生成失败';
-          message.results.images['gpt-4o-image'][0] = { ...message.results.images['gpt-4o-image'][0], error: '生成失败', errorMessage, isGenerating: false };
-          await onUpdateMessageResults(message.id, message.results, true);
+      const updatePromises = currentModels.map(async ({ id, name, count }) => {
+        const model: ImageModel | undefined = modelManager.getModelById(id);
+
+        if (!model) {
+          const errorMessage = `模型未找到: ${name}`;
+          message.results.status.generating -= count;
+          message.results.status.failed += count;
+          
+          // 创建错误结果
+          const errorResults = Array(count).fill(null).map((_, index) => ({
+            id: `img_${Date.now()}_error_${index}_${Math.random().toString(36).substring(2, 9)}`,
+            url: null, text: null, error: '生成失败', errorMessage, isGenerating: false, createdAt: undefined
+          }));
+          
+          // 立即更新 UI 显示错误状态
+          const updatedImages = { ...message.results.images };
+          updatedImages[name] = errorResults;
+          message.results.images = updatedImages;
+          onUpdateMessageResults(message.id, { ...message.results, images: updatedImages }, true);
+          
+          return { [name]: errorResults };
         }
-      } else {
-        const updatePromises = currentModels.map(async ({ id, name, count }) => {
-          const model: ImageModel | undefined = modelManager.getModelById(id);
 
-          if (!model) {
-            const errorMessage = `模型未找到: ${name}`;
-            message.results.status.generating -= count;
-            message.results.status.failed += count;
-            
-            // 创建错误结果
-            const errorResults = Array(count).fill(null).map((_, index) => ({
-              id: `img_${Date.now()}_error_${index}_${Math.random().toString(36).substring(2, 9)}`,
-              url: null, text: null, error: '生成失败', errorMessage, isGenerating: false, createdAt: undefined
+        try {
+          return new Promise<{ [key: string]: any[] }>((resolve) => {
+            // 初始化结果数组，创建正确数量的占位符
+            const results: any[] = Array(count).fill(null).map((_, index) => ({
+              id: `img_${Date.now()}_${index}_${Math.random().toString(36).substring(2, 9)}`,
+              url: null,
+              text: null,
+              error: null,
+              errorMessage: null,
+              isGenerating: true,
+              createdAt: null,
+              startedAt: sentAt,
             }));
-            
-            // 立即更新 UI 显示错误状态
-            const updatedImages = { ...message.results.images };
-            updatedImages[name] = errorResults;
-            message.results.images = updatedImages;
-            onUpdateMessageResults(message.id, { ...message.results, images: updatedImages }, true);
-            
-            return { [name]: errorResults };
-          }
-
-          try {
-            return new Promise<{ [key: string]: any[] }>((resolve) => {
-              // 初始化结果数组，创建正确数量的占位符
-              const results: any[] = Array(count).fill(null).map((_, index) => ({
-                id: `img_${Date.now()}_${index}_${Math.random().toString(36).substring(2, 9)}`,
-                url: null,
-                text: null,
-                error: null,
-                errorMessage: null,
-                isGenerating: true,
-                createdAt: null,
-              }));
-
-              const streamRequest = {
-                count,
-                onProgress: (result: any, index: number, total: number) => {
-                  console.log(`流式生成进度: ${name} - ${index + 1}/${total}`, result);
-                  
-                  // 更新对应索引位置的结果，而不是重新设置整个数组
+
+            const streamRequest = {
+              count,
+              onProgress: (result: any, index: number, total: number) => {
+                console.log(`流式生成进度: ${name} - ${index + 1}/${total}`, result);
+
+                // 异步任务的中间状态：只更新提示文本，不计入完成数
+                if (result.progress) {
                   results[index] = {
-                    id: results[index].id, // 保持原有的ID
-                    url: result.imageUrl || null,
-                    text: result.text || null,
-                    error: result.success ? null : (result.error || '生成失败'),
-                    errorMessage: result.error || null,
-                    isGenerating: false,
-                    createdAt: result.createdAt,
+                    ...results[index],
+                    text: result.progress.percent !== undefined
+                      ? t('chat.generation.task.runningPercent', { percent: result.progress.percent })
+                      : t(`chat.generation.task.${result.progress.status}`, { ...result.progress }),
                   };
-                  
-                  // 更新状态计数
-                  if (result.success) {
-                    message.results.status.success++;
-                  } else {
-                    message.results.status.failed++;
-                  }
-                  message.results.status.generating--;
-                  
-                  // 更新消息结果，保持其他模型的结果不变
                   const updatedImages = { ...message.results.images };
-                  updatedImages[name] = [...results]; // 使用展开运算符创建新数组
+                  updatedImages[name] = [...results];
                   message.results.images = updatedImages;
-                  
-                  // 立即更新UI显示当前结果
-                  onUpdateMessageResults(message.id, { ...message.results, images: updatedImages }, true);
-                },
-                onComplete: (response: any) => {
-                  console.log(`流式生成完成: ${name}`, response);
-                  resolve({ [name]: results });
-                },
-                onError: (error: Error) => {
-                  console.error(`流式生成出错: ${name}`, error);
-                  const errorMessage = error.message || '未知原因';
-                  
-                  // 将所有未完成的结果标记为错误
-                  const errorResults = results.map((result) => ({
-                    ...result,
+                  onUpdateMessageResults(message.id, { ...message.results, images: updatedImages }, false);
+                  return;
+                }
+
+                // 用户停止生成：单独计数，不计入失败
+                if (result.cancelled) {
+                  results[index] = {
+                    ...results[index],
                     url: null,
                     text: null,
-                    error: '生成失败',
-                    errorMessage,
+                    error: null,
+                    errorMessage: null,
                     isGenerating: false,
-                  }));
-                  
-                  message.results.status.generating -= count;
-                  message.results.status.failed += count;
-                  
-                  // 立即更新 UI 显示错误状态
+                    cancelled: true,
+                    createdAt: result.createdAt,
+                  };
+                  message.results.status.cancelled = (message.results.status.cancelled || 0) + 1;
+                  message.results.status.generating--;
                   const updatedImages = { ...message.results.images };
-                  updatedImages[name] = errorResults;
+                  updatedImages[name] = [...results];
                   message.results.images = updatedImages;
                   onUpdateMessageResults(message.id, { ...message.results, images: updatedImages }, true);
-                  
-                  resolve({ [name]: errorResults });
-                },
-              };
-
-              // 获取模型配置
-              const modelConfig = modelConfigs.find(config => config.model_id === model.group);
-              
-              // 使用统一的流式生成方法
-              modelApiManager.generateImageStream(
-                model.id,
-                { prompt: currentInput, count },
-                streamRequest,
-                modelConfig
-              );
-            });
-          } catch (error) {
-            console.error(`Error generating images for model ${id}:`, error);
-            const errorMessage = error instanceof Error ? error.message : '生成失败';
-            message.results.status.generating -= count;
-            message.results.status.failed += count;
-            
-            // 创建错误结果
-            const errorResults = Array(count).fill(null).map((_, index) => ({
-              id: `img_${Date.now()}_error_${index}_${Math.random().toString(36).substring(2, 9)}`,
-              url: null, text: null, error: '生成失败', errorMessage, isGenerating: false, createdAt: undefined
-            }));
-            
-            // 立即更新 UI 显示错误状态
-            const updatedImages = { ...message.results.images };
-            updatedImages[name] = errorResults;
-            message.results.images = updatedImages;
-            onUpdateMessageResults(message.id, { ...message.results, images: updatedImages }, true);
+                  return;
+                }
+                
+                // 更新对应索引位置的结果，而不是重新设置整个数组
+                results[index] = {
+                  id: results[index].id, // 保持原有的ID
+                  url: result.imageUrl || null,
+                  text: result.text || null,
+                  error: result.success ? null : (result.error || '生成失败'),
+                  errorMessage: result.error || null,
+                  isGenerating: false,
+                  ...(result.timedOut ? { timedOut: true } : {}),
+                  createdAt: result.createdAt,
+                };
+                
+                // 更新状态计数
+                if (result.success) {
+                  message.results.status.success++;
+                } else {
+                  message.results.status.failed++;
+                }
+                message.results.status.generating--;
+                
+                // 更新消息结果，保持其他模型的结果不变
+                const updatedImages = { ...message.results.images };
+                updatedImages[name] = [...results]; // 使用展开运算符创建新数组
+                message.results.images = updatedImages;
+                
+                // 立即更新UI显示当前结果
+                onUpdateMessageResults(message.id, { ...message.results, images: updatedImages }, true);
+              },
+              onComplete: (response: any) => {
+                console.log(`流式生成完成: ${name}`, response);
+                resolve({ [name]: results });
+              },
+              onError: (error: Error) => {
+                console.error(`流式生成出错: ${name}`, error);
+                const errorMessage = error.message || '未知原因';
+                
+                // 将所有未完成的结果标记为错误
+                const errorResults = results.map((result) => ({
+                  ...result,
+                  url: null,
+                  text: null,
+                  error: '生成失败',
+                  errorMessage,
+                  isGenerating: false,
+                }));
+                
+                message.results.status.generating -= count;
+                message.results.status.failed += count;
+                
+                // 立即更新 UI 显示错误状态
+                const updatedImages = { ...message.results.images };
+                updatedImages[name] = errorResults;
+                message.results.images = updatedImages;
+                onUpdateMessageResults(message.id, { ...message.results, images: updatedImages }, true);
+                
+                resolve({ [name]: errorResults });
+              },
+              signal: abortController.signal,
+              lane,
+            };
+
+            // 获取模型配置
+            const modelConfig = modelConfigs.find(config => config.model_id === model.group);
             
-            return { [name]: errorResults };
-          }
-        });
-
-        for (const promise of updatePromises) {
-          await promise;
+            // 使用统一的流式生成方法，高级参数由各服务商适配器自行转换
+            modelApiManager.generateImageStream(
+              model.id,
+              { prompt: currentInput, count, ...requestParams },
+              streamRequest,
+              modelConfig
+            );
+          });
+        } catch (error) {
+          console.error(`Error generating images for model ${id}:`, error);
+          const errorMessage = error instanceof Error ? error.message : '生成失败';
+          message.results.status.generating -= count;
+          message.results.status.failed += count;
+          
+          // 创建错误结果
+          const errorResults = Array(count).fill(null).map((_, index) => ({
+            id: `img_${Date.now()}_error_${index}_${Math.random().toString(36).substring(2, 9)}`,
+            url: null, text: null, error: '生成失败', errorMessage, isGenerating: false, createdAt: undefined
+          }));
+          
+          // 立即更新 UI 显示错误状态
+          const updatedImages = { ...message.results.images };
+          updatedImages[name] = errorResults;
+          message.results.images = updatedImages;
+          onUpdateMessageResults(message.id, { ...message.results, images: updatedImages }, true);
+          
+          return { [name]: errorResults };
         }
+      });
+
+      for (const promise of updatePromises) {
+        await promise;
       }
     } catch (error) {
       console.error('Error in handleSendMessage:', error);
       onSetInput(currentInput);
     } finally {
+      if (abortControllerRef.current === abortController) {
+        abortControllerRef.current = null;
+      }
       onSetIsSending(false);
       onSetIsGenerating(false);
     }
-  }, [user, selectedModels, designImage, currentChat, onCreateNewChat, onNavigate, onSendMessage, onUpdateMessageResults, processStreamResponse, onSetInput, onSetIsSending, onSetIsGenerating, onScrollToBottom, modelConfigs]);
+  }, [t, user, selectedModels, generationParams, designImage, currentChat, checkBudgets, enqueueJobs, onCreateNewChat, onNavigate, onSendMessage, onUpdateMessageResults, onSetInput, onSetIsSending, onSetIsGenerating, onScrollToBottom, modelConfigs]);
+
+  /** 停止当前生成：排队中的请求直接取消，进行中的请求中止，已完成的结果保留 */
+  const handleStopGeneration = useCallback(() => {
+    abortControllerRef.current?.abort();
+    abortControllerRef.current = null;
+  }, []);
 
   // =================================================================================================
   // Keyboard Events
@@ -441,6 +475,7 @@ export const useChatInput = ({
   return {
     textareaRef,
     handleSendMessage,
+    handleStopGeneration,
     handleInputKeyDown,
     handleInputChange,
   };
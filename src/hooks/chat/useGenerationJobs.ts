@@ -0,0 +1,77 @@
+/**
+ * @file useGenerationJobs.ts
+ * @description Hook for applying the progress and results of server-side generation jobs to the current chat
+ * @author fmw666@github
+ * @date 2025-07-18
+ */
+
+// =================================================================================================
+// Imports
+// =================================================================================================
+
+// --- Core Libraries ---
+import { useCallback, useEffect } from 'react';
+
+// --- Core-related Libraries ---
+import { useTranslation } from 'react-i18next';
+
+// --- Internal Libraries ---
+// --- Services ---
+import type { Results } from '@/services/chat';
+import { generationJobService, type GenerationJob } from '@/services/jobs';
+import type { TaskProgress } from '@/services/model';
+// --- Store ---
+import { useChatStore } from '@/store/chatStore';
+// --- Utils ---
+import { applyGenerationJob } from '@/utils/messageResults';
+
+// =================================================================================================
+// Type Definitions
+// =================================================================================================
+
+interface UseGenerationJobsProps {
+  chatId: string | null;
+  onUpdateMessageResults: (messageId: string, results: Results, updateInDatabase?: boolean) => Promise<void>;
+}
+
+// =================================================================================================
+// Hook
+// =================================================================================================
+
+export const useGenerationJobs = ({ chatId, onUpdateMessageResults }: UseGenerationJobsProps) => {
+  const { t } = useTranslation();
+
+  const formatProgress = useCallback((progress: TaskProgress) => (
+    progress.percent !== undefined
+      ? t('chat.generation.task.runningPercent', { percent: progress.percent })
+      : t(`chat.generation.task.${progress.status}`, { ...progress })
+  ), [t]);
+
+  // 任务进程已把结果写入数据库，这里只更新本地状态
+  const applyJob = useCallback((job: GenerationJob) => {
+    const chat = useChatStore.getState().currentChat;
+    const message = chat?.id === job.chat_id ? chat.messages.find(msg => msg.id === job.message_id) : undefined;
+    if (!message) return;
+    onUpdateMessageResults(message.id, applyGenerationJob(message.results, job, formatProgress), false);
+  }, [formatProgress, onUpdateMessageResults]);
+
+  useEffect(() => {
+    if (!chatId || !generationJobService.isEnabled()) return;
+
+    const unsubscribe = generationJobService.subscribe(chatId, applyJob);
+
+    // 补齐订阅之前任务已产生的进度与结果
+    const messages = useChatStore.getState().currentChat?.messages || [];
+    const jobIds = new Set(messages
+      .flatMap(message => Object.values(message.results.images).flat())
+      .filter(result => result.isGenerating && result.jobId)
+      .map(result => result.jobId!));
+    generationJobService.getJobs([...jobIds])
+      .then(jobs => jobs.forEach(applyJob))
+      .catch(() => {
+        // 读取失败时等待订阅推送，错误已在 generationJobService 中输出
+      });
+
+    return unsubscribe;
+  }, [chatId, applyJob]);
+};
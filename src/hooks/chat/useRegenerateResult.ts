@@ -0,0 +1,348 @@
+/**
+ * @file useRegenerateResult.ts
+ * @description Hook for regenerating a single image result of a message and resuming interrupted results
+ * @author fmw666@github
+ * @date 2025-07-18
+ */
+
+// =================================================================================================
+// Imports
+// =================================================================================================
+
+// --- Core Libraries ---
+import { useCallback, useRef, useState } from 'react';
+
+// --- Core-related Libraries ---
+import { useTranslation } from 'react-i18next';
+
+// --- Internal Libraries ---
+// --- Hooks ---
+import { useUsageBudget } from '@/hooks/chat/useUsageBudget';
+import { useModel } from '@/hooks/model';
+// --- Services ---
+import { modelApiManager } from '@/services/api';
+import type { ImageResult, Message, Results } from '@/services/chat';
+import { generationJobService, type NewGenerationJob } from '@/services/jobs';
+import { modelManager, type ImageModel, type StandardResponse } from '@/services/model';
+// --- Store ---
+import { useChatStore } from '@/store/chatStore';
+// --- Utils ---
+import { eventBus, EVENT_NEED_SIGN_IN } from '@/utils/eventBus';
+import { toGenerationRequestParams } from '@/utils/generationParams';
+import { applyGenerationResponse, findResultModelName, getInterruptedResults, replaceImageResult, startRegeneration } from '@/utils/messageResults';
+
+// =================================================================================================
+// Type Definitions
+// =================================================================================================
+
+interface UseRegenerateResultProps {
+  user: any;
+  onUpdateMessageResults: (messageId: string, results: Results, updateInDatabase?: boolean) => Promise<void>;
+}
+
+interface ResultSlot {
+  modelName: string;
+  model: ImageModel;
+  resultId: string;
+  start: (current: ImageResult) => ImageResult;
+}
+
+// =================================================================================================
+// Utility Functions
+// =================================================================================================
+
+/**
+ * 沿用原消息的参考图与高级参数
+ * @param message - 原消息
+ * @param keepSeed - 是否沿用原消息的固定种子
+ */
+const toMessageRequestParams = (message: Message, keepSeed: boolean) => {
+  const sourceImage = message.userImage?.url
+    ? { imageUrl: message.userImage.url, ...(message.userImage.maskUrl ? { maskUrl: message.userImage.maskUrl } : {}) }
+    : null;
+  const generationParams = keepSeed ? { ...message.generationParams } : { ...message.generationParams, seed: undefined };
+  return {
+    ...toGenerationRequestParams(generationParams),
+    ...sourceImage,
+  };
+};
+
+// =================================================================================================
+// Hook
+// =================================================================================================
+
+export const useRegenerateResult = ({ user, onUpdateMessageResults }: UseRegenerateResultProps) => {
+  const { t } = useTranslation();
+  const { modelConfigs } = useModel();
+  const { checkBudgets } = useUsageBudget();
+  // 每次重新生成或继续生成各持有一个中止控制器，停止生成时全部中止
+  const abortControllersRef = useRef(new Set<AbortController>());
+  const [isRegenerating, setIsRegenerating] = useState(false);
+
+  // 每次都基于 store 中最新的消息更新，避免与同一消息中其它结果的更新互相覆盖
+  const updateResult = useCallback((
+    messageId: string,
+    resultId: string,
+    updater: (result: ImageResult) => ImageResult,
+    updateInDatabase: boolean
+  ) => {
+    const message = useChatStore.getState().currentChat?.messages.find(msg => msg.id === messageId);
+    if (!message) return;
+    return onUpdateMessageResults(messageId, replaceImageResult(message.results, resultId, updater), updateInDatabase);
+  }, [onUpdateMessageResults]);
+
+  /**
+   * 找到结果实际使用的模型：原模型已下线时改用替代模型，
+   * 并记录原模型 ID，使其随原结果保存到 history
+   * @param message - 原消息
+   * @param modelName - 结果所属的模型名称
+   */
+  const resolveResultModel = useCallback((message: Message, modelName: string) => {
+    const modelId = message.models.find(item => item.name === modelName)?.id ?? '';
+    const model = modelManager.resolveModel(modelId);
+    const start = (current: ImageResult) => startRegeneration(
+      { ...current, modelId: current.modelId ?? modelId },
+      model?.id
+    );
+    return { model, start };
+  }, []);
+
+  /**
+   * 为消息中的单个结果请求一张图片，结果需已处于生成中状态
+   * @param chatId - 对话 ID，用于公平调度分组
+   * @param message - 原消息，沿用其提示词、参考图与高级参数
+   * @param modelName - 结果所属的模型名称
+   * @param model - 模型配置
+   * @param resultId - 图片结果 ID
+   * @param keepSeed - 是否沿用原消息的固定种子
+   * @param signal - 中止信号，中止后结果标记为已停止
+   */
+  const generateResult = useCallback(async (
+    chatId: string,
+    message: Message,
+    modelName: string,
+    model: ImageModel,
+    resultId: string,
+    keepSeed: boolean,
+    signal: AbortSignal
+  ) => {
+    const finish = (response: StandardResponse) => updateResult(
+      message.id,
+      resultId,
+      current => applyGenerationResponse(current, response),
+      true
+    );
+
+    const requestParams = toMessageRequestParams(message, keepSeed);
+    const modelConfig = modelConfigs.find(config => config.model_id === model.group);
+
+    await modelApiManager.generateImageStream(
+      model.id,
+      { prompt: message.content, count: 1, ...requestParams },
+      {
+        count: 1,
+        lane: `${user.id}:${chatId}`,
+        signal,
+        onProgress: (response) => {
+          if (response.progress) {
+            updateResult(message.id, resultId, current => ({
+              ...current,
+              text: response.progress!.percent !== undefined
+                ? t('chat.generation.task.runningPercent', { percent: response.progress!.percent })
+                : t(`chat.generation.task.${response.progress!.status}`, { ...response.progress }),
+            }), false);
+            return;
+          }
+          finish(response);
+        },
+        onError: (error) => {
+          console.error(`重新生成出错: ${modelName}`, error);
+          finish({ success: false, error: error.message || '未知原因' });
+        },
+      },
+      modelConfig
+    );
+  }, [t, user, modelConfigs, updateResult]);
+
+  /**
+   * 服务端任务模式：同一模型的结果合并为一个任务，由任务进程生成并回写，关闭页面不影响生成
+   * 结果先以生成中状态写入数据库，任务进程回写时才能找到占位；写入任务失败时直接标记为失败
+   * @param chatId - 对话 ID
+   * @param message - 原消息，沿用其提示词、参考图与高级参数
+   * @param slots - 需要生成的结果
+   * @param keepSeed - 是否沿用原消息的固定种子
+   */
+  const enqueueResults = useCallback(async (chatId: string, message: Message, slots: ResultSlot[], keepSeed: boolean) => {
+    const request = { prompt: message.content, ...toMessageRequestParams(message, keepSeed) };
+    const jobs = slots.reduce((acc, { modelName, model, resultId }) => {
+      const key = `${modelName}:${model.id}`;
+      const job: NewGenerationJob = acc.get(key) ?? {
+        id: crypto.randomUUID(),
+        chat_id: chatId,
+        message_id: message.id,
+        model_id: model.id,
+        model_name: modelName,
+        result_ids: [],
+        request,
+      };
+      job.result_ids.push(resultId);
+      return acc.set(key, job);
+    }, new Map<string, NewGenerationJob>());
+
+    for (const { resultId, start } of slots) {
+      const jobId = [...jobs.values()].find(job => job.result_ids.includes(resultId))?.id;
+      await updateResult(message.id, resultId, current => ({ ...start(current), jobId }), true);
+    }
+
+    try {
+      await generationJobService.enqueue([...jobs.values()]);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : '任务提交失败';
+      for (const { resultId } of slots) {
+        await updateResult(message.id, resultId, current => ({
+          ...current,
+          jobId: undefined,
+          isGenerating: false,
+          error: '生成失败',
+          errorMessage,
+        }), true);
+      }
+    }
+  }, [updateResult]);
+
+  /**
+   * 在可被停止生成中止的范围内执行生成
+   * @param generate - 接收中止信号的生成过程
+   */
+  const runAbortable = useCallback(async (generate: (signal: AbortSignal) => Promise<unknown>) => {
+    const abortController = new AbortController();
+    const controllers = abortControllersRef.current;
+    controllers.add(abortController);
+    setIsRegenerating(true);
+    try {
+      await generate(abortController.signal);
+    } finally {
+      controllers.delete(abortController);
+      setIsRegenerating(controllers.size > 0);
+    }
+  }, []);
+
+  /** 停止所有进行中的重新生成与继续生成，已完成的结果保留 */
+  const stopRegeneration = useCallback(() => {
+    abortControllersRef.current.forEach(abortController => abortController.abort());
+    abortControllersRef.current.clear();
+    setIsRegenerating(false);
+  }, []);
+
+  /**
+   * 重新生成消息中的单张图片：仅为该结果所属的模型再请求一次，原结果保存到 history
+   * @param messageId - 消息 ID
+   * @param resultId - 图片结果 ID
+   */
+  const regenerateResult = useCallback(async (messageId: string, resultId: string) => {
+    if (!user) {
+      eventBus.emit(EVENT_NEED_SIGN_IN);
+      return;
+    }
+
+    const chat = useChatStore.getState().currentChat;
+    const message = chat?.messages.find(msg => msg.id === messageId);
+    if (!chat || !message) return;
+
+    const modelName = findResultModelName(message.results, resultId);
+    const result = modelName ? message.results.images[modelName].find(item => item.id === resultId) : undefined;
+    if (!modelName || !result || result.isGenerating) return;
+
+    const { model, start } = resolveResultModel(message, modelName);
+    if (!model) {
+      await updateResult(messageId, resultId, current => ({
+        ...startRegeneration(current),
+        isGenerating: false,
+        error: '生成失败',
+        errorMessage: `模型未找到: ${modelName}`,
+      }), true);
+      return;
+    }
+
+    if (!(await checkBudgets([{ id: model.id, name: modelName, count: 1 }]))) return;
+
+    // 不复用固定种子，否则会得到同一张图
+    if (generationJobService.isEnabled()) {
+      await enqueueResults(chat.id, message, [{ modelName, model, resultId, start }], false);
+      return;
+    }
+
+    await updateResult(messageId, resultId, start, false);
+    await runAbortable(signal => generateResult(chat.id, message, modelName, model, resultId, false, signal));
+  }, [user, checkBudgets, updateResult, generateResult, enqueueResults, resolveResultModel, runAbortable]);
+
+  /**
+   * 继续生成消息中被中断的结果：按原提示词、模型与参数补发缺失的图片
+   * @param messageId - 消息 ID
+   */
+  const resumeInterrupted = useCallback(async (messageId: string) => {
+    if (!user) {
+      eventBus.emit(EVENT_NEED_SIGN_IN);
+      return;
+    }
+
+    const chat = useChatStore.getState().currentChat;
+    const message = chat?.messages.find(msg => msg.id === messageId);
+    if (!chat || !message) return;
+
+    const slots = getInterruptedResults(message.results).map(slot => ({
+      ...slot,
+      ...resolveResultModel(message, slot.modelName),
+    }));
+    if (slots.length === 0) return;
+
+    const budgetItems = slots.reduce<Array<{ id: string; name: string; count: number }>>((items, { model, modelName }) => {
+      if (!model) return items;
+      const item = items.find(current => current.id === model.id);
+      if (item) {
+        item.count++;
+      } else {
+        items.push({ id: model.id, name: modelName, count: 1 });
+      }
+      return items;
+    }, []);
+    if (!(await checkBudgets(budgetItems))) return;
+
+    // 模型已不存在的结果直接标记为失败
+    const runnableSlots: ResultSlot[] = [];
+    for (const { modelName, model, start, resultId } of slots) {
+      if (model) {
+        runnableSlots.push({ modelName, model, resultId, start });
+        continue;
+      }
+      await updateResult(messageId, resultId, current => ({
+        ...startRegeneration(current),
+        isGenerating: false,
+        error: '生成失败',
+        errorMessage: `模型未找到: ${modelName}`,
+      }), true);
+    }
+    if (runnableSlots.length === 0) return;
+
+    if (generationJobService.isEnabled()) {
+      await enqueueResults(chat.id, message, runnableSlots, true);
+      return;
+    }
+
+    // 先将所有中断的结果置为生成中，再并行请求，由调度器按模型组限流
+    for (const { start, resultId } of runnableSlots) {
+      await updateResult(messageId, resultId, start, false);
+    }
+
+    await runAbortable(signal => Promise.all(runnableSlots.map(({ modelName, model, resultId }) => (
+      generateResult(chat.id, message, modelName, model, resultId, true, signal)
+    ))));
+  }, [user, checkBudgets, updateResult, generateResult, enqueueResults, resolveResultModel, runAbortable]);
+
+  return {
+    isRegenerating,
+    regenerateResult,
+    resumeInterrupted,
+    stopRegeneration,
+  };
+};
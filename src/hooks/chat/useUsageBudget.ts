@@ -0,0 +1,67 @@
+/**
+ * @file useUsageBudget.ts
+ * @description Hook for checking spending budgets before sending generation requests
+ * @author fmw666@github
+ * @date 2025-07-18
+ */
+
+// =================================================================================================
+// Imports
+// =================================================================================================
+
+// --- Core Libraries ---
+import { useCallback } from 'react';
+
+// --- Core-related Libraries ---
+import toast from 'react-hot-toast';
+import { useTranslation } from 'react-i18next';
+
+// --- Internal Libraries ---
+// --- Services ---
+import { usageService } from '@/services/usage';
+// --- Utils ---
+import { formatCost } from '@/utils/usageCost';
+
+// =================================================================================================
+// Type Definitions
+// =================================================================================================
+
+interface BudgetCheckItem {
+  id: string;
+  name: string;
+  count: number;
+}
+
+// =================================================================================================
+// Hook
+// =================================================================================================
+
+export const useUsageBudget = () => {
+  const { t } = useTranslation();
+
+  /**
+   * 按预估费用检查用户总预算与各模型预算，超出时提示原因
+   * @param models - 即将发送的模型及图片数量
+   * @returns 是否可以发送
+   */
+  const checkBudgets = useCallback(async (models: BudgetCheckItem[]): Promise<boolean> => {
+    const exceeded = await usageService.checkBudgets(models.map(({ id, count }) => ({ modelId: id, count })));
+    if (!exceeded) return true;
+
+    const { budget, spent, expected, modelId } = exceeded;
+    const params = {
+      period: t(`chat.usage.period.${budget.period}`),
+      spent: formatCost(spent),
+      expected: formatCost(expected),
+      limit: formatCost(budget.limit),
+    };
+    toast.error(modelId
+      ? t('chat.usage.modelBudgetExceeded', { ...params, model: models.find(({ id }) => id === modelId)?.name ?? modelId })
+      : t('chat.usage.budgetExceeded', params));
+    return false;
+  }, [t]);
+
+  return {
+    checkBudgets,
+  };
+};
@@ -19,3 +19,6 @@ export * from './ui';
 
 // Model hooks
 export * from './model';
+
+// Usage hooks
+export * from './usage';
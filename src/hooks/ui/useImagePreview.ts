@@ -17,7 +17,7 @@ import { useState, useCallback } from 'react';
 import type { Asset } from '@/services/assets';
 import type { Chat, Message } from '@/services/chat';
 // --- Types ---
-import type { SelectedImage, DesignImage } from '@/types/chat';
+import type { SelectedImage, DesignImage, DesignTarget } from '@/types/chat';
 
 // =================================================================================================
 // Type Definitions
@@ -37,11 +37,12 @@ export const useImagePreview = ({ currentChat, user }: UseImagePreviewProps) =>
   const [isDesignImageMenuVisible, setIsDesignImageMenuVisible] = useState(false);
   const [selectedImage, setSelectedImage] = useState<{ asset: Asset; imageUrl: string; imageId: string } | null>(null);
 
-  const handleDesignModeEnter = useCallback((image: SelectedImage) => {
+  const handleDesignModeEnter = useCallback((image: SelectedImage, maskUrl?: string) => {
     setDesignImage({
       url: image.url || null,
       referenceMessageId: image.messageId || null,
       referenceResultId: image.resultId || null,
+      maskUrl: maskUrl || null,
     });
   }, []);
 
@@ -141,7 +142,7 @@ export const useImagePreview = ({ currentChat, user }: UseImagePreviewProps) =>
     setSelectedImage(null);
   }, []);
 
-  const handleEnterDesignFromPreview = useCallback((currentImageInfo?: { url: string; id: string; messageId: string }) => {
+  const handleEnterDesignFromPreview = useCallback((currentImageInfo?: DesignTarget) => {
     if (selectedImage) {
       // 从 ImagePreview 进入设计模式
       // 如果提供了当前图片信息，使用它；否则使用默认的 selectedImage
@@ -168,6 +169,7 @@ export const useImagePreview = ({ currentChat, user }: UseImagePreviewProps) =>
         alt: selectedImage.asset.content,
         referenceMessageId: messageId,
         referenceResultId: imageId,
+        maskUrl: currentImageInfo?.maskUrl || null,
       });
       setSelectedImage(null); // 关闭 ImagePreview
     }
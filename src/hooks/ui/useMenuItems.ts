@@ -20,6 +20,7 @@ import {
   UserIcon, 
   Cog6ToothIcon, 
   PhotoIcon, 
+  ChartBarIcon,
   ArrowRightOnRectangleIcon,
 } from '@heroicons/react/24/outline';
 
@@ -53,6 +54,7 @@ export const useMenuItems = (
   
   // --- Logic and Event Handlers ---
   const isAssetsPage = location.pathname.startsWith('/assets');
+  const isUsagePage = location.pathname.startsWith('/usage');
 
   const handleProfileClick = useCallback(() => {
     onProfileClick();
@@ -86,6 +88,14 @@ export const useMenuItems = (
       isLink: true,
       showCondition: () => !isAssetsPage,
     },
+    {
+      id: 'usage',
+      icon: ChartBarIcon,
+      label: 'usage.title',
+      to: '/usage',
+      isLink: true,
+      showCondition: () => !isUsagePage,
+    },
     {
       id: 'logout',
       icon: ArrowRightOnRectangleIcon,
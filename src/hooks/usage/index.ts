@@ -0,0 +1,8 @@
+/**
+ * @file index.ts
+ * @description Usage hooks index file
+ * @author fmw666@github
+ * @date 2025-07-18
+ */
+
+export { useUsageStats } from './useUsageStats';
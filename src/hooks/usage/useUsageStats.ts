@@ -0,0 +1,99 @@
+/**
+ * @file useUsageStats.ts
+ * @description Hook for loading chat results and assets and aggregating them into usage statistics.
+ * @author fmw666@github
+ * @date 2025-07-18
+ */
+
+// =================================================================================================
+// Imports
+// =================================================================================================
+
+// --- Core Libraries ---
+import { useState, useEffect, useCallback, useMemo } from 'react';
+
+// --- Internal Libraries ---
+// --- Hooks ---
+import { useAuth } from '@/hooks/auth';
+// --- Services ---
+import { assetsService, type Asset } from '@/services/assets';
+import { chatService, type Chat } from '@/services/chat';
+// --- Utils ---
+import { buildUsageStats, type UsageMessage } from '@/utils/usageStats';
+
+// =================================================================================================
+// Constants
+// =================================================================================================
+
+const MAX_ASSETS = 9999;
+
+// =================================================================================================
+// Utility Functions
+// =================================================================================================
+
+/**
+ * 合并对话消息与素材记录：同一条消息以对话中的为准（带发送时间），
+ * 对话中读取不到的消息再用素材记录补充
+ */
+const mergeMessages = (chats: Chat[], assets: Asset[]): UsageMessage[] => {
+  const messages = new Map<string, UsageMessage>();
+  chats.forEach(chat => {
+    chat.messages.forEach(message => {
+      if (message.results) messages.set(`${chat.id}:${message.id}`, message);
+    });
+  });
+  assets.forEach(asset => {
+    const key = `${asset.chat_id}:${asset.message_id}`;
+    if (!messages.has(key) && asset.results) {
+      messages.set(key, { createdAt: asset.created_at, results: asset.results });
+    }
+  });
+  return [...messages.values()];
+};
+
+// =================================================================================================
+// Hook Definition
+// =================================================================================================
+
+export const useUsageStats = (days: number) => {
+  // --- State and Refs ---
+  const [messages, setMessages] = useState<UsageMessage[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  // --- Hooks ---
+  const { user } = useAuth();
+
+  // --- Logic and Event Handlers ---
+  const refresh = useCallback(async () => {
+    setIsLoading(true);
+    // 任一数据源读取失败时仍用其余数据统计
+    const [activeChats, archivedChats, assets] = await Promise.allSettled([
+      chatService.getUserChats(),
+      chatService.getArchivedChats(),
+      assetsService.getAssetsList(1, MAX_ASSETS),
+    ]);
+    const chats = [activeChats, archivedChats].flatMap(result => (result.status === 'fulfilled' ? result.value : []));
+    setMessages(mergeMessages(chats, assets.status === 'fulfilled' ? assets.value.data : []));
+    setIsLoading(false);
+  }, []);
+
+  // --- Side Effects ---
+  useEffect(() => {
+    if (user) {
+      refresh();
+    } else {
+      setMessages([]);
+      setIsLoading(false);
+    }
+  }, [user, refresh]);
+
+  // --- Computed Values ---
+  const stats = useMemo(() => buildUsageStats(messages, days), [messages, days]);
+
+  // --- Return Values ---
+  return {
+    stats,
+    isLoading,
+    refresh,
+  };
+};
@@ -36,6 +36,7 @@ export const en = {
     images: 'images',
     enterDesign: 'Enter Design',
     jumpToReference: 'Jump to Reference',
+    regenerate: 'Regenerate',
     feedback: {
       helpful: 'Helpful',
       notHelpful: 'Not Helpful',
@@ -46,10 +47,56 @@ export const en = {
       ctrlEnterToNewLine: 'Ctrl + Enter for new line',
       selectedModels: '{{count}} models selected',
       generating: 'Generating images...',
+      stop: 'Stop generating',
+      stopUnavailable: 'Images are generated on the server and cannot be stopped',
       characterCount: '{{count}} characters',
+      expectedCost: 'Est. cost {{cost}}',
+      expectedCostTitle: 'Estimated from per-image model prices; only successful images are charged',
+      promptTooLong: 'Prompt too long ({{count}}/{{max}} characters)',
       designMode: 'Image Edit Mode',
       designTitle: 'Entered Image Edit Mode',
-      designModel: 'Using gpt-4o-image model by default',
+      inpaintMode: 'Inpainting Mode',
+      inpaintTitle: 'Mask painted, the masked area will be repainted',
+      unsupportedModels: {
+        textToImage: {
+          none: 'Select a model that supports text-to-image',
+          skipped: '{{models}} only support image editing and will be skipped',
+        },
+        imageToImage: {
+          none: 'Select a model that supports image editing',
+          skipped: '{{models}} do not support image editing and will be skipped',
+        },
+        inpainting: {
+          none: 'Select a model that supports inpainting',
+          skipped: '{{models}} do not support inpainting and will be skipped',
+        },
+      },
+      retiredModels: '{{models}} have been retired and will be skipped',
+    },
+    params: {
+      title: 'Parameters',
+      titleWithCount: 'Parameters ({{count}})',
+      reset: 'Reset',
+      auto: 'Auto',
+      default: 'Default',
+      random: 'Random',
+      randomSeed: 'Random seed',
+      aspectRatio: 'Aspect ratio',
+      size: 'Size (long edge)',
+      quality: 'Quality',
+      qualityOptions: {
+        low: 'Low',
+        medium: 'Medium',
+        high: 'High',
+      },
+      seed: 'Seed',
+      steps: 'Steps',
+      cfgScale: 'CFG',
+      negativePrompt: 'Negative prompt',
+      negativePromptPlaceholder: 'Things you do not want in the image...',
+      unsupported: 'None of the selected models support this parameter',
+      partiallyUnsupported: 'Ignored by: {{models}}',
+      hint: 'Empty values use model defaults. Each model maps sizes to its nearest supported resolution.',
     },
     title: {
       edit: 'Edit title',
@@ -68,8 +115,28 @@ export const en = {
       success: '✅ Images generated successfully!',
       partialSuccess: '🚫 Some images failed to generate!',
       failed: '❌ All images failed to generate!',
+      cancelled: '⏹️ Generation stopped',
+      cancelledResult: 'Cancelled',
+      timedOutResult: 'Request timed out',
+      interrupted: '⏸️ Generation interrupted by a page reload',
+      interruptedResult: 'Interrupted',
+      resume: 'Resume {{count}} image(s)',
       timeout: '⚠️ Task timeout! The task has been running for more than 10 minutes or the task status has been lost.',
       leaveWarning: 'Images are being generated. Refreshing the page will lose the generation progress. Are you sure you want to leave?',
+      task: {
+        pending: 'Queued...',
+        running: 'Rendering...',
+        runningPercent: 'Rendering {{percent}}%...',
+        retrying: 'Request failed, retrying ({{attempt}}/{{maxAttempts}})...',
+      },
+    },
+    usage: {
+      budgetExceeded: 'Your {{period}} budget is used up: spent {{spent}}, this request {{expected}}, limit {{limit}}',
+      modelBudgetExceeded: 'Your {{period}} budget for {{model}} is used up: spent {{spent}}, this request {{expected}}, limit {{limit}}',
+      period: {
+        daily: 'daily',
+        monthly: 'monthly',
+      },
     },
     archived: {
       description: 'This conversation has been archived. To continue, please unarchive it first.',
@@ -101,6 +168,16 @@ export const en = {
     search: 'Search Model',
     publishDate: 'Publish Date',
     all: 'All',
+    maxCount: 'This model generates at most {{count}} images at a time',
+    deprecated: 'This model is deprecated and will be retired soon',
+    sunset: 'This model will be retired on {{date}}',
+    retired: 'This model was retired on {{date}}',
+    replacedBy: '. Use {{name}} instead',
+    unsupported: {
+      textToImage: 'Image editing only',
+      imageToImage: 'Does not support image editing',
+      inpainting: 'Does not support inpainting',
+    },
   },
   history: {
     today: 'Today',
@@ -243,6 +320,8 @@ export const en = {
       testConnectionSuccess: 'Connection test successful',
       testConnectionFailed: 'Connection test failed',
       testConnectionError: 'Connection test error',
+      testConnectionFailedWithReason: 'Connection test failed: {{reason}}',
+      lastTestResult: 'Last tested {{time}} · {{latency}} ms',
       configurationTitle: 'Model Configuration Management',
       configurationDescription: 'Configure and manage your AI models, set API keys and system prompts',
       configurationDetails: 'Configuration Details',
@@ -259,10 +338,32 @@ export const en = {
         details: 'Details',
         apiKey: 'API Key',
         apiSecret: 'API Secret',
+        arkApiKey: 'Ark API Key',
         systemPrompt: 'System Prompt',
         systemPromptHint: 'Add {{prompt}} to specify user input position, if not present it will be automatically added at the end',
         apiKeyPlaceholder: 'Enter API key',
         apiSecretPlaceholder: 'Enter API secret',
+        arkApiKeyPlaceholder: 'Enter Ark API key',
+        baseUrl: 'Base URL',
+        baseUrlPlaceholder: 'Default https://api.openai.com/v1',
+        modelName: 'Model Name',
+        modelNamePlaceholder: 'Leave empty to use the selected model',
+        sdBaseUrlPlaceholder: 'e.g. http://127.0.0.1:7860',
+        sdCheckpoint: 'Checkpoint',
+        sdCheckpointPlaceholder: 'Leave empty to use the loaded checkpoint',
+        sdSampler: 'Sampler',
+        sdSamplerPlaceholder: 'Default Euler a',
+        sdApiAuth: 'API Auth',
+        sdApiAuthPlaceholder: 'user:password, only if --api-auth is enabled',
+        comfyBaseUrlPlaceholder: 'e.g. http://127.0.0.1:8188',
+        comfyWorkflow: 'Workflow (API Format)',
+        comfyWorkflowPlaceholder: 'Paste the workflow exported via Save (API Format), using placeholders such as {{prompt}}, {{negative_prompt}}, {{seed}}, {{width}}, {{height}}, {{steps}}, {{cfg}}, {{image}}',
+        mockLatency: 'Latency (ms)',
+        mockLatencyPlaceholder: 'Default 1500',
+        mockFailureMode: 'Failure Mode',
+        mockFailureModePlaceholder: 'none / timeout / rate_limit / content_policy / random',
+        mockFailureRate: 'Failure Rate',
+        mockFailureRatePlaceholder: '0 ~ 1, only for random mode, default 0.3',
         systemPromptPlaceholder: 'Enter system prompt (optional)',
         testing: 'Testing...',
         notTested: 'Not tested',
@@ -415,6 +516,43 @@ export const en = {
     notFound: 'No related models found',
     goToConversation: 'Go to Conversation',
   },
+  usage: {
+    title: 'Usage',
+    description: 'Generation trends, success rates and latency per model',
+    range: {
+      days: 'Last {{count}} days',
+    },
+    refresh: 'Refresh',
+    loading: 'Calculating...',
+    empty: {
+      title: 'No generations yet',
+      description: 'No finished generations in the selected range',
+    },
+    summary: {
+      total: 'Generations',
+      successRate: 'Success rate',
+      avgLatency: 'Avg. latency',
+      favoriteRate: 'Favorite rate',
+    },
+    trend: {
+      title: 'Generations over time',
+      success: 'Succeeded',
+      failed: 'Failed',
+    },
+    models: {
+      title: 'By model',
+      model: 'Model',
+      total: 'Count',
+      successRate: 'Success rate',
+      avgLatency: 'Avg. latency',
+      favoriteRate: 'Favorite rate',
+    },
+    errors: {
+      title: 'Most common errors',
+      empty: 'No failures',
+      unknown: 'Unknown error',
+    },
+  },
   imagePreview: {
     colorPalette: 'Color Palette',
     userPrompt: 'Image Description',
@@ -441,5 +579,24 @@ export const en = {
     originalMessage: 'Original Message',
     noOriginalMessage: 'No original message',
     referencedFrom: 'Referenced From',
+    designFailed: 'Failed to enter design mode',
+    enteringDesign: 'Entering...',
+    inpaint: 'Inpaint',
+    maskUploadFailed: 'Failed to upload mask, please try again',
+    regenerate: 'Regenerate',
+    history: 'Previous results ({{count}})',
+    historyFailed: 'Failed',
+  },
+  imageViewer: {
+    mask: {
+      enter: 'Inpaint',
+      brush: 'Brush',
+      eraser: 'Eraser',
+      brushSize: 'Brush size',
+      undo: 'Undo',
+      clear: 'Clear',
+      cancel: 'Cancel',
+      submit: 'Repaint masked area',
+    },
   },
 };
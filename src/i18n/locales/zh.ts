@@ -36,6 +36,7 @@ export const zh = {
     images: '张图片',
     enterDesign: '进入设计',
     jumpToReference: '跳转到引用位置',
+    regenerate: '重新生成',
     feedback: {
       helpful: '有帮助',
       notHelpful: '没帮助',
@@ -46,10 +47,56 @@ export const zh = {
       ctrlEnterToNewLine: 'Ctrl + Enter 换行',
       selectedModels: '已选择 {{count}} 个模型',
       generating: '正在生成图片...',
+      stop: '停止生成',
+      stopUnavailable: '图片由服务端生成，无法停止',
       characterCount: '{{count}} 字符',
+      expectedCost: '预计费用 {{cost}}',
+      expectedCostTitle: '按模型单价估算，仅成功的图片计费',
+      promptTooLong: '提示词过长（{{count}}/{{max}} 字符）',
       designMode: '图片编辑模式',
       designTitle: '已进入图片设计模式',
-      designModel: '默认使用 gpt-4o-image 模型',
+      inpaintMode: '局部重绘模式',
+      inpaintTitle: '已绘制蒙版，将重绘涂抹区域',
+      unsupportedModels: {
+        textToImage: {
+          none: '请选择支持文生图的模型',
+          skipped: '{{models}} 仅支持图片编辑，将被跳过',
+        },
+        imageToImage: {
+          none: '请选择支持图片编辑的模型',
+          skipped: '{{models}} 不支持图片编辑，将被跳过',
+        },
+        inpainting: {
+          none: '请选择支持局部重绘的模型',
+          skipped: '{{models}} 不支持局部重绘，将被跳过',
+        },
+      },
+      retiredModels: '{{models}} 已下线，将被跳过',
+    },
+    params: {
+      title: '生成参数',
+      titleWithCount: '生成参数 ({{count}})',
+      reset: '重置',
+      auto: '自动',
+      default: '默认',
+      random: '随机',
+      randomSeed: '随机种子',
+      aspectRatio: '宽高比',
+      size: '尺寸（长边）',
+      quality: '画质',
+      qualityOptions: {
+        low: '低',
+        medium: '中',
+        high: '高',
+      },
+      seed: '种子',
+      steps: '步数',
+      cfgScale: 'CFG',
+      negativePrompt: '负向提示词',
+      negativePromptPlaceholder: '不希望出现在画面中的内容...',
+      unsupported: '所选模型均不支持该参数',
+      partiallyUnsupported: '以下模型将忽略：{{models}}',
+      hint: '留空时使用模型默认值，尺寸会按各模型支持的规格就近换算。',
     },
     title: {
       edit: '编辑标题',
@@ -68,8 +115,28 @@ export const zh = {
       success: '✅ 图片生成完成！',
       partialSuccess: '🚫 部分生成失败！',
       failed: '❌ 全部生成失败！',
+      cancelled: '⏹️ 已停止生成',
+      cancelledResult: '已取消',
+      timedOutResult: '请求超时',
+      interrupted: '⏸️ 页面关闭或刷新，生成已中断',
+      interruptedResult: '生成已中断',
+      resume: '继续生成 {{count}} 张',
       timeout: '⚠️ 任务超时！任务已运行超过10分钟或任务状态已丢失。',
       leaveWarning: '图片正在生成中，刷新页面将丢失生成进度，确定要离开吗？',
+      task: {
+        pending: '排队中...',
+        running: '绘制中...',
+        runningPercent: '绘制中 {{percent}}%...',
+        retrying: '请求失败，正在重试（{{attempt}}/{{maxAttempts}}）...',
+      },
+    },
+    usage: {
+      budgetExceeded: '{{period}}预算不足：已花费 {{spent}}，本次预计 {{expected}}，上限 {{limit}}',
+      modelBudgetExceeded: '{{model}} {{period}}预算不足：已花费 {{spent}}，本次预计 {{expected}}，上限 {{limit}}',
+      period: {
+        daily: '今日',
+        monthly: '本月',
+      },
     },
     archived: {
       description: '此对话已归档。要继续，请先将其取消归档。',
@@ -101,6 +168,16 @@ export const zh = {
     search: '搜索模型',
     publishDate: '发布日期',
     all: '全部',
+    maxCount: '该模型一次最多生成 {{count}} 张',
+    deprecated: '该模型已弃用，即将下线',
+    sunset: '该模型将于 {{date}} 下线',
+    retired: '该模型已于 {{date}} 下线',
+    replacedBy: '，建议改用 {{name}}',
+    unsupported: {
+      textToImage: '仅支持图片编辑',
+      imageToImage: '不支持图片编辑',
+      inpainting: '不支持局部重绘',
+    },
   },
   history: {
     today: '今天',
@@ -243,6 +320,8 @@ export const zh = {
       testConnectionSuccess: '连通性测试成功',
       testConnectionFailed: '连通性测试失败',
       testConnectionError: '连通性测试错误',
+      testConnectionFailedWithReason: '连通性测试失败：{{reason}}',
+      lastTestResult: '上次测试 {{time}} · 耗时 {{latency}} ms',
       configurationTitle: '模型配置管理',
       configurationDescription: '配置和管理您的AI模型，设置API密钥和系统提示词',
       configurationDetails: '配置详情',
@@ -259,10 +338,32 @@ export const zh = {
         details: '详情',
         apiKey: 'API Key',
         apiSecret: 'API Secret',
+        arkApiKey: 'Ark API Key',
         systemPrompt: '系统提示词',
         systemPromptHint: '添加 {{prompt}} 指定用户输入位置，若没有则自动添加在最后',
         apiKeyPlaceholder: '请输入API Key',
         apiSecretPlaceholder: '请输入API Secret',
+        arkApiKeyPlaceholder: '请输入Ark API Key',
+        baseUrl: 'Base URL',
+        baseUrlPlaceholder: '默认 https://api.openai.com/v1',
+        modelName: '模型名称',
+        modelNamePlaceholder: '留空则使用所选模型',
+        sdBaseUrlPlaceholder: '例如 http://127.0.0.1:7860',
+        sdCheckpoint: '模型（Checkpoint）',
+        sdCheckpointPlaceholder: '留空则使用 WebUI 当前加载的模型',
+        sdSampler: '采样器',
+        sdSamplerPlaceholder: '默认 Euler a',
+        sdApiAuth: 'API 鉴权',
+        sdApiAuthPlaceholder: 'user:password，仅在启用 --api-auth 时填写',
+        comfyBaseUrlPlaceholder: '例如 http://127.0.0.1:8188',
+        comfyWorkflow: '工作流（API 格式）',
+        comfyWorkflowPlaceholder: '粘贴通过 Save (API Format) 导出的工作流，使用 {{prompt}}、{{negative_prompt}}、{{seed}}、{{width}}、{{height}}、{{steps}}、{{cfg}}、{{image}} 等占位符',
+        mockLatency: '响应延迟（毫秒）',
+        mockLatencyPlaceholder: '默认 1500',
+        mockFailureMode: '失败模式',
+        mockFailureModePlaceholder: 'none / timeout / rate_limit / content_policy / random',
+        mockFailureRate: '失败比例',
+        mockFailureRatePlaceholder: '0 ~ 1，仅 random 模式生效，默认 0.3',
         systemPromptPlaceholder: '请输入系统提示词（可选）',
         testing: '测试中...',
         notTested: '未测试',
@@ -415,6 +516,43 @@ export const zh = {
     notFound: '未找到相关模型',
     goToConversation: '跳转到对话',
   },
+  usage: {
+    title: '用量统计',
+    description: '查看生成趋势、各模型成功率与耗时',
+    range: {
+      days: '近 {{count}} 天',
+    },
+    refresh: '刷新',
+    loading: '统计中...',
+    empty: {
+      title: '暂无生成记录',
+      description: '所选时间范围内还没有已完成的生成',
+    },
+    summary: {
+      total: '生成次数',
+      successRate: '成功率',
+      avgLatency: '平均耗时',
+      favoriteRate: '收藏率',
+    },
+    trend: {
+      title: '生成趋势',
+      success: '成功',
+      failed: '失败',
+    },
+    models: {
+      title: '模型统计',
+      model: '模型',
+      total: '次数',
+      successRate: '成功率',
+      avgLatency: '平均耗时',
+      favoriteRate: '收藏率',
+    },
+    errors: {
+      title: '常见错误',
+      empty: '暂无失败记录',
+      unknown: '未知错误',
+    },
+  },
   imagePreview: {
     colorPalette: '配色方案',
     userPrompt: '图片描述词',
@@ -441,5 +579,24 @@ export const zh = {
     originalMessage: '原始消息',
     noOriginalMessage: '无原始消息',
     referencedFrom: '引用来源',
+    designFailed: '进入设计模式失败',
+    enteringDesign: '正在进入...',
+    inpaint: '局部重绘',
+    maskUploadFailed: '蒙版上传失败，请重试',
+    regenerate: '重新生成',
+    history: '历史结果（{{count}}）',
+    historyFailed: '失败',
+  },
+  imageViewer: {
+    mask: {
+      enter: '局部重绘',
+      brush: '画笔',
+      eraser: '橡皮擦',
+      brushSize: '笔刷大小',
+      undo: '撤销',
+      clear: '清空',
+      cancel: '取消',
+      submit: '重绘涂抹区域',
+    },
   },
 };
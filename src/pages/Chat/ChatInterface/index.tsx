@@ -30,12 +30,13 @@ import { SuccessToast } from '@/components/features/chat/SuccessToast';
 import { ImagePreview } from '@/components/shared/common/ImagePreview';
 // --- Hooks ---
 import { useAuth } from '@/hooks/auth';
-import { useChat, useChatInput, useChatScroll, useChatNavigation } from '@/hooks/chat';
+import { useChat, useChatInput, useChatScroll, useChatNavigation, useGenerationJobs, useRegenerateResult } from '@/hooks/chat';
 import { useImagePreview } from '@/hooks/ui';
 // --- Services ---
 import type { Message } from '@/services/chat';
+import { generationJobService } from '@/services/jobs';
 // --- Types ---
-import type { SelectedModel } from '@/types/chat';
+import type { GenerationParams, SelectedModel } from '@/types/chat';
 // --- Utils ---
 import { getAvatarText } from '@/utils/avatar';
 
@@ -68,6 +69,7 @@ export const ChatInterface: FC<ChatInterfaceProps> = ({ chatId }) => {
   
   const [input, setInput] = useState('');
   const [selectedModels, setSelectedModels] = useState<SelectedModel[]>([]);
+  const [generationParams, setGenerationParams] = useState<GenerationParams>({});
   const [isGenerating, setIsGenerating] = useState(false);
   const [isSending, setIsSending] = useState(false);
   const [isScrolling, setIsScrolling] = useState(false);
@@ -154,12 +156,14 @@ export const ChatInterface: FC<ChatInterfaceProps> = ({ chatId }) => {
   const {
     textareaRef,
     handleSendMessage,
+    handleStopGeneration,
     handleInputKeyDown,
     handleInputChange,
   } = useChatInput({
     user,
     currentChat,
     selectedModels,
+    generationParams,
     designImage,
     onSendMessage: handleSendMessageWrapper,
     onUpdateMessageResults: handleUpdateMessageResultsWrapper,
@@ -171,10 +175,28 @@ export const ChatInterface: FC<ChatInterfaceProps> = ({ chatId }) => {
     onScrollToBottom: scrollMessagesToBottom,
   });
 
+  const { isRegenerating, regenerateResult, resumeInterrupted, stopRegeneration } = useRegenerateResult({
+    user,
+    onUpdateMessageResults: handleUpdateMessageResultsWrapper,
+  });
+
+  useGenerationJobs({
+    chatId: currentChat?.id ?? null,
+    onUpdateMessageResults: handleUpdateMessageResultsWrapper,
+  });
+
   // --------------------------------------------------------------------------------
   // Event Handlers
   // --------------------------------------------------------------------------------
 
+  // 停止生成同时中止发送与单张重新生成；服务端任务模式下生成不受页面控制，无法停止
+  const isAnyGenerating = isGenerating || isRegenerating;
+  const canStopGeneration = !generationJobService.isEnabled();
+  const handleStopAll = useCallback(() => {
+    handleStopGeneration();
+    stopRegeneration();
+  }, [handleStopGeneration, stopRegeneration]);
+
   const handleRefresh = useCallback(() => {
     setHasLoadingTimedOut(false);
     scrollMessagesToBottom();
@@ -211,14 +233,14 @@ export const ChatInterface: FC<ChatInterfaceProps> = ({ chatId }) => {
 
   useEffect(() => {
     const handleBeforeUnload = (e: BeforeUnloadEvent) => {
-      if (isSending || isGenerating) {
+      if (isSending || isAnyGenerating) {
         e.preventDefault();
         e.returnValue = t('chat.generation.leaveWarning');
       }
     };
     window.addEventListener('beforeunload', handleBeforeUnload);
     return () => window.removeEventListener('beforeunload', handleBeforeUnload);
-  }, [isSending, isGenerating, t]);
+  }, [isSending, isAnyGenerating, t]);
 
   // 监听归档状态变化，重置成功提示
   useEffect(() => {
@@ -264,6 +286,8 @@ export const ChatInterface: FC<ChatInterfaceProps> = ({ chatId }) => {
                 currentChat={currentChat}
                 onEnterDesign={handleDesignModeEnter}
                 onJumpToReference={handleReferenceJump}
+                onRegenerateResult={regenerateResult}
+                onResumeInterrupted={resumeInterrupted}
               />
             ))}
             <div ref={messagesEndRef} />
@@ -305,15 +329,19 @@ export const ChatInterface: FC<ChatInterfaceProps> = ({ chatId }) => {
             <ChatInput
               input={input}
               selectedModels={selectedModels}
+              generationParams={generationParams}
               designImage={designImage}
-              isGenerating={isGenerating}
+              isGenerating={isAnyGenerating}
+              canStop={canStopGeneration}
               isSending={isSending}
               user={user}
               textareaRef={textareaRef}
               onInputChange={handleInputChange}
               onInputKeyDown={handleInputKeyDown}
               onSendMessage={handleSendMessage}
+              onStopGeneration={handleStopAll}
               onModelChange={setSelectedModels}
+              onGenerationParamsChange={setGenerationParams}
               onDesignImageClose={handleDesignImageClose}
               isDesignImageMenuVisible={isDesignImageMenuVisible}
               isMobile={IS_MOBILE}
@@ -0,0 +1,122 @@
+/**
+ * @file UsageInterface.tsx
+ * @description Usage dashboard with generation trends, per-model stats and the most common errors.
+ * @author fmw666@github
+ * @date 2025-07-18
+ */
+
+// =================================================================================================
+// Imports
+// =================================================================================================
+
+// --- Core Libraries ---
+import { useState } from 'react';
+import type { FC } from 'react';
+
+// --- Core-related Libraries ---
+import { useTranslation } from 'react-i18next';
+
+// --- Third-party Libraries ---
+import { ArrowPathIcon } from '@heroicons/react/24/outline';
+
+// --- Internal Libraries ---
+// --- Components ---
+import ModelUsageTable from '@/components/features/usage/ModelUsageTable';
+import TopErrorsList from '@/components/features/usage/TopErrorsList';
+import UsageSummaryCards from '@/components/features/usage/UsageSummaryCards';
+import UsageTrendChart from '@/components/features/usage/UsageTrendChart';
+import EmptyState from '@/components/shared/common/EmptyState';
+// --- Hooks ---
+import { useUsageStats } from '@/hooks/usage';
+
+// =================================================================================================
+// Constants
+// =================================================================================================
+
+const RANGE_OPTIONS = [7, 30, 90];
+const DEFAULT_RANGE = 30;
+
+// =================================================================================================
+// Component
+// =================================================================================================
+
+const UsageInterface: FC = () => {
+  // --- State and Refs ---
+  const [days, setDays] = useState(DEFAULT_RANGE);
+
+  // --- Hooks ---
+  const { t } = useTranslation();
+  const { stats, isLoading, refresh } = useUsageStats(days);
+
+  // --- Render Logic ---
+  return (
+    <div className="flex-1 h-full overflow-auto bg-gray-50 dark:bg-gray-900">
+      <div className="max-w-6xl mx-auto px-4 sm:px-6 pt-16 md:pt-6 pb-6 space-y-4 sm:space-y-6">
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <div>
+            <h1 className="text-xl font-semibold text-gray-900 dark:text-white">
+              {t('usage.title')}
+            </h1>
+            <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+              {t('usage.description')}
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            <div className="flex p-0.5 bg-gray-100 dark:bg-gray-800 rounded-lg">
+              {RANGE_OPTIONS.map(option => (
+                <button
+                  key={option}
+                  type="button"
+                  onClick={() => setDays(option)}
+                  className={`px-3 py-1 text-xs rounded-md transition-colors duration-200 ${
+                    days === option
+                      ? 'bg-white dark:bg-gray-700 text-indigo-600 dark:text-indigo-300 shadow-sm'
+                      : 'text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-gray-200'
+                  }`}
+                >
+                  {t('usage.range.days', { count: option })}
+                </button>
+              ))}
+            </div>
+            <button
+              type="button"
+              onClick={refresh}
+              disabled={isLoading}
+              className="p-1.5 text-gray-500 hover:text-indigo-600 dark:text-gray-400 dark:hover:text-indigo-400 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-800 disabled:opacity-50 disabled:cursor-not-allowed"
+              aria-label={t('usage.refresh')}
+              title={t('usage.refresh')}
+            >
+              <ArrowPathIcon className={`h-4 w-4 ${isLoading ? 'animate-spin' : ''}`} />
+            </button>
+          </div>
+        </div>
+
+        {isLoading ? (
+          <div className="flex flex-col items-center justify-center min-h-[240px]" role="status" aria-live="polite">
+            <ArrowPathIcon className="h-10 w-10 text-indigo-500 animate-spin mb-3" />
+            <span className="text-sm text-gray-500 dark:text-gray-300">{t('usage.loading')}</span>
+          </div>
+        ) : stats.total === 0 ? (
+          <EmptyState title={t('usage.empty.title')} description={t('usage.empty.description')} />
+        ) : (
+          <>
+            <UsageSummaryCards stats={stats} />
+            <UsageTrendChart daily={stats.daily} />
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-4 sm:gap-6">
+              <div className="lg:col-span-2">
+                <ModelUsageTable models={stats.models} />
+              </div>
+              <TopErrorsList errors={stats.errors} />
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+// =================================================================================================
+// Default Export
+// =================================================================================================
+
+export default UsageInterface;
@@ -0,0 +1,44 @@
+/**
+ * @file UsageLayout.tsx
+ * @description UsageLayout component, provides the layout wrapper for the usage page.
+ * @author fmw666@github
+ * @date 2025-07-18
+ */
+
+// =================================================================================================
+// Imports
+// =================================================================================================
+
+// --- Core Libraries ---
+import { FC, ReactNode } from 'react';
+
+// --- Internal Libraries ---
+// --- Components ---
+import BaseLayout from '@/components/shared/layout/BaseLayout';
+
+// =================================================================================================
+// Type Definitions
+// =================================================================================================
+
+interface UsageLayoutProps {
+  children: ReactNode;
+}
+
+// =================================================================================================
+// Component
+// =================================================================================================
+
+const UsageLayout: FC<UsageLayoutProps> = ({ children }) => {
+  // --- Render Logic ---
+  return (
+    <BaseLayout type="chat">
+      {children}
+    </BaseLayout>
+  );
+};
+
+// =================================================================================================
+// Default Export
+// =================================================================================================
+
+export default UsageLayout; 
@@ -0,0 +1,36 @@
+/**
+ * @file index.ts
+ * @description Usage page index file
+ * @author fmw666@github
+ * @date 2025-07-18
+ */
+
+// =================================================================================================
+// Imports
+// =================================================================================================
+
+// --- Core Libraries ---
+import type { FC } from 'react';
+
+// --- Relative Imports ---
+import UsageInterface from './UsageInterface';
+import UsageLayout from './UsageLayout';
+
+// =================================================================================================
+// Component
+// =================================================================================================
+
+const Usage: FC = () => {
+
+  return (
+    <UsageLayout>
+      <UsageInterface />
+    </UsageLayout>
+  );
+};
+
+// =================================================================================================
+// Default Export
+// =================================================================================================
+
+export default Usage;
@@ -9,5 +9,5 @@
 // Exports
 // =================================================================================================
 
-export { modelApiManager } from './modelApiManager';
+export { modelApiManager, type GenerationRuntime } from './modelApiManager';
 export { supabase } from './supabase';
@@ -12,22 +12,21 @@
 // --- Internal Libraries ---
 // --- Services ---
 import { AuthMiddleware } from '@/services/auth/authMiddleware';
-import { modelManager, type ModelGroupType } from '@/services/model';
-import type { StandardResponse, DoubaoRequest, GPT4oRequest } from '@/services/model';
-import { DoubaoService } from '@/services/model/doubaoService';
-import { GPT4oService } from '@/services/model/gpt4oService';
-import type { ModelConfig } from '@/services/model/modelService';
-import { storageService } from '@/services/storage';
+import { getMissingCredentials, isAbortError, isTimeoutError, modelManager, providerRegistry, sleep, toErrorResponse, withTimeout, type ModelGroupType } from '@/services/model';
+import type { ProviderAdapter, ProviderGenerateOptions, ProviderGenerateRequest, ProviderTestResult, StandardResponse, TaskProgressHandler } from '@/services/model';
+import type { ModelConfig, ModelConfigJson } from '@/services/model/modelService';
+import { storageService, type UploadResult } from '@/services/storage';
+import { usageService, type NewUsageRecord } from '@/services/usage';
+// --- Utils ---
+import { fitDeclaredImageSize } from '@/utils/generationParams';
+import { RequestScheduler, type ScheduleOptions } from '@/utils/requestScheduler';
+import { DEFAULT_RETRY_CONFIG, getRetryDelay, isRetryableFailure } from '@/utils/retryPolicy';
 
 // =================================================================================================
 // Type Definitions
 // =================================================================================================
 
-interface GPT4oServiceRequest extends GPT4oRequest {
-  count?: number;
-}
-
-interface DoubaoServiceRequest extends DoubaoRequest {
+interface GenerationRequest extends Omit<ProviderGenerateRequest, 'model'> {
   count?: number;
 }
 
@@ -37,9 +36,35 @@ interface GenerationResponse {
     totalRequested: number;
     successful: number;
     failed: number;
+    cancelled?: number;
   };
 }
 
+// 连接测试结果，latencyMs 为服务商测试请求的耗时
+export interface ConnectionTestResult extends ProviderTestResult {
+  latencyMs: number;
+}
+
+// 一次生成请求对应的模型及其时限
+interface GenerationTarget {
+  modelId: string;
+  group: ModelGroupType;
+  timeoutMs: number;
+  userId?: string;
+}
+
+// 生成请求依赖的运行环境，默认使用浏览器中当前登录用户的会话，服务端任务进程通过 setRuntime 替换
+export interface GenerationRuntime {
+  checkAuth: () => Promise<boolean>;
+  uploadImage: (imageUrl: string) => Promise<UploadResult>;
+  recordUsage: (record: NewUsageRecord, userId?: string) => Promise<void>;
+}
+
+interface ExecuteOptions extends ScheduleOptions {
+  onTaskProgress?: TaskProgressHandler;  // 等待重试时以 retrying 状态通知
+  timeoutMs?: number;  // 每次尝试的时限，排队时间不计入
+}
+
 // 流式处理回调函数类型
 export type StreamCallback = (result: StandardResponse, index: number, total: number) => void;
 
@@ -49,14 +74,18 @@ interface StreamGenerationRequest {
   onProgress?: StreamCallback;
   onComplete?: (response: GenerationResponse) => void;
   onError?: (error: Error) => void;
+  signal?: AbortSignal;  // 中止后排队中的请求直接丢弃，进行中的请求中止，均以 cancelled 结果返回
+  lane?: string;  // 公平调度的分组（如 用户:对话），同一模型组内不同分组轮流出队
+  userId?: string;  // 服务端任务进程代用户生成时指定，用量记入该用户
 }
 
 // =================================================================================================
 // Constants
 // =================================================================================================
 
-const POLLING_INTERVAL = 100; // milliseconds
 const DEFAULT_COUNT = 1;
+// 模型组与模型均未配置时限时使用
+const DEFAULT_TIMEOUT_MS = 5 * 60 * 1000;
 
 // =================================================================================================
 // Service Manager Class
@@ -65,17 +94,20 @@ const DEFAULT_COUNT = 1;
 export class ModelApiManager {
   // --- Private Properties ---
   private static instance: ModelApiManager;
-  private activeRequests: Map<ModelGroupType, number>;
-  private lastRequestTime: Map<ModelGroupType, number>;
-  private authMiddleware: AuthMiddleware;
+  private scheduler: RequestScheduler<ModelGroupType>;
+  private runtime: GenerationRuntime;
 
   // --- Constructor ---
   private constructor() {
-    this.activeRequests = new Map();
-    this.lastRequestTime = new Map();
-    this.authMiddleware = AuthMiddleware.getInstance();
-
-    this.initializeCounters();
+    // 每次出队时读取最新的组配置，限流参数调整后立即生效
+    this.scheduler = new RequestScheduler(group => modelManager.getModelConfigByGroup(group));
+    // 模型目录重新加载后按新的限流参数调度排队中的请求
+    modelManager.subscribe(() => this.scheduler.refresh());
+    this.runtime = {
+      checkAuth: () => AuthMiddleware.getInstance().checkAuth(),
+      uploadImage: imageUrl => storageService.uploadImageFromUrl(imageUrl),
+      recordUsage: record => usageService.recordUsage(record),
+    };
   }
 
   // --- Public Static Methods ---
@@ -87,62 +119,124 @@ export class ModelApiManager {
   }
 
   // --- Private Methods ---
-  private initializeCounters(): void {
-    Object.keys(modelManager.getAllGroupConfigs()).forEach((group: string) => {
-      this.activeRequests.set(group as ModelGroupType, 0);
-      this.lastRequestTime.set(group as ModelGroupType, 0);
-    });
-  }
-
-  private async waitForServiceAvailability(group: ModelGroupType): Promise<void> {
-    // eslint-disable-next-line no-constant-condition
-    while (true) {
-      const activeCount = this.activeRequests.get(group) || 0;
-      const lastRequest = this.lastRequestTime.get(group) || 0;
-      const now = Date.now();
-      const timeSinceLastRequest = now - lastRequest;
-      const modelConfig = modelManager.getModelConfigByGroup(group);
-
-      if (activeCount < modelConfig.maxConcurrent && 
-          timeSinceLastRequest >= modelConfig.cooldownMs) {
-        break;
-      }
-
-      // Wait for a short time before checking again
-      await new Promise(resolve => setTimeout(resolve, POLLING_INTERVAL));
-    }
-  }
-
-  private async executeRequest<T>(
+  private async executeRequest(
     group: ModelGroupType,
-    requestFn: () => Promise<T>
-  ): Promise<T> {
+    requestFn: (signal?: AbortSignal) => Promise<StandardResponse>,
+    options: ExecuteOptions = {}
+  ): Promise<StandardResponse> {
     // First perform authentication check
-    const isAuthenticated = await this.authMiddleware.checkAuth();
+    const isAuthenticated = await this.runtime.checkAuth();
     if (!isAuthenticated) {
       throw new Error('AUTH_REQUIRED');
     }
 
-    await this.waitForServiceAvailability(group);
+    const { onTaskProgress, timeoutMs, ...scheduleOptions } = options;
+    const retry = { ...DEFAULT_RETRY_CONFIG, ...modelManager.getModelConfigByGroup(group).retry };
+
+    for (let attempt = 1; ; attempt++) {
+      let failure: StandardResponse;
+      let thrownError: unknown = null;
+      try {
+        // 由调度器按组排队：并发名额释放或令牌补充时唤醒，不再轮询；重试时重新排队，同样受限流约束
+        const result = await this.scheduler.schedule(
+          group,
+          () => withTimeout(requestFn, timeoutMs, scheduleOptions.signal),
+          scheduleOptions
+        );
+        if (result.success) return result;
+        failure = result;
+      } catch (error) {
+        // 取消不重试；超时也不重试，服务端可能仍在出图，重发会重复计费
+        if (isAbortError(error) || isTimeoutError(error)) throw error;
+        failure = toErrorResponse(error);
+        thrownError = error;
+      }
+
+      const canRetry = attempt < retry.maxAttempts && !scheduleOptions.signal?.aborted && this.isRetryable(failure);
+      if (!canRetry) {
+        if (thrownError) throw thrownError;
+        return failure;
+      }
 
-    // Update counters
-    this.activeRequests.set(group, (this.activeRequests.get(group) || 0) + 1);
-    this.lastRequestTime.set(group, Date.now());
+      // 指数退避，服务端返回 Retry-After 时按其等待
+      const delayMs = getRetryDelay(attempt, retry, failure.retryAfterMs);
+      console.warn(`[${group}] 第 ${attempt} 次请求失败，${delayMs}ms 后重试: ${failure.error}`);
+      onTaskProgress?.({ status: 'retrying', attempt: attempt + 1, maxAttempts: retry.maxAttempts });
+      await sleep(delayMs, scheduleOptions.signal);
+    }
+  }
 
+  /** 执行一次生成并写入用量账本，取消的请求不记录 */
+  private async executeTracked(
+    target: GenerationTarget,
+    requestFn: (signal?: AbortSignal) => Promise<StandardResponse>,
+    options: Omit<ExecuteOptions, 'timeoutMs'> = {}
+  ): Promise<StandardResponse> {
+    let startedAt: number | undefined;
     try {
-      const result = await requestFn();
+      const result = await this.executeRequest(
+        target.group,
+        signal => {
+          // 从首次真正发出请求开始计时，包含重试，不含排队
+          startedAt ??= Date.now();
+          return requestFn(signal);
+        },
+        { ...options, timeoutMs: target.timeoutMs }
+      );
+      if (result.success || !options.signal?.aborted) {
+        this.recordUsage(target, result, startedAt);
+      }
       return result;
-    } finally {
-      // Decrease active requests count
-      this.activeRequests.set(group, (this.activeRequests.get(group) || 0) - 1);
+    } catch (error) {
+      if (!isAbortError(error) && !options.signal?.aborted) {
+        this.recordUsage(target, this.toFailedResult(error), startedAt);
+      }
+      throw error;
     }
   }
 
+  private recordUsage(target: GenerationTarget, result: StandardResponse, startedAt?: number): void {
+    // 未真正发出请求（如未登录）时不记录
+    if (startedAt === undefined) return;
+    this.runtime.recordUsage({
+      model_id: target.modelId,
+      model_group: target.group,
+      count: 1,
+      success: result.success,
+      latency_ms: Date.now() - startedAt,
+      estimated_cost: result.success ? usageService.estimateCost([{ modelId: target.modelId, count: 1 }]) : 0,
+      error: result.success ? null : (result.error || null),
+    }, target.userId).catch(() => {
+      // 记账失败不影响生成结果，错误已在 usageService 中输出
+    });
+  }
+
+  /** 模型自身配置的时限优先，其次为模型组配置 */
+  private getTimeoutMs(modelId: string, group: ModelGroupType): number {
+    return modelManager.getModelById(modelId)?.timeoutMs
+      ?? modelManager.getModelConfigByGroup(group).timeoutMs
+      ?? DEFAULT_TIMEOUT_MS;
+  }
+
+  // 超时以 timedOut 标记返回，便于界面与普通失败区分
+  private toFailedResult(error: unknown): StandardResponse {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : '未知错误',
+      ...(isTimeoutError(error) ? { timedOut: true } : {}),
+      createdAt: new Date().toISOString(),
+    };
+  }
+
+  private isRetryable(failure: StandardResponse): boolean {
+    return isRetryableFailure({ status: failure.errorStatus, message: failure.error });
+  }
+
   // 统一图片上传到 storage
   private async uploadToStorageIfNeeded(result: StandardResponse): Promise<StandardResponse> {
-    if (result.success && result.imageUrl) {
+    if (result.success && result.imageUrl && !result.skipUpload) {
       try {
-        const uploadResult = await storageService.uploadImageFromUrl(result.imageUrl);
+        const uploadResult = await this.runtime.uploadImage(result.imageUrl);
         if (uploadResult.success && uploadResult.url) {
           return { ...result, imageUrl: uploadResult.url, message: (result.message || '') + '（已保存到存储）' };
         }
@@ -156,32 +250,31 @@ export class ModelApiManager {
   }
 
   private async generateMultipleImages(
-    group: ModelGroupType,
-    request: GPT4oServiceRequest | DoubaoServiceRequest,
-    generateFn: (req: any) => Promise<any>
+    target: GenerationTarget,
+    request: GenerationRequest,
+    generateFn: (req: GenerationRequest, options?: ProviderGenerateOptions) => Promise<StandardResponse>
   ): Promise<GenerationResponse> {
     const count = request.count || DEFAULT_COUNT;
     const errors: Error[] = [];
-    const results: StandardResponse[] = [];
 
-    for (let i = 0; i < count; i++) {
+    // 同一批次的请求一并交给调度器，在组并发上限内并行执行
+    const results = await Promise.all(Array.from({ length: count }, async (): Promise<StandardResponse> => {
       try {
-        const result: StandardResponse = await this.executeRequest(group, () => generateFn(request));
+        const result: StandardResponse = await this.executeTracked(
+          target,
+          signal => generateFn(request, { signal })
+        );
         // 统一上传到 storage
         const finalResult = await this.uploadToStorageIfNeeded(result);
-        results.push({
+        return {
           ...finalResult,
           createdAt: new Date().toISOString(),
-        });
+        };
       } catch (error) {
         errors.push(error as Error);
-        results.push({
-          success: false,
-          error: error instanceof Error ? error.message : '未知错误',
-          createdAt: new Date().toISOString(),
-        });
+        return this.toFailedResult(error);
       }
-    }
+    }));
 
     if (errors.length > 0) {
       console.warn(`Some image generations failed: ${errors.length} errors`);
@@ -199,44 +292,76 @@ export class ModelApiManager {
 
   // 流式批量处理方法
   private async generateMultipleImagesStream(
-    group: ModelGroupType,
-    request: GPT4oServiceRequest | DoubaoServiceRequest,
-    generateFn: (req: any) => Promise<any>,
+    target: GenerationTarget,
+    request: GenerationRequest,
+    generateFn: (req: GenerationRequest, options?: ProviderGenerateOptions) => Promise<StandardResponse>,
     streamRequest: StreamGenerationRequest
   ): Promise<void> {
     const count = streamRequest.count || request.count || DEFAULT_COUNT;
+    const { signal, lane } = streamRequest;
     const errors: Error[] = [];
-    const results: StandardResponse[] = [];
+    const results: StandardResponse[] = new Array(count);
+
+    // 已取消的任务单独标记，不计入失败
+    const emitCancelled = (index: number) => {
+      const cancelledResult: StandardResponse = {
+        success: false,
+        cancelled: true,
+        error: '已取消',
+        createdAt: new Date().toISOString(),
+      };
+      results[index] = cancelledResult;
+      streamRequest.onProgress?.(cancelledResult, index, count);
+    };
 
-    try {
-      for (let i = 0; i < count; i++) {
-        try {
-          const result: StandardResponse = await this.executeRequest(group, () => generateFn(request));
-          // 统一上传到 storage
-          const finalResult = await this.uploadToStorageIfNeeded(result);
-          const resultWithTimestamp = {
-            ...finalResult,
-            createdAt: new Date().toISOString(),
-          };
-          results.push(resultWithTimestamp);
-          
-          // 立即通过回调函数返回当前结果
-          streamRequest.onProgress?.(resultWithTimestamp, i, count);
-          
-        } catch (error) {
-          const errorResult = {
-            success: false,
-            error: error instanceof Error ? error.message : '未知错误',
-            createdAt: new Date().toISOString(),
-          };
-          
-          errors.push(error as Error);
-          results.push(errorResult);
-          
-          // 立即通过回调函数返回错误结果
-          streamRequest.onProgress?.(errorResult, i, count);
+    const generateAt = async (i: number): Promise<void> => {
+      if (signal?.aborted) {
+        emitCancelled(i);
+        return;
+      }
+      try {
+        // 异步任务的中间状态通过 onProgress 返回，携带 progress 字段
+        const onTaskProgress: TaskProgressHandler = (progress) => {
+          streamRequest.onProgress?.({ success: false, progress }, i, count);
+        };
+        const result: StandardResponse = await this.executeTracked(
+          target,
+          attemptSignal => generateFn(request, { onTaskProgress, signal: attemptSignal }),
+          { lane, signal, onTaskProgress }
+        );
+        // 服务内部捕获了中止错误时返回的是失败结果，此处按取消处理；已成功的结果照常保留
+        if (!result.success && signal?.aborted) {
+          emitCancelled(i);
+          return;
+        }
+        // 统一上传到 storage
+        const finalResult = await this.uploadToStorageIfNeeded(result);
+        const resultWithTimestamp = {
+          ...finalResult,
+          createdAt: new Date().toISOString(),
+        };
+        results[i] = resultWithTimestamp;
+
+        // 立即通过回调函数返回当前结果
+        streamRequest.onProgress?.(resultWithTimestamp, i, count);
+      } catch (error) {
+        if (isAbortError(error) || signal?.aborted) {
+          emitCancelled(i);
+          return;
         }
+        const errorResult = this.toFailedResult(error);
+
+        errors.push(error as Error);
+        results[i] = errorResult;
+
+        // 立即通过回调函数返回错误结果
+        streamRequest.onProgress?.(errorResult, i, count);
       }
+    };
+
+    try {
+      // 同一批次的请求一并交给调度器，在组并发上限内并行执行，先完成的先回调
+      await Promise.all(Array.from({ length: count }, (_, i) => generateAt(i)));
 
       if (errors.length > 0) {
         console.warn(`Some image generations failed: ${errors.length} errors`);
@@ -247,7 +372,8 @@ export class ModelApiManager {
         metadata: {
           totalRequested: count,
           successful: results.filter(r => r.success).length,
-          failed: errors.length
+          failed: errors.length,
+          cancelled: results.filter(r => r.cancelled).length
         }
       };
 
@@ -260,85 +386,52 @@ export class ModelApiManager {
     }
   }
 
-  // --- Public Methods ---
-  public async generateImageWithGPT4o(request: GPT4oServiceRequest, modelConfig?: ModelConfig): Promise<GenerationResponse> {
-    return this.generateMultipleImages('openai', request, (req) => {
-      if (!modelConfig || !modelConfig.config_json?.api_key) {
-        throw new Error('GPT4o 服务需要有效的 API 密钥配置');
-      }
-      
-      const gpt4oService = new GPT4oService(modelConfig.config_json.api_key);
-      return gpt4oService.generateImage({
-        prompt: req.prompt,
-      });
-    });
-  }
-
-  public async generateImageWithDoubao(request: DoubaoServiceRequest, modelConfig?: ModelConfig): Promise<GenerationResponse> {
-    return this.generateMultipleImages('doubao', request, (req) => {
-      if (!modelConfig || !modelConfig.config_json?.api_key || !modelConfig.config_json?.api_secret) {
-        throw new Error('Doubao 服务需要有效的 API 密钥和密钥配置');
-      }
-      
-      const doubaoService = new DoubaoService({
-        apiKey: modelConfig.config_json.api_key,
-        apiSecret: modelConfig.config_json.api_secret,
-        arkApiKey: modelConfig.config_json.ark_api_key
-      });
-      return doubaoService.generateImage({
-        prompt: req.prompt,
-        model: req.model,
-      });
-    });
-  }
-
-  public async generateImageWithGPT4oStream(
-    request: GPT4oServiceRequest, 
-    streamRequest: StreamGenerationRequest,
+  /**
+   * 查找模型组对应的服务商适配器，并返回使用该适配器生成单张图片的函数
+   * 凭证在每次生成时校验，与原先按服务商分别校验的行为保持一致
+   */
+  private createGenerateFn(
+    adapter: ProviderAdapter,
+    modelId: string,
     modelConfig?: ModelConfig
-  ): Promise<void> {
-    return this.generateMultipleImagesStream('openai', request, (req) => {
-      if (!modelConfig || !modelConfig.config_json?.api_key) {
-        throw new Error('GPT4o 服务需要有效的 API 密钥配置');
+  ): (req: GenerationRequest, options?: ProviderGenerateOptions) => Promise<StandardResponse> {
+    return (req, options) => {
+      const credentials = modelConfig?.config_json ?? {};
+      const missing = getMissingCredentials(adapter.credentialSchema, credentials);
+      if (missing.length > 0) {
+        throw new Error(`${adapter.name} 服务缺少必要的配置: ${missing.map(field => field.key).join(', ')}`);
       }
-      
-      const gpt4oService = new GPT4oService(modelConfig.config_json.api_key);
-      return gpt4oService.generateImage({
-        prompt: req.prompt,
-      });
-    }, streamRequest);
+      // 数量由本管理器逐张调度，服务商每次只生成一张；模型目录关闭的参数不传给服务商
+      const request: ProviderGenerateRequest = { ...req, model: modelId };
+      if (!modelManager.supportsParam(modelId, 'seed')) delete request.seed;
+      if (!modelManager.supportsParam(modelId, 'negativePrompt')) delete request.negativePrompt;
+      // 同一条消息的各模型共用一组宽高：换成该模型声明的最接近尺寸，不支持该宽高比时交由服务商使用默认尺寸
+      if (request.width && request.height) {
+        const size = fitDeclaredImageSize(request.width, request.height, modelManager.getModelById(modelId)?.capabilities ?? {});
+        if (size) {
+          Object.assign(request, size);
+        } else {
+          delete request.width;
+          delete request.height;
+        }
+      }
+      return adapter.generate(request, credentials, options);
+    };
   }
 
-  public async generateImageWithDoubaoStream(
-    request: DoubaoServiceRequest, 
-    streamRequest: StreamGenerationRequest,
-    modelConfig?: ModelConfig
-  ): Promise<void> {
-    console.log('generateImageWithDoubaoStream', modelConfig);
-    return this.generateMultipleImagesStream('doubao', request, (req) => {
-      if (!modelConfig || !modelConfig.config_json?.api_key || !modelConfig.config_json?.api_secret) {
-        throw new Error('Doubao 服务需要有效的 API 密钥和密钥配置');
-      }
-      
-      const doubaoService = new DoubaoService({
-        apiKey: modelConfig.config_json.api_key,
-        apiSecret: modelConfig.config_json.api_secret,
-        arkApiKey: modelConfig.config_json.ark_api_key
-      });
-      return doubaoService.generateImage({
-        prompt: req.prompt,
-        model: req.model,
-      });
-    }, streamRequest);
+  // --- Public Methods ---
+  /** 替换鉴权、图片上传与用量记录的实现，供服务端任务进程使用 */
+  public setRuntime(runtime: Partial<GenerationRuntime>): void {
+    this.runtime = { ...this.runtime, ...runtime };
   }
 
   /**
    * 统一的流式图片生成方法
-   * 根据模型组自动路由到对应的服务
+   * 根据模型组查找已注册的服务商适配器
    */
   public async generateImageStream(
     modelId: string,
-    request: { prompt: string; count?: number },
+    request: GenerationRequest,
     streamRequest: StreamGenerationRequest,
     modelConfig?: ModelConfig
   ): Promise<void> {
@@ -349,60 +442,28 @@ export class ModelApiManager {
       return;
     }
 
-    const model = modelStatus.model!;
-    const group = model.group;
-
-    // 根据模型组路由到对应的服务
-    switch (group) {
-      case 'openai':
-        return this.generateImageWithGPT4oStream(
-          { 
-            prompt: request.prompt,
-            count: request.count
-          },
-          streamRequest,
-          modelConfig
-        );
-      
-      case 'doubao':
-        return this.generateImageWithDoubaoStream(
-          { 
-            prompt: request.prompt,
-            model: modelId as any, // 类型断言，因为 DoubaoModel 是具体的模型 ID
-            count: request.count
-          },
-          streamRequest,
-          modelConfig
-        );
-      
-      case 'cogview':
-        // TODO: 实现 CogView 服务
-        streamRequest.onError?.(new Error(`暂不支持 ${model.category} 模型组`));
-        return;
-      
-      case 'tongyi':
-        // TODO: 实现万相服务
-        streamRequest.onError?.(new Error(`暂不支持 ${model.category} 模型组`));
-        return;
-      
-      case 'jimeng':
-        // TODO: 实现即梦服务
-        streamRequest.onError?.(new Error(`暂不支持 ${model.category} 模型组`));
-        return;
-      
-      default:
-        streamRequest.onError?.(new Error(`不支持的模型组: ${group}`));
-        return;
+    const group = modelStatus.model!.group;
+    const adapter = providerRegistry.get(group);
+    if (!adapter) {
+      streamRequest.onError?.(new Error(`不支持的模型组: ${group}`));
+      return;
     }
+
+    return this.generateMultipleImagesStream(
+      { modelId, group, timeoutMs: this.getTimeoutMs(modelId, group), userId: streamRequest.userId },
+      request,
+      this.createGenerateFn(adapter, modelId, modelConfig),
+      streamRequest
+    );
   }
 
   /**
    * 统一的图片生成方法（非流式）
-   * 根据模型组自动路由到对应的服务
+   * 根据模型组查找已注册的服务商适配器
    */
   public async generateImage(
     modelId: string,
-    request: { prompt: string; count?: number },
+    request: GenerationRequest,
     modelConfig?: ModelConfig
   ): Promise<GenerationResponse> {
     // 检查模型状态
@@ -411,44 +472,71 @@ export class ModelApiManager {
       throw new Error(modelStatus.error || '模型不可用');
     }
 
-    const model = modelStatus.model!;
-    const group = model.group;
+    const group = modelStatus.model!.group;
+    const adapter = providerRegistry.get(group);
+    if (!adapter) {
+      throw new Error(`不支持的模型组: ${group}`);
+    }
 
-    // 根据模型组路由到对应的服务
-    switch (group) {
-      case 'openai':
-        return this.generateImageWithGPT4o({
-          prompt: request.prompt,
-          count: request.count
-        }, modelConfig);
-      
-      case 'doubao':
-        return this.generateImageWithDoubao({
-          prompt: request.prompt,
-          model: modelId as any, // 类型断言
-          count: request.count
-        }, modelConfig);
-      
-      case 'cogview':
-        throw new Error(`暂不支持 ${model.category} 模型组`);
-      
-      case 'tongyi':
-        throw new Error(`暂不支持 ${model.category} 模型组`);
-      
-      case 'jimeng':
-        throw new Error(`暂不支持 ${model.category} 模型组`);
-      
-      default:
-        throw new Error(`不支持的模型组: ${group}`);
+    return this.generateMultipleImages(
+      { modelId, group, timeoutMs: this.getTimeoutMs(modelId, group) },
+      request,
+      this.createGenerateFn(adapter, modelId, modelConfig)
+    );
+  }
+
+  /**
+   * 使用服务商适配器测试凭证是否可用，并记录请求耗时
+   * 不经过并发控制，避免被排队中的生成请求拖慢
+   */
+  public async testConnection(group: ModelGroupType, credentials: ModelConfigJson): Promise<ConnectionTestResult> {
+    const adapter = providerRegistry.get(group);
+    if (!adapter) {
+      return { success: false, message: `不支持的模型组: ${group}`, latencyMs: 0 };
+    }
+
+    const missing = getMissingCredentials(adapter.credentialSchema, credentials);
+    if (missing.length > 0) {
+      return {
+        success: false,
+        message: `${adapter.name} 服务缺少必要的配置: ${missing.map(field => field.key).join(', ')}`,
+        latencyMs: 0,
+      };
+    }
+
+    const startTime = Date.now();
+    try {
+      const timeoutMs = modelManager.getModelConfigByGroup(group).timeoutMs ?? DEFAULT_TIMEOUT_MS;
+      const result = await withTimeout(() => adapter.test(credentials), timeoutMs);
+      return { ...result, latencyMs: Date.now() - startTime };
+    } catch (error) {
+      return {
+        success: false,
+        message: `测试失败: ${error instanceof Error ? error.message : '未知错误'}`,
+        details: error,
+        latencyMs: Date.now() - startTime,
+      };
     }
   }
 
   public getActiveRequests(group: ModelGroupType): number {
-    return this.activeRequests.get(group) || 0;
+    return this.scheduler.getActiveCount(group);
+  }
+
+  public getQueuedRequests(group: ModelGroupType): number {
+    return this.scheduler.getQueuedCount(group);
   }
 
   public getLastRequestTime(group: ModelGroupType): number {
-    return this.lastRequestTime.get(group) || 0;
+    return this.scheduler.getLastStartTime(group);
+  }
+
+  /** 一次生成最长可能持续的时间：每次尝试的时限加上重试间隔，不含排队 */
+  public getMaxDurationMs(modelId: string): number {
+    const group = modelManager.getModelById(modelId)?.group;
+    if (!group) return DEFAULT_TIMEOUT_MS;
+    const retry = { ...DEFAULT_RETRY_CONFIG, ...modelManager.getModelConfigByGroup(group).retry };
+    return this.getTimeoutMs(modelId, group) * retry.maxAttempts + retry.maxDelayMs * (retry.maxAttempts - 1);
   }
 }
 
@@ -10,6 +10,7 @@
 // =================================================================================================
 
 import { supabase } from '@/services/api/supabase';
+import type { Model, Results } from '@/services/chat';
 
 // =================================================================================================
 // Constants
@@ -21,35 +22,6 @@ const ASSETS_TABLE_NAME = import.meta.env.VITE_SUPABASE_ASSETS_TABLE_NAME || 'as
 // Type Definitions
 // =================================================================================================
 
-interface Model {
-  id: string;
-  name: string;
-  count: number;
-}
-
-interface ImageResult {
-  id: string;
-  url: string | null;
-  text: string | null;
-  error: string | null;
-  errorMessage: string | null;
-  isGenerating?: boolean;
-  createdAt?: string;
-  isFavorite?: boolean;
-}
-
-interface Results {
-  images: {
-    [key: string]: ImageResult[];
-  };
-  status: {
-    success: number;
-    failed: number;
-    total: number;
-    generating: number;
-  };
-}
-
 // 注意：除了 Asset 多了 chat_id 和 message_id 外，其他字段与 Message 的结构完全一致
 
 export interface Asset {
@@ -12,6 +12,7 @@
 import { supabase } from '@/services/api/supabase';
 import { assetsService } from '@/services/assets';
 import { authService } from '@/services/auth/authService';
+import type { GenerationParams } from '@/types/chat';
 
 // =================================================================================================
 // Constants
@@ -36,10 +37,20 @@ export interface ImageResult {
   error: string | null;
   errorMessage: string | null;
   isGenerating?: boolean;
+  cancelled?: boolean;  // 用户停止生成，既不是成功也不是失败
+  timedOut?: boolean;  // 超过请求时限，计入失败
+  interrupted?: boolean;  // 页面关闭或刷新时仍在生成，可继续生成
+  jobId?: string;  // 由服务端任务生成时对应的任务 ID，关闭页面不影响生成
+  modelId?: string;  // 实际生成该结果的模型 ID，原模型下线后由替代模型重新生成时与消息中的模型不同
   createdAt?: string;
+  startedAt?: string;  // 本次生成开始的时间，重新生成或继续生成时晚于消息的发送时间
   isFavorite?: boolean;
+  history?: ImageResultAttempt[];  // 重新生成前的结果，按时间先后排列
 }
 
+// 单次生成的结果快照，重新生成时保存到 history
+export type ImageResultAttempt = Pick<ImageResult, 'url' | 'text' | 'error' | 'errorMessage' | 'cancelled' | 'timedOut' | 'createdAt' | 'modelId'>;
+
 export interface Results {
   images: {
     [key: string]: ImageResult[];
@@ -49,6 +60,8 @@ export interface Results {
     failed: number;
     total: number;
     generating: number;
+    cancelled?: number;
+    interrupted?: number;
   };
 }
 
@@ -63,7 +76,9 @@ export interface Message {
     alt?: string;
     referenceMessageId: string | null;
     referenceResultId: string | null;
+    maskUrl?: string | null;
   };
+  generationParams?: GenerationParams;  // 发送时的高级参数，重新生成时沿用
 }
 
 export interface Chat {
@@ -164,14 +179,11 @@ export class ChatService {
     try {
       if (!supabase) throw new Error('Supabase client is not initialized');
 
-      const updatedMessages = [...(chat.messages || []), message];
-      const title = chat.messages?.length === 0 ? message.content.slice(0, 30) : chat.title;
+      // 只追加这一条消息，不覆盖任务进程同时写回的其它消息
+      const title = chat.messages?.length === 0 ? message.content.slice(0, 30) : null;
       const { data, error } = await supabase
-        .from(CHAT_TABLE_NAME)
-        .update({ messages: updatedMessages, title })
-        .eq('id', chat.id)
-        .select()
-        .single();
+        .rpc('append_chat_message', { p_chat_id: chat.id, p_message: message, p_title: title })
+        .single<Chat>();
       if (error) throw error;
       return { ...data, messages: data.messages || [] };
     } catch (error) {
@@ -180,6 +192,22 @@ export class ChatService {
     }
   }
 
+  /** 更新单条消息，只合并传入的字段，不覆盖任务进程同时写回的其它消息 */
+  public async updateMessage(chatId: string, messageId: string, patch: Partial<Message>): Promise<Chat> {
+    try {
+      if (!supabase) throw new Error('Supabase client is not initialized');
+
+      const { data, error } = await supabase
+        .rpc('update_chat_message', { p_chat_id: chatId, p_message_id: messageId, p_patch: patch })
+        .single<Chat>();
+      if (error) throw error;
+      return { ...data, messages: data.messages || [] };
+    } catch (error) {
+      console.error('Error updating message:', error);
+      throw error;
+    }
+  }
+
   /** delete chat by chatId */
   public async deleteChat(chatId: string): Promise<void> {
     try {
@@ -389,16 +417,10 @@ export class ChatService {
         console.warn(`Failed to update asset results for chat_id: ${chatId}, message_id: ${messageId}`);
       }
 
-      // save all messages to CHAT_TABLE_NAME
-      const { data: updated, error: updateError } = await supabase
-        .from(CHAT_TABLE_NAME)
-        .update({ messages })
-        .eq('id', chatId)
-        .select()
-        .single();
-      if (updateError) throw updateError;
+      // save only the modified message to CHAT_TABLE_NAME
+      const updated = await this.updateMessage(chatId, messageId, { results: updatedMessage.results });
       
-      return { ...updated, messages: updated.messages || [] };
+      return updated;
     } catch (err) {
       console.error('Error toggling image favorite:', err);
       throw err;
@@ -10,4 +10,4 @@
 // =================================================================================================
 
 export { chatService } from './chatService';
-export type { Chat, Message, Results, ImageResult, Model } from './chatService';
+export type { Chat, Message, Results, ImageResult, ImageResultAttempt, Model } from './chatService';
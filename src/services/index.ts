@@ -17,8 +17,14 @@ export * from './auth';
 // Chat
 export * from './chat';
 
+// Jobs
+export * from './jobs';
+
 // Model
 export * from './model';
 
 // Storage
 export * from './storage';
+
+// Usage
+export * from './usage';
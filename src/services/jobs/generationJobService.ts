@@ -0,0 +1,144 @@
+/**
+ * @file generationJobService.ts
+ * @description GenerationJobService for enqueueing server-side generation jobs and subscribing to their progress.
+ * @author fmw666@github
+ * @date 2025-07-18
+ */
+
+// =================================================================================================
+// Imports
+// =================================================================================================
+
+import { supabase } from '@/services/api/supabase';
+import type { ImageResult } from '@/services/chat';
+import type { ProviderGenerateRequest, TaskProgress } from '@/services/model';
+
+// =================================================================================================
+// Constants
+// =================================================================================================
+
+const JOBS_TABLE_NAME = import.meta.env.VITE_SUPABASE_JOBS_TABLE_NAME || 'generation_jobs';
+// browser：在浏览器中直接请求服务商；worker：写入任务，由服务端任务进程执行
+const GENERATION_MODE = import.meta.env.VITE_GENERATION_MODE || 'browser';
+
+// =================================================================================================
+// Type Definitions
+// =================================================================================================
+
+export type GenerationJobStatus = 'queued' | 'running' | 'completed' | 'failed';
+
+export type GenerationJobRequest = Omit<ProviderGenerateRequest, 'model'>;
+
+export interface GenerationJob {
+  id: string;
+  created_at: string;
+  updated_at: string;
+  user_id: string;
+  chat_id: string;
+  message_id: string;
+  model_id: string;
+  model_name: string;
+  result_ids: string[];
+  request: GenerationJobRequest;
+  status: GenerationJobStatus;
+  results: Record<string, ImageResult>;
+  progress: Record<string, TaskProgress>;
+  error: string | null;
+  attempts: number;
+  locked_by: string | null;
+  locked_at: string | null;
+  finished_at: string | null;
+}
+
+// user_id 由数据库默认取当前登录用户，id 由客户端生成以便提前写入结果占位
+export type NewGenerationJob = Pick<GenerationJob, 'id' | 'chat_id' | 'message_id' | 'model_id' | 'model_name' | 'result_ids' | 'request'>;
+
+// =================================================================================================
+// Class Definition
+// =================================================================================================
+
+export class GenerationJobService {
+  // --------------------------------------------------------------------------------
+  // Singleton Instance
+  // --------------------------------------------------------------------------------
+  private static instance: GenerationJobService;
+  private constructor() {}
+  public static getInstance(): GenerationJobService {
+    if (!GenerationJobService.instance) {
+      GenerationJobService.instance = new GenerationJobService();
+    }
+    return GenerationJobService.instance;
+  }
+
+  // --------------------------------------------------------------------------------
+  // Job public Methods
+  // --------------------------------------------------------------------------------
+
+  /** 是否由服务端任务进程生成 */
+  public isEnabled(): boolean {
+    return GENERATION_MODE === 'worker' && !!supabase;
+  }
+
+  /** 写入生成任务，由任务进程按写入顺序领取 */
+  public async enqueue(jobs: NewGenerationJob[]): Promise<void> {
+    try {
+      if (!supabase) throw new Error('Supabase client is not initialized');
+
+      const { error } = await supabase
+        .from(JOBS_TABLE_NAME)
+        .insert(jobs);
+      if (error) throw error;
+    } catch (error) {
+      console.error('Error enqueueing generation jobs:', error);
+      throw error;
+    }
+  }
+
+  /** 按 ID 读取任务，用于订阅前补齐已产生的结果 */
+  public async getJobs(jobIds: string[]): Promise<GenerationJob[]> {
+    try {
+      if (!supabase) throw new Error('Supabase client is not initialized');
+      if (jobIds.length === 0) return [];
+
+      const { data, error } = await supabase
+        .from(JOBS_TABLE_NAME)
+        .select('*')
+        .in('id', jobIds);
+      if (error) throw error;
+      return data || [];
+    } catch (error) {
+      console.error('Error fetching generation jobs:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * 订阅对话中任务的更新
+   * @param chatId - 对话 ID
+   * @param onChange - 任务更新后的回调
+   * @returns 取消订阅的函数
+   */
+  public subscribe(chatId: string, onChange: (job: GenerationJob) => void): () => void {
+    if (!supabase) return () => undefined;
+
+    const client = supabase;
+    const channel = client
+      .channel(`${JOBS_TABLE_NAME}:${chatId}`)
+      .on(
+        'postgres_changes',
+        { event: 'UPDATE', schema: 'public', table: JOBS_TABLE_NAME, filter: `chat_id=eq.${chatId}` },
+        payload => onChange(payload.new as GenerationJob)
+      )
+      .subscribe();
+
+    return () => {
+      client.removeChannel(channel);
+    };
+  }
+}
+
+// =================================================================================================
+// Singleton Export
+// =================================================================================================
+
+export const generationJobService = GenerationJobService.getInstance();
@@ -0,0 +1,14 @@
+/**
+ * @file index.ts
+ * @description Generation job service exports
+ * @author fmw666@github
+ * @date 2025-07-18
+ */
+
+export {
+  generationJobService,
+  type GenerationJob,
+  type GenerationJobRequest,
+  type GenerationJobStatus,
+  type NewGenerationJob,
+} from './generationJobService';
@@ -5,6 +5,124 @@
  * @date 2025-07-18
  */
 
+// 异步任务进度（提交任务后轮询结果的服务使用）
+export interface TaskProgress {
+  status: 'pending' | 'running' | 'retrying';
+  taskId?: string;
+  percent?: number; // 0 ~ 100，服务能提供具体进度时返回
+  attempt?: number; // 重试时为即将进行的第几次尝试
+  maxAttempts?: number;
+}
+
+export type TaskProgressHandler = (progress: TaskProgress) => void;
+
+// 鉴权失败的 HTTP 状态码，测试连接时据此区分凭证错误与参数错误
+export const isAuthErrorStatus = (status: number): boolean => status === 401 || status === 403;
+
+// 与 fetch 被 AbortSignal 中止时抛出的错误保持一致，便于统一识别用户取消
+export const createAbortError = (): Error => {
+  const error = new Error('生成已取消');
+  error.name = 'AbortError';
+  return error;
+};
+
+export const isAbortError = (error: unknown): boolean => (error as { name?: string } | null)?.name === 'AbortError';
+
+// 服务商接口返回的 HTTP 错误，携带状态码与 Retry-After，供上层判断是否重试
+export class ProviderHttpError extends Error {
+  status: number;
+  retryAfterMs?: number;
+
+  constructor(message: string, status: number, retryAfterMs?: number) {
+    super(message);
+    this.name = 'ProviderHttpError';
+    this.status = status;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+// 解析 Retry-After 响应头，支持秒数与 HTTP 日期两种格式
+export const parseRetryAfter = (value: string | null | undefined, now: number = Date.now()): number | undefined => {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+};
+
+export const createHttpError = (message: string, response: Response): ProviderHttpError => {
+  return new ProviderHttpError(message, response.status, parseRetryAfter(response.headers?.get('Retry-After')));
+};
+
+// 将捕获的异常转换为失败响应，保留状态码与 Retry-After
+export const toErrorResponse = (error: unknown): StandardResponse => {
+  const { status, retryAfterMs } = (error ?? {}) as { status?: unknown; retryAfterMs?: unknown };
+  return {
+    success: false,
+    error: error instanceof Error ? error.message : '未知错误',
+    ...(typeof status === 'number' ? { errorStatus: status } : {}),
+    ...(typeof retryAfterMs === 'number' ? { retryAfterMs } : {}),
+  };
+};
+
+// 请求超过模型组或模型配置的时限时抛出，与普通失败区分
+export class RequestTimeoutError extends Error {
+  timeoutMs: number;
+
+  constructor(timeoutMs: number) {
+    super(`请求超时：超过 ${Math.round(timeoutMs / 1000)} 秒未完成`);
+    this.name = 'RequestTimeoutError';
+    this.timeoutMs = timeoutMs;
+  }
+}
+
+export const isTimeoutError = (error: unknown): error is RequestTimeoutError => error instanceof RequestTimeoutError;
+
+// 为请求加上时限：到时中止传给请求的 signal 并以 RequestTimeoutError 结束，不依赖服务自行响应中止
+export const withTimeout = <T>(
+  task: (signal?: AbortSignal) => Promise<T>,
+  timeoutMs?: number,
+  signal?: AbortSignal
+): Promise<T> => {
+  if (!timeoutMs || timeoutMs <= 0) return task(signal);
+
+  const controller = new AbortController();
+  const onAbort = () => controller.abort();
+  if (signal?.aborted) controller.abort();
+  signal?.addEventListener('abort', onAbort, { once: true });
+
+  return new Promise<T>((resolve, reject) => {
+    const timer = setTimeout(() => {
+      controller.abort();
+      reject(new RequestTimeoutError(timeoutMs));
+    }, timeoutMs);
+    Promise.resolve()
+      .then(() => task(controller.signal))
+      .then(resolve, reject)
+      .finally(() => {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', onAbort);
+      });
+  });
+};
+
+// 可被取消的等待，用于轮询间隔与排队，取消时以 AbortError 结束
+export const sleep = (ms: number, signal?: AbortSignal): Promise<void> => new Promise((resolve, reject) => {
+  if (signal?.aborted) {
+    reject(createAbortError());
+    return;
+  }
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(createAbortError());
+  };
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
 // 添加标准响应接口
 export interface StandardResponse {
   success: boolean;
@@ -13,4 +131,10 @@ export interface StandardResponse {
   error?: string;
   text?: string;
   createdAt?: string;
+  progress?: TaskProgress; // 存在时表示中间状态，而非最终结果
+  skipUpload?: boolean; // 服务已自行处理存储，上层无需再上传
+  cancelled?: boolean; // 用户主动取消，既不计入成功也不计入失败
+  errorStatus?: number; // 失败时的 HTTP 状态码，用于判断是否重试
+  retryAfterMs?: number; // 服务端要求的重试等待时间
+  timedOut?: boolean; // 超过请求时限被中止
 }
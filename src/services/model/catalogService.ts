@@ -0,0 +1,113 @@
+/**
+ * @file catalogService.ts
+ * @description CatalogService for fetching the model catalog at runtime from a URL or a Supabase table.
+ * @author fmw666@github
+ * @date 2025-07-18
+ */
+
+// =================================================================================================
+// Imports
+// =================================================================================================
+
+import { supabase } from '@/services/api/supabase';
+
+// =================================================================================================
+// Constants
+// =================================================================================================
+
+// 两者都未配置时只使用打包的 models.json；同时配置时优先使用 URL
+const CATALOG_URL = import.meta.env.VITE_MODELS_CATALOG_URL || '';
+const CATALOG_TABLE_NAME = import.meta.env.VITE_SUPABASE_CATALOG_TABLE_NAME || '';
+// 定期重新读取远程目录的间隔，设为 0 时只在启动时读取一次
+const DEFAULT_REFRESH_INTERVAL_MS = 5 * 60 * 1000;
+const REFRESH_INTERVAL_MS = Number(import.meta.env.VITE_MODELS_CATALOG_REFRESH_MS ?? DEFAULT_REFRESH_INTERVAL_MS);
+
+// =================================================================================================
+// Type Definitions
+// =================================================================================================
+
+export type CatalogSource = 'bundled' | 'url' | 'supabase';
+
+// =================================================================================================
+// Class Definition
+// =================================================================================================
+
+export class CatalogService {
+  // --------------------------------------------------------------------------------
+  // Singleton Instance
+  // --------------------------------------------------------------------------------
+  private static instance: CatalogService;
+  private constructor() {}
+  public static getInstance(): CatalogService {
+    if (!CatalogService.instance) {
+      CatalogService.instance = new CatalogService();
+    }
+    return CatalogService.instance;
+  }
+
+  // --------------------------------------------------------------------------------
+  // Catalog public Methods
+  // --------------------------------------------------------------------------------
+
+  /** 当前配置的目录来源 */
+  public getSource(): CatalogSource {
+    if (CATALOG_URL) return 'url';
+    if (CATALOG_TABLE_NAME && supabase) return 'supabase';
+    return 'bundled';
+  }
+
+  /** 远程目录的刷新间隔，0 表示不刷新 */
+  public getRefreshInterval(): number {
+    return Number.isFinite(REFRESH_INTERVAL_MS) && REFRESH_INTERVAL_MS > 0 ? REFRESH_INTERVAL_MS : 0;
+  }
+
+  /**
+   * 读取远程目录的原始内容，由调用方校验
+   * @returns 目录 JSON，未配置远程来源时返回 null
+   */
+  public async fetchCatalog(): Promise<unknown | null> {
+    switch (this.getSource()) {
+      case 'url':
+        return this.fetchFromUrl();
+      case 'supabase':
+        return this.fetchFromTable();
+      default:
+        return null;
+    }
+  }
+
+  // --------------------------------------------------------------------------------
+  // Private Methods
+  // --------------------------------------------------------------------------------
+
+  private async fetchFromUrl(): Promise<unknown> {
+    // 绕过 HTTP 缓存，目录更新后下一次刷新即可生效
+    const response = await fetch(CATALOG_URL, { cache: 'no-store' });
+    if (!response.ok) {
+      throw new Error(`无法获取模型目录: ${response.status} ${response.statusText}`);
+    }
+    return response.json();
+  }
+
+  private async fetchFromTable(): Promise<unknown> {
+    if (!supabase) throw new Error('Supabase client is not initialized');
+
+    // 表中保留历史版本，取最新启用的一条
+    const { data, error } = await supabase
+      .from(CATALOG_TABLE_NAME)
+      .select('config')
+      .eq('is_active', true)
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+    if (error) throw error;
+    if (!data) throw new Error(`模型目录表 ${CATALOG_TABLE_NAME} 中没有启用的目录`);
+    return data.config;
+  }
+}
+
+// =================================================================================================
+// Singleton Export
+// =================================================================================================
+
+export const catalogService = CatalogService.getInstance();
@@ -0,0 +1,151 @@
+/**
+ * @file cogviewService.ts
+ * @description CogViewService for generating images with Zhipu CogView
+ * @author fmw666@github
+ * @date 2025-07-18
+ */
+
+/*
+智谱 CogView 绘图服务
+
+参考官方文档：https://open.bigmodel.cn/dev/api/image-model/cogview
+核心：
+  1. 接口单次调用出图1张，通过 Bearer API Key 鉴权。
+  2. 返回的图片链接为临时链接，需要由上层统一上传到 storage。
+*/
+
+import { getProbeFailure } from '@/utils/credentialProbe';
+
+import { createHttpError, StandardResponse, toErrorResponse } from './baseService';
+
+export type CogViewModel =
+  | 'cogview-4-250304'  // CogView-4
+  | 'cogview-3-flash'  // CogView-3-Flash（免费）
+
+export type CogViewSize =
+  | '1024x1024'
+  | '768x1344'
+  | '864x1152'
+  | '1344x768'
+  | '1152x864'
+  | '1440x720'
+  | '720x1440';
+
+export const COGVIEW_SIZES: CogViewSize[] = ['1024x1024', '768x1344', '864x1152', '1344x768', '1152x864', '1440x720', '720x1440'];
+
+export interface CogViewConfig {
+  apiKey: string;
+  endpoint: string;
+  defaultModel: CogViewModel;
+  defaultSize: CogViewSize;
+}
+
+export type CogViewConfigInput = Pick<CogViewConfig, 'apiKey'> & Partial<Omit<CogViewConfig, 'apiKey'>>;
+
+export interface CogViewRequest {
+  prompt: string;
+  model?: CogViewModel;
+  size?: CogViewSize;
+  userId?: string;
+  signal?: AbortSignal;
+}
+
+export interface CogViewResponse {
+  created: number;
+  data?: Array<{
+    url: string;
+  }>;
+  content_filter?: Array<{
+    role: string;
+    level: number;
+  }>;
+  error?: {
+    code: string;
+    message: string;
+  };
+}
+
+// 空提示词触发的参数校验错误码：1210 参数有误，1214 参数非法
+const PROBE_VALIDATION_CODES = ['1210', '1214'];
+
+export class CogViewService {
+  private config: CogViewConfig;
+
+  constructor(config: CogViewConfigInput) {
+    if (!config.apiKey) {
+      throw new Error('CogViewService 需要有效的 API 密钥');
+    }
+    this.config = {
+      endpoint: import.meta.env.DEV ? '/api/cogview' : 'https://open.bigmodel.cn/api/paas/v4/images/generations',
+      defaultModel: 'cogview-4-250304',
+      defaultSize: '1024x1024',
+      ...config,
+    };
+  }
+
+  async generateImage(request: CogViewRequest): Promise<StandardResponse> {
+    try {
+      const response = await fetch(this.config.endpoint, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${this.config.apiKey}`,
+        },
+        body: JSON.stringify({
+          model: request.model || this.config.defaultModel,
+          prompt: request.prompt,
+          size: request.size || this.config.defaultSize,
+          ...(request.userId ? { user_id: request.userId } : {}),
+        }),
+        signal: request.signal,
+      });
+
+      const result: CogViewResponse | null = await response.json().catch(() => null);
+
+      if (!response.ok || result?.error) {
+        throw createHttpError(
+          result?.error?.message ||
+          `CogView API error: ${response.status} ${response.statusText}`,
+          response
+        );
+      }
+
+      const originalImageUrl = result?.data?.[0]?.url;
+      if (originalImageUrl) {
+        // 只返回原始图片 URL，不上传到 storage
+        return {
+          success: true,
+          message: '图片生成成功！',
+          imageUrl: originalImageUrl,
+        };
+      }
+
+      return {
+        success: false,
+        error: '未返回图片URL',
+      };
+    } catch (error) {
+      console.error('CogView API request failed:', error);
+      return toErrorResponse(error);
+    }
+  }
+
+  /** 发送空提示词验证 API 密钥，接口因参数错误拒绝时不产生费用；返回其它任何状态均视为失败并抛出 */
+  async verifyApiKey(): Promise<void> {
+    const response = await fetch(this.config.endpoint, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${this.config.apiKey}`,
+      },
+      body: JSON.stringify({ model: this.config.defaultModel, prompt: '' }),
+    });
+    const result: CogViewResponse | null = await response.json().catch(() => null);
+    const failure = getProbeFailure(
+      { status: response.status, code: result?.error?.code, message: result?.error?.message || response.statusText },
+      PROBE_VALIDATION_CODES,
+      'CogView'
+    );
+    if (failure) throw new Error(failure);
+  }
+}
@@ -0,0 +1,343 @@
+/**
+ * @file comfyUIService.ts
+ * @description ComfyUIService for running exported ComfyUI workflows with placeholder parameter binding
+ * @author fmw666@github
+ * @date 2025-07-18
+ */
+
+/*
+ComfyUI 工作流绘图服务
+
+参考官方文档：https://docs.comfy.org/development/comfyui-server/comms_routes
+核心：
+  1. 工作流为 ComfyUI 导出的 API 格式 JSON（Save (API Format)），按用户保存在 model_configs.config_json.workflow 中。
+  2. 工作流中的占位符在提交前绑定为实际参数：
+     - 字段值恰好为占位符（如 "{{seed}}"）时替换为对应类型的值（数字保持数字）；
+     - 占位符出现在较长文本中（如 "masterpiece, {{prompt}}"）时做字符串替换。
+     支持：{{prompt}} {{negative_prompt}} {{seed}} {{width}} {{height}} {{steps}} {{cfg}} {{image}}。
+  3. 参考图先通过 /upload/image 上传，{{image}} 绑定为上传后的文件名。
+  4. 通过 /prompt 排队，优先使用 websocket 接收进度，连接失败时回退为轮询 /history。
+  5. 输出图片通过 /view 获取，由上层统一上传到 storage。ComfyUI 需以 --enable-cors-header 启动以允许浏览器访问。
+*/
+
+import { createAbortError, createHttpError, sleep, StandardResponse, TaskProgressHandler, toErrorResponse } from './baseService';
+
+export interface ComfyUIConfig {
+  baseURL: string;
+  workflow: string;  // API 格式的工作流 JSON
+  pollIntervalMs: number;
+  maxWaitMs: number;
+  useWebSocket: boolean;
+}
+
+export type ComfyUIConfigInput = Pick<ComfyUIConfig, 'baseURL' | 'workflow'> & Partial<Omit<ComfyUIConfig, 'baseURL' | 'workflow'>>;
+
+export interface ComfyUIRequest {
+  prompt: string;
+  negativePrompt?: string;
+  seed?: number;
+  width?: number;
+  height?: number;
+  steps?: number;
+  cfgScale?: number;
+  imageUrl?: string;
+  onProgress?: TaskProgressHandler;
+  signal?: AbortSignal;
+}
+
+export type ComfyUIWorkflow = Record<string, {
+  class_type: string;
+  inputs: Record<string, any>;
+  [key: string]: any;
+}>;
+
+export interface ComfyUIImageRef {
+  filename: string;
+  subfolder: string;
+  type: string;
+}
+
+export interface ComfyUIHistoryEntry {
+  outputs?: Record<string, { images?: ComfyUIImageRef[] }>;
+  status?: {
+    status_str?: 'success' | 'error';
+    completed?: boolean;
+    messages?: Array<[string, any]>;
+  };
+}
+
+type PlaceholderValues = Record<string, string | number>;
+
+const PLACEHOLDER_PATTERN = /\{\{\s*(\w+)\s*\}\}/g;
+const EXACT_PLACEHOLDER_PATTERN = /^\{\{\s*(\w+)\s*\}\}$/;
+const MAX_SEED = 2 ** 32;
+
+// websocket 不可用（连接失败或中途断开），此时回退为轮询
+class WebSocketUnavailableError extends Error {}
+
+/** 递归绑定工作流中的占位符，未提供值的占位符保持原样 */
+export const bindWorkflow = <T>(node: T, values: PlaceholderValues): T => {
+  if (typeof node === 'string') {
+    const exact = node.match(EXACT_PLACEHOLDER_PATTERN);
+    if (exact && exact[1] in values) {
+      return values[exact[1]] as T;
+    }
+    return node.replace(PLACEHOLDER_PATTERN, (match, key) => key in values ? String(values[key]) : match) as T;
+  }
+  if (Array.isArray(node)) {
+    return node.map(item => bindWorkflow(item, values)) as T;
+  }
+  if (node && typeof node === 'object') {
+    return Object.fromEntries(
+      Object.entries(node).map(([key, value]) => [key, bindWorkflow(value, values)])
+    ) as T;
+  }
+  return node;
+};
+
+/** 解析工作流 JSON 并检查必要的占位符 */
+export const parseWorkflow = (workflow: string): ComfyUIWorkflow => {
+  let parsed: ComfyUIWorkflow;
+  try {
+    parsed = JSON.parse(workflow);
+  } catch {
+    throw new Error('工作流不是有效的 JSON');
+  }
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new Error('工作流需为 API 格式导出的 JSON');
+  }
+  if (!/\{\{\s*prompt\s*\}\}/.test(workflow)) {
+    throw new Error('工作流中缺少 {{prompt}} 占位符');
+  }
+  return parsed;
+};
+
+export class ComfyUIService {
+  private config: ComfyUIConfig;
+  private clientId: string;
+
+  constructor(config: ComfyUIConfigInput) {
+    if (!config.baseURL) {
+      throw new Error('ComfyUIService 需要有效的服务地址');
+    }
+    this.config = {
+      pollIntervalMs: 1000,
+      maxWaitMs: 10 * 60 * 1000,
+      useWebSocket: true,
+      ...config,
+    };
+    this.config.baseURL = this.config.baseURL.replace(/\/+$/, '');
+    this.clientId = `designchat_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+  }
+
+  private async request<T>(path: string, init?: RequestInit): Promise<T> {
+    const response = await fetch(`${this.config.baseURL}${path}`, init);
+    const result = await response.json().catch(() => null);
+
+    if (!response.ok) {
+      const error = result?.error;
+      throw createHttpError(
+        (typeof error === 'string' ? error : error?.message) ||
+        `ComfyUI API error: ${response.status} ${response.statusText}`,
+        response
+      );
+    }
+
+    return result as T;
+  }
+
+  /** 上传参考图，返回 ComfyUI 中的文件名 */
+  private async uploadInputImage(imageUrl: string, signal?: AbortSignal): Promise<string> {
+    const imageResponse = await fetch(imageUrl, { signal });
+    if (!imageResponse.ok) {
+      throw new Error(`无法获取图片: ${imageResponse.status} ${imageResponse.statusText}`);
+    }
+    const formData = new FormData();
+    formData.append('image', await imageResponse.blob(), `designchat_${Date.now()}.png`);
+    formData.append('overwrite', 'true');
+
+    const result = await this.request<{ name: string; subfolder?: string }>('/upload/image', {
+      method: 'POST',
+      body: formData,
+      signal,
+    });
+    return result.subfolder ? `${result.subfolder}/${result.name}` : result.name;
+  }
+
+  private async buildValues(request: ComfyUIRequest): Promise<PlaceholderValues> {
+    const values: PlaceholderValues = {
+      prompt: request.prompt,
+      negative_prompt: request.negativePrompt || '',
+      seed: request.seed ?? Math.floor(Math.random() * MAX_SEED),
+    };
+    if (request.width) values.width = request.width;
+    if (request.height) values.height = request.height;
+    if (request.steps) values.steps = request.steps;
+    if (request.cfgScale) values.cfg = request.cfgScale;
+    if (request.imageUrl) values.image = await this.uploadInputImage(request.imageUrl, request.signal);
+    return values;
+  }
+
+  private async queuePrompt(workflow: ComfyUIWorkflow, signal?: AbortSignal): Promise<string> {
+    const result = await this.request<{ prompt_id?: string; node_errors?: Record<string, any> }>('/prompt', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ prompt: workflow, client_id: this.clientId }),
+      signal,
+    });
+    if (!result.prompt_id) {
+      throw new Error('未返回任务ID');
+    }
+    return result.prompt_id;
+  }
+
+  private async fetchHistory(promptId: string, signal?: AbortSignal): Promise<ComfyUIHistoryEntry | undefined> {
+    const history = await this.request<Record<string, ComfyUIHistoryEntry>>(`/history/${promptId}`, { signal });
+    return history?.[promptId];
+  }
+
+  /** 通过 websocket 等待任务结束，期间回报进度；连接不可用时以 WebSocketUnavailableError 结束以便回退为轮询 */
+  private waitViaWebSocket(promptId: string, onProgress?: TaskProgressHandler, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const wsURL = new URL(`${this.config.baseURL}/ws`, typeof window !== 'undefined' ? window.location.href : undefined);
+      wsURL.protocol = wsURL.protocol === 'https:' ? 'wss:' : 'ws:';
+      wsURL.searchParams.set('clientId', this.clientId);
+
+      const socket = new WebSocket(wsURL.toString());
+      let finished = false;
+      const timer = setTimeout(() => finish(new Error(`任务等待超时: ${promptId}`)), this.config.maxWaitMs);
+      const onAbort = () => finish(createAbortError());
+      function finish(error?: Error) {
+        if (finished) return;
+        finished = true;
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', onAbort);
+        socket.close();
+        if (error) {
+          reject(error);
+        } else {
+          resolve();
+        }
+      }
+
+      if (signal?.aborted) {
+        onAbort();
+        return;
+      }
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      socket.onopen = () => {
+        // 任务可能在连接建立前就已完成，此时不会再收到结束消息
+        this.fetchHistory(promptId, signal)
+          .then(entry => entry?.status?.completed && finish())
+          .catch(() => undefined);
+      };
+      socket.onerror = () => finish(new WebSocketUnavailableError('WebSocket 连接失败'));
+      socket.onclose = () => finish(new WebSocketUnavailableError('WebSocket 连接已断开'));
+      socket.onmessage = (event) => {
+        if (typeof event.data !== 'string') return;  // 预览图等二进制消息
+        let message: { type: string; data?: Record<string, any> };
+        try {
+          message = JSON.parse(event.data);
+        } catch {
+          return;
+        }
+        const data = message.data || {};
+        if (data.prompt_id && data.prompt_id !== promptId) return;
+
+        switch (message.type) {
+          case 'execution_start':
+            onProgress?.({ status: 'running', taskId: promptId });
+            break;
+          case 'progress':
+            onProgress?.({
+              status: 'running',
+              taskId: promptId,
+              percent: data.max ? Math.round((data.value / data.max) * 100) : undefined,
+            });
+            break;
+          case 'executing':
+            if (data.node === null) finish();
+            break;
+          case 'execution_success':
+            finish();
+            break;
+          case 'execution_error':
+            finish(new Error(data.exception_message || '工作流执行失败'));
+            break;
+        }
+      };
+    });
+  }
+
+  /** 轮询历史记录直到任务结束 */
+  private async waitViaPolling(promptId: string, onProgress?: TaskProgressHandler, signal?: AbortSignal): Promise<void> {
+    const startTime = Date.now();
+    while (Date.now() - startTime < this.config.maxWaitMs) {
+      const entry = await this.fetchHistory(promptId, signal);
+      if (entry?.status?.completed || entry?.status?.status_str) {
+        if (entry.status.status_str === 'error') {
+          throw new Error('工作流执行失败');
+        }
+        return;
+      }
+      onProgress?.({ status: entry ? 'running' : 'pending', taskId: promptId });
+      await sleep(this.config.pollIntervalMs, signal);
+    }
+    throw new Error(`任务等待超时: ${promptId}`);
+  }
+
+  private buildViewURL(image: ComfyUIImageRef): string {
+    const params = new URLSearchParams({
+      filename: image.filename,
+      subfolder: image.subfolder,
+      type: image.type,
+    });
+    return `${this.config.baseURL}/view?${params.toString()}`;
+  }
+
+  async generateImage(request: ComfyUIRequest): Promise<StandardResponse> {
+    try {
+      const workflow = bindWorkflow(parseWorkflow(this.config.workflow), await this.buildValues(request));
+      const promptId = await this.queuePrompt(workflow, request.signal);
+      request.onProgress?.({ status: 'pending', taskId: promptId });
+
+      if (this.config.useWebSocket && typeof WebSocket !== 'undefined') {
+        try {
+          await this.waitViaWebSocket(promptId, request.onProgress, request.signal);
+        } catch (error) {
+          if (!(error instanceof WebSocketUnavailableError)) throw error;
+          console.warn('ComfyUI websocket unavailable, falling back to history polling');
+          await this.waitViaPolling(promptId, request.onProgress, request.signal);
+        }
+      } else {
+        await this.waitViaPolling(promptId, request.onProgress, request.signal);
+      }
+
+      const entry = await this.fetchHistory(promptId, request.signal);
+      const images = Object.values(entry?.outputs || {}).flatMap(output => output.images || []);
+      // 优先取保存节点的输出，其次是预览节点的临时图片
+      const image = images.find(item => item.type === 'output') ?? images[0];
+      if (image) {
+        // 只返回原始图片 URL，不上传到 storage
+        return {
+          success: true,
+          message: '图片生成成功！',
+          imageUrl: this.buildViewURL(image),
+        };
+      }
+      return {
+        success: false,
+        error: '工作流未输出图片',
+      };
+    } catch (error) {
+      console.error('ComfyUI API request failed:', error);
+      return toErrorResponse(error);
+    }
+  }
+
+  /** 查询服务状态，用于测试连接 */
+  async getSystemStats(): Promise<Record<string, any>> {
+    return this.request<Record<string, any>>('/system_stats');
+  }
+}
@@ -11,9 +11,14 @@
 参考官方文档：https://www.volcengine.com/docs/6791/1279296
 核心：
   1. 接口单次调用出图1张，输出4张图的话，强烈建议通过排队，第一秒发出前2张生图请求，第二秒发出后2张生图请求，可在不增购QPS情况下更好的使用服务。
+  2. 生成参数按接口取值范围换算：视觉接口宽高为 256 ~ 768，scale 为 1 ~ 10，ddim_steps 为 1 ~ 50；seedream 3.0 尺寸为 512 ~ 2048。
+  3. seedream 3.0 与 SeedEdit 3.0 走方舟（Ark）接口，SeedEdit 仅做图片编辑，必须提供参考图，输出尺寸跟随原图。
 */
 
-import { StandardResponse } from './baseService';
+import { getProbeFailure } from '@/utils/credentialProbe';
+
+import { parseRetryAfter, StandardResponse, toErrorResponse } from './baseService';
+import { VolcengineClient } from './volcengineClient';
 
 export type DoubaoModel = 
   | 'doubao-seedream-3-0-t2i-250415'  // 通用3.0-文生图
@@ -22,6 +27,7 @@ export type DoubaoModel =
   | 'high_aes_general_v20'  // 通用2.0-文生图
   | 'high_aes_general_v14'  // 通用1.4-文生图
   | 't2i_xl_sft'  // 通用XL pro-文生图
+  | 'doubao-seededit-3-0-i2i-250628'  // SeedEdit 3.0-图片编辑
 
 export interface DoubaoConfig {
   apiKey: string;
@@ -48,6 +54,7 @@ export interface DoubaoRequest {
   imageUrl?: string;  // For img2img tasks
   maskUrl?: string;   // For inpainting tasks
   strength?: number;  // For img2img tasks
+  signal?: AbortSignal;  // 用户取消时中止请求
 }
 
 export interface DoubaoResponse {
@@ -59,9 +66,32 @@ export interface DoubaoResponse {
   };
 }
 
+const ARK_ENDPOINT = 'https://ark.cn-beijing.volces.com/api/v3/images/generations';
+const ARK_MODELS: DoubaoModel[] = ['doubao-seedream-3-0-t2i-250415', 'doubao-seededit-3-0-i2i-250628'];
+const EDIT_MODELS: DoubaoModel[] = ['doubao-seededit-3-0-i2i-250628'];
+// 空提示词触发的参数校验错误码
+const ARK_PROBE_VALIDATION_CODES = ['MissingParameter', 'InvalidParameter'];
+
+const CV_SIZE_RANGE = { min: 256, max: 768 };
+const ARK_SIZE_RANGE = { min: 512, max: 2048 };
+const SCALE_RANGE = { min: 1, max: 10 };
+const STEPS_RANGE = { min: 1, max: 50 };
+
+const clamp = (value: number, { min, max }: { min: number; max: number }) => Math.min(max, Math.max(min, value));
+
+/** 按比例缩放宽高，使其落在接口允许的范围内 */
+const fitSize = (width: number, height: number, range: { min: number; max: number }) => {
+  const scale = Math.min(1, range.max / Math.max(width, height));
+  return {
+    width: clamp(Math.round(width * scale), range),
+    height: clamp(Math.round(height * scale), range),
+  };
+};
+
 export class DoubaoService {
   private config: DoubaoConfig;
   private defaultModel: DoubaoModel;
+  private client: VolcengineClient;
 
   constructor(config: DoubaoConfigInput) {
     this.config = {
@@ -71,169 +101,68 @@ export class DoubaoService {
       host: 'visual.volcengineapi.com',
       defaultModel: 'high_aes_general_v21_L',
       ...config,
-      apiKey: import.meta.env.VITE_DOUBAO_API_KEY || '',
-      apiSecret: import.meta.env.VITE_DOUBAO_API_SECRET || '',
-      arkApiKey: import.meta.env.VITE_DOUBAO_ARK_API_KEY || '',
+      // 用户配置的密钥优先，未配置时回退到环境变量
+      apiKey: config.apiKey || import.meta.env.VITE_DOUBAO_API_KEY || '',
+      apiSecret: config.apiSecret || import.meta.env.VITE_DOUBAO_API_SECRET || '',
+      arkApiKey: config.arkApiKey || import.meta.env.VITE_DOUBAO_ARK_API_KEY || '',
     };
-    console.log('DoubaoService', this.config);
     this.defaultModel = this.config.defaultModel;
-  }
-
-  private signStringEncoder(source: string): string {
-    return encodeURIComponent(source).replace(/[!'()*]/g, function (c) {
-      return '%' + c.charCodeAt(0).toString(16).toUpperCase();
+    this.client = new VolcengineClient({
+      apiKey: this.config.apiKey,
+      apiSecret: this.config.apiSecret,
+      endpoint: this.config.endpoint,
+      region: this.config.region,
+      service: this.config.service,
+      host: this.config.host,
+      serviceName: 'Doubao',
     });
   }
 
-  private async hashSHA256(content: string): Promise<string> {
-    try {
-      const encoder = new TextEncoder();
-      const data = encoder.encode(content);
-      const hashBuffer = await crypto.subtle.digest('SHA-256', data);
-      const hashArray = Array.from(new Uint8Array(hashBuffer));
-      return hashArray.map(b => b.toString(16).padStart(2, '0')).join('');
-    } catch (error) {
-      console.error('Error in hashSHA256:', error);
-      throw error;
-    }
+  private async makeRequest(payload: any, signal?: AbortSignal): Promise<any> {
+    return this.client.request('CVProcess', '2022-08-31', payload, signal);
   }
 
-  private async hmacSHA256(
-    key: string | Uint8Array,
-    content: string,
-  ): Promise<Uint8Array> {
-    const encoder = new TextEncoder();
-    const keyData = key instanceof Uint8Array ? key : encoder.encode(key);
-    const contentData = encoder.encode(content);
-
-    const cryptoKey = await crypto.subtle.importKey(
-      'raw',
-      keyData,
-      { name: 'HMAC', hash: 'SHA-256' },
-      false,
-      ['sign']
-    );
-
-    const signature = await crypto.subtle.sign(
-      'HMAC',
-      cryptoKey,
-      contentData
-    );
-
-    return new Uint8Array(signature);
-  }
-
-  private async genSigningSecretKeyV4(
-    secretKey: string,
-    date: string,
-    region: string,
-    service: string,
-  ): Promise<Uint8Array> {
-    const kDate = await this.hmacSHA256(secretKey, date);
-    const kRegion = await this.hmacSHA256(kDate, region);
-    const kService = await this.hmacSHA256(kRegion, service);
-    return await this.hmacSHA256(kService, 'request');
+  private buildCVParams(request: DoubaoRequest) {
+    return {
+      ...(request.width && request.height ? fitSize(request.width, request.height, CV_SIZE_RANGE) : {}),
+      ...(request.seed !== undefined ? { seed: request.seed } : {}),
+      ...(request.cfgScale !== undefined ? { scale: clamp(request.cfgScale, SCALE_RANGE) } : {}),
+      ...(request.steps !== undefined ? { ddim_steps: clamp(request.steps, STEPS_RANGE) } : {}),
+    };
   }
 
-  private async makeRequest(payload: any): Promise<any> {
-    const method = 'POST';
-    const action = 'CVProcess';
-    const version = '2022-08-31';
-    const url = `${this.config.endpoint}?Action=${action}&Version=${version}`;
-
-    const body = JSON.stringify({
-      ...payload,
-    });
-    const xContentSha256 = await this.hashSHA256(body);
-    const xDate = new Date().toISOString().replace(/[-:]|\.\d{3}/g, '');
-    const shortXDate = xDate.substring(0, 8);
-    const credentialScope = `${shortXDate}/${this.config.region}/${this.config.service}/request`;
-    const signHeader = 'host;x-date;x-content-sha256;content-type';
-    const contentType = 'application/json';
-
-    const queryString = Array.from(new Map([
-      ['Action', action],
-      ['Version', version],
-    ]).entries())
-      .map(
-        ([key, value]) =>
-          `${this.signStringEncoder(key)}=${this.signStringEncoder(value)}`,
-      )
-      .join('&');
-
-    const canonicalString = [
-      method,
-      '/',
-      queryString,
-      `host:${this.config.host}`,
-      `x-date:${xDate}`,
-      `x-content-sha256:${xContentSha256}`,
-      `content-type:${contentType}`,
-      '',
-      signHeader,
-      xContentSha256,
-    ].join('\n');
-
-    const hashCanonicalString = await this.hashSHA256(canonicalString);
-    const stringToSign = [
-      'HMAC-SHA256',
-      xDate,
-      credentialScope,
-      hashCanonicalString,
-    ].join('\n');
-
-    const signKey = await this.genSigningSecretKeyV4(
-      this.config.apiSecret,
-      shortXDate,
-      this.config.region,
-      this.config.service,
-    );
-
-    const signature = Array.from(await this.hmacSHA256(signKey, stringToSign))
-      .map(b => b.toString(16).padStart(2, '0'))
-      .join('');
-
-    try {
-      const response = await fetch(url, {
-        method: 'POST',
-        headers: {
-          'Host': this.config.host,
-          'X-Date': xDate,
-          'X-Content-Sha256': xContentSha256,
-          'Content-Type': contentType,
-          'Authorization': `HMAC-SHA256 Credential=${this.config.apiKey}/${credentialScope}, SignedHeaders=${signHeader}, Signature=${signature}`,
-        },
-        body,
-      });
-
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => null);
-        throw new Error(
-          errorData?.message || 
-          `Doubao API error: ${response.status} ${response.statusText}`
-        );
-      }
-
-      const result = await response.json();
-      
-      if (result.error) {
-        throw new Error(result.error);
-      }
-
-      return result;
-    } catch (error) {
-      console.error('Doubao API request failed:', error);
-      throw error;
+  private buildArkParams(request: DoubaoRequest, model: DoubaoModel) {
+    // 图片编辑模型的输出尺寸跟随原图
+    if (EDIT_MODELS.includes(model)) {
+      return {
+        image: request.imageUrl,
+        size: 'adaptive',
+        ...(request.seed !== undefined ? { seed: request.seed } : {}),
+        ...(request.cfgScale !== undefined ? { guidance_scale: clamp(request.cfgScale, SCALE_RANGE) } : {}),
+      };
     }
+    const size = request.width && request.height ? fitSize(request.width, request.height, ARK_SIZE_RANGE) : null;
+    return {
+      ...(size ? { size: `${size.width}x${size.height}` } : {}),
+      ...(request.seed !== undefined ? { seed: request.seed } : {}),
+      ...(request.cfgScale !== undefined ? { guidance_scale: clamp(request.cfgScale, SCALE_RANGE) } : {}),
+    };
   }
 
   async generateImage(request: DoubaoRequest): Promise<StandardResponse> {
     const model = request.model || this.defaultModel;
 
-    // 新增：支持 Ark seedream 3.0
-    if (model === 'doubao-seedream-3-0-t2i-250415') {
+    if (EDIT_MODELS.includes(model) && !request.imageUrl) {
+      return {
+        success: false,
+        error: '图片编辑模型需要提供参考图',
+      };
+    }
+
+    // 方舟接口：seedream 3.0 / SeedEdit 3.0
+    if (ARK_MODELS.includes(model)) {
       try {
-        const response = await fetch(import.meta.env.DEV ? '/api/ark' : 'https://ark.cn-beijing.volces.com/api/v3/images/generations', {
+        const response = await fetch(import.meta.env.DEV ? '/api/ark' : ARK_ENDPOINT, {
           method: 'POST',
           headers: {
             'Content-Type': 'application/json',
@@ -242,8 +171,10 @@ export class DoubaoService {
           body: JSON.stringify({
             model,
             prompt: request.prompt,
-            watermark: false
+            watermark: false,
+            ...this.buildArkParams(request, model),
           }),
+          signal: request.signal,
         });
         const result = await response.json();
         if (response.ok && result?.data?.length > 0) {
@@ -257,13 +188,14 @@ export class DoubaoService {
         }
         return {
           success: false,
-          error: result?.message || '未返回图片URL',
+          error: result?.error?.message || result?.message || '未返回图片URL',
+          ...(response.ok ? {} : {
+            errorStatus: response.status,
+            retryAfterMs: parseRetryAfter(response.headers.get('Retry-After')),
+          }),
         };
       } catch (error) {
-        return {
-          success: false,
-          error: error instanceof Error ? error.message : '未知错误',
-        };
+        return toErrorResponse(error);
       }
     }
 
@@ -272,10 +204,11 @@ export class DoubaoService {
       req_key: model,
       prompt: request.prompt,
       return_url: true,
+      ...this.buildCVParams(request),
     };
 
     try {
-      const response: DoubaoResponse = await this.makeRequest(payload);
+      const response: DoubaoResponse = await this.makeRequest(payload, request.signal);
       if (response.message === 'Success' && response.data?.image_urls && response.data?.image_urls?.length > 0) {
         const originalImageUrl = response.data.image_urls[0];
         // 只返回原始图片 URL，不上传到 storage
@@ -291,74 +224,71 @@ export class DoubaoService {
       };
     } catch (error) {
       console.error('Doubao API request failed:', error);
-      return {
-        success: false,
-        error: error instanceof Error ? error.message : '未知错误',
-      };
+      return toErrorResponse(error);
     }
   }
 
+  /** 使用空提示词请求 Ark 接口，因参数错误被拒绝时密钥有效，返回其它任何状态均返回错误信息 */
+  private async verifyArkApiKey(): Promise<string | null> {
+    const response = await fetch(import.meta.env.DEV ? '/api/ark' : ARK_ENDPOINT, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${this.config.arkApiKey}`,
+      },
+      body: JSON.stringify({ model: ARK_MODELS[0], prompt: '' }),
+    });
+    const result = await response.json().catch(() => null);
+    return getProbeFailure(
+      { status: response.status, code: result?.error?.code, message: result?.error?.message || response.statusText },
+      ARK_PROBE_VALIDATION_CODES,
+      'Ark'
+    );
+  }
+
   /**
    * 测试服务配置是否正确
-   * 这个方法会尝试生成一个简单的测试图片来验证服务是否可用
+   * 使用无效参数发送签名请求来验证密钥，不会真正生成图片
    */
   async testService(): Promise<{ success: boolean; message: string; details?: any }> {
+    // 检查必需的配置
+    if (!this.config.apiKey || !this.config.apiSecret) {
+      return {
+        success: false,
+        message: 'API 密钥配置缺失',
+        details: {
+          hasApiKey: !!this.config.apiKey,
+          hasApiSecret: !!this.config.apiSecret,
+        }
+      };
+    }
+
     try {
-      console.log('🧪 开始测试 DoubaoService...');
-      console.log('📋 配置信息:', {
-        endpoint: this.config.endpoint,
-        region: this.config.region,
-        service: this.config.service,
-        host: this.config.host,
-        defaultModel: this.config.defaultModel,
-        hasApiKey: !!this.config.apiKey,
-        hasApiSecret: !!this.config.apiSecret,
-      });
+      await this.client.verifyCredentials('CVProcess', '2022-08-31');
 
-      // 检查必需的配置
-      if (!this.config.apiKey || !this.config.apiSecret) {
-        return {
-          success: false,
-          message: '❌ API 密钥配置缺失',
-          details: {
-            hasApiKey: !!this.config.apiKey,
-            hasApiSecret: !!this.config.apiSecret,
-          }
-        };
+      if (this.config.arkApiKey) {
+        const arkError = await this.verifyArkApiKey();
+        if (arkError) {
+          return {
+            success: false,
+            message: `Ark API Key 无效: ${arkError}`,
+          };
+        }
       }
 
-      // 尝试生成一个简单的测试图片
-      const testRequest: DoubaoRequest = {
-        prompt: '一只可爱的小猫，高清图片',
-        model: this.defaultModel,
+      return {
+        success: true,
+        message: 'DoubaoService 配置正确，可以正常使用',
+        details: {
+          endpoint: this.config.endpoint,
+          hasArkApiKey: !!this.config.arkApiKey,
+        }
       };
-
-      console.log('🎨 尝试生成测试图片...');
-      const result = await this.generateImage(testRequest);
-
-      if (result.success) {
-        console.log('✅ 测试成功！图片生成成功');
-        return {
-          success: true,
-          message: '✅ DoubaoService 配置正确，可以正常使用！',
-          details: {
-            imageUrl: result.imageUrl,
-            model: testRequest.model,
-          }
-        };
-      } else {
-        console.log('❌ 测试失败：', result.error);
-        return {
-          success: false,
-          message: `❌ 图片生成失败: ${result.error}`,
-          details: result
-        };
-      }
     } catch (error) {
-      console.error('💥 测试过程中发生错误:', error);
+      console.error('Doubao connection test failed:', error);
       return {
         success: false,
-        message: `💥 测试失败: ${error instanceof Error ? error.message : '未知错误'}`,
+        message: `测试失败: ${error instanceof Error ? error.message : '未知错误'}`,
         details: error
       };
     }
@@ -5,13 +5,15 @@
  * @date 2025-07-18
  */
 
-import { StandardResponse } from './baseService';
+import { createHttpError, isAuthErrorStatus, StandardResponse, toErrorResponse } from './baseService';
 
 export interface GPT4oRequest {
   prompt: string;
   model?: string;
+  imageUrl?: string;  // 参考图，随消息一并发送用于图片编辑
   stream?: boolean;
   onContent?: (content: { type: 'text' | 'image', content: string }) => void;
+  signal?: AbortSignal;
 }
 
 export interface GPT4oStreamChunk {
@@ -57,19 +59,25 @@ export class GPT4oService {
                 {
                   type: 'text',
                   text: request.prompt
-                }
+                },
+                ...(request.imageUrl ? [{
+                  type: 'image_url',
+                  image_url: { url: request.imageUrl }
+                }] : [])
               ]
             }
           ],
           stream: request.stream || false
-        })
+        }),
+        signal: request.signal
       });
 
       if (!response.ok) {
         const errorData = await response.json().catch(() => null);
-        throw new Error(
+        throw createHttpError(
           errorData?.message || 
-          `GPT-4 API error: ${response.status} ${response.statusText}`
+          `GPT-4 API error: ${response.status} ${response.statusText}`,
+          response
         );
       }
 
@@ -151,10 +159,26 @@ export class GPT4oService {
       throw new Error('未返回图片URL');
     } catch (error) {
       console.error('GPT-4 API request failed:', error);
-      return {
-        success: false,
-        error: error instanceof Error ? error.message : '未知错误',
-      };
+      return toErrorResponse(error);
+    }
+  }
+
+  /** 发送空消息验证 API 密钥，接口因参数错误拒绝时不产生费用；仅鉴权失败时抛出 */
+  async verifyApiKey(): Promise<void> {
+    const response = await fetch(this.endpoint, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${this.apiKey}`,
+      },
+      body: JSON.stringify({ model: 'gpt-4o-image', messages: [] }),
+    });
+    if (isAuthErrorStatus(response.status)) {
+      const errorData = await response.json().catch(() => null);
+      throw new Error(
+        errorData?.message || errorData?.error?.message ||
+        `GPT-4 API error: ${response.status} ${response.statusText}`
+      );
     }
   }
 }
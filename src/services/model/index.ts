@@ -11,6 +11,25 @@
 
 export { modelConfigService, TestStatus } from './modelService';
 export { type DoubaoModel, type DoubaoRequest } from './doubaoService';
-export { type StandardResponse } from './baseService';
+export { isAbortError, isTimeoutError, RequestTimeoutError, sleep, toErrorResponse, withTimeout, type StandardResponse, type TaskProgress, type TaskProgressHandler } from './baseService';
 export { type GPT4oRequest } from './gpt4oService';
-export { modelManager, type ImageModel, type ModelGroupType } from './modelManager';
+export { type OpenAIImagesModel, type OpenAIImagesRequest } from './openaiImagesService';
+export { type CogViewModel, type CogViewRequest } from './cogviewService';
+export { type TongyiModel, type TongyiRequest } from './tongyiService';
+export { type JimengModel, type JimengRequest } from './jimengService';
+export { type SDWebUIRequest } from './sdWebUIService';
+export { type ComfyUIRequest } from './comfyUIService';
+export { type MockModel, type MockRequest, type MockFailureMode } from './mockService';
+export { catalogService, type CatalogSource } from './catalogService';
+export { modelManager, DEFAULT_MAX_COUNT, type BudgetPeriod, type ImageModel, type ModelCapabilities, type ModelGroupType, type ModelLocaleText, type UsageBudget } from './modelManager';
+export {
+  providerRegistry,
+  getMissingCredentials,
+  type CredentialField,
+  type GenerationParamKey,
+  type ProviderAdapter,
+  type ProviderCapabilities,
+  type ProviderGenerateOptions,
+  type ProviderGenerateRequest,
+  type ProviderTestResult,
+} from './providers';
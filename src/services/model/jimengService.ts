@@ -0,0 +1,190 @@
+/**
+ * @file jimengService.ts
+ * @description JimengService for generating images with Jimeng AI
+ * @author fmw666@github
+ * @date 2025-07-18
+ */
+
+/*
+即梦AI绘图服务
+
+参考官方文档：https://www.volcengine.com/docs/85621/1537648
+核心：
+  1. 即梦与豆包同属火山引擎视觉服务，复用 VolcengineClient 的 V4 签名，使用火山引擎 AccessKey / SecretKey。
+  2. 文生图2.1 走同步接口 CVProcess；文生图3.0 走异步接口，先 CVSync2AsyncSubmitTask 提交，再 CVSync2AsyncGetResult 轮询。
+*/
+
+import { ProviderHttpError, sleep, StandardResponse, TaskProgressHandler, toErrorResponse } from './baseService';
+import { VolcengineClient } from './volcengineClient';
+
+export type JimengModel =
+  | 'jimeng_high_aes_general_v21_L'  // 即梦文生图2.1
+  | 'jimeng_t2i_v30'  // 即梦文生图3.0
+
+export type JimengTaskStatus = 'in_queue' | 'generating' | 'done' | 'not_found' | 'expired';
+
+export interface JimengConfig {
+  apiKey: string;
+  apiSecret: string;
+  endpoint: string;
+  region: string;
+  service: string;
+  host: string;
+  defaultModel: JimengModel;
+  pollIntervalMs: number;
+  maxWaitMs: number;
+}
+
+export type JimengConfigInput = Pick<JimengConfig, 'apiKey' | 'apiSecret'> & Partial<Omit<JimengConfig, 'apiKey' | 'apiSecret'>>;
+
+export interface JimengRequest {
+  prompt: string;
+  model?: JimengModel;
+  width?: number;
+  height?: number;
+  seed?: number;
+  onProgress?: TaskProgressHandler;
+  signal?: AbortSignal;
+}
+
+export interface JimengResponse {
+  code: number;
+  message: string;
+  request_id: string;
+  data?: {
+    image_urls?: string[] | null;
+    task_id?: string;
+    status?: JimengTaskStatus;
+  } | null;
+}
+
+const API_VERSION = '2022-08-31';
+const SUCCESS_CODE = 10000;
+// 50429: QPS 超限，50430: 并发超限；50500/50501: 服务内部错误
+const RATE_LIMIT_CODES = [50429, 50430];
+const INTERNAL_ERROR_CODES = [50500, 50501];
+const ASYNC_MODELS: JimengModel[] = ['jimeng_t2i_v30'];
+
+export class JimengService {
+  private config: JimengConfig;
+  private client: VolcengineClient;
+
+  constructor(config: JimengConfigInput) {
+    if (!config.apiKey || !config.apiSecret) {
+      throw new Error('JimengService 需要有效的 AccessKey 和 SecretKey');
+    }
+    this.config = {
+      endpoint: import.meta.env.DEV ? '/api/jimeng' : 'https://visual.volcengineapi.com',
+      region: 'cn-north-1',
+      service: 'cv',
+      host: 'visual.volcengineapi.com',
+      defaultModel: 'jimeng_high_aes_general_v21_L',
+      pollIntervalMs: 2000,
+      maxWaitMs: 5 * 60 * 1000,
+      ...config,
+    };
+    this.client = new VolcengineClient({
+      apiKey: this.config.apiKey,
+      apiSecret: this.config.apiSecret,
+      endpoint: this.config.endpoint,
+      region: this.config.region,
+      service: this.config.service,
+      host: this.config.host,
+      serviceName: 'Jimeng',
+    });
+  }
+
+  private async call(action: string, payload: any, signal?: AbortSignal): Promise<JimengResponse> {
+    const response: JimengResponse = await this.client.request(action, API_VERSION, payload, signal);
+    if (response.code !== SUCCESS_CODE) {
+      const message = response.message || `Jimeng API error: ${response.code}`;
+      // 限流与服务内部错误按 HTTP 状态码抛出，交由上层决定是否重试
+      if (RATE_LIMIT_CODES.includes(response.code)) throw new ProviderHttpError(message, 429);
+      if (INTERNAL_ERROR_CODES.includes(response.code)) throw new ProviderHttpError(message, 500);
+      throw new Error(message);
+    }
+    return response;
+  }
+
+  private buildPayload(model: JimengModel, request: JimengRequest) {
+    return {
+      req_key: model,
+      prompt: request.prompt,
+      ...(request.width ? { width: request.width } : {}),
+      ...(request.height ? { height: request.height } : {}),
+      ...(request.seed !== undefined ? { seed: request.seed } : {}),
+    };
+  }
+
+  /** 同步生成：一次请求直接返回图片 */
+  private async generateSync(model: JimengModel, request: JimengRequest): Promise<string | undefined> {
+    const response = await this.call('CVProcess', {
+      ...this.buildPayload(model, request),
+      return_url: true,
+    }, request.signal);
+    return response.data?.image_urls?.[0];
+  }
+
+  /** 异步生成：提交任务后轮询结果 */
+  private async generateAsync(model: JimengModel, request: JimengRequest): Promise<string | undefined> {
+    const submitResponse = await this.call('CVSync2AsyncSubmitTask', this.buildPayload(model, request), request.signal);
+    const taskId = submitResponse.data?.task_id;
+    if (!taskId) {
+      throw new Error('未返回任务ID');
+    }
+    request.onProgress?.({ status: 'pending', taskId });
+
+    const startTime = Date.now();
+    while (Date.now() - startTime < this.config.maxWaitMs) {
+      await sleep(this.config.pollIntervalMs, request.signal);
+
+      const result = await this.call('CVSync2AsyncGetResult', {
+        req_key: model,
+        task_id: taskId,
+        req_json: JSON.stringify({ return_url: true }),
+      }, request.signal);
+      const status = result.data?.status;
+
+      if (status === 'done') {
+        return result.data?.image_urls?.[0];
+      }
+      if (status === 'not_found' || status === 'expired') {
+        throw new Error(`任务状态异常: ${status}`);
+      }
+      request.onProgress?.({ status: status === 'generating' ? 'running' : 'pending', taskId });
+    }
+
+    throw new Error(`任务等待超时: ${taskId}`);
+  }
+
+  async generateImage(request: JimengRequest): Promise<StandardResponse> {
+    const model = request.model || this.config.defaultModel;
+
+    try {
+      const originalImageUrl = ASYNC_MODELS.includes(model)
+        ? await this.generateAsync(model, request)
+        : await this.generateSync(model, request);
+
+      if (originalImageUrl) {
+        // 只返回原始图片 URL，不上传到 storage
+        return {
+          success: true,
+          message: '图片生成成功！',
+          imageUrl: originalImageUrl,
+        };
+      }
+      return {
+        success: false,
+        error: '未返回图片URL',
+      };
+    } catch (error) {
+      console.error('Jimeng API request failed:', error);
+      return toErrorResponse(error);
+    }
+  }
+
+  /** 验证密钥，不会真正出图 */
+  async verifyCredentials(): Promise<void> {
+    await this.client.verifyCredentials('CVProcess', API_VERSION);
+  }
+}
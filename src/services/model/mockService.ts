@@ -0,0 +1,231 @@
+/**
+ * @file mockService.ts
+ * @description MockService for generating deterministic offline images without provider keys or network
+ * @author fmw666@github
+ * @date 2025-07-18
+ */
+
+/*
+离线模拟绘图服务
+
+用于开发与演示，无需任何服务商密钥或网络。
+核心：
+  1. 图片由 prompt + seed 的哈希值决定，使用 canvas 在本地绘制为 PNG data URL；无 DOM 环境时退化为 SVG data URL。
+  2. 按配置的延迟返回结果，期间通过 onProgress 回报排队/绘制状态，与真实异步服务走相同的进度回调。
+  3. 可模拟失败场景：请求超时、429 限流、内容安全拦截，或按比例随机失败。
+*/
+
+import { sleep, StandardResponse, TaskProgressHandler } from './baseService';
+
+export type MockModel =
+  | 'mock-image-v1'  // 离线模拟
+
+export type MockFailureMode = 'none' | 'timeout' | 'rate_limit' | 'content_policy' | 'random';
+
+export interface MockConfig {
+  latencyMs: number;
+  timeoutMs: number;  // 模拟超时时请求挂起的时长
+  failureMode: MockFailureMode;
+  failureRate: number;  // 0 ~ 1，仅 failureMode 为 random 时生效
+  width: number;
+  height: number;
+}
+
+export type MockConfigInput = Partial<MockConfig>;
+
+export interface MockRequest {
+  prompt: string;
+  model?: MockModel;
+  seed?: number;
+  width?: number;
+  height?: number;
+  onProgress?: TaskProgressHandler;
+  signal?: AbortSignal;
+}
+
+const FAILURE_MODES: MockFailureMode[] = ['timeout', 'rate_limit', 'content_policy'];
+// 模拟限流时返回的 Retry-After
+const RATE_LIMIT_RETRY_AFTER_MS = 2000;
+
+/** FNV-1a 32 位哈希 */
+const hashString = (input: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+/** mulberry32 伪随机数生成器，同一种子产生同一序列 */
+const createRandom = (seed: number) => {
+  let state = seed;
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+const escapeXml = (text: string): string => {
+  return text.replace(/[<>&'"]/g, c => ({ '<': '&lt;', '>': '&gt;', '&': '&amp;', '\'': '&apos;', '"': '&quot;' }[c] as string));
+};
+
+interface MockShape {
+  kind: 'circle' | 'rect';
+  x: number;
+  y: number;
+  size: number;
+  color: string;
+}
+
+interface MockScene {
+  from: string;
+  to: string;
+  shapes: MockShape[];
+  caption: string;
+}
+
+export class MockService {
+  private config: MockConfig;
+
+  constructor(config: MockConfigInput = {}) {
+    this.config = {
+      latencyMs: 1500,
+      timeoutMs: 60 * 1000,
+      failureMode: 'none',
+      failureRate: 0.3,
+      width: 1024,
+      height: 1024,
+      ...config,
+    };
+  }
+
+  /** 由 prompt + seed 生成确定的画面描述 */
+  private buildScene(prompt: string, seed: number, width: number, height: number): MockScene {
+    const random = createRandom(hashString(`${prompt}#${seed}`));
+    const hue = Math.floor(random() * 360);
+    const shapeCount = 6 + Math.floor(random() * 10);
+    const shapes: MockShape[] = Array.from({ length: shapeCount }, () => ({
+      kind: random() > 0.5 ? 'circle' : 'rect',
+      x: random() * width,
+      y: random() * height,
+      size: (0.05 + random() * 0.25) * Math.min(width, height),
+      color: `hsla(${(hue + random() * 120) % 360}, 70%, ${40 + random() * 30}%, 0.6)`,
+    }));
+    return {
+      from: `hsl(${hue}, 65%, 55%)`,
+      to: `hsl(${(hue + 60) % 360}, 65%, 35%)`,
+      shapes,
+      caption: prompt.length > 40 ? `${prompt.slice(0, 40)}…` : prompt,
+    };
+  }
+
+  private renderCanvas(scene: MockScene, seed: number, width: number, height: number): string | null {
+    if (typeof document === 'undefined') return null;
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return null;
+
+    const gradient = ctx.createLinearGradient(0, 0, width, height);
+    gradient.addColorStop(0, scene.from);
+    gradient.addColorStop(1, scene.to);
+    ctx.fillStyle = gradient;
+    ctx.fillRect(0, 0, width, height);
+
+    scene.shapes.forEach(shape => {
+      ctx.fillStyle = shape.color;
+      if (shape.kind === 'circle') {
+        ctx.beginPath();
+        ctx.arc(shape.x, shape.y, shape.size / 2, 0, Math.PI * 2);
+        ctx.fill();
+      } else {
+        ctx.fillRect(shape.x - shape.size / 2, shape.y - shape.size / 2, shape.size, shape.size);
+      }
+    });
+
+    const fontSize = Math.round(width / 28);
+    ctx.fillStyle = 'rgba(255, 255, 255, 0.9)';
+    ctx.font = `${fontSize}px sans-serif`;
+    ctx.textAlign = 'center';
+    ctx.fillText(scene.caption, width / 2, height - fontSize * 2.5);
+    ctx.font = `${Math.round(fontSize * 0.7)}px monospace`;
+    ctx.fillText(`mock · seed ${seed}`, width / 2, height - fontSize);
+
+    return canvas.toDataURL('image/png');
+  }
+
+  private renderSvg(scene: MockScene, seed: number, width: number, height: number): string {
+    const fontSize = Math.round(width / 28);
+    const shapes = scene.shapes.map(shape => shape.kind === 'circle'
+      ? `<circle cx="${shape.x.toFixed(1)}" cy="${shape.y.toFixed(1)}" r="${(shape.size / 2).toFixed(1)}" fill="${shape.color}"/>`
+      : `<rect x="${(shape.x - shape.size / 2).toFixed(1)}" y="${(shape.y - shape.size / 2).toFixed(1)}" width="${shape.size.toFixed(1)}" height="${shape.size.toFixed(1)}" fill="${shape.color}"/>`
+    ).join('');
+    const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`
+      + `<defs><linearGradient id="bg" x1="0" y1="0" x2="1" y2="1"><stop offset="0" stop-color="${scene.from}"/><stop offset="1" stop-color="${scene.to}"/></linearGradient></defs>`
+      + `<rect width="100%" height="100%" fill="url(#bg)"/>${shapes}`
+      + `<text x="50%" y="${height - fontSize * 2.5}" font-size="${fontSize}" font-family="sans-serif" text-anchor="middle" fill="rgba(255,255,255,0.9)">${escapeXml(scene.caption)}</text>`
+      + `<text x="50%" y="${height - fontSize}" font-size="${Math.round(fontSize * 0.7)}" font-family="monospace" text-anchor="middle" fill="rgba(255,255,255,0.9)">mock · seed ${seed}</text>`
+      + '</svg>';
+    return `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+  }
+
+  /** 决定本次请求模拟的失败场景 */
+  private pickFailure(): MockFailureMode {
+    const { failureMode, failureRate } = this.config;
+    if (failureMode !== 'random') return failureMode;
+    if (Math.random() >= failureRate) return 'none';
+    return FAILURE_MODES[Math.floor(Math.random() * FAILURE_MODES.length)];
+  }
+
+  async generateImage(request: MockRequest): Promise<StandardResponse> {
+    const taskId = `mock_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
+    const failure = this.pickFailure();
+
+    request.onProgress?.({ status: 'pending', taskId });
+
+    if (failure === 'timeout') {
+      await sleep(this.config.timeoutMs, request.signal);
+      return {
+        success: false,
+        error: `Mock API error: 请求超时 (${this.config.timeoutMs}ms)`,
+        errorStatus: 504,
+      };
+    }
+
+    await sleep(this.config.latencyMs / 2, request.signal);
+
+    if (failure === 'rate_limit') {
+      return {
+        success: false,
+        error: 'Mock API error: 429 Too Many Requests',
+        errorStatus: 429,
+        retryAfterMs: RATE_LIMIT_RETRY_AFTER_MS,
+      };
+    }
+    if (failure === 'content_policy') {
+      return {
+        success: false,
+        error: 'Mock API error: 提示词未通过内容安全审核',
+        errorStatus: 400,
+      };
+    }
+
+    request.onProgress?.({ status: 'running', taskId });
+    await sleep(this.config.latencyMs / 2, request.signal);
+
+    const width = request.width || this.config.width;
+    const height = request.height || this.config.height;
+    const seed = request.seed ?? hashString(request.prompt) % 100000;
+    const scene = this.buildScene(request.prompt, seed, width, height);
+
+    return {
+      success: true,
+      message: '图片生成成功！',
+      imageUrl: this.renderCanvas(scene, seed, width, height) ?? this.renderSvg(scene, seed, width, height),
+    };
+  }
+}
@@ -9,14 +9,27 @@
 // Imports
 // =================================================================================================
 
-import { ImageModelWithDate as ImageModel, ModelGroupType, GroupConfig } from '@/config/models.types';
-import { getAllModels, getGroupConfig, getAllGroupConfigs } from '@/config/modelsLoader';
+import { ImageModelWithDate as ImageModel, ModelGroupType, GroupConfig, ModelsConfig, UsageBudget } from '@/config/models.types';
+import { getAllModels, getBundledModelsConfig, getGroupConfig, getAllGroupConfigs, getUserBudget, setModelsConfig } from '@/config/modelsLoader';
+import type { AspectRatio } from '@/types/chat';
+import { validateModelsConfig } from '@/utils/modelCatalog';
+import { isModelRetired } from '@/utils/modelUtils';
+
+import { catalogService } from './catalogService';
+import { providerRegistry, type GenerationParamKey, type ProviderCapabilities } from './providers';
 
 // =================================================================================================
 // Type Definitions
 // =================================================================================================
 
-export type { ModelGroupType, ImageModelWithDate as ImageModel, GroupConfig } from '@/config/models.types';
+export type { ModelGroupType, ImageModelWithDate as ImageModel, GroupConfig, UsageBudget, BudgetPeriod, ModelCapabilities, ModelLocaleText } from '@/config/models.types';
+
+// =================================================================================================
+// Constants
+// =================================================================================================
+
+// 模型未配置 maxCount 时一次发送最多生成的张数
+export const DEFAULT_MAX_COUNT = 4;
 
 // =================================================================================================
 // Class Definition
@@ -28,8 +41,18 @@ export class ModelManager {
   // --------------------------------------------------------------------------------
   private static instance: ModelManager;
   private models: ImageModel[];
+  private catalogListeners = new Set<() => void>();
+  private catalogSnapshot: string;  // 当前目录的 JSON，内容未变化时刷新不通知订阅方
+  private catalogInit: Promise<void> | null = null;
 
   private constructor() {
+    // 打包的目录同样校验，问题只输出不阻断启动，以免没有可用的兜底目录
+    try {
+      validateModelsConfig(getBundledModelsConfig(), this.getKnownGroups());
+    } catch (error) {
+      console.error('Bundled models.json is invalid:', error);
+    }
+    this.catalogSnapshot = JSON.stringify(getBundledModelsConfig());
     this.models = getAllModels();
   }
 
@@ -40,6 +63,64 @@ export class ModelManager {
     return ModelManager.instance;
   }
 
+  // --------------------------------------------------------------------------------
+  // Catalog Methods
+  // --------------------------------------------------------------------------------
+
+  /** 首次调用时读取远程目录并按配置的间隔定期刷新，之后的调用复用首次读取的结果 */
+  public initCatalog(): Promise<void> {
+    if (!this.catalogInit) {
+      this.catalogInit = this.reloadCatalog().then(() => undefined);
+      const interval = catalogService.getRefreshInterval();
+      if (catalogService.getSource() !== 'bundled' && interval > 0) {
+        setInterval(() => void this.reloadCatalog(), interval);
+      }
+    }
+    return this.catalogInit;
+  }
+
+  /**
+   * 重新读取远程目录，读取或校验失败时保留当前目录
+   * @returns 是否应用了新的目录
+   */
+  public async reloadCatalog(): Promise<boolean> {
+    try {
+      const raw = await catalogService.fetchCatalog();
+      if (raw === null) return false;
+      return this.applyCatalog(validateModelsConfig(raw, this.getKnownGroups()));
+    } catch (error) {
+      console.error('Error loading model catalog, keeping the current one:', error);
+      return false;
+    }
+  }
+
+  /**
+   * 订阅目录变化，目录内容更新后回调
+   * @returns 取消订阅的函数
+   */
+  public subscribe(listener: () => void): () => void {
+    this.catalogListeners.add(listener);
+    return () => {
+      this.catalogListeners.delete(listener);
+    };
+  }
+
+  private applyCatalog(config: ModelsConfig): boolean {
+    const snapshot = JSON.stringify(config);
+    if (snapshot === this.catalogSnapshot) return false;
+    this.catalogSnapshot = snapshot;
+
+    setModelsConfig(config);
+    this.models = getAllModels();
+    this.catalogListeners.forEach(listener => listener());
+    return true;
+  }
+
+  /** 已注册适配器的模型组，目录中只能使用这些模型组 */
+  private getKnownGroups(): ModelGroupType[] {
+    return providerRegistry.getAll().map(adapter => adapter.group);
+  }
+
   // --------------------------------------------------------------------------------
   // Model Query Methods
   // --------------------------------------------------------------------------------
@@ -64,6 +145,26 @@ export class ModelManager {
     return this.models.find(model => model.id === id);
   }
 
+  /** 检查模型是否已到下线日期 */
+  public isModelRetired(modelId: string): boolean {
+    const model = this.getModelById(modelId);
+    return !!model && isModelRetired(model);
+  }
+
+  /**
+   * 获取实际用于生成的模型：已下线的模型沿 replacedBy 找到仍可用的替代模型
+   * @returns 已下线且没有可用替代模型时返回 undefined
+   */
+  public resolveModel(modelId: string): ImageModel | undefined {
+    const visited = new Set<string>();
+    let model = this.getModelById(modelId);
+    while (model && isModelRetired(model)) {
+      visited.add(model.id);
+      model = model.replacedBy && !visited.has(model.replacedBy) ? this.getModelById(model.replacedBy) : undefined;
+    }
+    return model;
+  }
+
   /** 获取模型演示 */
   public getModelDemo(modelId: string) {
     const model = this.models.find(m => m.id === modelId);
@@ -85,6 +186,11 @@ export class ModelManager {
     return getAllGroupConfigs();
   }
 
+  /** 获取每位用户在所有模型上的费用上限 */
+  public getUserBudget(): UsageBudget | undefined {
+    return getUserBudget();
+  }
+
   /** 检查模型是否可用 */
   public isModelAvailable(modelId: string): boolean {
     const model = this.getModelById(modelId);
@@ -101,6 +207,54 @@ export class ModelManager {
     return true;
   }
 
+  /** 检查模型是否具备某项能力（如图片编辑、局部重绘），模型目录中的声明优先 */
+  public supportsCapability(modelId: string, capability: keyof ProviderCapabilities): boolean {
+    const model = this.getModelById(modelId);
+    if (!model) return false;
+    const override = capability === 'asyncTask' ? undefined : model.capabilities?.[capability];
+    return override ?? providerRegistry.supports(model.group, capability, model.id);
+  }
+
+  /** 检查模型是否支持某个生成参数：服务商需支持，且模型目录未关闭该参数 */
+  public supportsParam(modelId: string, key: GenerationParamKey): boolean {
+    const model = this.getModelById(modelId);
+    if (!model || !providerRegistry.get(model.group)?.supportedParams.includes(key)) return false;
+    if (key === 'seed' || key === 'negativePrompt') {
+      return model.capabilities?.[key] ?? true;
+    }
+    return true;
+  }
+
+  /** 检查模型是否支持某个宽高比，未配置时视为全部支持 */
+  public supportsAspectRatio(modelId: string, aspectRatio: AspectRatio): boolean {
+    const aspectRatios = this.getModelById(modelId)?.capabilities?.aspectRatios;
+    return !aspectRatios || aspectRatios.includes(aspectRatio);
+  }
+
+  /** 检查模型是否支持某个尺寸（长边像素），未配置时视为全部支持 */
+  public supportsImageSize(modelId: string, size: number): boolean {
+    const sizes = this.getModelById(modelId)?.capabilities?.sizes;
+    return !sizes || sizes.includes(size);
+  }
+
+  /** 获取模型一次发送最多生成的张数 */
+  public getMaxCount(modelId: string): number {
+    return this.getModelById(modelId)?.capabilities?.maxCount ?? DEFAULT_MAX_COUNT;
+  }
+
+  /** 获取模型的提示词最大字符数，未配置时不限制 */
+  public getMaxPromptLength(modelId: string): number | undefined {
+    return this.getModelById(modelId)?.capabilities?.maxPromptLength;
+  }
+
+  /** 获取一组模型中最严格的提示词长度限制，均未配置时不限制 */
+  public getPromptLengthLimit(modelIds: string[]): number | undefined {
+    const limits = modelIds
+      .map(id => this.getMaxPromptLength(id))
+      .filter((limit): limit is number => limit !== undefined);
+    return limits.length > 0 ? Math.min(...limits) : undefined;
+  }
+
   /** 检查模型组是否可用 */
   public isGroupAvailable(group: ModelGroupType): boolean {
     const groupConfig = this.getModelConfigByGroup(group);
@@ -46,6 +46,8 @@ export interface ModelConfig {
   enabled: boolean | null;
   test_status: number | null; // 0: not tested, 1: testing, 2: tested failed, 3: tested passed
   last_tested_at: string | null;
+  last_test_latency_ms?: number | null; // 最近一次连接测试耗时
+  last_test_message?: string | null; // 最近一次连接测试的结果说明
   config_json: ModelConfigJson | null; // 存储 API key, secret, system prompt 等配置
 }
 
@@ -63,9 +65,17 @@ export interface UpdateModelConfig {
   enabled?: boolean;
   test_status?: number;
   last_tested_at?: string | null;
+  last_test_latency_ms?: number | null;
+  last_test_message?: string | null;
   config_json?: ModelConfigJson;
 }
 
+// 连接测试的详细结果
+export interface ConnectionTestDetails {
+  latencyMs: number;
+  message: string;
+}
+
 // =================================================================================================
 // Class Definition
 // =================================================================================================
@@ -186,14 +196,18 @@ export class ModelConfigService {
   public async updateModelConnectionStatus(
     userId: string, 
     modelId: string, 
-    testStatus: TestStatus
+    testStatus: TestStatus,
+    details?: ConnectionTestDetails
   ): Promise<ModelConfig | null> {
     try {
       if (!supabase) throw new Error('Supabase client is not initialized');
 
       const updates: UpdateModelConfig = {
         test_status: testStatus,
-        last_tested_at: testStatus !== TestStatus.NOT_TESTED ? new Date().toISOString() : null
+        last_tested_at: testStatus !== TestStatus.NOT_TESTED ? new Date().toISOString() : null,
+        // 未提供测试结果时（如重置状态）清空上一次的结果
+        last_test_latency_ms: details?.latencyMs ?? null,
+        last_test_message: details?.message ?? null,
       };
 
       const { data, error } = await supabase
@@ -0,0 +1,237 @@
+/**
+ * @file openaiImagesService.ts
+ * @description OpenAIImagesService for generating and editing images with the OpenAI Images API
+ * @author fmw666@github
+ * @date 2025-07-18
+ */
+
+/*
+OpenAI Images API 绘图服务
+
+参考官方文档：https://platform.openai.com/docs/api-reference/images
+核心：
+  1. 文生图调用 /images/generations，图生图与局部重绘调用 /images/edits（multipart/form-data），
+     局部重绘的黑白蒙版在提交前转换为接口要求的透明蒙版。
+  2. baseURL 与模型名可配置，兼容 OpenAI 官方及任意兼容该接口的本地服务。
+  3. 返回 b64_json 时转换为 data URL，返回 url 时直接使用，均由上层统一上传到 storage。
+  4. 尺寸按模型支持的规格就近映射，质量按模型映射为对应取值。
+*/
+
+import { toAlphaMask } from '@/services/storage';
+import type { ImageQuality } from '@/types/chat';
+import { pickClosestSize } from '@/utils/generationParams';
+
+import { createHttpError, StandardResponse, toErrorResponse } from './baseService';
+
+export type OpenAIImagesModel =
+  | 'gpt-image-1'  // GPT Image 1
+  | 'dall-e-3'  // DALL·E 3
+  | 'dall-e-2'  // DALL·E 2
+
+export type OpenAIImagesQuality = ImageQuality;
+
+export type OpenAIImagesResponseFormat = 'b64_json' | 'url';
+
+export interface OpenAIImagesConfig {
+  apiKey: string;
+  baseURL: string;
+  model: string;
+  responseFormat?: OpenAIImagesResponseFormat;
+}
+
+export type OpenAIImagesConfigInput = Pick<OpenAIImagesConfig, 'apiKey'> & Partial<Omit<OpenAIImagesConfig, 'apiKey'>>;
+
+export interface OpenAIImagesRequest {
+  prompt: string;
+  model?: string;
+  width?: number;
+  height?: number;
+  quality?: OpenAIImagesQuality;
+  n?: number;
+  imageUrl?: string;  // 存在时走 /images/edits
+  maskUrl?: string;  // 局部重绘蒙版，白色为重绘区域，提交前转换为透明蒙版
+  signal?: AbortSignal;
+}
+
+export interface OpenAIImagesResponse {
+  created: number;
+  data?: Array<{
+    b64_json?: string;
+    url?: string;
+    revised_prompt?: string;
+  }>;
+  error?: {
+    code?: string;
+    message: string;
+    type?: string;
+  };
+}
+
+// 各模型支持的尺寸，未列出的模型（如兼容服务）直接透传 `${width}x${height}`
+const SUPPORTED_SIZES: Record<OpenAIImagesModel, string[]> = {
+  'gpt-image-1': ['1024x1024', '1536x1024', '1024x1536'],
+  'dall-e-3': ['1024x1024', '1792x1024', '1024x1792'],
+  'dall-e-2': ['256x256', '512x512', '1024x1024'],
+};
+
+// gpt-image-1 不接受 response_format 参数，始终返回 b64_json
+const B64_ONLY_MODELS = ['gpt-image-1'];
+
+export class OpenAIImagesService {
+  private config: OpenAIImagesConfig;
+
+  constructor(config: OpenAIImagesConfigInput) {
+    if (!config.apiKey) {
+      throw new Error('OpenAIImagesService 需要有效的 API 密钥');
+    }
+    this.config = {
+      baseURL: 'https://api.openai.com/v1',
+      model: 'gpt-image-1',
+      ...config,
+    };
+    this.config.baseURL = this.config.baseURL.replace(/\/+$/, '');
+  }
+
+  /** 将宽高映射为模型支持的尺寸：已知模型取宽高比最接近的规格，其余透传 */
+  private mapSize(model: string, width?: number, height?: number): string | undefined {
+    if (!width || !height) return undefined;
+    const sizes = SUPPORTED_SIZES[model as OpenAIImagesModel];
+    if (!sizes) return `${width}x${height}`;
+    return pickClosestSize(sizes, width, height);
+  }
+
+  /** 将统一的质量档位映射为模型的取值 */
+  private mapQuality(model: string, quality?: OpenAIImagesQuality): string | undefined {
+    if (!quality) return undefined;
+    if (model === 'dall-e-2') return undefined;
+    if (model === 'dall-e-3') return quality === 'high' ? 'hd' : 'standard';
+    return quality;
+  }
+
+  private getResponseFormat(model: string): OpenAIImagesResponseFormat | undefined {
+    if (B64_ONLY_MODELS.includes(model)) return undefined;
+    return this.config.responseFormat || 'b64_json';
+  }
+
+  private async fetchAsBlob(url: string, signal?: AbortSignal): Promise<Blob> {
+    const response = await fetch(url, { signal });
+    if (!response.ok) {
+      throw new Error(`无法获取图片: ${response.status} ${response.statusText}`);
+    }
+    return response.blob();
+  }
+
+  private async requestGeneration(model: string, request: OpenAIImagesRequest): Promise<Response> {
+    const size = this.mapSize(model, request.width, request.height);
+    const quality = this.mapQuality(model, request.quality);
+    const responseFormat = this.getResponseFormat(model);
+
+    return fetch(`${this.config.baseURL}/images/generations`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${this.config.apiKey}`,
+      },
+      body: JSON.stringify({
+        model,
+        prompt: request.prompt,
+        n: request.n || 1,
+        ...(size ? { size } : {}),
+        ...(quality ? { quality } : {}),
+        ...(responseFormat ? { response_format: responseFormat } : {}),
+      }),
+      signal: request.signal,
+    });
+  }
+
+  private async requestEdit(model: string, request: OpenAIImagesRequest): Promise<Response> {
+    const size = this.mapSize(model, request.width, request.height);
+    const quality = this.mapQuality(model, request.quality);
+    const responseFormat = this.getResponseFormat(model);
+
+    const formData = new FormData();
+    formData.append('model', model);
+    formData.append('prompt', request.prompt);
+    formData.append('n', String(request.n || 1));
+    formData.append('image', await this.fetchAsBlob(request.imageUrl!, request.signal), 'image.png');
+    if (request.maskUrl) {
+      // 接口要求透明区域为重绘区域，与应用内统一的黑白蒙版相反
+      formData.append('mask', await toAlphaMask(await this.fetchAsBlob(request.maskUrl, request.signal)), 'mask.png');
+    }
+    if (size) formData.append('size', size);
+    if (quality) formData.append('quality', quality);
+    if (responseFormat) formData.append('response_format', responseFormat);
+
+    // 不手动设置 Content-Type，由浏览器生成 multipart boundary
+    return fetch(`${this.config.baseURL}/images/edits`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${this.config.apiKey}`,
+      },
+      body: formData,
+      signal: request.signal,
+    });
+  }
+
+  /** 生成图片，返回所有图片链接（b64_json 转换为 data URL） */
+  async generateImages(request: OpenAIImagesRequest): Promise<string[]> {
+    const model = request.model || this.config.model;
+    const response = request.imageUrl
+      ? await this.requestEdit(model, request)
+      : await this.requestGeneration(model, request);
+
+    const result: OpenAIImagesResponse | null = await response.json().catch(() => null);
+
+    if (!response.ok || result?.error) {
+      throw createHttpError(
+        result?.error?.message ||
+        `OpenAI Images API error: ${response.status} ${response.statusText}`,
+        response
+      );
+    }
+
+    return (result?.data || [])
+      .map(item => item.b64_json ? `data:image/png;base64,${item.b64_json}` : item.url)
+      .filter((url): url is string => !!url);
+  }
+
+  async generateImage(request: OpenAIImagesRequest): Promise<StandardResponse> {
+    try {
+      const [imageUrl] = await this.generateImages({ ...request, n: 1 });
+      if (imageUrl) {
+        // 只返回原始图片，不上传到 storage
+        return {
+          success: true,
+          message: '图片生成成功！',
+          imageUrl,
+        };
+      }
+      return {
+        success: false,
+        error: '未返回图片',
+      };
+    } catch (error) {
+      console.error('OpenAI Images API request failed:', error);
+      return toErrorResponse(error);
+    }
+  }
+
+  /** 获取可用的模型列表，用于测试连接 */
+  async listModels(): Promise<string[]> {
+    const response = await fetch(`${this.config.baseURL}/models`, {
+      headers: {
+        'Authorization': `Bearer ${this.config.apiKey}`,
+      },
+    });
+    const result: { data?: Array<{ id: string }>; error?: { message: string } } | null = await response.json().catch(() => null);
+
+    if (!response.ok || result?.error) {
+      throw new Error(
+        result?.error?.message ||
+        `OpenAI Images API error: ${response.status} ${response.statusText}`
+      );
+    }
+
+    return (result?.data || []).map(model => model.id);
+  }
+}
@@ -0,0 +1,52 @@
+/**
+ * @file cogviewAdapter.ts
+ * @description Provider adapter for Zhipu CogView
+ * @author fmw666@github
+ * @date 2025-07-18
+ */
+
+// =================================================================================================
+// Imports
+// =================================================================================================
+
+import { COGVIEW_SIZES, CogViewService, type CogViewModel } from '@/services/model/cogviewService';
+import { pickClosestSize } from '@/utils/generationParams';
+
+import { API_KEY_FIELD, testByProbe } from './helpers';
+
+import type { ProviderAdapter } from './types';
+
+// =================================================================================================
+// Adapter
+// =================================================================================================
+
+export const cogviewAdapter: ProviderAdapter = {
+  group: 'cogview',
+  name: '智谱',
+  locales: { en: { name: 'Zhipu' } },
+  capabilities: {
+    textToImage: true,
+    imageToImage: false,
+    inpainting: false,
+    asyncTask: false,
+  },
+  supportedParams: ['size'],
+  credentialSchema: [API_KEY_FIELD],
+  generate(request, credentials, options) {
+    const cogviewService = new CogViewService({
+      apiKey: credentials.api_key ?? '',
+    });
+    return cogviewService.generateImage({
+      prompt: request.prompt,
+      model: request.model as CogViewModel,
+      // 只支持固定尺寸，取宽高比最接近的一档
+      ...(request.width && request.height ? { size: pickClosestSize(COGVIEW_SIZES, request.width, request.height) } : {}),
+      signal: options?.signal,
+    });
+  },
+  test(credentials) {
+    return testByProbe(cogviewAdapter, () => new CogViewService({
+      apiKey: credentials.api_key ?? '',
+    }).verifyApiKey());
+  },
+};
@@ -0,0 +1,92 @@
+/**
+ * @file comfyUIAdapter.ts
+ * @description Provider adapter for ComfyUI workflows stored in model_configs.config_json
+ * @author fmw666@github
+ * @date 2025-07-18
+ */
+
+// =================================================================================================
+// Imports
+// =================================================================================================
+
+import { ComfyUIService, parseWorkflow } from '@/services/model/comfyUIService';
+import type { ModelConfigJson } from '@/services/model/modelService';
+
+import type { ProviderAdapter } from './types';
+
+// =================================================================================================
+// Helpers
+// =================================================================================================
+
+const createService = (credentials: ModelConfigJson) => new ComfyUIService({
+  baseURL: credentials.base_url ?? '',
+  workflow: credentials.workflow ?? '',
+});
+
+// =================================================================================================
+// Adapter
+// =================================================================================================
+
+export const comfyUIAdapter: ProviderAdapter = {
+  group: 'comfyui',
+  name: 'ComfyUI',
+  capabilities: {
+    textToImage: true,
+    imageToImage: true,
+    inpainting: false,
+    asyncTask: true,
+  },
+  // 是否生效取决于工作流中是否包含对应占位符
+  supportedParams: ['size', 'seed', 'steps', 'cfgScale', 'negativePrompt'],
+  credentialSchema: [
+    {
+      key: 'base_url',
+      label: 'settings.models.table.baseUrl',
+      placeholder: 'settings.models.table.comfyBaseUrlPlaceholder',
+      icon: 'setting',
+      required: true,
+      secret: false,
+    },
+    {
+      key: 'workflow',
+      label: 'settings.models.table.comfyWorkflow',
+      placeholder: 'settings.models.table.comfyWorkflowPlaceholder',
+      icon: 'setting',
+      required: true,
+      secret: false,
+      multiline: true,
+    },
+  ],
+  generate(request, credentials, options) {
+    return createService(credentials).generateImage({
+      prompt: request.prompt,
+      negativePrompt: request.negativePrompt,
+      seed: request.seed,
+      width: request.width,
+      height: request.height,
+      steps: request.steps,
+      cfgScale: request.cfgScale,
+      imageUrl: request.imageUrl,
+      onProgress: options?.onTaskProgress,
+      signal: options?.signal,
+    });
+  },
+  async test(credentials) {
+    // 校验工作流并查询服务状态，无需真正执行工作流
+    try {
+      parseWorkflow(credentials.workflow ?? '');
+      const stats = await createService(credentials).getSystemStats();
+      return {
+        success: true,
+        message: `已连接 ComfyUI ${stats?.system?.comfyui_version ?? ''}`.trim(),
+        details: stats,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        message: `测试失败: ${error instanceof Error ? error.message : '未知错误'}`,
+        details: error,
+      };
+    }
+  },
+};
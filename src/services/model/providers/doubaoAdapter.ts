@@ -0,0 +1,75 @@
+/**
+ * @file doubaoAdapter.ts
+ * @description Provider adapter for Doubao (Volcengine visual service and Ark seedream)
+ * @author fmw666@github
+ * @date 2025-07-18
+ */
+
+// =================================================================================================
+// Imports
+// =================================================================================================
+
+import { DoubaoService, type DoubaoModel } from '@/services/model/doubaoService';
+import type { ModelConfigJson } from '@/services/model/modelService';
+
+import { API_KEY_FIELD, API_SECRET_FIELD } from './helpers';
+
+import type { ProviderAdapter } from './types';
+
+// =================================================================================================
+// Helpers
+// =================================================================================================
+
+const createService = (credentials: ModelConfigJson) => new DoubaoService({
+  apiKey: credentials.api_key ?? '',
+  apiSecret: credentials.api_secret ?? '',
+  arkApiKey: credentials.ark_api_key ?? '',
+});
+
+// =================================================================================================
+// Adapter
+// =================================================================================================
+
+export const doubaoAdapter: ProviderAdapter = {
+  group: 'doubao',
+  name: '豆包',
+  locales: { en: { name: 'Doubao' } },
+  capabilities: {
+    textToImage: true,
+    imageToImage: false,
+    inpainting: false,
+    asyncTask: false,
+  },
+  modelCapabilities: {
+    // SeedEdit 只做图片编辑，不支持纯文生图
+    'doubao-seededit-3-0-i2i-250628': { textToImage: false, imageToImage: true },
+  },
+  supportedParams: ['size', 'seed', 'steps', 'cfgScale'],
+  credentialSchema: [
+    API_KEY_FIELD,
+    API_SECRET_FIELD,
+    {
+      key: 'ark_api_key',
+      label: 'settings.models.table.arkApiKey',
+      placeholder: 'settings.models.table.arkApiKeyPlaceholder',
+      icon: 'key',
+      required: false,  // 仅 seedream 3.0 与 SeedEdit 3.0 需要
+    },
+  ],
+  generate(request, credentials, options) {
+    return createService(credentials).generateImage({
+      prompt: request.prompt,
+      model: request.model as DoubaoModel,
+      width: request.width,
+      height: request.height,
+      seed: request.seed,
+      steps: request.steps,
+      cfgScale: request.cfgScale,
+      imageUrl: request.imageUrl,
+      signal: options?.signal,
+    });
+  },
+  test(credentials) {
+    return createService(credentials).testService();
+  },
+};
@@ -0,0 +1,66 @@
+/**
+ * @file helpers.ts
+ * @description Shared helpers for provider adapters
+ * @author fmw666@github
+ * @date 2025-07-18
+ */
+
+// =================================================================================================
+// Imports
+// =================================================================================================
+
+import type { ModelConfigJson } from '@/services/model/modelService';
+
+import type { CredentialField, ProviderAdapter, ProviderTestResult } from './types';
+
+// =================================================================================================
+// Constants
+// =================================================================================================
+
+export const API_KEY_FIELD: CredentialField = {
+  key: 'api_key',
+  label: 'settings.models.table.apiKey',
+  placeholder: 'settings.models.table.apiKeyPlaceholder',
+  icon: 'key',
+  required: true,
+};
+
+export const API_SECRET_FIELD: CredentialField = {
+  key: 'api_secret',
+  label: 'settings.models.table.apiSecret',
+  placeholder: 'settings.models.table.apiSecretPlaceholder',
+  icon: 'secret',
+  required: true,
+};
+
+// =================================================================================================
+// Helpers
+// =================================================================================================
+
+/** 返回未填写的必填凭证字段 */
+export const getMissingCredentials = (schema: CredentialField[], credentials?: ModelConfigJson | null): CredentialField[] => {
+  return schema.filter(field => field.required && !credentials?.[field.key]);
+};
+
+/**
+ * 通过不出图的轻量请求验证凭证
+ * probe 抛出时视为失败，返回的文本作为成功提示
+ */
+export const testByProbe = async (
+  adapter: ProviderAdapter,
+  probe: () => Promise<string | void>
+): Promise<ProviderTestResult> => {
+  try {
+    const message = await probe();
+    return {
+      success: true,
+      message: message || `${adapter.name} 配置正确，可以正常使用`,
+    };
+  } catch (error) {
+    return {
+      success: false,
+      message: `测试失败: ${error instanceof Error ? error.message : '未知错误'}`,
+      details: error,
+    };
+  }
+};
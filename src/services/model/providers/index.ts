@@ -0,0 +1,22 @@
+/**
+ * @file index.ts
+ * @description Provider adapter exports
+ * @author fmw666@github
+ * @date 2025-07-18
+ */
+
+// =================================================================================================
+// Exports
+// =================================================================================================
+
+export { providerRegistry, ProviderRegistry } from './providerRegistry';
+export { getMissingCredentials, testByProbe } from './helpers';
+export type {
+  CredentialField,
+  GenerationParamKey,
+  ProviderAdapter,
+  ProviderCapabilities,
+  ProviderGenerateOptions,
+  ProviderGenerateRequest,
+  ProviderTestResult,
+} from './types';
@@ -0,0 +1,55 @@
+/**
+ * @file jimengAdapter.ts
+ * @description Provider adapter for Jimeng AI
+ * @author fmw666@github
+ * @date 2025-07-18
+ */
+
+// =================================================================================================
+// Imports
+// =================================================================================================
+
+import { JimengService, type JimengModel } from '@/services/model/jimengService';
+
+import { API_KEY_FIELD, API_SECRET_FIELD, testByProbe } from './helpers';
+
+import type { ProviderAdapter } from './types';
+
+// =================================================================================================
+// Adapter
+// =================================================================================================
+
+export const jimengAdapter: ProviderAdapter = {
+  group: 'jimeng',
+  name: '即梦',
+  locales: { en: { name: 'Jimeng' } },
+  capabilities: {
+    textToImage: true,
+    imageToImage: false,
+    inpainting: false,
+    asyncTask: true,
+  },
+  supportedParams: ['size', 'seed'],
+  credentialSchema: [API_KEY_FIELD, API_SECRET_FIELD],
+  generate(request, credentials, options) {
+    const jimengService = new JimengService({
+      apiKey: credentials.api_key ?? '',
+      apiSecret: credentials.api_secret ?? '',
+    });
+    return jimengService.generateImage({
+      prompt: request.prompt,
+      model: request.model as JimengModel,
+      width: request.width,
+      height: request.height,
+      seed: request.seed,
+      onProgress: options?.onTaskProgress,
+      signal: options?.signal,
+    });
+  },
+  test(credentials) {
+    return testByProbe(jimengAdapter, () => new JimengService({
+      apiKey: credentials.api_key ?? '',
+      apiSecret: credentials.api_secret ?? '',
+    }).verifyCredentials());
+  },
+};
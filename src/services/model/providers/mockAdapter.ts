@@ -0,0 +1,109 @@
+/**
+ * @file mockAdapter.ts
+ * @description Provider adapter for the offline mock service
+ * @author fmw666@github
+ * @date 2025-07-18
+ */
+
+// =================================================================================================
+// Imports
+// =================================================================================================
+
+import { MockService, type MockFailureMode, type MockModel } from '@/services/model/mockService';
+import type { ModelConfigJson } from '@/services/model/modelService';
+
+import { testByProbe } from './helpers';
+
+import type { ProviderAdapter } from './types';
+
+// =================================================================================================
+// Constants
+// =================================================================================================
+
+const FAILURE_MODES: MockFailureMode[] = ['none', 'timeout', 'rate_limit', 'content_policy', 'random'];
+
+// =================================================================================================
+// Helpers
+// =================================================================================================
+
+const toNumber = (value: unknown): number | undefined => {
+  const parsed = Number(value);
+  return value !== undefined && value !== '' && Number.isFinite(parsed) ? parsed : undefined;
+};
+
+// 配置项均为可选，留空时使用 MockService 默认值
+const createService = (credentials: ModelConfigJson) => {
+  const latencyMs = toNumber(credentials.latency_ms);
+  const failureRate = toNumber(credentials.failure_rate);
+  return new MockService({
+    ...(latencyMs !== undefined ? { latencyMs } : {}),
+    ...(credentials.failure_mode ? { failureMode: credentials.failure_mode as MockFailureMode } : {}),
+    ...(failureRate !== undefined ? { failureRate } : {}),
+  });
+};
+
+// =================================================================================================
+// Adapter
+// =================================================================================================
+
+export const mockAdapter: ProviderAdapter = {
+  group: 'mock',
+  name: '离线模拟',
+  locales: { en: { name: 'Offline Mock' } },
+  capabilities: {
+    textToImage: true,
+    imageToImage: false,
+    inpainting: false,
+    asyncTask: true,
+  },
+  supportedParams: ['size', 'seed'],
+  credentialSchema: [
+    {
+      key: 'latency_ms',
+      label: 'settings.models.table.mockLatency',
+      placeholder: 'settings.models.table.mockLatencyPlaceholder',
+      icon: 'setting',
+      required: false,
+      secret: false,
+    },
+    {
+      key: 'failure_mode',
+      label: 'settings.models.table.mockFailureMode',
+      placeholder: 'settings.models.table.mockFailureModePlaceholder',
+      icon: 'setting',
+      required: false,
+      secret: false,
+    },
+    {
+      key: 'failure_rate',
+      label: 'settings.models.table.mockFailureRate',
+      placeholder: 'settings.models.table.mockFailureRatePlaceholder',
+      icon: 'setting',
+      required: false,
+      secret: false,
+    },
+  ],
+  generate(request, credentials, options) {
+    return createService(credentials).generateImage({
+      prompt: request.prompt,
+      model: request.model as MockModel,
+      width: request.width,
+      height: request.height,
+      seed: request.seed,
+      onProgress: options?.onTaskProgress,
+      signal: options?.signal,
+    });
+  },
+  test(credentials) {
+    // 无需网络，只校验配置项
+    return testByProbe(mockAdapter, async () => {
+      if (credentials.failure_mode && !FAILURE_MODES.includes(credentials.failure_mode)) {
+        throw new Error(`不支持的失败模式: ${credentials.failure_mode}，可选 ${FAILURE_MODES.join(' / ')}`);
+      }
+      const failureRate = toNumber(credentials.failure_rate);
+      if (failureRate !== undefined && (failureRate < 0 || failureRate > 1)) {
+        throw new Error('失败比例需在 0 ~ 1 之间');
+      }
+    });
+  },
+};
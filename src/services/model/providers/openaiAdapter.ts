@@ -0,0 +1,44 @@
+/**
+ * @file openaiAdapter.ts
+ * @description Provider adapter for GPT-4o image generation
+ * @author fmw666@github
+ * @date 2025-07-18
+ */
+
+// =================================================================================================
+// Imports
+// =================================================================================================
+
+import { GPT4oService } from '@/services/model/gpt4oService';
+
+import { API_KEY_FIELD, testByProbe } from './helpers';
+
+import type { ProviderAdapter } from './types';
+
+// =================================================================================================
+// Adapter
+// =================================================================================================
+
+export const openaiAdapter: ProviderAdapter = {
+  group: 'openai',
+  name: 'OpenAI',
+  capabilities: {
+    textToImage: true,
+    imageToImage: true,
+    inpainting: false,
+    asyncTask: false,
+  },
+  supportedParams: [],
+  credentialSchema: [API_KEY_FIELD],
+  generate(request, credentials, options) {
+    const gpt4oService = new GPT4oService(credentials.api_key ?? '');
+    return gpt4oService.generateImage({
+      prompt: request.prompt,
+      imageUrl: request.imageUrl,
+      signal: options?.signal,
+    });
+  },
+  test(credentials) {
+    return testByProbe(openaiAdapter, () => new GPT4oService(credentials.api_key ?? '').verifyApiKey());
+  },
+};
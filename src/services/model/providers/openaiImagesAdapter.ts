@@ -0,0 +1,84 @@
+/**
+ * @file openaiImagesAdapter.ts
+ * @description Provider adapter for the OpenAI Images API and compatible servers
+ * @author fmw666@github
+ * @date 2025-07-18
+ */
+
+// =================================================================================================
+// Imports
+// =================================================================================================
+
+import type { ModelConfigJson } from '@/services/model/modelService';
+import { OpenAIImagesService } from '@/services/model/openaiImagesService';
+
+import { API_KEY_FIELD, testByProbe } from './helpers';
+
+import type { ProviderAdapter } from './types';
+
+// =================================================================================================
+// Helpers
+// =================================================================================================
+
+const createService = (credentials: ModelConfigJson) => new OpenAIImagesService({
+  apiKey: credentials.api_key ?? '',
+  ...(credentials.base_url ? { baseURL: credentials.base_url } : {}),
+});
+
+// =================================================================================================
+// Adapter
+// =================================================================================================
+
+export const openaiImagesAdapter: ProviderAdapter = {
+  group: 'openai-images',
+  name: 'OpenAI Images',
+  capabilities: {
+    textToImage: true,
+    imageToImage: true,
+    inpainting: true,
+    asyncTask: false,
+  },
+  supportedParams: ['size', 'quality'],
+  browserOnlyCapabilities: {
+    inpainting: 'OpenAI Images 的局部重绘需要在浏览器中用 canvas 把蒙版转换为透明蒙版，服务端任务进程无法执行，请切换到浏览器生成模式',
+  },
+  credentialSchema: [
+    API_KEY_FIELD,
+    {
+      key: 'base_url',
+      label: 'settings.models.table.baseUrl',
+      placeholder: 'settings.models.table.baseUrlPlaceholder',
+      icon: 'setting',
+      required: false,
+      secret: false,
+    },
+    {
+      key: 'model',
+      label: 'settings.models.table.modelName',
+      placeholder: 'settings.models.table.modelNamePlaceholder',
+      icon: 'setting',
+      required: false,
+      secret: false,
+    },
+  ],
+  generate(request, credentials, options) {
+    return createService(credentials).generateImage({
+      prompt: request.prompt,
+      // 配置中的模型名优先，便于对接兼容接口的本地服务
+      model: credentials.model || request.model,
+      width: request.width,
+      height: request.height,
+      quality: request.quality,
+      imageUrl: request.imageUrl,
+      maskUrl: request.maskUrl,
+      signal: options?.signal,
+    });
+  },
+  test(credentials) {
+    // 查询模型列表即可验证地址与密钥，无需真正出图
+    return testByProbe(openaiImagesAdapter, async () => {
+      const models = await createService(credentials).listModels();
+      return `已连接，共 ${models.length} 个可用模型`;
+    });
+  },
+};
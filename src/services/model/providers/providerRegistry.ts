@@ -0,0 +1,103 @@
+/**
+ * @file providerRegistry.ts
+ * @description ProviderRegistry singleton mapping model groups to their provider adapters
+ * @author fmw666@github
+ * @date 2025-07-18
+ */
+
+// =================================================================================================
+// Imports
+// =================================================================================================
+
+import type { ModelGroupType } from '@/config/models.types';
+
+import { cogviewAdapter } from './cogviewAdapter';
+import { comfyUIAdapter } from './comfyUIAdapter';
+import { doubaoAdapter } from './doubaoAdapter';
+import { jimengAdapter } from './jimengAdapter';
+import { mockAdapter } from './mockAdapter';
+import { openaiAdapter } from './openaiAdapter';
+import { openaiImagesAdapter } from './openaiImagesAdapter';
+import { sdWebUIAdapter } from './sdWebUIAdapter';
+import { tongyiAdapter } from './tongyiAdapter';
+
+import type { ProviderAdapter, ProviderCapabilities } from './types';
+
+// =================================================================================================
+// Constants
+// =================================================================================================
+
+// 内置服务商，顺序即设置页中的展示顺序
+const BUILTIN_ADAPTERS: ProviderAdapter[] = [
+  doubaoAdapter,
+  tongyiAdapter,
+  openaiAdapter,
+  openaiImagesAdapter,
+  sdWebUIAdapter,
+  comfyUIAdapter,
+  cogviewAdapter,
+  jimengAdapter,
+  mockAdapter,
+];
+
+// =================================================================================================
+// Class Definition
+// =================================================================================================
+
+export class ProviderRegistry {
+  // --------------------------------------------------------------------------------
+  // Singleton Instance
+  // --------------------------------------------------------------------------------
+  private static instance: ProviderRegistry;
+  private adapters: Map<ModelGroupType, ProviderAdapter>;
+
+  private constructor() {
+    this.adapters = new Map();
+    BUILTIN_ADAPTERS.forEach(adapter => this.register(adapter));
+  }
+
+  public static getInstance(): ProviderRegistry {
+    if (!ProviderRegistry.instance) {
+      ProviderRegistry.instance = new ProviderRegistry();
+    }
+    return ProviderRegistry.instance;
+  }
+
+  // --------------------------------------------------------------------------------
+  // Registry Methods
+  // --------------------------------------------------------------------------------
+
+  /** 注册服务商适配器，同一模型组重复注册时后者覆盖前者 */
+  public register(adapter: ProviderAdapter): void {
+    this.adapters.set(adapter.group, adapter);
+  }
+
+  /** 获取模型组对应的适配器 */
+  public get(group: ModelGroupType): ProviderAdapter | undefined {
+    return this.adapters.get(group);
+  }
+
+  /** 获取所有已注册的适配器 */
+  public getAll(): ProviderAdapter[] {
+    return [...this.adapters.values()];
+  }
+
+  /** 判断模型组是否已注册适配器 */
+  public has(group: ModelGroupType): boolean {
+    return this.adapters.has(group);
+  }
+
+  /** 判断模型组的适配器是否具备某项能力，传入模型 ID 时优先使用该模型的能力覆盖 */
+  public supports(group: ModelGroupType, capability: keyof ProviderCapabilities, modelId?: string): boolean {
+    const adapter = this.adapters.get(group);
+    if (!adapter) return false;
+    const override = modelId ? adapter.modelCapabilities?.[modelId]?.[capability] : undefined;
+    return override ?? adapter.capabilities[capability];
+  }
+}
+
+// =================================================================================================
+// Singleton Export
+// =================================================================================================
+
+export const providerRegistry = ProviderRegistry.getInstance();
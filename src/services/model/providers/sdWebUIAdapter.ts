@@ -0,0 +1,114 @@
+/**
+ * @file sdWebUIAdapter.ts
+ * @description Provider adapter for a local Stable Diffusion WebUI (AUTOMATIC1111)
+ * @author fmw666@github
+ * @date 2025-07-18
+ */
+
+// =================================================================================================
+// Imports
+// =================================================================================================
+
+import type { ModelConfigJson } from '@/services/model/modelService';
+import { SDWebUIService } from '@/services/model/sdWebUIService';
+
+import type { ProviderAdapter } from './types';
+
+// =================================================================================================
+// Helpers
+// =================================================================================================
+
+const createService = (credentials: ModelConfigJson) => new SDWebUIService({
+  baseURL: credentials.base_url ?? '',
+  ...(credentials.model ? { checkpoint: credentials.model } : {}),
+  ...(credentials.sampler ? { sampler: credentials.sampler } : {}),
+  ...(credentials.api_auth ? { apiAuth: credentials.api_auth } : {}),
+});
+
+// =================================================================================================
+// Adapter
+// =================================================================================================
+
+export const sdWebUIAdapter: ProviderAdapter = {
+  group: 'sdwebui',
+  name: 'Stable Diffusion WebUI',
+  capabilities: {
+    textToImage: true,
+    imageToImage: true,
+    inpainting: true,
+    asyncTask: false,
+  },
+  supportedParams: ['size', 'seed', 'steps', 'cfgScale', 'negativePrompt'],
+  credentialSchema: [
+    {
+      key: 'base_url',
+      label: 'settings.models.table.baseUrl',
+      placeholder: 'settings.models.table.sdBaseUrlPlaceholder',
+      icon: 'setting',
+      required: true,
+      secret: false,
+    },
+    {
+      key: 'model',
+      label: 'settings.models.table.sdCheckpoint',
+      placeholder: 'settings.models.table.sdCheckpointPlaceholder',
+      icon: 'setting',
+      required: false,
+      secret: false,
+    },
+    {
+      key: 'sampler',
+      label: 'settings.models.table.sdSampler',
+      placeholder: 'settings.models.table.sdSamplerPlaceholder',
+      icon: 'setting',
+      required: false,
+      secret: false,
+    },
+    {
+      key: 'api_auth',
+      label: 'settings.models.table.sdApiAuth',
+      placeholder: 'settings.models.table.sdApiAuthPlaceholder',
+      icon: 'secret',
+      required: false,
+    },
+  ],
+  generate(request, credentials, options) {
+    return createService(credentials).generateImage({
+      prompt: request.prompt,
+      negativePrompt: request.negativePrompt,
+      width: request.width,
+      height: request.height,
+      steps: request.steps,
+      seed: request.seed,
+      cfgScale: request.cfgScale,
+      imageUrl: request.imageUrl,
+      maskUrl: request.maskUrl,
+      strength: request.strength,
+      signal: options?.signal,
+    });
+  },
+  async test(credentials) {
+    // 查询模型列表即可验证地址与鉴权，无需真正出图
+    try {
+      const checkpoints = await createService(credentials).listCheckpoints();
+      if (credentials.model && !checkpoints.some(title => title.startsWith(credentials.model))) {
+        return {
+          success: false,
+          message: `WebUI 中未找到模型: ${credentials.model}`,
+          details: { checkpoints },
+        };
+      }
+      return {
+        success: true,
+        message: `已连接，共 ${checkpoints.length} 个可用模型`,
+        details: { checkpoints },
+      };
+    } catch (error) {
+      return {
+        success: false,
+        message: `测试失败: ${error instanceof Error ? error.message : '未知错误'}`,
+        details: error,
+      };
+    }
+  },
+};
@@ -0,0 +1,54 @@
+/**
+ * @file tongyiAdapter.ts
+ * @description Provider adapter for Tongyi Wanxiang
+ * @author fmw666@github
+ * @date 2025-07-18
+ */
+
+// =================================================================================================
+// Imports
+// =================================================================================================
+
+import { TongyiService, type TongyiModel } from '@/services/model/tongyiService';
+
+import { API_KEY_FIELD, testByProbe } from './helpers';
+
+import type { ProviderAdapter } from './types';
+
+// =================================================================================================
+// Adapter
+// =================================================================================================
+
+export const tongyiAdapter: ProviderAdapter = {
+  group: 'tongyi',
+  name: '通义万相',
+  locales: { en: { name: 'Tongyi Wanx' } },
+  capabilities: {
+    textToImage: true,
+    imageToImage: false,
+    inpainting: false,
+    asyncTask: true,
+  },
+  supportedParams: ['size', 'seed', 'negativePrompt'],
+  credentialSchema: [API_KEY_FIELD],
+  generate(request, credentials, options) {
+    const tongyiService = new TongyiService({
+      apiKey: credentials.api_key ?? '',
+    });
+    return tongyiService.generateImage({
+      prompt: request.prompt,
+      model: request.model as TongyiModel,
+      negativePrompt: request.negativePrompt,
+      width: request.width,
+      height: request.height,
+      seed: request.seed,
+      onProgress: options?.onTaskProgress,
+      signal: options?.signal,
+    });
+  },
+  test(credentials) {
+    return testByProbe(tongyiAdapter, () => new TongyiService({
+      apiKey: credentials.api_key ?? '',
+    }).verifyApiKey());
+  },
+};
@@ -0,0 +1,90 @@
+/**
+ * @file types.ts
+ * @description Provider adapter contract shared by all image generation providers
+ * @author fmw666@github
+ * @date 2025-07-18
+ */
+
+// =================================================================================================
+// Imports
+// =================================================================================================
+
+import type { ModelGroupType, ModelLocaleText } from '@/config/models.types';
+import type { StandardResponse, TaskProgressHandler } from '@/services/model/baseService';
+import type { ModelConfigJson } from '@/services/model/modelService';
+import type { ImageQuality } from '@/types/chat';
+
+// =================================================================================================
+// Type Definitions
+// =================================================================================================
+
+/** 凭证字段描述，ModelConfigModal 据此渲染表单，值保存在 model_configs.config_json[key] */
+export interface CredentialField {
+  key: string;
+  label: string;  // i18n key
+  placeholder?: string;  // i18n key
+  icon: 'key' | 'secret' | 'setting';
+  required: boolean;
+  secret?: boolean;  // 默认 true，输入框以密码形式展示；普通配置项设为 false
+  multiline?: boolean;  // 多行文本（如工作流 JSON），以文本域展示
+}
+
+/** 服务商能力声明 */
+export interface ProviderCapabilities {
+  textToImage: boolean;
+  imageToImage: boolean;
+  inpainting: boolean;
+  asyncTask: boolean;  // 是否为异步任务（会通过 onTaskProgress 回报中间状态）
+}
+
+/** 对话输入框中可调的生成参数，size 对应宽高（由比例与尺寸换算） */
+export type GenerationParamKey = 'size' | 'quality' | 'seed' | 'steps' | 'cfgScale' | 'negativePrompt';
+
+export interface ProviderGenerateRequest {
+  prompt: string;
+  model: string;
+  width?: number;
+  height?: number;
+  quality?: ImageQuality;
+  negativePrompt?: string;
+  steps?: number;
+  seed?: number;
+  cfgScale?: number;
+  imageUrl?: string;  // 参考图，用于图生图
+  maskUrl?: string;  // 蒙版，用于局部重绘，白色为重绘区域、黑色为保留区域
+  strength?: number;  // 图生图重绘幅度
+}
+
+export interface ProviderGenerateOptions {
+  onTaskProgress?: TaskProgressHandler;
+  signal?: AbortSignal;  // 用户停止生成时中止请求与轮询
+}
+
+export interface ProviderTestResult {
+  success: boolean;
+  message: string;
+  details?: any;
+}
+
+export interface ProviderAdapter {
+  group: ModelGroupType;
+  name: string;
+  /** 按语言覆盖展示名称，与模型目录的 locales 一致 */
+  locales?: Record<string, ModelLocaleText>;
+  capabilities: ProviderCapabilities;
+  /** 个别模型与服务商默认能力不同时按模型 ID 覆盖（如仅支持图片编辑的模型） */
+  modelCapabilities?: Record<string, Partial<ProviderCapabilities>>;
+  /** 支持的生成参数，其余参数会被忽略，输入框中对应选项置灰 */
+  supportedParams: GenerationParamKey[];
+  /** 依赖浏览器环境（如 canvas）的能力及原因，服务端任务进程执行时直接拒绝 */
+  browserOnlyCapabilities?: Partial<Record<keyof ProviderCapabilities, string>>;
+  credentialSchema: CredentialField[];
+  /** 生成单张图片，凭证已由调用方校验 */
+  generate(
+    request: ProviderGenerateRequest,
+    credentials: ModelConfigJson,
+    options?: ProviderGenerateOptions
+  ): Promise<StandardResponse>;
+  /** 测试凭证是否可用 */
+  test(credentials: ModelConfigJson): Promise<ProviderTestResult>;
+}
@@ -0,0 +1,161 @@
+/**
+ * @file sdWebUIService.ts
+ * @description SDWebUIService for generating images with a local Stable Diffusion WebUI (AUTOMATIC1111)
+ * @author fmw666@github
+ * @date 2025-07-18
+ */
+
+/*
+Stable Diffusion WebUI 本地绘图服务
+
+参考官方文档：https://github.com/AUTOMATIC1111/stable-diffusion-webui/wiki/API
+核心：
+  1. 调用用户配置的 WebUI 地址，文生图走 /sdapi/v1/txt2img，图生图与局部重绘走 /sdapi/v1/img2img。
+  2. WebUI 需以 --api 启动，浏览器直连时还需 --cors-allow-origins 允许当前站点。
+  3. 返回的是 base64 图片，转换为 data URL 后由上层通过运行时统一上传（浏览器与任务进程均适用）。
+  4. 请求参数沿用 DoubaoRequest 已定义的字段（负向提示词、步数、CFG、种子、尺寸、参考图、蒙版、重绘幅度）。
+*/
+
+import { blobToBase64 } from '@/services/storage';
+
+import { createHttpError, StandardResponse, toErrorResponse } from './baseService';
+
+import type { DoubaoRequest } from './doubaoService';
+
+export interface SDWebUIConfig {
+  baseURL: string;
+  checkpoint?: string;  // 为空时使用 WebUI 当前加载的模型
+  sampler: string;
+  apiAuth?: string;  // WebUI 以 --api-auth user:password 启动时使用
+  defaultSteps: number;
+  defaultCfgScale: number;
+  defaultSize: number;
+}
+
+export type SDWebUIConfigInput = Pick<SDWebUIConfig, 'baseURL'> & Partial<Omit<SDWebUIConfig, 'baseURL'>>;
+
+export interface SDWebUIRequest extends Omit<DoubaoRequest, 'model'> {
+  sampler?: string;
+}
+
+export interface SDWebUIResponse {
+  images?: string[];
+  parameters?: Record<string, any>;
+  info?: string;
+  detail?: string;
+  error?: string;
+}
+
+const RANDOM_SEED = -1;
+
+export class SDWebUIService {
+  private config: SDWebUIConfig;
+
+  constructor(config: SDWebUIConfigInput) {
+    if (!config.baseURL) {
+      throw new Error('SDWebUIService 需要有效的 WebUI 地址');
+    }
+    this.config = {
+      sampler: 'Euler a',
+      defaultSteps: 20,
+      defaultCfgScale: 7,
+      defaultSize: 512,
+      ...config,
+    };
+    this.config.baseURL = this.config.baseURL.replace(/\/+$/, '');
+  }
+
+  private async request<T>(path: string, init: RequestInit = {}): Promise<T> {
+    const response = await fetch(`${this.config.baseURL}${path}`, {
+      ...init,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.config.apiAuth ? { 'Authorization': `Basic ${btoa(this.config.apiAuth)}` } : {}),
+        ...init.headers,
+      },
+    });
+
+    const result = await response.json().catch(() => null);
+
+    if (!response.ok) {
+      throw createHttpError(
+        result?.detail || result?.error ||
+        `SD WebUI API error: ${response.status} ${response.statusText}`,
+        response
+      );
+    }
+
+    return result as T;
+  }
+
+  /** 将图片地址转换为 WebUI 需要的 base64（不含 data URL 前缀） */
+  private async toBase64(url: string, signal?: AbortSignal): Promise<string> {
+    const response = await fetch(url, { signal });
+    if (!response.ok) {
+      throw new Error(`无法获取图片: ${response.status} ${response.statusText}`);
+    }
+    const dataUrl = await blobToBase64(await response.blob());
+    return dataUrl.split(',')[1] || dataUrl;
+  }
+
+  private buildPayload(request: SDWebUIRequest) {
+    return {
+      prompt: request.prompt,
+      negative_prompt: request.negativePrompt || '',
+      steps: request.steps || this.config.defaultSteps,
+      cfg_scale: request.cfgScale || this.config.defaultCfgScale,
+      seed: request.seed ?? RANDOM_SEED,
+      width: request.width || this.config.defaultSize,
+      height: request.height || this.config.defaultSize,
+      sampler_name: request.sampler || this.config.sampler,
+      batch_size: 1,
+      n_iter: 1,
+      ...(this.config.checkpoint ? { override_settings: { sd_model_checkpoint: this.config.checkpoint } } : {}),
+    };
+  }
+
+  async generateImage(request: SDWebUIRequest): Promise<StandardResponse> {
+    try {
+      const payload = this.buildPayload(request);
+      const result = request.imageUrl
+        ? await this.request<SDWebUIResponse>('/sdapi/v1/img2img', {
+          method: 'POST',
+          body: JSON.stringify({
+            ...payload,
+            init_images: [await this.toBase64(request.imageUrl, request.signal)],
+            ...(request.maskUrl ? { mask: await this.toBase64(request.maskUrl, request.signal) } : {}),
+            denoising_strength: request.strength ?? 0.75,
+          }),
+          signal: request.signal,
+        })
+        : await this.request<SDWebUIResponse>('/sdapi/v1/txt2img', {
+          method: 'POST',
+          body: JSON.stringify(payload),
+          signal: request.signal,
+        });
+
+      const image = result?.images?.[0];
+      if (image) {
+        // 只返回 data URL，由 ModelApiManager 通过当前运行时上传到 storage
+        return {
+          success: true,
+          message: '图片生成成功！',
+          imageUrl: `data:image/png;base64,${image}`,
+        };
+      }
+      return {
+        success: false,
+        error: '未返回图片',
+      };
+    } catch (error) {
+      console.error('SD WebUI API request failed:', error);
+      return toErrorResponse(error);
+    }
+  }
+
+  /** 获取 WebUI 中可用的模型列表，用于测试连接 */
+  async listCheckpoints(): Promise<string[]> {
+    const models = await this.request<Array<{ title: string; model_name: string }>>('/sdapi/v1/sd-models');
+    return (models || []).map(model => model.title);
+  }
+}
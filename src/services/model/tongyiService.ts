@@ -0,0 +1,226 @@
+/**
+ * @file tongyiService.ts
+ * @description TongyiService for generating images with Tongyi Wanxiang
+ * @author fmw666@github
+ * @date 2025-07-18
+ */
+
+/*
+通义万相绘图服务
+
+参考官方文档：https://help.aliyun.com/zh/model-studio/developer-reference/text-to-image-v2-api-reference
+核心：
+  1. 接口为异步调用：先提交任务拿到 task_id，再轮询任务状态直到结束。
+  2. 轮询采用退避策略，任务结束（SUCCEEDED / FAILED / CANCELED / UNKNOWN）后映射为 StandardResponse。
+  3. 返回的图片链接有效期 24 小时，需要由上层统一上传到 storage。
+*/
+
+import { getNextPollInterval, type PollBackoffConfig } from '@/utils/taskPolling';
+
+import { createHttpError, sleep, StandardResponse, TaskProgressHandler, toErrorResponse } from './baseService';
+
+export type TongyiModel =
+  | 'wanx2.1-t2i-turbo'  // 万相2.1-文生图-Turbo
+  | 'wanx2.1-t2i-plus'  // 万相2.1-文生图-Plus
+  | 'wanx2.0-t2i-turbo'  // 万相2.0-文生图-Turbo
+
+export type TongyiTaskStatus =
+  | 'PENDING'
+  | 'RUNNING'
+  | 'SUSPENDED'
+  | 'SUCCEEDED'
+  | 'FAILED'
+  | 'CANCELED'
+  | 'UNKNOWN';
+
+export interface TongyiConfig extends PollBackoffConfig {
+  apiKey: string;
+  endpoint: string;
+  defaultModel: TongyiModel;
+  maxWaitMs: number;
+}
+
+export type TongyiConfigInput = Pick<TongyiConfig, 'apiKey'> & Partial<Omit<TongyiConfig, 'apiKey'>>;
+
+export interface TongyiRequest {
+  prompt: string;
+  model?: TongyiModel;
+  negativePrompt?: string;
+  width?: number;
+  height?: number;
+  seed?: number;
+  onProgress?: TaskProgressHandler;
+  signal?: AbortSignal;
+}
+
+export interface TongyiTaskOutput {
+  task_id: string;
+  task_status: TongyiTaskStatus;
+  results?: Array<{
+    url?: string;
+    orig_prompt?: string;
+    actual_prompt?: string;
+    code?: string;
+    message?: string;
+  }>;
+  code?: string;
+  message?: string;
+}
+
+export interface TongyiResponse {
+  request_id: string;
+  output?: TongyiTaskOutput;
+  code?: string;
+  message?: string;
+}
+
+const TERMINAL_STATUSES: TongyiTaskStatus[] = ['SUCCEEDED', 'FAILED', 'CANCELED', 'UNKNOWN'];
+const DEFAULT_SIZE = 1024;
+
+export class TongyiService {
+  private config: TongyiConfig;
+
+  constructor(config: TongyiConfigInput) {
+    if (!config.apiKey) {
+      throw new Error('TongyiService 需要有效的 API 密钥');
+    }
+    this.config = {
+      endpoint: import.meta.env.DEV ? '/api/tongyi' : 'https://dashscope.aliyuncs.com/api/v1',
+      defaultModel: 'wanx2.1-t2i-turbo',
+      pollIntervalMs: 1000,
+      maxPollIntervalMs: 5000,
+      pollBackoffFactor: 1.5,
+      maxWaitMs: 5 * 60 * 1000,
+      ...config,
+    };
+  }
+
+  private async request(path: string, init: RequestInit): Promise<TongyiResponse> {
+    const response = await fetch(`${this.config.endpoint}${path}`, {
+      ...init,
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${this.config.apiKey}`,
+        ...init.headers,
+      },
+    });
+
+    const result: TongyiResponse | null = await response.json().catch(() => null);
+
+    if (!response.ok || (result?.code && !result.output)) {
+      throw createHttpError(
+        result?.message ||
+        `Tongyi API error: ${response.status} ${response.statusText}`,
+        response
+      );
+    }
+
+    if (!result) {
+      throw new Error('Tongyi API 返回了空响应');
+    }
+
+    return result;
+  }
+
+  /** 提交文生图任务，返回任务 ID */
+  private async submitTask(request: TongyiRequest): Promise<string> {
+    const width = request.width || DEFAULT_SIZE;
+    const height = request.height || DEFAULT_SIZE;
+
+    const result = await this.request('/services/aigc/text2image/image-synthesis', {
+      method: 'POST',
+      headers: {
+        'X-DashScope-Async': 'enable',
+      },
+      body: JSON.stringify({
+        model: request.model || this.config.defaultModel,
+        input: {
+          prompt: request.prompt,
+          ...(request.negativePrompt ? { negative_prompt: request.negativePrompt } : {}),
+        },
+        parameters: {
+          size: `${width}*${height}`,
+          n: 1,
+          ...(request.seed !== undefined ? { seed: request.seed } : {}),
+        },
+      }),
+      signal: request.signal,
+    });
+
+    const taskId = result.output?.task_id;
+    if (!taskId) {
+      throw new Error('未返回任务ID');
+    }
+    return taskId;
+  }
+
+  /** 查询任务状态 */
+  private async fetchTask(taskId: string, signal?: AbortSignal): Promise<TongyiTaskOutput> {
+    const result = await this.request(`/tasks/${taskId}`, { method: 'GET', signal });
+    if (!result.output) {
+      throw new Error('未返回任务状态');
+    }
+    return result.output;
+  }
+
+  /** 轮询任务直到结束，轮询间隔按退避系数递增 */
+  private async waitForTask(taskId: string, onProgress?: TaskProgressHandler, signal?: AbortSignal): Promise<TongyiTaskOutput> {
+    const startTime = Date.now();
+    let interval = this.config.pollIntervalMs;
+
+    while (Date.now() - startTime < this.config.maxWaitMs) {
+      await sleep(interval, signal);
+
+      const output = await this.fetchTask(taskId, signal);
+      if (TERMINAL_STATUSES.includes(output.task_status)) {
+        return output;
+      }
+
+      onProgress?.({
+        status: output.task_status === 'RUNNING' ? 'running' : 'pending',
+        taskId,
+      });
+      interval = getNextPollInterval(interval, this.config);
+    }
+
+    throw new Error(`任务等待超时: ${taskId}`);
+  }
+
+  async generateImage(request: TongyiRequest): Promise<StandardResponse> {
+    try {
+      const taskId = await this.submitTask(request);
+      request.onProgress?.({ status: 'pending', taskId });
+
+      const output = await this.waitForTask(taskId, request.onProgress, request.signal);
+
+      if (output.task_status === 'SUCCEEDED') {
+        const image = output.results?.find(result => result.url);
+        if (image?.url) {
+          // 只返回原始图片 URL，不上传到 storage
+          return {
+            success: true,
+            message: '图片生成成功！',
+            imageUrl: image.url,
+          };
+        }
+        return {
+          success: false,
+          error: output.results?.[0]?.message || '未返回图片URL',
+        };
+      }
+
+      return {
+        success: false,
+        error: output.message || `任务未成功: ${output.task_status}`,
+      };
+    } catch (error) {
+      console.error('Tongyi API request failed:', error);
+      return toErrorResponse(error);
+    }
+  }
+
+  /** 查询一个不存在的任务来验证 API 密钥，不会提交生成任务 */
+  async verifyApiKey(): Promise<void> {
+    await this.fetchTask('designchat-connection-test');
+  }
+}
@@ -0,0 +1,225 @@
+/**
+ * @file volcengineClient.ts
+ * @description Volcengine OpenAPI client with V4 request signing, shared by Volcengine-hosted model services
+ * @author fmw666@github
+ * @date 2025-07-18
+ */
+
+/*
+火山引擎 OpenAPI 签名请求
+
+参考官方文档：https://www.volcengine.com/docs/6369/67269
+核心：
+  1. 豆包、即梦等视觉服务共用 visual.volcengineapi.com，签名方式均为 HMAC-SHA256 V4。
+  2. 不同接口仅 Action / Version 与请求体不同。
+  3. 网关先校验签名再校验参数，可用无效的 req_key 探测密钥是否有效而不产生出图费用。
+*/
+
+import { getProbeFailure } from '@/utils/credentialProbe';
+
+import { isAuthErrorStatus, parseRetryAfter, ProviderHttpError } from './baseService';
+
+export interface VolcengineConfig {
+  apiKey: string;
+  apiSecret: string;
+  endpoint: string;
+  region: string;
+  service: string;
+  host: string;
+  serviceName: string; // 用于错误信息，如 'Doubao'、'Jimeng'
+}
+
+// 签名或密钥无效时网关返回的错误码
+const AUTH_ERROR_CODES = ['InvalidAccessKey', 'SignatureDoesNotMatch', 'InvalidAuthorization', 'InvalidCredential', 'AccessDenied', 'MissingAuthenticationToken'];
+const PROBE_REQ_KEY = 'designchat_connection_test';
+// 无效 req_key 触发的参数校验错误码：视觉服务返回 50400，网关返回 InvalidParameter
+const PROBE_VALIDATION_CODES = ['50400', 'InvalidParameter'];
+
+export class VolcengineApiError extends ProviderHttpError {
+  code?: string;
+
+  constructor(message: string, status: number, code?: string, retryAfterMs?: number) {
+    super(message, status, retryAfterMs);
+    this.name = 'VolcengineApiError';
+    this.code = code;
+  }
+
+  /** 是否为签名或密钥错误 */
+  get isAuthError(): boolean {
+    return isAuthErrorStatus(this.status) || (!!this.code && AUTH_ERROR_CODES.includes(this.code));
+  }
+}
+
+export class VolcengineClient {
+  private config: VolcengineConfig;
+
+  constructor(config: VolcengineConfig) {
+    this.config = config;
+  }
+
+  private signStringEncoder(source: string): string {
+    return encodeURIComponent(source).replace(/[!'()*]/g, function (c) {
+      return '%' + c.charCodeAt(0).toString(16).toUpperCase();
+    });
+  }
+
+  private async hashSHA256(content: string): Promise<string> {
+    try {
+      const encoder = new TextEncoder();
+      const data = encoder.encode(content);
+      const hashBuffer = await crypto.subtle.digest('SHA-256', data);
+      const hashArray = Array.from(new Uint8Array(hashBuffer));
+      return hashArray.map(b => b.toString(16).padStart(2, '0')).join('');
+    } catch (error) {
+      console.error('Error in hashSHA256:', error);
+      throw error;
+    }
+  }
+
+  private async hmacSHA256(
+    key: string | Uint8Array,
+    content: string,
+  ): Promise<Uint8Array> {
+    const encoder = new TextEncoder();
+    const keyData = key instanceof Uint8Array ? key : encoder.encode(key);
+    const contentData = encoder.encode(content);
+
+    const cryptoKey = await crypto.subtle.importKey(
+      'raw',
+      keyData,
+      { name: 'HMAC', hash: 'SHA-256' },
+      false,
+      ['sign']
+    );
+
+    const signature = await crypto.subtle.sign(
+      'HMAC',
+      cryptoKey,
+      contentData
+    );
+
+    return new Uint8Array(signature);
+  }
+
+  private async genSigningSecretKeyV4(
+    secretKey: string,
+    date: string,
+    region: string,
+    service: string,
+  ): Promise<Uint8Array> {
+    const kDate = await this.hmacSHA256(secretKey, date);
+    const kRegion = await this.hmacSHA256(kDate, region);
+    const kService = await this.hmacSHA256(kRegion, service);
+    return await this.hmacSHA256(kService, 'request');
+  }
+
+  /** 发送签名后的 POST 请求 */
+  public async request(action: string, version: string, payload: any, signal?: AbortSignal): Promise<any> {
+    const method = 'POST';
+    const url = `${this.config.endpoint}?Action=${action}&Version=${version}`;
+
+    const body = JSON.stringify({
+      ...payload,
+    });
+    const xContentSha256 = await this.hashSHA256(body);
+    const xDate = new Date().toISOString().replace(/[-:]|\.\d{3}/g, '');
+    const shortXDate = xDate.substring(0, 8);
+    const credentialScope = `${shortXDate}/${this.config.region}/${this.config.service}/request`;
+    const signHeader = 'host;x-date;x-content-sha256;content-type';
+    const contentType = 'application/json';
+
+    const queryString = Array.from(new Map([
+      ['Action', action],
+      ['Version', version],
+    ]).entries())
+      .map(
+        ([key, value]) =>
+          `${this.signStringEncoder(key)}=${this.signStringEncoder(value)}`,
+      )
+      .join('&');
+
+    const canonicalString = [
+      method,
+      '/',
+      queryString,
+      `host:${this.config.host}`,
+      `x-date:${xDate}`,
+      `x-content-sha256:${xContentSha256}`,
+      `content-type:${contentType}`,
+      '',
+      signHeader,
+      xContentSha256,
+    ].join('\n');
+
+    const hashCanonicalString = await this.hashSHA256(canonicalString);
+    const stringToSign = [
+      'HMAC-SHA256',
+      xDate,
+      credentialScope,
+      hashCanonicalString,
+    ].join('\n');
+
+    const signKey = await this.genSigningSecretKeyV4(
+      this.config.apiSecret,
+      shortXDate,
+      this.config.region,
+      this.config.service,
+    );
+
+    const signature = Array.from(await this.hmacSHA256(signKey, stringToSign))
+      .map(b => b.toString(16).padStart(2, '0'))
+      .join('');
+
+    try {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: {
+          'Host': this.config.host,
+          'X-Date': xDate,
+          'X-Content-Sha256': xContentSha256,
+          'Content-Type': contentType,
+          'Authorization': `HMAC-SHA256 Credential=${this.config.apiKey}/${credentialScope}, SignedHeaders=${signHeader}, Signature=${signature}`,
+        },
+        body,
+        signal,
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => null);
+        const metadataError = errorData?.ResponseMetadata?.Error;
+        throw new VolcengineApiError(
+          errorData?.message || metadataError?.Message ||
+          `${this.config.serviceName} API error: ${response.status} ${response.statusText}`,
+          response.status,
+          metadataError?.Code ?? (errorData?.code !== undefined ? String(errorData.code) : undefined),
+          parseRetryAfter(response.headers.get('Retry-After'))
+        );
+      }
+
+      const result = await response.json();
+
+      if (result.error) {
+        throw new Error(result.error);
+      }
+
+      return result;
+    } catch (error) {
+      console.error(`${this.config.serviceName} API request failed:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * 使用无效的 req_key 发送请求以验证密钥
+   * 签名通过后接口会因参数错误拒绝请求，不会真正出图；返回其它任何状态均视为失败并抛出
+   */
+  public async verifyCredentials(action: string, version: string): Promise<void> {
+    try {
+      await this.request(action, version, { req_key: PROBE_REQ_KEY, prompt: '' });
+    } catch (error) {
+      if (!(error instanceof VolcengineApiError)) throw error;
+      const failure = getProbeFailure(error, PROBE_VALIDATION_CODES, this.config.serviceName);
+      if (failure) throw new Error(failure);
+    }
+  }
+}
@@ -159,14 +159,82 @@ export function base64ToBlob(base64: string, mimeType: string = 'image/jpeg'): B
 }
 
 /**
- * 将 Blob 转换为 Base64
+ * 将字节编码为 Base64：Node 中使用 Buffer，浏览器中使用 btoa
  */
-export function blobToBase64(blob: Blob): Promise<string> {
+function bytesToBase64(bytes: Uint8Array): string {
+  if (typeof Buffer !== 'undefined') {
+    return Buffer.from(bytes).toString('base64');
+  }
+  // 分段拼接，避免大图超出函数参数个数上限
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+/**
+ * 将 Blob 转换为 Base64 Data URL，不依赖 FileReader，服务端任务进程中同样可用
+ */
+export async function blobToBase64(blob: Blob): Promise<string> {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  return `data:${blob.type || 'application/octet-stream'};base64,${bytesToBase64(bytes)}`;
+}
+
+/**
+ * 将黑白蒙版（白色为重绘区域）转换为透明蒙版（透明区域为重绘区域）
+ * 需要 canvas 解码图片，仅能在浏览器中执行
+ */
+export async function toAlphaMask(mask: Blob): Promise<Blob> {
+  if (typeof document === 'undefined') {
+    throw new Error('蒙版转换需要浏览器中的 canvas，当前环境不支持');
+  }
   return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    reader.onload = () => resolve(reader.result as string);
-    reader.onerror = reject;
-    reader.readAsDataURL(blob);
+    const canvas = document.createElement('canvas');
+    const ctx = canvas.getContext('2d');
+    const img = new Image();
+    const url = URL.createObjectURL(mask);
+
+    img.onload = () => {
+      URL.revokeObjectURL(url);
+
+      if (!ctx) {
+        reject(new Error('Failed to get canvas context'));
+        return;
+      }
+
+      canvas.width = img.naturalWidth;
+      canvas.height = img.naturalHeight;
+      ctx.drawImage(img, 0, 0);
+
+      // 亮度越高越透明，保留区域为不透明黑色
+      const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
+      const { data } = imageData;
+      for (let i = 0; i < data.length; i += 4) {
+        const luminance = (data[i] + data[i + 1] + data[i + 2]) / 3;
+        data[i] = data[i + 1] = data[i + 2] = 0;
+        data[i + 3] = 255 - luminance;
+      }
+      ctx.putImageData(imageData, 0, 0);
+
+      canvas.toBlob(
+        (blob) => {
+          if (blob) {
+            resolve(blob);
+          } else {
+            reject(new Error('Failed to create blob'));
+          }
+        },
+        'image/png'
+      );
+    };
+
+    img.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('Failed to load image'));
+    };
+
+    img.src = url;
   });
 }
 
@@ -21,6 +21,7 @@ export {
   optimizeImage,
   base64ToBlob,
   blobToBase64,
+  toAlphaMask,
   isValidImage,
   generateThumbnail,
   batchProcessImages,
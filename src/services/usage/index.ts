@@ -0,0 +1,8 @@
+/**
+ * @file index.ts
+ * @description Usage service exports
+ * @author fmw666@github
+ * @date 2025-07-18
+ */
+
+export { usageService, type BudgetItem, type ExceededBudget, type NewUsageRecord, type UsageRecord } from './usageService';
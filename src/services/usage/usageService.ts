@@ -0,0 +1,160 @@
+/**
+ * @file usageService.ts
+ * @description UsageService for recording generation usage and checking per-user spending budgets.
+ * @author fmw666@github
+ * @date 2025-07-18
+ */
+
+// =================================================================================================
+// Imports
+// =================================================================================================
+
+import { supabase } from '@/services/api/supabase';
+import { modelManager, type UsageBudget } from '@/services/model';
+import { estimateCost, exceedsBudget, getPeriodStart } from '@/utils/usageCost';
+
+// =================================================================================================
+// Constants
+// =================================================================================================
+
+const USAGE_TABLE_NAME = import.meta.env.VITE_SUPABASE_USAGE_TABLE_NAME || 'generation_usage';
+
+// =================================================================================================
+// Type Definitions
+// =================================================================================================
+
+export interface UsageRecord {
+  id: number;
+  created_at: string;
+  user_id: string;
+  model_id: string;
+  model_group: string;
+  count: number;
+  success: boolean;
+  latency_ms: number | null;
+  estimated_cost: number;
+  error: string | null;
+}
+
+// user_id 由数据库默认取当前登录用户
+export type NewUsageRecord = Omit<UsageRecord, 'id' | 'created_at' | 'user_id'>;
+
+export interface BudgetItem {
+  modelId: string;
+  count: number;
+}
+
+export interface ExceededBudget {
+  budget: UsageBudget;
+  spent: number;
+  expected: number;
+  modelId?: string;  // 为空时表示超出用户总预算
+}
+
+// =================================================================================================
+// Class Definition
+// =================================================================================================
+
+export class UsageService {
+  // --------------------------------------------------------------------------------
+  // Singleton Instance
+  // --------------------------------------------------------------------------------
+  private static instance: UsageService;
+  private constructor() {}
+  public static getInstance(): UsageService {
+    if (!UsageService.instance) {
+      UsageService.instance = new UsageService();
+    }
+    return UsageService.instance;
+  }
+
+  // --------------------------------------------------------------------------------
+  // Usage public Methods
+  // --------------------------------------------------------------------------------
+
+  /** 按模型单价估算生成费用 */
+  public estimateCost(items: BudgetItem[]): number {
+    return estimateCost(items.map(({ modelId, count }) => ({
+      price: modelManager.getModelById(modelId)?.price,
+      count,
+    })));
+  }
+
+  /**
+   * 发送前检查用户总预算与各模型预算，返回第一个会被超出的预算
+   * 读取用量失败时放行，不因账本异常阻塞生成
+   */
+  public async checkBudgets(items: BudgetItem[]): Promise<ExceededBudget | null> {
+    try {
+      const userBudget = modelManager.getUserBudget();
+      if (userBudget) {
+        const expected = this.estimateCost(items);
+        const spent = await this.getSpending(getPeriodStart(userBudget.period));
+        if (exceedsBudget(userBudget, spent, expected)) {
+          return { budget: userBudget, spent, expected };
+        }
+      }
+
+      for (const { modelId, count } of items) {
+        const budget = modelManager.getModelById(modelId)?.budget;
+        if (!budget) continue;
+        const expected = this.estimateCost([{ modelId, count }]);
+        const spent = await this.getSpending(getPeriodStart(budget.period), modelId);
+        if (exceedsBudget(budget, spent, expected)) {
+          return { budget, spent, expected, modelId };
+        }
+      }
+      return null;
+    } catch (error) {
+      console.warn('Error checking usage budgets:', error);
+      return null;
+    }
+  }
+
+  // --------------------------------------------------------------------------------
+  // Usage CRUD Methods
+  // --------------------------------------------------------------------------------
+
+  /** 记录一次生成请求 */
+  public async recordUsage(record: NewUsageRecord): Promise<void> {
+    try {
+      if (!supabase) throw new Error('Supabase client is not initialized');
+
+      const { error } = await supabase
+        .from(USAGE_TABLE_NAME)
+        .insert([record]);
+      if (error) throw error;
+    } catch (error) {
+      console.error('Error recording usage:', error);
+      throw error;
+    }
+  }
+
+  /** 统计当前用户自某一时间起的预估费用，可按模型筛选 */
+  public async getSpending(since: Date, modelId?: string): Promise<number> {
+    try {
+      if (!supabase) throw new Error('Supabase client is not initialized');
+
+      let query = supabase
+        .from(USAGE_TABLE_NAME)
+        .select('estimated_cost')
+        .gte('created_at', since.toISOString())
+        .gt('estimated_cost', 0);
+      if (modelId) {
+        query = query.eq('model_id', modelId);
+      }
+      const { data, error } = await query;
+      if (error) throw error;
+      return estimateCost((data || []).map(row => ({ price: Number(row.estimated_cost), count: 1 })));
+    } catch (error) {
+      console.error('Error fetching usage spending:', error);
+      throw error;
+    }
+  }
+}
+
+// =================================================================================================
+// Singleton Export
+// =================================================================================================
+
+export const usageService = UsageService.getInstance();
@@ -14,12 +14,15 @@ import { create } from 'zustand';
 
 // --- Internal Libraries ---
 // --- Services ---
+import { modelApiManager } from '@/services/api';
 import { assetsService, type Asset } from '@/services/assets';
 import { authService } from '@/services/auth/authService';
 import { chatService } from '@/services/chat';
 import type { Chat, Message } from '@/services/chat';
 // --- Stores ---
 import { useAssetsStore } from '@/store/assetsStore';
+// --- Utils ---
+import { hasPendingJobResults, markInterruptedResults, mergeStoredJobResults } from '@/utils/messageResults';
 
 // =================================================================================================
 // Type Definitions
@@ -69,6 +72,88 @@ const DEFAULT_IS_INITIALIZED = false;
 const DEFAULT_IS_LOADING = false;
 const DEFAULT_CHAT_TITLE = '新对话';
 const DEFAULT_INITIAL_MESSAGES: Message[] = [];
+// 判断生成是否中断时，在模型最长耗时之外为排队等待留出的余量
+const INTERRUPTED_GRACE_MS = 60 * 1000;
+
+// =================================================================================================
+// Utility Functions
+// =================================================================================================
+
+/**
+ * Sync message results to the assets table and the assets store
+ * @param chatId - ID of the chat the message belongs to
+ * @param message - Message whose results changed
+ * @param results - New results of the message
+ */
+const syncMessageAsset = async (chatId: string, message: Message, results: Message['results']) => {
+  const user = authService.getCurrentUserSync();
+  if (!user) return;
+
+  await assetsService.createOrUpdateAsset({
+    chat_id: chatId,
+    message_id: message.id,
+    results: results,
+    user_id: user.id,
+    models: message.models || [],
+    content: message.content || '',
+    user_image: message.userImage || null
+  } as Omit<Asset, 'id' | 'created_at'>);
+
+  // 同步更新 assetsStore
+  const { addOrUpdateAsset } = useAssetsStore.getState();
+  const updatedAsset: Asset = {
+    id: '', // 这个值会被数据库生成，这里只是占位符
+    chat_id: chatId,
+    message_id: message.id,
+    results: results,
+    user_id: user.id,
+    models: message.models || [],
+    content: message.content || '',
+    created_at: new Date().toISOString(),
+    user_image: message.userImage || {
+      url: null,
+      referenceMessageId: null,
+      referenceResultId: null
+    }
+  };
+  addOrUpdateAsset(updatedAsset);
+};
+
+/**
+ * Mark results left generating by a closed or reloaded page as interrupted
+ * @param chat - Chat loaded from the database
+ * @returns Chat with interrupted results, the same object when nothing is stale
+ */
+const recoverInterruptedChat = (chat: Chat): Chat => {
+  let changed = false;
+  const messages = chat.messages.map(message => {
+    const recovered = markInterruptedResults(message, modelName => {
+      const modelId = message.models.find(model => model.name === modelName)?.id ?? '';
+      return modelApiManager.getMaxDurationMs(modelId) + INTERRUPTED_GRACE_MS;
+    });
+    if (recovered !== message) changed = true;
+    return recovered;
+  });
+  return changed ? { ...chat, messages } : chat;
+};
+
+/**
+ * Persist the interrupted results found by recoverInterruptedChat
+ * @param original - Chat before recovery
+ * @param recovered - Chat after recovery
+ */
+const saveRecoveredChat = async (original: Chat, recovered: Chat) => {
+  if (recovered === original) return;
+  try {
+    const changedMessages = recovered.messages.filter((message, index) => message !== original.messages[index]);
+    await Promise.all(changedMessages.map(async message => {
+      await chatService.updateMessage(recovered.id, message.id, { results: message.results });
+      await syncMessageAsset(recovered.id, message, message.results);
+    }));
+  } catch (error) {
+    console.error('Error saving interrupted results:', error);
+  }
+};
 
 // =================================================================================================
 // Store Configuration
@@ -113,13 +198,16 @@ export const useChatStore = create<ChatState>((set, get) => ({
       }));
 
       const userChats = await chatService.getUserChats();
+      const recoveredChats = userChats.map(recoverInterruptedChat);
 
       set(state => ({
         ...state,
-        chats: userChats,
+        chats: recoveredChats,
         isLoading: false,
         isInitialized: true
       }));
+
+      recoveredChats.forEach((chat, index) => saveRecoveredChat(userChats[index], chat));
     } catch (error) {
       console.error('Error initializing chats:', error);
       set(state => ({
@@ -205,46 +293,30 @@ export const useChatStore = create<ChatState>((set, get) => ({
         chat.id === currentChat.id ? updatedChat : chat
       ));
 
-      // 4. Update database if requested
+      // 4. Update database if requested, writing only this message
       if (updateInDatabase) {
-        await chatService.updateChat(currentChat.id, {
-          messages: updatedMessages
-        });
-
-        const user = authService.getCurrentUserSync();
-        if (!user) return;
-
         const message = currentChat.messages.find(msg => msg.id === messageId);
         if (!message) return;
 
-        await assetsService.createOrUpdateAsset({
-          chat_id: currentChat.id,
-          message_id: messageId,
-          results: results,
-          user_id: user.id,
-          models: message.models || [],
-          content: message.content || '',
-          user_image: message.userImage || null
-        } as Omit<Asset, 'id' | 'created_at'>);
+        // 任务进程随时可能写回结果，保存前重新读取，保留已写回的结果而不是用本地占位覆盖
+        let savedResults = results;
+        if (hasPendingJobResults(results)) {
+          const storedChat = await chatService.getChat(currentChat.id);
+          const storedMessage = storedChat?.messages?.find(msg => msg.id === messageId);
+          if (storedMessage) savedResults = mergeStoredJobResults(results, storedMessage.results);
+        }
+        if (savedResults !== results) {
+          const replaceResults = (chat: Chat) => ({
+            ...chat,
+            messages: chat.messages.map(msg => msg.id === messageId && msg.results === results ? { ...msg, results: savedResults } : msg),
+          });
+          const latestChat = get().currentChat;
+          if (latestChat?.id === currentChat.id) setCurrentChat(replaceResults(latestChat));
+          setChats(prev => prev.map(chat => chat.id === currentChat.id ? replaceResults(chat) : chat));
+        }
 
-        // 同步更新 assetsStore
-        const { addOrUpdateAsset } = useAssetsStore.getState();
-        const updatedAsset: Asset = {
-          id: '', // 这个值会被数据库生成，这里只是占位符
-          chat_id: currentChat.id,
-          message_id: messageId,
-          results: results,
-          user_id: user.id,
-          models: message.models || [],
-          content: message.content || '',
-          created_at: new Date().toISOString(),
-          user_image: message.userImage || {
-            url: null,
-            referenceMessageId: null,
-            referenceResultId: null
-          }
-        };
-        addOrUpdateAsset(updatedAsset);
+        await chatService.updateMessage(currentChat.id, messageId, { results: savedResults });
+        await syncMessageAsset(currentChat.id, message, savedResults);
       }
     } catch (error) {
       console.error('Error updating message results:', error);
@@ -274,9 +346,15 @@ export const useChatStore = create<ChatState>((set, get) => ({
    * @param chat - Chat object to switch to
    */
   switchChat: (chat: Chat | null, isArchivedChat: boolean = false) => {
-    const { setCurrentChat, setIsArchivedChat } = get();
-    setCurrentChat(chat);
+    const { setCurrentChat, setIsArchivedChat, setChats } = get();
+    const recoveredChat = chat && recoverInterruptedChat(chat);
+    setCurrentChat(recoveredChat);
     setIsArchivedChat(isArchivedChat);
+
+    if (chat && recoveredChat && recoveredChat !== chat) {
+      setChats(prev => prev.map(item => item.id === chat.id ? recoveredChat : item));
+      saveRecoveredChat(chat, recoveredChat);
+    }
   },
 
   /**
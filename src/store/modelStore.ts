@@ -15,7 +15,7 @@ import { create } from 'zustand';
 // --- Internal Libraries ---
 // --- Services ---
 import { modelManager, type ImageModel } from '@/services/model/modelManager';
-import { ModelConfigJson, modelConfigService, TestStatus, type ModelConfig } from '@/services/model/modelService';
+import { ModelConfigJson, modelConfigService, TestStatus, type ConnectionTestDetails, type ModelConfig } from '@/services/model/modelService';
 
 // --- Relative Imports ---
 import { useAuthStore } from './authStore';
@@ -48,6 +48,7 @@ export interface ModelState {
 
   // --- Operations ---
   initialize: () => Promise<void>;
+  refreshAvailableModels: () => void;
   filterModels: () => void;
   getEnabledAndTestedModels: () => AvailableModel[];
   generateCategoriesFromModels: (models: AvailableModel[]) => Array<{ id: string; name: string; count: number }>;
@@ -55,7 +56,7 @@ export interface ModelState {
   updateModelConfig: (modelId: string, updatedConfig: ModelConfig) => void;
   addOrUpdateModelConfig: (config: ModelConfig) => void;
   toggleModelEnabled: (modelId: string, enabled: boolean) => Promise<void>;
-  updateModelTestStatus: (modelId: string, testStatus: TestStatus) => void;
+  updateModelTestStatus: (modelId: string, testStatus: TestStatus, details?: ConnectionTestDetails) => void;
   updateModelConfigJson: (modelId: string, updatedConfigJson: ModelConfigJson) => void;
 }
 
@@ -229,9 +230,9 @@ export const useModelStore = create<ModelState>((set, get) => ({
   },
 
   /**
-   * Update model test status (local only, no API call)
+   * Update model test status and the latest test result (latency, message)
    */
-  updateModelTestStatus: (modelId: string, testStatus: TestStatus) => {
+  updateModelTestStatus: (modelId: string, testStatus: TestStatus, details?: ConnectionTestDetails) => {
     const { user } = useAuthStore.getState();
     if (!user) return;
 
@@ -241,7 +242,13 @@ export const useModelStore = create<ModelState>((set, get) => ({
     const existingConfig = modelConfigs.find(c => c.model_id === modelId);
     if (!existingConfig) return;
 
-    const updatedConfig: ModelConfig = { ...existingConfig, test_status: testStatus };
+    const updatedConfig: ModelConfig = {
+      ...existingConfig,
+      test_status: testStatus,
+      last_tested_at: testStatus !== TestStatus.NOT_TESTED ? new Date().toISOString() : null,
+      last_test_latency_ms: details?.latencyMs ?? null,
+      last_test_message: details?.message ?? null,
+    };
     const updatedConfigs = modelConfigs.map(config => config.model_id === modelId ? updatedConfig : config);
 
     // Update available models with new config
@@ -255,7 +262,7 @@ export const useModelStore = create<ModelState>((set, get) => ({
       };
     });
 
-    modelConfigService.updateModelConnectionStatus(user.id, modelId, testStatus);
+    modelConfigService.updateModelConnectionStatus(user.id, modelId, testStatus, details);
     
     set({
       availableModels,
@@ -271,7 +278,7 @@ export const useModelStore = create<ModelState>((set, get) => ({
    * Initialize model store and load user's model configurations
    * 1. check if the store is already initialized or currently loading
    * 2. check if the user is logged in
-   * 3. load all models
+   * 3. load the model catalog (remote when configured) and all models
    * 4. load user's model configurations
    * 5. merge model information and configuration information
    * 6. apply initial filtering
@@ -288,7 +295,8 @@ export const useModelStore = create<ModelState>((set, get) => ({
       isLoading: true
     }));
     
-    // 获取所有可用模型
+    // 获取所有可用模型，远程目录读取失败时使用打包的目录
+    await modelManager.initCatalog();
     const allModels = modelManager.getAllModels();
 
     if (!user) {
@@ -344,6 +352,25 @@ export const useModelStore = create<ModelState>((set, get) => ({
     }
   },
 
+  /**
+   * Rebuild available models after the model catalog is reloaded, keeping the user's configurations
+   */
+  refreshAvailableModels: () => {
+    const { modelConfigs, isInitialized, filterModels } = get();
+    if (!isInitialized) return;
+
+    const availableModels: AvailableModel[] = modelManager.getAllModels().map(model => {
+      const userConfig = modelConfigs.find(c => c.model_id === model.group);
+      return {
+        ...model,
+        isEnabled: userConfig?.enabled ?? false,
+        testStatus: userConfig?.test_status ?? TestStatus.NOT_TESTED
+      };
+    });
+    set({ availableModels });
+    filterModels();
+  },
+
   /**
    * Get only enabled and test-passed models
    */
@@ -454,3 +481,6 @@ export const useModelStore = create<ModelState>((set, get) => ({
     set({ availableModels: filteredModels });
   },
 }));
+
+// 模型目录重新加载后更新可用模型，无需刷新页面
+modelManager.subscribe(() => useModelStore.getState().refreshAvailableModels());
@@ -21,6 +21,14 @@ export interface DesignImage {
   alt?: string;
   referenceMessageId: string | null;
   referenceResultId: string | null;
+  maskUrl?: string | null;  // 局部重绘蒙版，白色为重绘区域
+}
+
+export interface DesignTarget {
+  url: string;
+  id: string;
+  messageId: string;
+  maskUrl?: string;
 }
 
 export interface SelectedImage {
@@ -30,3 +38,22 @@ export interface SelectedImage {
   resultId: string | null;
   isReference: boolean;
 }
+
+// =================================================================================================
+// Generation Types
+// =================================================================================================
+
+export type AspectRatio = '1:1' | '4:3' | '3:4' | '16:9' | '9:16';
+
+export type ImageQuality = 'low' | 'medium' | 'high';
+
+// 高级生成参数，未设置的项使用各模型默认值
+export interface GenerationParams {
+  aspectRatio?: AspectRatio;
+  size?: number; // 长边像素
+  quality?: ImageQuality;
+  seed?: number;
+  steps?: number;
+  cfgScale?: number;
+  negativePrompt?: string;
+}
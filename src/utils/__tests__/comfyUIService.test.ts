@@ -0,0 +1,65 @@
+/**
+ * @file comfyUIService.test.ts
+ * @description test ComfyUI workflow parsing and placeholder binding
+ * @author fmw666@github
+ * @date 2025-07-18
+ */
+
+import { bindWorkflow, parseWorkflow } from '@/services/model/comfyUIService';
+
+const WORKFLOW = JSON.stringify({
+  '3': {
+    class_type: 'KSampler',
+    inputs: { seed: '{{seed}}', steps: '{{ steps }}', cfg: '{{cfg}}', model: ['4', 0] },
+  },
+  '5': {
+    class_type: 'EmptyLatentImage',
+    inputs: { width: '{{width}}', height: '{{height}}', batch_size: 1 },
+  },
+  '6': {
+    class_type: 'CLIPTextEncode',
+    inputs: { text: 'masterpiece, {{prompt}}, {{style}}', clip: ['4', 1] },
+  },
+});
+
+describe('comfyUIService', () => {
+  describe('parseWorkflow', () => {
+    it('parses an API-format workflow', () => {
+      expect(parseWorkflow(WORKFLOW)['5'].class_type).toBe('EmptyLatentImage');
+    });
+
+    it('rejects invalid JSON and non-object workflows', () => {
+      expect(() => parseWorkflow('{"3": {')).toThrow('工作流不是有效的 JSON');
+      expect(() => parseWorkflow('["{{prompt}}"]')).toThrow('工作流需为 API 格式导出的 JSON');
+      expect(() => parseWorkflow('null')).toThrow('工作流需为 API 格式导出的 JSON');
+    });
+
+    it('requires the {{prompt}} placeholder', () => {
+      expect(() => parseWorkflow(WORKFLOW.replace('{{prompt}}', 'a cat'))).toThrow('工作流中缺少 {{prompt}} 占位符');
+    });
+  });
+
+  describe('bindWorkflow', () => {
+    const values = { prompt: 'a cat', seed: 42, width: 768, height: 512, steps: 20, cfg: 7.5 };
+
+    it('keeps the value type when a field is exactly a placeholder', () => {
+      const bound = bindWorkflow(parseWorkflow(WORKFLOW), values);
+      expect(bound['3'].inputs).toEqual({ seed: 42, steps: 20, cfg: 7.5, model: ['4', 0] });
+      expect(bound['5'].inputs).toEqual({ width: 768, height: 512, batch_size: 1 });
+    });
+
+    it('replaces placeholders inside longer text and leaves unknown ones as they are', () => {
+      const bound = bindWorkflow(parseWorkflow(WORKFLOW), values);
+      expect(bound['6'].inputs.text).toBe('masterpiece, a cat, {{style}}');
+      expect(bound['6'].inputs.clip).toEqual(['4', 1]);
+      expect(bindWorkflow('{{width}}x{{height}}', values)).toBe('768x512');
+    });
+
+    it('leaves placeholders without a value unbound and does not modify the input', () => {
+      const workflow = parseWorkflow(WORKFLOW);
+      const bound = bindWorkflow(workflow, { prompt: 'a cat' });
+      expect(bound['3'].inputs.seed).toBe('{{seed}}');
+      expect(workflow['6'].inputs.text).toBe('masterpiece, {{prompt}}, {{style}}');
+    });
+  });
+});
@@ -0,0 +1,34 @@
+/**
+ * @file credentialProbe.test.ts
+ * @description test credentialProbe utils functions
+ * @author fmw666@github
+ * @date 2025-07-18
+ */
+
+import { getProbeFailure } from '../credentialProbe';
+
+describe('credentialProbe', () => {
+  describe('getProbeFailure', () => {
+    const codes = ['1210', '1214'];
+
+    it('accepts only the provider parameter-validation error', () => {
+      expect(getProbeFailure({ status: 400, code: '1214', message: 'prompt不能为空' }, codes, 'CogView')).toBeNull();
+      expect(getProbeFailure({ status: 400, code: '1301', message: '内容不安全' }, codes, 'CogView'))
+        .toBe('CogView API error: 400 内容不安全');
+      expect(getProbeFailure({ status: 400 }, codes, 'CogView')).toBe('CogView API error: 400');
+    });
+
+    it('reports auth errors and 404 from a wrong endpoint', () => {
+      expect(getProbeFailure({ status: 401, message: 'Unauthorized' }, codes, 'CogView'))
+        .toBe('CogView API error: 401 Unauthorized');
+      expect(getProbeFailure({ status: 404, code: '1214', message: 'Not Found' }, codes, 'CogView'))
+        .toBe('CogView API error: 404 Not Found');
+    });
+
+    it('reports server errors', () => {
+      expect(getProbeFailure({ status: 500, message: 'Internal Server Error' }, codes, 'Ark'))
+        .toBe('Ark API error: 500 Internal Server Error');
+      expect(getProbeFailure({ status: 503, code: '1214' }, codes, 'Ark')).toBe('Ark API error: 503');
+    });
+  });
+});
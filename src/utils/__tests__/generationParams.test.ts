@@ -0,0 +1,57 @@
+/**
+ * @file generationParams.test.ts
+ * @description test generation params utils functions
+ * @author fmw666@github
+ * @date 2025-07-18
+ */
+
+import { countActiveParams, fitDeclaredImageSize, pickClosestSize, resolveImageSize, toGenerationRequestParams } from '../generationParams';
+
+describe('generationParams utils', () => {
+  it('resolves square size by default', () => {
+    expect(resolveImageSize()).toEqual({ width: 1024, height: 1024 });
+  });
+
+  it('resolves landscape and portrait sizes aligned to 64', () => {
+    expect(resolveImageSize('16:9', 1024)).toEqual({ width: 1024, height: 576 });
+    expect(resolveImageSize('3:4', 768)).toEqual({ width: 576, height: 768 });
+  });
+
+  it('picks the supported size with the closest aspect ratio', () => {
+    const sizes = ['1024x1024', '1536x1024', '1024x1536'];
+    expect(pickClosestSize(sizes, 1024, 576)).toBe('1536x1024');
+    expect(pickClosestSize(sizes, 576, 1024)).toBe('1024x1536');
+    expect(pickClosestSize(sizes, 512, 512)).toBe('1024x1024');
+  });
+
+  it('fits the requested size to the sizes a model declares', () => {
+    expect(fitDeclaredImageSize(1536, 864, {})).toEqual({ width: 1536, height: 864 });
+    expect(fitDeclaredImageSize(1536, 896, { sizes: [512, 1024] })).toEqual({ width: 1024, height: 576 });
+    expect(fitDeclaredImageSize(768, 768, { aspectRatios: ['1:1', '16:9'], sizes: [1024] })).toEqual({ width: 1024, height: 1024 });
+    expect(fitDeclaredImageSize(576, 1024, { aspectRatios: ['1:1', '16:9'] })).toBeNull();
+  });
+
+  it('omits unset params from the request', () => {
+    expect(toGenerationRequestParams({})).toEqual({});
+    expect(toGenerationRequestParams({ seed: 0, negativePrompt: '  ' })).toEqual({ seed: 0 });
+  });
+
+  it('converts aspect ratio and size into width and height', () => {
+    expect(toGenerationRequestParams({ aspectRatio: '9:16', steps: 30, cfgScale: 7 })).toEqual({
+      width: 576,
+      height: 1024,
+      steps: 30,
+      cfgScale: 7,
+    });
+  });
+
+  it('passes quality through to the request', () => {
+    expect(toGenerationRequestParams({ quality: 'high' })).toEqual({ quality: 'high' });
+  });
+
+  it('counts active params', () => {
+    expect(countActiveParams({})).toBe(0);
+    expect(countActiveParams({ aspectRatio: '1:1', size: 512, negativePrompt: 'blurry' })).toBe(3);
+    expect(countActiveParams({ quality: 'low' })).toBe(1);
+  });
+});
@@ -0,0 +1,30 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * @file imageUtils.test.ts
+ * @description test image utils used by the worker, without the DOM
+ * @author fmw666@github
+ * @date 2025-07-18
+ */
+
+import { blobToBase64, toAlphaMask } from '@/services/storage/imageUtils';
+
+describe('imageUtils without the DOM', () => {
+  it('has no FileReader or document, as in the worker', () => {
+    expect(typeof FileReader).toBe('undefined');
+    expect(typeof document).toBe('undefined');
+  });
+
+  it('blobToBase64 encodes a blob as a data URL', async () => {
+    const bytes = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0, 255]);
+    await expect(blobToBase64(new Blob([bytes], { type: 'image/png' })))
+      .resolves.toBe(`data:image/png;base64,${Buffer.from(bytes).toString('base64')}`);
+    await expect(blobToBase64(new Blob(['hi']))).resolves.toBe('data:application/octet-stream;base64,aGk=');
+  });
+
+  it('toAlphaMask rejects with a reason instead of a ReferenceError', async () => {
+    await expect(toAlphaMask(new Blob(['mask'], { type: 'image/png' }))).rejects.toThrow('canvas');
+  });
+});
@@ -0,0 +1,50 @@
+/**
+ * @file ipAddress.test.ts
+ * @description test ipAddress utils functions
+ * @author fmw666@github
+ * @date 2025-07-18
+ */
+
+import { isPrivateAddress } from '../ipAddress';
+
+describe('ipAddress', () => {
+  it('blocks loopback, private, link-local and metadata addresses', () => {
+    ['127.0.0.1', '10.1.2.3', '172.20.0.1', '192.168.1.10', '169.254.169.254', '100.64.0.1', '0.0.0.0'].forEach(address => {
+      expect(isPrivateAddress(address)).toBe(true);
+    });
+    ['::1', 'fd00::1', 'fe80::1', '::ffff:127.0.0.1'].forEach(address => {
+      expect(isPrivateAddress(address)).toBe(true);
+    });
+  });
+
+  it('blocks IPv4 embedded in IPv6 in the form URL hostnames take', () => {
+    const hostnameOf = (url: string) => new URL(url).hostname.replace(/^\[|\]$/g, '');
+    [
+      'http://[::ffff:169.254.169.254]/',
+      'http://[::ffff:127.0.0.1]/',
+      'http://[::7f00:1]/',
+      'http://[64:ff9b::169.254.169.254]/',
+      'http://[::]/',
+      'http://[fc00::1]/',
+      'http://[fe80::1]/',
+      'http://[ff02::1]/',
+    ].forEach(url => {
+      expect(isPrivateAddress(hostnameOf(url))).toBe(true);
+    });
+    expect(hostnameOf('http://[::ffff:169.254.169.254]/')).toBe('::ffff:a9fe:a9fe');
+    expect(isPrivateAddress(hostnameOf('http://[::ffff:8.8.8.8]/'))).toBe(false);
+    expect(isPrivateAddress(hostnameOf('http://[64:ff9b::8.8.8.8]/'))).toBe(false);
+  });
+
+  it('rejects addresses that cannot be parsed', () => {
+    ['1::2::3', 'gggg::1', '1:2:3:4:5:6:7:8:9'].forEach(address => {
+      expect(isPrivateAddress(address)).toBe(true);
+    });
+  });
+
+  it('allows public addresses', () => {
+    ['8.8.8.8', '172.32.0.1', '104.18.0.1', '2606:4700::1111', '::ffff:8.8.8.8'].forEach(address => {
+      expect(isPrivateAddress(address)).toBe(false);
+    });
+  });
+});
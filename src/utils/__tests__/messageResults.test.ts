@@ -0,0 +1,184 @@
+/**
+ * @file messageResults.test.ts
+ * @description test messageResults utils functions
+ * @author fmw666@github
+ * @date 2025-07-18
+ */
+
+import type { Message } from '@/services/chat';
+
+import {
+  applyGenerationJob,
+  getInterruptedResults,
+  hasPendingJobResults,
+  markInterruptedResults,
+  mergeStoredJobResults,
+  replaceImageResult,
+  startRegeneration,
+  summarizeResults,
+} from '../messageResults';
+
+const results = {
+  images: {
+    ModelA: [
+      { id: 'a1', url: 'https://example.com/a1.png', text: null, error: null, errorMessage: null, isGenerating: false },
+      { id: 'a2', url: null, text: null, error: '生成失败', errorMessage: 'timeout', isGenerating: false },
+    ],
+    ModelB: [
+      { id: 'b1', url: null, text: null, error: null, errorMessage: null, isGenerating: false, cancelled: true },
+    ],
+  },
+  status: { success: 1, failed: 1, total: 3, generating: 0, cancelled: 1 },
+};
+
+describe('messageResults', () => {
+  it('summarizeResults counts each state once', () => {
+    expect(summarizeResults(results.images)).toEqual(results.status);
+  });
+
+  it('startRegeneration keeps the previous attempt as history', () => {
+    const regenerating = startRegeneration(results.images.ModelA[1]);
+    expect(regenerating).toMatchObject({ id: 'a2', isGenerating: true, error: null });
+    expect(regenerating.history).toEqual([
+      expect.objectContaining({ error: '生成失败', errorMessage: 'timeout' }),
+    ]);
+  });
+
+  it('startRegeneration records the model of each attempt', () => {
+    const regenerating = startRegeneration({ ...results.images.ModelA[1], modelId: 'v14' }, 'v21');
+    expect(regenerating.modelId).toBe('v21');
+    expect(regenerating.history).toEqual([expect.objectContaining({ modelId: 'v14' })]);
+  });
+
+  it('replaceImageResult updates one result in place and recounts status', () => {
+    const updated = replaceImageResult(results, 'a2', startRegeneration);
+    expect(updated.images.ModelA.map(result => result.id)).toEqual(['a1', 'a2']);
+    expect(updated.images.ModelB).toBe(results.images.ModelB);
+    expect(updated.status).toEqual({ success: 1, failed: 0, total: 3, generating: 1, cancelled: 1 });
+    expect(replaceImageResult(results, 'missing', startRegeneration)).toBe(results);
+  });
+
+  it('markInterruptedResults marks stale generating results and leaves recent ones', () => {
+    const sentAt = new Date(2025, 6, 18, 10).getTime();
+    const message: Message = {
+      id: 'm1',
+      content: 'a cat',
+      models: [{ id: 'model-a', name: 'ModelA', count: 2 }, { id: 'model-b', name: 'ModelB', count: 1 }],
+      createdAt: new Date(sentAt).toISOString(),
+      results: {
+        images: {
+          ModelA: [
+            { id: 'a1', url: 'https://example.com/a1.png', text: null, error: null, errorMessage: null, isGenerating: false },
+            { id: 'a2', url: null, text: '排队中', error: null, errorMessage: null, isGenerating: true },
+          ],
+          ModelB: [{ id: 'b1', url: null, text: null, error: null, errorMessage: null, isGenerating: true }],
+        },
+        status: { success: 1, failed: 0, total: 3, generating: 2 },
+      },
+    };
+    const staleAfter = (modelName: string) => (modelName === 'ModelA' ? 60_000 : 600_000);
+
+    expect(markInterruptedResults(message, staleAfter, sentAt + 30_000)).toBe(message);
+
+    const recovered = markInterruptedResults(message, staleAfter, sentAt + 120_000);
+    expect(recovered.results.images.ModelA[1]).toMatchObject({ isGenerating: false, interrupted: true, text: null });
+    expect(recovered.results.images.ModelB).toBe(message.results.images.ModelB);
+    expect(recovered.results.status).toEqual({ success: 1, failed: 0, total: 3, generating: 1, interrupted: 1 });
+    expect(getInterruptedResults(recovered.results)).toEqual([{ modelName: 'ModelA', resultId: 'a2' }]);
+    expect(startRegeneration(recovered.results.images.ModelA[1])).toMatchObject({ isGenerating: true, history: undefined });
+  });
+
+  it('markInterruptedResults measures regenerated results from their own start', () => {
+    const sentAt = new Date(2025, 6, 18, 10).getTime();
+    const regeneratedAt = sentAt + 24 * 60 * 60 * 1000;
+    const message: Message = {
+      id: 'm1',
+      content: 'a cat',
+      models: [{ id: 'model-a', name: 'ModelA', count: 1 }],
+      createdAt: new Date(sentAt).toISOString(),
+      results: {
+        images: {
+          ModelA: [{
+            id: 'a1', url: null, text: null, error: null, errorMessage: null, isGenerating: true,
+            startedAt: new Date(regeneratedAt).toISOString(),
+          }],
+        },
+        status: { success: 0, failed: 0, total: 1, generating: 1 },
+      },
+    };
+
+    expect(markInterruptedResults(message, () => 60_000, regeneratedAt + 30_000)).toBe(message);
+    const recovered = markInterruptedResults(message, () => 60_000, regeneratedAt + 120_000);
+    expect(recovered.results.images.ModelA[0]).toMatchObject({ isGenerating: false, interrupted: true });
+  });
+
+  it('startRegeneration records when the new attempt started', () => {
+    const before = Date.now();
+    const { startedAt } = startRegeneration(results.images.ModelA[1]);
+    expect(new Date(startedAt!).getTime()).toBeGreaterThanOrEqual(before);
+  });
+
+  it('applyGenerationJob fills finished results, shows progress and fails the rest on job failure', () => {
+    const pending = {
+      images: {
+        ModelA: [
+          { id: 'a1', url: null, text: null, error: null, errorMessage: null, isGenerating: true, jobId: 'job-1' },
+          { id: 'a2', url: null, text: null, error: null, errorMessage: null, isGenerating: true, jobId: 'job-1' },
+        ],
+      },
+      status: { success: 0, failed: 0, total: 2, generating: 2 },
+    };
+    const job = {
+      result_ids: ['a1', 'a2'],
+      results: { a1: { id: 'a1', url: 'https://example.com/a1.png', text: null, error: null, errorMessage: null, isGenerating: false, jobId: 'job-1' } },
+      progress: { a2: { status: 'running' as const, percent: 40 } },
+      status: 'running' as const,
+      error: null,
+    };
+
+    const running = applyGenerationJob(pending, job, progress => `${progress.percent}%`);
+    expect(running.images.ModelA[0]).toMatchObject({ url: 'https://example.com/a1.png', isGenerating: false });
+    expect(running.images.ModelA[1]).toMatchObject({ text: '40%', isGenerating: true });
+    expect(running.status).toMatchObject({ success: 1, generating: 1 });
+
+    const failed = applyGenerationJob(running, { ...job, status: 'failed', error: 'missing credentials' }, () => '');
+    expect(failed.images.ModelA[0].url).toBe('https://example.com/a1.png');
+    expect(failed.images.ModelA[1]).toMatchObject({ isGenerating: false, error: '生成失败', errorMessage: 'missing credentials' });
+  });
+
+  it('mergeStoredJobResults keeps results the worker finished and leaves other results to the local state', () => {
+    const placeholder = { url: null, text: null, error: null, errorMessage: null, isGenerating: true };
+    const local = {
+      images: {
+        ModelA: [
+          { id: 'a1', ...placeholder, jobId: 'job-2' },
+          { id: 'a2', ...placeholder, jobId: 'job-1' },
+          { id: 'a3', ...placeholder, jobId: 'job-1' },
+        ],
+      },
+      status: { success: 0, failed: 0, total: 3, generating: 3 },
+    };
+    const stored = {
+      images: {
+        ModelA: [
+          // 重新生成前写回的旧结果，属于上一个任务
+          { id: 'a1', url: 'https://example.com/old.png', text: null, error: null, errorMessage: null, isGenerating: false, jobId: 'job-1' },
+          { id: 'a2', url: 'https://example.com/a2.png', text: null, error: null, errorMessage: null, isGenerating: false, jobId: 'job-1' },
+          { id: 'a3', ...placeholder, jobId: 'job-1' },
+        ],
+      },
+      status: { success: 2, failed: 0, total: 3, generating: 1 },
+    };
+
+    expect(hasPendingJobResults(local)).toBe(true);
+    const merged = mergeStoredJobResults(local, stored);
+    expect(merged.images.ModelA[0]).toBe(local.images.ModelA[0]);
+    expect(merged.images.ModelA[1]).toMatchObject({ url: 'https://example.com/a2.png', isGenerating: false });
+    expect(merged.images.ModelA[2]).toBe(local.images.ModelA[2]);
+    expect(merged.status).toMatchObject({ success: 1, generating: 2, total: 3 });
+
+    expect(mergeStoredJobResults(local, local)).toBe(local);
+    expect(hasPendingJobResults(merged)).toBe(true);
+    expect(hasPendingJobResults(results)).toBe(false);
+  });
+});
@@ -0,0 +1,46 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * @file mockService.test.ts
+ * @description test the offline mock service draws the same image for the same prompt and seed
+ * @author fmw666@github
+ * @date 2025-07-18
+ */
+
+import { MockService } from '@/services/model/mockService';
+
+describe('mockService', () => {
+  const service = new MockService({ latencyMs: 0 });
+
+  it('returns the same image for the same prompt and seed', async () => {
+    const first = await service.generateImage({ prompt: 'a red fox', seed: 7, width: 512, height: 512 });
+    const second = await service.generateImage({ prompt: 'a red fox', seed: 7, width: 512, height: 512 });
+    expect(first.success).toBe(true);
+    expect(first.imageUrl).toMatch(/^data:image\/svg\+xml/);
+    expect(second.imageUrl).toBe(first.imageUrl);
+  });
+
+  it('derives the seed from the prompt when none is given', async () => {
+    const first = await service.generateImage({ prompt: 'a red fox' });
+    const second = await service.generateImage({ prompt: 'a red fox' });
+    expect(second.imageUrl).toBe(first.imageUrl);
+  });
+
+  it('returns a different image for a different seed or prompt', async () => {
+    const base = await service.generateImage({ prompt: 'a red fox', seed: 7 });
+    const otherSeed = await service.generateImage({ prompt: 'a red fox', seed: 8 });
+    const otherPrompt = await service.generateImage({ prompt: 'a blue fox', seed: 7 });
+    expect(otherSeed.imageUrl).not.toBe(base.imageUrl);
+    expect(otherPrompt.imageUrl).not.toBe(base.imageUrl);
+  });
+
+  it('simulates the configured failure', async () => {
+    const rateLimited = await new MockService({ latencyMs: 0, failureMode: 'rate_limit' }).generateImage({ prompt: 'a red fox' });
+    expect(rateLimited).toMatchObject({ success: false, errorStatus: 429, retryAfterMs: 2000 });
+
+    const blocked = await new MockService({ latencyMs: 0, failureMode: 'content_policy' }).generateImage({ prompt: 'a red fox' });
+    expect(blocked).toMatchObject({ success: false, errorStatus: 400 });
+  });
+});
@@ -0,0 +1,90 @@
+/**
+ * @file modelCatalog.test.ts
+ * @description test modelCatalog utils functions
+ * @author fmw666@github
+ * @date 2025-07-18
+ */
+
+import modelsConfig from '@/config/models.json';
+
+import { ModelsConfigError, validateModelsConfig } from '../modelCatalog';
+
+const knownGroups = ['doubao', 'openai', 'cogview', 'tongyi', 'jimeng', 'openai-images', 'sdwebui', 'comfyui', 'mock'];
+
+const model = {
+  id: 'mock-image-v1',
+  name: 'Mock',
+  publishDate: '2025-01-01',
+  description: 'mock model',
+  category: 'Mock',
+  group: 'mock',
+};
+
+/** 返回校验失败时的问题列表 */
+const getIssues = (raw: unknown): string[] => {
+  try {
+    validateModelsConfig(raw, knownGroups);
+  } catch (error) {
+    if (error instanceof ModelsConfigError) return error.issues;
+    throw error;
+  }
+  return [];
+};
+
+describe('modelCatalog', () => {
+  it('accepts the bundled models.json', () => {
+    expect(() => validateModelsConfig(modelsConfig, knownGroups)).not.toThrow();
+  });
+
+  it('reports unknown groups, invalid dates and duplicate ids', () => {
+    const issues = getIssues({
+      configs: { mock: { maxConcurrent: 1, cooldownMs: 0 } },
+      models: [
+        model,
+        { ...model, publishDate: '2025-13-01' },
+        { ...model, id: 'other', group: 'midjourney' },
+      ],
+    });
+
+    expect(issues).toEqual([
+      expect.stringContaining('models[1].publishDate'),
+      expect.stringContaining('models[1].id'),
+      expect.stringContaining('models[2].group'),
+    ]);
+  });
+
+  it('reports missing required fields and unknown fields', () => {
+    const { name: _name, ...withoutName } = model;
+    const issues = getIssues({
+      configs: { mock: { maxConcurrent: 1, cooldownMs: 0, concurrency: 2 } },
+      models: [withoutName],
+    });
+
+    expect(issues).toEqual([
+      expect.stringContaining('configs.mock.concurrency'),
+      expect.stringContaining('models[0].name'),
+    ]);
+  });
+
+  it('reports replacement models missing from the catalog', () => {
+    const issues = getIssues({
+      configs: { mock: { maxConcurrent: 1, cooldownMs: 0 } },
+      models: [{ ...model, deprecated: true, sunsetDate: '2025-09-01', replacedBy: 'mock-image-v2' }],
+    });
+
+    expect(issues).toEqual([expect.stringContaining('models[0].replacedBy')]);
+  });
+
+  it('reports invalid locale codes and locale fields', () => {
+    const issues = getIssues({
+      configs: { mock: { maxConcurrent: 1, cooldownMs: 0 } },
+      models: [{ ...model, locales: { english: { name: 'Mock' }, en: { name: '', summary: 'Mock' } } }],
+    });
+
+    expect(issues).toEqual([
+      expect.stringContaining('models[0].locales.english'),
+      expect.stringContaining('models[0].locales.en.name'),
+      expect.stringContaining('models[0].locales.en.summary'),
+    ]);
+  });
+});
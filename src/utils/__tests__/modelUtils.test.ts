@@ -5,7 +5,7 @@
  * @date 2025-07-17
  */
 
-import { getLatestModelsByCategory, getDefaultSelectedModels } from '../modelUtils';
+import { getLatestModelsByCategory, getDefaultSelectedModels, getLocalizedModelText, getRequiredCapability, isModelRetired, partitionSelectedModels } from '../modelUtils';
 
 const models = [
   { id: '1', category: 'A', name: 'Model1', publishDate: '2023-01-01' },
@@ -29,4 +29,72 @@ describe('modelUtils', () => {
       ])
     );
   });
+
+  it('getDefaultSelectedModels caps the count at the model maxCount', () => {
+    const [selected] = getDefaultSelectedModels([
+      { id: 'seedream', category: '豆包', name: 'Seedream', publishDate: '2025-04-15', capabilities: { maxCount: 2 } },
+    ] as any);
+    expect(selected.count).toBe(2);
+  });
+
+  it('getDefaultSelectedModels skips deprecated and retired models', () => {
+    const selected = getDefaultSelectedModels([
+      { id: 'v14', category: 'A', name: 'V14', publishDate: '2024-06-13', deprecated: true },
+      { id: 'v20', category: 'A', name: 'V20', publishDate: '2024-08-19' },
+      { id: 'v21', category: 'A', name: 'V21', publishDate: '2024-11-11', sunsetDate: '2025-01-01' },
+    ] as any);
+    expect(selected.map(model => model.id)).toEqual(['v20']);
+  });
+
+  it('isModelRetired starts on the sunset date', () => {
+    const model = { sunsetDate: '2025-09-01' };
+    expect(isModelRetired(model, new Date('2025-08-31T12:00:00Z'))).toBe(false);
+    expect(isModelRetired(model, new Date('2025-09-01T00:00:00Z'))).toBe(true);
+    expect(isModelRetired({}, new Date('2025-09-01T00:00:00Z'))).toBe(false);
+  });
+
+  it('getLocalizedModelText falls back per field from region to language to default text', () => {
+    const model = {
+      name: '豆包通用3.0',
+      description: '通用文生图模型',
+      category: '豆包',
+      locales: {
+        en: { name: 'Doubao General 3.0', category: 'Doubao' },
+        'en-GB': { name: 'Doubao General 3.0 (UK)' },
+      },
+    };
+    expect(getLocalizedModelText(model, 'en-GB')).toEqual({
+      name: 'Doubao General 3.0 (UK)',
+      description: '通用文生图模型',
+      category: 'Doubao',
+    });
+    expect(getLocalizedModelText(model, 'zh')).toEqual({ name: '豆包通用3.0', description: '通用文生图模型', category: '豆包' });
+
+    // 服务商只有名称，没有描述与分类
+    const provider = { name: '通义万相', locales: { en: { name: 'Tongyi Wanx' } } };
+    expect(getLocalizedModelText(provider, 'en-US')).toEqual({ name: 'Tongyi Wanx', description: '', category: '' });
+  });
+
+  it('getRequiredCapability follows the input mode', () => {
+    const designImage = { url: 'https://example.com/a.png', referenceMessageId: null, referenceResultId: null };
+    expect(getRequiredCapability(null)).toBe('textToImage');
+    expect(getRequiredCapability(designImage)).toBe('imageToImage');
+    expect(getRequiredCapability({ ...designImage, maskUrl: 'https://example.com/mask.png' })).toBe('inpainting');
+  });
+
+  it('partitionSelectedModels skips unsupported, missing and retired models', () => {
+    const catalog = {
+      getModelById: (id: string) => ({
+        editor: { id: 'editor', sunsetDate: undefined },
+        painter: { id: 'painter', sunsetDate: undefined },
+        retired: { id: 'retired', sunsetDate: '2025-01-01' },
+      } as any)[id],
+      supportsCapability: (id: string) => id !== 'editor',
+    };
+    const selected = ['editor', 'painter', 'retired', 'missing'].map(id => ({ id, name: id, count: 1, category: 'A' }));
+    const { usable, unsupported, retired } = partitionSelectedModels(selected, 'textToImage', catalog, new Date('2025-06-01'));
+    expect(usable.map(({ id }) => id)).toEqual(['painter']);
+    expect(unsupported.map(({ id }) => id)).toEqual(['editor', 'missing']);
+    expect(retired.map(({ id }) => id)).toEqual(['retired']);
+  });
 });
@@ -0,0 +1,150 @@
+/**
+ * @file requestScheduler.test.ts
+ * @description test requestScheduler utils functions
+ * @author fmw666@github
+ * @date 2025-07-18
+ */
+
+import { RequestScheduler, type SchedulerLimits } from '../requestScheduler';
+
+/** 创建一个可在测试中手动完成的任务 */
+const deferredTask = () => {
+  let finish: (value: string) => void = () => undefined;
+  const task = jest.fn(() => new Promise<string>(resolve => { finish = resolve; }));
+  return { task, finish: (value = 'done') => finish(value) };
+};
+
+// 让 then/finally 回调执行完
+const flushPromises = async () => {
+  for (let i = 0; i < 5; i++) await Promise.resolve();
+};
+
+describe('requestScheduler', () => {
+  let limits: SchedulerLimits;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    limits = { maxConcurrent: 2, cooldownMs: 0 };
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('dispatches in parallel up to maxConcurrent and wakes the queue on completion', async () => {
+    const scheduler = new RequestScheduler(() => limits);
+    const tasks = [deferredTask(), deferredTask(), deferredTask()];
+    const results = tasks.map(({ task }) => scheduler.schedule('doubao', task));
+    await flushPromises();
+
+    expect(tasks[0].task).toHaveBeenCalled();
+    expect(tasks[1].task).toHaveBeenCalled();
+    expect(tasks[2].task).not.toHaveBeenCalled();
+    expect(scheduler.getActiveCount('doubao')).toBe(2);
+    expect(scheduler.getQueuedCount('doubao')).toBe(1);
+
+    tasks[0].finish('first');
+    await flushPromises();
+    expect(tasks[2].task).toHaveBeenCalled();
+    await expect(results[0]).resolves.toBe('first');
+  });
+
+  it('spaces request starts by cooldownMs without polling', async () => {
+    limits = { maxConcurrent: 4, cooldownMs: 1000 };
+    const scheduler = new RequestScheduler(() => limits);
+    const tasks = [deferredTask(), deferredTask(), deferredTask()];
+    tasks.forEach(({ task }) => scheduler.schedule('doubao', task));
+    await flushPromises();
+
+    expect(tasks.map(({ task }) => task.mock.calls.length)).toEqual([1, 0, 0]);
+    expect(jest.getTimerCount()).toBe(1);
+
+    jest.advanceTimersByTime(999);
+    await flushPromises();
+    expect(tasks[1].task).not.toHaveBeenCalled();
+
+    jest.advanceTimersByTime(1);
+    await flushPromises();
+    expect(tasks[1].task).toHaveBeenCalled();
+    expect(tasks[2].task).not.toHaveBeenCalled();
+
+    jest.advanceTimersByTime(1000);
+    await flushPromises();
+    expect(tasks[2].task).toHaveBeenCalled();
+  });
+
+  it('allows a burst when the bucket capacity is larger than one', async () => {
+    limits = { maxConcurrent: 4, cooldownMs: 1000, burst: 2 };
+    const scheduler = new RequestScheduler(() => limits);
+    const tasks = [deferredTask(), deferredTask(), deferredTask()];
+    tasks.forEach(({ task }) => scheduler.schedule('doubao', task));
+    await flushPromises();
+
+    expect(tasks.map(({ task }) => task.mock.calls.length)).toEqual([1, 1, 0]);
+  });
+
+  it('alternates between lanes and keeps FIFO within a lane', async () => {
+    limits = { maxConcurrent: 1, cooldownMs: 0 };
+    const scheduler = new RequestScheduler(() => limits);
+    const order: string[] = [];
+    const run = (name: string) => async () => {
+      order.push(name);
+    };
+
+    await Promise.all([
+      scheduler.schedule('mock', run('a1'), { lane: 'chat-a' }),
+      scheduler.schedule('mock', run('a2'), { lane: 'chat-a' }),
+      scheduler.schedule('mock', run('a3'), { lane: 'chat-a' }),
+      scheduler.schedule('mock', run('b1'), { lane: 'chat-b' }),
+      scheduler.schedule('mock', run('b2'), { lane: 'chat-b' }),
+    ]);
+
+    expect(order).toEqual(['a1', 'b1', 'a2', 'b2', 'a3']);
+  });
+
+  it('drops queued tasks when aborted', async () => {
+    limits = { maxConcurrent: 1, cooldownMs: 0 };
+    const scheduler = new RequestScheduler(() => limits);
+    const running = deferredTask();
+    const queued = deferredTask();
+    const controller = new AbortController();
+
+    scheduler.schedule('mock', running.task);
+    const cancelled = scheduler.schedule('mock', queued.task, { signal: controller.signal });
+    await flushPromises();
+
+    controller.abort();
+    await expect(cancelled).rejects.toMatchObject({ name: 'AbortError' });
+    expect(scheduler.getQueuedCount('mock')).toBe(0);
+
+    running.finish();
+    await flushPromises();
+    expect(queued.task).not.toHaveBeenCalled();
+    expect(scheduler.getActiveCount('mock')).toBe(0);
+  });
+
+  it('releases the slot when a task fails', async () => {
+    limits = { maxConcurrent: 1, cooldownMs: 0 };
+    const scheduler = new RequestScheduler(() => limits);
+    const failing = jest.fn(() => {
+      throw new Error('missing credentials');
+    });
+
+    await expect(scheduler.schedule('mock', failing)).rejects.toThrow('missing credentials');
+    await expect(scheduler.schedule('mock', async () => 'ok')).resolves.toBe('ok');
+  });
+
+  it('dispatches queued tasks when refreshed with raised limits', async () => {
+    limits = { maxConcurrent: 1, cooldownMs: 0 };
+    const scheduler = new RequestScheduler(() => limits);
+    const tasks = [deferredTask(), deferredTask()];
+    tasks.forEach(({ task }) => scheduler.schedule('mock', task));
+    await flushPromises();
+    expect(tasks[1].task).not.toHaveBeenCalled();
+
+    limits = { maxConcurrent: 2, cooldownMs: 0 };
+    scheduler.refresh();
+    await flushPromises();
+    expect(tasks[1].task).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,41 @@
+/**
+ * @file retryPolicy.test.ts
+ * @description test retryPolicy utils functions
+ * @author fmw666@github
+ * @date 2025-07-18
+ */
+
+import { DEFAULT_RETRY_CONFIG, getRetryDelay, isRetryableFailure } from '../retryPolicy';
+
+describe('retryPolicy', () => {
+  describe('isRetryableFailure', () => {
+    it('retries rate limits, server errors and network errors', () => {
+      expect(isRetryableFailure({ status: 429 })).toBe(true);
+      expect(isRetryableFailure({ status: 503 })).toBe(true);
+      expect(isRetryableFailure({ message: 'Failed to fetch' })).toBe(true);
+    });
+
+    it('never retries invalid credentials, bad requests or content policy rejections', () => {
+      expect(isRetryableFailure({ status: 401 })).toBe(false);
+      expect(isRetryableFailure({ status: 400 })).toBe(false);
+      expect(isRetryableFailure({ status: 500, message: '提示词未通过内容安全审核' })).toBe(false);
+      expect(isRetryableFailure({ message: '未返回图片URL' })).toBe(false);
+    });
+  });
+
+  describe('getRetryDelay', () => {
+    const config = { maxAttempts: 5, baseDelayMs: 1000, maxDelayMs: 5000 };
+
+    it('grows exponentially with jitter and stays under maxDelayMs', () => {
+      expect(getRetryDelay(1, config, undefined, () => 0)).toBe(500);
+      expect(getRetryDelay(2, config, undefined, () => 0.999)).toBe(1999);
+      expect(getRetryDelay(10, config, undefined, () => 0.999)).toBeLessThanOrEqual(5000);
+    });
+
+    it('follows Retry-After up to maxDelayMs', () => {
+      expect(getRetryDelay(1, config, 3000)).toBe(3000);
+      expect(getRetryDelay(1, config, 60000)).toBe(5000);
+      expect(getRetryDelay(1, DEFAULT_RETRY_CONFIG, 0)).toBe(0);
+    });
+  });
+});
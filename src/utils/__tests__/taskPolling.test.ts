@@ -0,0 +1,27 @@
+/**
+ * @file taskPolling.test.ts
+ * @description test taskPolling utils functions
+ * @author fmw666@github
+ * @date 2025-07-18
+ */
+
+import { getNextPollInterval } from '../taskPolling';
+
+describe('taskPolling', () => {
+  describe('getNextPollInterval', () => {
+    // 与通义万相的默认轮询配置一致
+    const config = { pollIntervalMs: 1000, maxPollIntervalMs: 5000, pollBackoffFactor: 1.5 };
+
+    it('grows the wait by the backoff factor up to the maximum', () => {
+      const intervals = [config.pollIntervalMs];
+      while (intervals.length < 7) {
+        intervals.push(getNextPollInterval(intervals[intervals.length - 1], config));
+      }
+      expect(intervals).toEqual([1000, 1500, 2250, 3375, 5000, 5000, 5000]);
+    });
+
+    it('keeps a fixed interval when the factor is 1', () => {
+      expect(getNextPollInterval(2000, { ...config, pollBackoffFactor: 1 })).toBe(2000);
+    });
+  });
+});
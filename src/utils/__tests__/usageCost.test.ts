@@ -0,0 +1,34 @@
+/**
+ * @file usageCost.test.ts
+ * @description test usageCost utils functions
+ * @author fmw666@github
+ * @date 2025-07-18
+ */
+
+import { estimateCost, exceedsBudget, formatCost, getPeriodStart } from '../usageCost';
+
+describe('usageCost', () => {
+  it('sums price times count and treats missing prices as free', () => {
+    expect(estimateCost([{ price: 0.259, count: 2 }, { price: 0.1, count: 1 }, { count: 4 }])).toBe(0.618);
+    expect(estimateCost([])).toBe(0);
+  });
+
+  it('starts daily periods at midnight and monthly periods on the first day', () => {
+    const now = new Date(2025, 6, 18, 15, 30);
+    expect(getPeriodStart('daily', now)).toEqual(new Date(2025, 6, 18));
+    expect(getPeriodStart('monthly', now)).toEqual(new Date(2025, 6, 1));
+  });
+
+  it('only blocks paid requests that go over the limit', () => {
+    const budget = { period: 'daily' as const, limit: 1 };
+    expect(exceedsBudget(budget, 0.8, 0.2)).toBe(false);
+    expect(exceedsBudget(budget, 0.8, 0.3)).toBe(true);
+    expect(exceedsBudget(budget, 5, 0)).toBe(false);
+  });
+
+  it('formats costs in yuan', () => {
+    expect(formatCost(0.618)).toBe('¥0.62');
+    expect(formatCost(0.004)).toBe('¥0.004');
+    expect(formatCost(0)).toBe('¥0.00');
+  });
+});
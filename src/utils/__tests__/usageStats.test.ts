@@ -0,0 +1,67 @@
+/**
+ * @file usageStats.test.ts
+ * @description test usageStats utils functions
+ * @author fmw666@github
+ * @date 2025-07-18
+ */
+
+import { buildUsageStats, type UsageMessage } from '../usageStats';
+
+const now = new Date(2025, 6, 18, 12);
+const at = (day: number, seconds = 0) => new Date(2025, 6, day, 10, 0, seconds).toISOString();
+
+const messages: UsageMessage[] = [
+  {
+    createdAt: at(18),
+    results: {
+      images: {
+        ModelA: [
+          { id: 'a1', url: 'https://example.com/a1.png', text: null, error: null, errorMessage: null, createdAt: at(18, 10), isFavorite: true },
+          { id: 'a2', url: null, text: null, error: '生成失败', errorMessage: '429 Too Many Requests', createdAt: at(18, 4) },
+        ],
+        ModelB: [
+          { id: 'b1', url: null, text: null, error: null, errorMessage: null, cancelled: true, createdAt: at(18, 1) },
+          {
+            id: 'b2',
+            url: 'https://example.com/b2.png',
+            text: null,
+            error: null,
+            errorMessage: null,
+            createdAt: at(18, 50),
+            history: [{ url: null, text: null, error: '生成失败', errorMessage: '429 Too Many Requests', createdAt: at(18, 5) }],
+          },
+        ],
+      },
+    },
+  },
+  {
+    createdAt: at(1),
+    results: {
+      images: {
+        ModelA: [{ id: 'old', url: 'https://example.com/old.png', text: null, error: null, errorMessage: null, createdAt: at(1, 3) }],
+      },
+    },
+  },
+];
+
+describe('usageStats', () => {
+  it('counts every attempt within the range, including regeneration history', () => {
+    const stats = buildUsageStats(messages, 7, now);
+
+    expect(stats).toMatchObject({ total: 5, success: 2, failed: 2, cancelled: 1, favorites: 1 });
+    expect(stats.successRate).toBe(0.5);
+    expect(stats.errors).toEqual([{ message: '429 Too Many Requests', count: 2 }]);
+    expect(stats.daily).toHaveLength(7);
+    expect(stats.daily[6]).toEqual({ date: '2025-07-18', success: 2, failed: 2 });
+  });
+
+  it('computes latency only for results that were never regenerated', () => {
+    const stats = buildUsageStats(messages, 7, now);
+    const modelA = stats.models.find(model => model.name === 'ModelA');
+    const modelB = stats.models.find(model => model.name === 'ModelB');
+
+    expect(stats.avgLatencyMs).toBe(10000);
+    expect(modelA).toMatchObject({ total: 2, favoriteRate: 1, avgLatencyMs: 10000 });
+    expect(modelB).toMatchObject({ total: 3, successRate: 0.5, avgLatencyMs: null });
+  });
+});
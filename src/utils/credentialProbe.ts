@@ -0,0 +1,47 @@
+/**
+ * @file credentialProbe.ts
+ * @description Interpret the response to a deliberately invalid request used to verify provider credentials.
+ * @author fmw666@github
+ * @date 2025-07-18
+ */
+
+// =================================================================================================
+// Type Definitions
+// =================================================================================================
+
+export interface ProbeResponse {
+  status: number;
+  code?: string;  // 服务商在响应体中返回的错误码
+  message?: string;
+}
+
+// =================================================================================================
+// Constants
+// =================================================================================================
+
+// 参数校验失败的 HTTP 状态码：请求已通过鉴权，只因探测参数无效被拒绝
+const PARAMETER_ERROR_STATUS = 400;
+
+// =================================================================================================
+// Utility Functions
+// =================================================================================================
+
+/**
+ * Check a credential probe response
+ * Only the provider's own parameter-validation error proves the request passed authentication;
+ * any other status (auth errors, 404 from a wrong endpoint, 5xx outages) is reported as a failure
+ * @param response - HTTP status, error code and message of the probe response
+ * @param validationCodes - Error codes the provider returns for the invalid probe parameters
+ * @param serviceName - Provider name used in the failure message
+ * @returns Failure message, or null when the credentials are valid
+ */
+export const getProbeFailure = (
+  { status, code, message }: ProbeResponse,
+  validationCodes: readonly string[],
+  serviceName: string
+): string | null => {
+  if (status === PARAMETER_ERROR_STATUS && code !== undefined && validationCodes.includes(code)) {
+    return null;
+  }
+  return `${serviceName} API error: ${status}${message ? ` ${message}` : ''}`;
+};
@@ -0,0 +1,145 @@
+/**
+ * @file generationParams.ts
+ * @description Utility functions for converting generation parameters into provider requests.
+ * @author fmw666@github
+ * @date 2025-07-18
+ */
+
+// =================================================================================================
+// Imports
+// =================================================================================================
+
+// --- Internal Types ---
+import type { AspectRatio, GenerationParams, ImageQuality } from '@/types/chat';
+
+// =================================================================================================
+// Type Definitions
+// =================================================================================================
+
+export interface ImageSize {
+  width: number;
+  height: number;
+}
+
+export interface GenerationRequestParams {
+  width?: number;
+  height?: number;
+  quality?: ImageQuality;
+  seed?: number;
+  steps?: number;
+  cfgScale?: number;
+  negativePrompt?: string;
+}
+
+// =================================================================================================
+// Constants
+// =================================================================================================
+
+export const ASPECT_RATIOS: AspectRatio[] = ['1:1', '4:3', '3:4', '16:9', '9:16'];
+
+export const IMAGE_SIZES = [512, 768, 1024, 1536] as const;
+
+export const IMAGE_QUALITIES: ImageQuality[] = ['low', 'medium', 'high'];
+
+export const STEPS_RANGE = { min: 1, max: 150 } as const;
+
+export const CFG_SCALE_RANGE = { min: 1, max: 30, step: 0.5 } as const;
+
+const DEFAULT_SIZE = 1024;
+const SIZE_ALIGNMENT = 64; // 多数模型要求宽高为 64 的倍数
+
+// =================================================================================================
+// Utility Functions
+// =================================================================================================
+
+/**
+ * Resolve width and height from an aspect ratio and the long edge size
+ * @param aspectRatio - Aspect ratio such as '16:9', defaults to '1:1'
+ * @param size - Long edge in pixels, defaults to 1024
+ * @returns Width and height aligned to multiples of 64
+ */
+export const resolveImageSize = (aspectRatio: AspectRatio = '1:1', size: number = DEFAULT_SIZE): ImageSize => {
+  const [ratioWidth, ratioHeight] = aspectRatio.split(':').map(Number);
+  const shortEdge = Math.max(SIZE_ALIGNMENT, Math.round((size * Math.min(ratioWidth, ratioHeight)) / Math.max(ratioWidth, ratioHeight) / SIZE_ALIGNMENT) * SIZE_ALIGNMENT);
+  return ratioWidth >= ratioHeight
+    ? { width: size, height: shortEdge }
+    : { width: shortEdge, height: size };
+};
+
+/**
+ * Pick the supported size closest to the requested width and height
+ * Aspect ratio difference is weighted higher than area difference
+ * @param sizes - Supported sizes in 'WIDTHxHEIGHT' format
+ * @param width - Requested width
+ * @param height - Requested height
+ * @returns The closest supported size
+ */
+export const pickClosestSize = <T extends string>(sizes: readonly T[], width: number, height: number): T => {
+  const ratio = width / height;
+  const area = width * height;
+  const distance = (size: string) => {
+    const [w, h] = size.split('x').map(Number);
+    return Math.abs(Math.log((w / h) / ratio)) * 10 + Math.abs(Math.log((w * h) / area));
+  };
+  return sizes.reduce((best, size) => distance(size) < distance(best) ? size : best);
+};
+
+/**
+ * Fit a requested width and height to the sizes a model declares in the catalog
+ * The aspect ratio is kept and the long edge moves to the closest declared size
+ * @param width - Requested width
+ * @param height - Requested height
+ * @param declared - Aspect ratios and long edges the model supports, unset means any
+ * @returns The closest declared size, or null when the requested aspect ratio is not supported
+ */
+export const fitDeclaredImageSize = (
+  width: number,
+  height: number,
+  declared: { aspectRatios?: readonly AspectRatio[]; sizes?: readonly number[] }
+): ImageSize | null => {
+  if (!declared.aspectRatios && !declared.sizes) return { width, height };
+
+  // 请求的宽高来自输入框中的宽高比选项，按比例最接近的选项判断模型是否支持
+  const ratioDistance = (aspectRatio: AspectRatio) => {
+    const [ratioWidth, ratioHeight] = aspectRatio.split(':').map(Number);
+    return Math.abs(Math.log((ratioWidth / ratioHeight) / (width / height)));
+  };
+  const requestedRatio = ASPECT_RATIOS.reduce((best, aspectRatio) => ratioDistance(aspectRatio) < ratioDistance(best) ? aspectRatio : best);
+  if (declared.aspectRatios && !declared.aspectRatios.includes(requestedRatio)) return null;
+
+  const candidates = (declared.sizes ?? IMAGE_SIZES).map(size => {
+    const { width: w, height: h } = resolveImageSize(requestedRatio, size);
+    return `${w}x${h}`;
+  });
+  const [fitWidth, fitHeight] = pickClosestSize(candidates, width, height).split('x').map(Number);
+  return { width: fitWidth, height: fitHeight };
+};
+
+/**
+ * Convert panel parameters into the fields of a generation request
+ * @param params - Generation parameters from the chat input panel
+ * @returns Request fields, unset parameters are omitted
+ */
+export const toGenerationRequestParams = (params: GenerationParams): GenerationRequestParams => {
+  const request: GenerationRequestParams = {};
+  if (params.aspectRatio || params.size) {
+    Object.assign(request, resolveImageSize(params.aspectRatio, params.size));
+  }
+  if (params.quality) request.quality = params.quality;
+  if (params.seed !== undefined) request.seed = params.seed;
+  if (params.steps !== undefined) request.steps = params.steps;
+  if (params.cfgScale !== undefined) request.cfgScale = params.cfgScale;
+  if (params.negativePrompt?.trim()) request.negativePrompt = params.negativePrompt.trim();
+  return request;
+};
+
+/**
+ * Count how many parameters are set
+ * @param params - Generation parameters from the chat input panel
+ * @returns Number of parameters that override model defaults
+ */
+export const countActiveParams = (params: GenerationParams): number => {
+  return [params.aspectRatio, params.size, params.quality, params.seed, params.steps, params.cfgScale, params.negativePrompt?.trim()]
+    .filter(value => value !== undefined && value !== '')
+    .length;
+};
@@ -0,0 +1,128 @@
+/**
+ * @file ipAddress.ts
+ * @description IP address helpers for keeping server-side requests away from private networks.
+ * @author fmw666@github
+ * @date 2025-07-18
+ */
+
+// =================================================================================================
+// Constants
+// =================================================================================================
+
+// 不允许服务端访问的 IPv4 网段：本机、私有网络、链路本地（含云厂商元数据地址）、运营商 NAT、保留与组播
+const BLOCKED_IPV4_RANGES: Array<[string, number]> = [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4],
+];
+
+// 不允许服务端访问的 IPv6 网段：唯一本地、链路本地、组播与本地 NAT64
+const BLOCKED_IPV6_RANGES: Array<[string, number]> = [
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+  ['64:ff9b:1::', 48],
+];
+
+// 末 32 位内嵌 IPv4 地址的 IPv6 网段：IPv4 映射、SIIT 转换、IPv4 兼容（含 :: 与 ::1）与 NAT64，按内嵌的 IPv4 判断
+const EMBEDDED_IPV4_RANGES: Array<[string, number]> = [
+  ['::ffff:0:0', 96],
+  ['::ffff:0:0:0', 96],
+  ['::', 96],
+  ['64:ff9b::', 96],
+];
+
+const IPV4_PATTERN = /^(\d{1,3})\.(\d{1,3})\.(\d{1,3})\.(\d{1,3})$/;
+const IPV6_GROUP_PATTERN = /^[0-9a-f]{1,4}$/;
+
+// =================================================================================================
+// Utility Functions
+// =================================================================================================
+
+/**
+ * Convert an IPv4 address to an unsigned 32-bit integer
+ * @param address - Dotted IPv4 address
+ * @returns Integer value, or null when the address is not IPv4
+ */
+const ipv4ToInt = (address: string): number | null => {
+  const match = IPV4_PATTERN.exec(address);
+  if (!match) return null;
+  const octets = match.slice(1).map(Number);
+  if (octets.some(octet => octet > 255)) return null;
+  return octets.reduce((value, octet) => value * 256 + octet, 0);
+};
+
+const isBlockedIpv4 = (address: string): boolean => {
+  const value = ipv4ToInt(address);
+  if (value === null) return false;
+  return BLOCKED_IPV4_RANGES.some(([base, prefix]) => {
+    const size = 2 ** (32 - prefix);
+    return Math.floor(value / size) === Math.floor(ipv4ToInt(base)! / size);
+  });
+};
+
+/**
+ * Parse an IPv6 address into its eight 16-bit groups
+ * Accepts the compressed form, a trailing dotted IPv4 part, brackets and a zone ID
+ * @param address - IPv6 address
+ * @returns Groups, or null when the address is not valid IPv6
+ */
+const parseIpv6 = (address: string): number[] | null => {
+  let normalized = address.toLowerCase().replace(/^\[|\]$/g, '').replace(/%.*$/, '');
+
+  // 末尾的点分 IPv4 转为两组十六进制
+  const dotted = /^(.*:)(\d{1,3}(?:\.\d{1,3}){3})$/.exec(normalized);
+  if (dotted) {
+    const value = ipv4ToInt(dotted[2]);
+    if (value === null) return null;
+    normalized = `${dotted[1]}${Math.floor(value / 0x10000).toString(16)}:${(value % 0x10000).toString(16)}`;
+  }
+
+  const halves = normalized.split('::');
+  if (halves.length > 2) return null;
+  const toGroups = (part: string) => (part ? part.split(':') : []);
+  const head = toGroups(halves[0]);
+  const tail = halves.length === 2 ? toGroups(halves[1]) : [];
+  const missing = 8 - head.length - tail.length;
+  if (halves.length === 2 ? missing < 1 : missing !== 0) return null;
+
+  const groups = [...head, ...Array<string>(missing).fill('0'), ...tail];
+  if (!groups.every(group => IPV6_GROUP_PATTERN.test(group))) return null;
+  return groups.map(group => parseInt(group, 16));
+};
+
+const matchesIpv6Prefix = (groups: number[], [base, prefix]: [string, number]): boolean => {
+  const baseGroups = parseIpv6(base)!;
+  return groups.every((group, index) => {
+    const bits = Math.min(16, Math.max(0, prefix - index * 16));
+    const mask = (0xffff << (16 - bits)) & 0xffff;
+    return (group & mask) === (baseGroups[index] & mask);
+  });
+};
+
+const isBlockedIpv6 = (address: string): boolean => {
+  const groups = parseIpv6(address);
+  // 无法解析的地址一律拒绝
+  if (!groups) return true;
+  if (EMBEDDED_IPV4_RANGES.some(range => matchesIpv6Prefix(groups, range))) {
+    return isBlockedIpv4(`${groups[6] >> 8}.${groups[6] & 0xff}.${groups[7] >> 8}.${groups[7] & 0xff}`);
+  }
+  return BLOCKED_IPV6_RANGES.some(range => matchesIpv6Prefix(groups, range));
+};
+
+/**
+ * Check whether an IP address belongs to a loopback, private, link-local or reserved range
+ * @param address - IPv4 or IPv6 address
+ * @returns True when server-side requests must not reach the address
+ */
+export const isPrivateAddress = (address: string): boolean => {
+  return address.includes(':') ? isBlockedIpv6(address) : isBlockedIpv4(address);
+};
@@ -0,0 +1,241 @@
+/**
+ * @file messageResults.ts
+ * @description Utility functions for updating a single image result inside message results.
+ * @author fmw666@github
+ * @date 2025-07-18
+ */
+
+// =================================================================================================
+// Imports
+// =================================================================================================
+
+// --- Internal Types ---
+import type { ImageResult, ImageResultAttempt, Message, Results } from '@/services/chat';
+import type { GenerationJob } from '@/services/jobs';
+import type { StandardResponse, TaskProgress } from '@/services/model';
+
+// =================================================================================================
+// Utility Functions
+// =================================================================================================
+
+/**
+ * Recount result status from the images, used after a single result changes
+ * @param images - Image results grouped by model name
+ * @returns Status counts consistent with the images
+ */
+export const summarizeResults = (images: Results['images']): Results['status'] => {
+  const all = Object.values(images).flat();
+  const generating = all.filter(result => result.isGenerating).length;
+  const cancelled = all.filter(result => !result.isGenerating && result.cancelled).length;
+  const interrupted = all.filter(result => !result.isGenerating && !result.cancelled && result.interrupted).length;
+  const failed = all.filter(result => (
+    !result.isGenerating && !result.cancelled && !result.interrupted && (result.error || result.errorMessage)
+  )).length;
+  return {
+    success: all.length - generating - cancelled - interrupted - failed,
+    failed,
+    total: all.length,
+    generating,
+    ...(cancelled > 0 ? { cancelled } : {}),
+    ...(interrupted > 0 ? { interrupted } : {}),
+  };
+};
+
+/**
+ * Find the model name a result belongs to
+ * @param results - Message results
+ * @param resultId - Image result ID
+ * @returns Model name (key of results.images) or undefined
+ */
+export const findResultModelName = (results: Results, resultId: string): string | undefined => {
+  return Object.keys(results.images).find(name => results.images[name].some(result => result.id === resultId));
+};
+
+/**
+ * Replace a single image result in place and recount the status
+ * @param results - Message results
+ * @param resultId - Image result ID
+ * @param updater - Returns the new result from the current one
+ * @returns New results object, unchanged when the result is not found
+ */
+export const replaceImageResult = (
+  results: Results,
+  resultId: string,
+  updater: (result: ImageResult) => ImageResult
+): Results => {
+  const modelName = findResultModelName(results, resultId);
+  if (!modelName) return results;
+
+  const images = {
+    ...results.images,
+    [modelName]: results.images[modelName].map(result => result.id === resultId ? updater(result) : result),
+  };
+  return { images, status: summarizeResults(images) };
+};
+
+/**
+ * Reset a result for regeneration, keeping the previous attempt in its history
+ * @param result - Current image result
+ * @param modelId - Model generating the new attempt, when it differs from the one recorded so far
+ * @returns Result in generating state with the previous attempt appended to history
+ */
+export const startRegeneration = (result: ImageResult, modelId?: string): ImageResult => {
+  const hasContent = !!(result.url || result.text || result.error || result.errorMessage || result.cancelled);
+  const attempt: ImageResultAttempt = {
+    url: result.url,
+    text: result.text,
+    error: result.error,
+    errorMessage: result.errorMessage,
+    cancelled: result.cancelled,
+    timedOut: result.timedOut,
+    createdAt: result.createdAt,
+    modelId: result.modelId,
+  };
+  const nextModelId = modelId ?? result.modelId;
+  return {
+    id: result.id,
+    url: null,
+    text: null,
+    error: null,
+    errorMessage: null,
+    isGenerating: true,
+    startedAt: new Date().toISOString(),
+    ...(nextModelId ? { modelId: nextModelId } : {}),
+    history: hasContent ? [...(result.history || []), attempt] : result.history,
+  };
+};
+
+/**
+ * Mark results still generating long after they were started as interrupted
+ * Such results were left behind when the page was closed or reloaded mid-generation;
+ * a result is stale once its generation (started at send time, or later when regenerated or resumed)
+ * is older than the longest time its model may take.
+ * Results generated by a server-side job are left to the worker
+ * @param message - Chat message
+ * @param getStaleAfterMs - Returns the longest time a generation of the model may take
+ * @param now - Current time in milliseconds
+ * @returns Message with recounted results, the same object when nothing is stale
+ */
+export const markInterruptedResults = (
+  message: Message,
+  getStaleAfterMs: (modelName: string) => number,
+  now: number = Date.now()
+): Message => {
+  let changed = false;
+  const images = Object.fromEntries(Object.entries(message.results.images).map(([modelName, results]) => {
+    const isStale = (result: ImageResult) => result.isGenerating && !result.jobId
+      && now - new Date(result.startedAt ?? message.createdAt).getTime() > getStaleAfterMs(modelName);
+    if (!results.some(isStale)) {
+      return [modelName, results];
+    }
+    changed = true;
+    return [modelName, results.map(result => isStale(result)
+      ? { ...result, isGenerating: false, text: null, interrupted: true }
+      : result
+    )];
+  }));
+  if (!changed) return message;
+  return { ...message, results: { images, status: summarizeResults(images) } };
+};
+
+/**
+ * Find the interrupted results of a message
+ * @param results - Message results
+ * @returns Model name and result ID of every interrupted result
+ */
+export const getInterruptedResults = (results: Results): Array<{ modelName: string; resultId: string }> => {
+  return Object.entries(results.images).flatMap(([modelName, images]) => images
+    .filter(result => result.interrupted && !result.isGenerating)
+    .map(result => ({ modelName, resultId: result.id }))
+  );
+};
+
+/**
+ * Fill a result with a finished generation response
+ * @param result - Result in generating state
+ * @param response - Final response of the provider request
+ * @returns Finished result, keeping its ID and history
+ */
+export const applyGenerationResponse = (result: ImageResult, response: StandardResponse): ImageResult => {
+  if (response.cancelled) {
+    return {
+      ...result,
+      url: null,
+      text: null,
+      error: null,
+      errorMessage: null,
+      isGenerating: false,
+      cancelled: true,
+      createdAt: response.createdAt,
+    };
+  }
+  return {
+    ...result,
+    url: response.imageUrl || null,
+    text: response.text || null,
+    error: response.success ? null : (response.error || '生成失败'),
+    errorMessage: response.success ? null : (response.error || null),
+    isGenerating: false,
+    timedOut: response.timedOut,
+    createdAt: response.createdAt,
+  };
+};
+
+/**
+ * Apply the state of a server-side job to the results it is responsible for
+ * Finished results replace their placeholders, results still running show the job progress,
+ * and a failed job fails every result it has not finished
+ * @param results - Message results
+ * @param job - Generation job
+ * @param formatProgress - Formats the progress of an asynchronous provider task
+ * @returns New results object with the results of the job updated
+ */
+export const applyGenerationJob = (
+  results: Results,
+  job: Pick<GenerationJob, 'result_ids' | 'results' | 'progress' | 'status' | 'error'>,
+  formatProgress: (progress: TaskProgress) => string
+): Results => {
+  return job.result_ids.reduce((current, resultId) => replaceImageResult(current, resultId, result => {
+    const finished = job.results[resultId];
+    if (finished) return { ...finished, id: result.id, modelId: result.modelId, jobId: result.jobId, history: result.history };
+    if (!result.isGenerating) return result;
+    if (job.status === 'failed') {
+      return { ...result, text: null, error: '生成失败', errorMessage: job.error || '未知原因', isGenerating: false };
+    }
+    const progress = job.progress[resultId];
+    return progress ? { ...result, text: formatProgress(progress) } : result;
+  }), results);
+};
+
+/**
+ * Check whether any result is still being generated by a server-side job
+ * @param results - Message results
+ * @returns True when the worker may write the message at any moment
+ */
+export const hasPendingJobResults = (results: Results): boolean => {
+  return Object.values(results.images).flat().some(result => result.isGenerating && !!result.jobId);
+};
+
+/**
+ * Keep the results a server-side job has already written to the database
+ * Local state may still show the job placeholder when the worker has finished the result;
+ * saving it as is would restore the placeholder over the finished result
+ * @param local - Results about to be saved
+ * @param stored - Results of the same message re-read from the database
+ * @returns Results with finished job results taken from the database, the same object when nothing changed
+ */
+export const mergeStoredJobResults = (local: Results, stored: Results): Results => {
+  const storedById = new Map(Object.values(stored.images).flat().map(result => [result.id, result]));
+  let changed = false;
+  const images = Object.fromEntries(Object.entries(local.images).map(([modelName, results]) => [
+    modelName,
+    results.map(result => {
+      const storedResult = storedById.get(result.id);
+      if (!result.isGenerating || !result.jobId || !storedResult) return result;
+      if (storedResult.isGenerating || storedResult.jobId !== result.jobId) return result;
+      changed = true;
+      return storedResult;
+    }),
+  ]));
+  return changed ? { images, status: summarizeResults(images) } : local;
+};
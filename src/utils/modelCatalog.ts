@@ -0,0 +1,203 @@
+/**
+ * @file modelCatalog.ts
+ * @description Schema validation for the model catalog (models.json or a catalog loaded at runtime).
+ * @author fmw666@github
+ * @date 2025-07-18
+ */
+
+// =================================================================================================
+// Imports
+// =================================================================================================
+
+// --- Internal Types ---
+import type { ModelsConfig } from '@/config/models.types';
+// --- Utils ---
+import { ASPECT_RATIOS } from '@/utils/generationParams';
+
+// =================================================================================================
+// Type Definitions
+// =================================================================================================
+
+type Check = (value: unknown, path: string) => void;
+
+// =================================================================================================
+// Constants
+// =================================================================================================
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const LOCALE_PATTERN = /^[a-z]{2,3}(-[A-Za-z0-9]+)*$/;
+const BUDGET_PERIODS = ['daily', 'monthly'];
+
+// =================================================================================================
+// Error Class
+// =================================================================================================
+
+// 模型目录未通过校验时抛出，issues 中每一项对应一个字段的问题
+export class ModelsConfigError extends Error {
+  issues: string[];
+
+  constructor(issues: string[]) {
+    super(`模型目录校验失败：\n${issues.join('\n')}`);
+    this.name = 'ModelsConfigError';
+    this.issues = issues;
+  }
+}
+
+// =================================================================================================
+// Utility Functions
+// =================================================================================================
+
+const isRecord = (value: unknown): value is Record<string, unknown> => (
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+);
+
+/**
+ * Validate a raw model catalog and return it typed
+ * @param raw - Parsed catalog JSON
+ * @param knownGroups - Model groups with a registered provider adapter
+ * @returns The catalog typed as ModelsConfig
+ * @throws ModelsConfigError listing every invalid field
+ */
+export const validateModelsConfig = (raw: unknown, knownGroups: readonly string[]): ModelsConfig => {
+  const issues: string[] = [];
+  const fail = (path: string, message: string) => issues.push(`${path}: ${message}`);
+
+  // --- Field Checks ---
+  const string: Check = (value, path) => {
+    if (typeof value !== 'string' || value.trim() === '') fail(path, '应为非空字符串');
+  };
+  const number = (min: number, integer = false): Check => (value, path) => {
+    if (typeof value !== 'number' || !Number.isFinite(value) || value < min || (integer && !Number.isInteger(value))) {
+      fail(path, `应为不小于 ${min} 的${integer ? '整数' : '数字'}`);
+    }
+  };
+  const boolean: Check = (value, path) => {
+    if (typeof value !== 'boolean') fail(path, '应为布尔值');
+  };
+  const oneOf = (options: readonly string[]): Check => (value, path) => {
+    if (typeof value !== 'string' || !options.includes(value)) fail(path, `应为 ${options.join(' / ')} 之一`);
+  };
+  const arrayOf = (check: Check): Check => (value, path) => {
+    if (!Array.isArray(value)) {
+      fail(path, '应为数组');
+      return;
+    }
+    value.forEach((item, index) => check(item, `${path}[${index}]`));
+  };
+  const recordOf = (check: Check, keyPattern: RegExp): Check => (value, path) => {
+    if (!isRecord(value)) {
+      fail(path, '应为对象');
+      return;
+    }
+    Object.entries(value).forEach(([key, item]) => {
+      if (!keyPattern.test(key)) fail(`${path}.${key}`, '无效的语言代码，应如 en、en-US');
+      check(item, `${path}.${key}`);
+    });
+  };
+  const date: Check = (value, path) => {
+    if (typeof value !== 'string' || !DATE_PATTERN.test(value) || Number.isNaN(new Date(value).getTime())
+      || new Date(value).toISOString().slice(0, 10) !== value) {
+      fail(path, `无效的日期 ${JSON.stringify(value)}，应为 YYYY-MM-DD`);
+    }
+  };
+  const object = (fields: Record<string, Check>, required: string[] = []): Check => (value, path) => {
+    if (!isRecord(value)) {
+      fail(path, '应为对象');
+      return;
+    }
+    required.forEach(key => {
+      if (value[key] === undefined) fail(`${path}.${key}`, '缺少必填字段');
+    });
+    Object.entries(value).forEach(([key, fieldValue]) => {
+      if (fieldValue === undefined) return;
+      const check = fields[key];
+      if (check) {
+        check(fieldValue, `${path}.${key}`);
+      } else {
+        fail(`${path}.${key}`, '未知字段');
+      }
+    });
+  };
+
+  // --- Catalog Schema ---
+  const budget = object({ period: oneOf(BUDGET_PERIODS), limit: number(0) }, ['period', 'limit']);
+  const groupConfig = object({
+    maxConcurrent: number(1, true),
+    cooldownMs: number(0),
+    burst: number(1, true),
+    timeoutMs: number(1),
+    retry: object({ maxAttempts: number(1, true), baseDelayMs: number(0), maxDelayMs: number(0) }),
+  }, ['maxConcurrent', 'cooldownMs']);
+  const capabilities = object({
+    textToImage: boolean,
+    imageToImage: boolean,
+    inpainting: boolean,
+    sizes: arrayOf(number(1, true)),
+    aspectRatios: arrayOf(oneOf(ASPECT_RATIOS)),
+    maxCount: number(1, true),
+    maxPromptLength: number(1, true),
+    seed: boolean,
+    negativePrompt: boolean,
+  });
+  const model = object({
+    id: string,
+    name: string,
+    publishDate: date,
+    description: string,
+    category: string,
+    locales: recordOf(object({ name: string, description: string, category: string }), LOCALE_PATTERN),
+    group: oneOf(knownGroups),
+    timeoutMs: number(1),
+    price: number(0),
+    budget,
+    capabilities,
+    deprecated: boolean,
+    sunsetDate: date,
+    replacedBy: string,
+    demo: object({ prompt: string, images: arrayOf(string) }, ['prompt', 'images']),
+  }, ['id', 'name', 'publishDate', 'description', 'category', 'group']);
+
+  if (!isRecord(raw)) {
+    throw new ModelsConfigError(['catalog: 应为对象']);
+  }
+  if (raw.budget !== undefined) budget(raw.budget, 'budget');
+
+  const configs = isRecord(raw.configs) ? raw.configs : {};
+  if (!isRecord(raw.configs)) {
+    fail('configs', '应为对象');
+  }
+  Object.entries(configs).forEach(([group, config]) => {
+    if (!knownGroups.includes(group)) {
+      fail(`configs.${group}`, `未知的模型组，应为 ${knownGroups.join(' / ')} 之一`);
+      return;
+    }
+    groupConfig(config, `configs.${group}`);
+  });
+
+  if (!Array.isArray(raw.models)) {
+    fail('models', '应为数组');
+  } else {
+    const seenIds = new Set<string>();
+    const modelIds = raw.models.filter(isRecord).map(item => item.id);
+    raw.models.forEach((item, index) => {
+      const path = `models[${index}]`;
+      model(item, path);
+      if (!isRecord(item)) return;
+      if (typeof item.id === 'string') {
+        if (seenIds.has(item.id)) fail(`${path}.id`, `重复的模型 ID ${item.id}`);
+        seenIds.add(item.id);
+      }
+      if (typeof item.group === 'string' && knownGroups.includes(item.group) && !configs[item.group]) {
+        fail(`${path}.group`, `模型组 ${item.group} 缺少 configs 配置`);
+      }
+      if (typeof item.replacedBy === 'string' && (item.replacedBy === item.id || !modelIds.includes(item.replacedBy))) {
+        fail(`${path}.replacedBy`, `替代模型 ${item.replacedBy} 不存在`);
+      }
+    });
+  }
+
+  if (issues.length > 0) {
+    throw new ModelsConfigError(issues);
+  }
+  return raw as unknown as ModelsConfig;
+};
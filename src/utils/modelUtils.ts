@@ -10,7 +10,8 @@
 // =================================================================================================
 
 // --- Internal Types ---
-import type { ImageModel } from '@/services/model';
+import type { ImageModel, ModelLocaleText, ProviderCapabilities } from '@/services/model';
+import type { DesignImage } from '@/types/chat';
 
 // =================================================================================================
 // Type Definitions
@@ -31,6 +32,25 @@ export interface LatestModelsByCategory {
   [category: string]: ImageModel;
 }
 
+// 判断模型能否参与生成所需的目录查询，通常传入 modelManager
+export interface ModelCapabilityLookup {
+  getModelById: (modelId: string) => ImageModel | undefined;
+  supportsCapability: (modelId: string, capability: keyof ProviderCapabilities) => boolean;
+}
+
+export interface PartitionedModels<T> {
+  usable: T[];
+  unsupported: T[];  // 不在模型目录中或不具备当前模式所需能力
+  retired: T[];
+}
+
+export interface LocalizableModel {
+  name: string;
+  description?: string;
+  category?: string;
+  locales?: Record<string, ModelLocaleText>;
+}
+
 // =================================================================================================
 // Constants
 // =================================================================================================
@@ -82,16 +102,37 @@ export const getLatestModelsByCategory = (models: ImageModel[]): LatestModelsByC
   return latestModels;
 };
 
+/**
+ * Check whether a model has reached its sunset date
+ * @param model - Image model
+ * @param now - Current time
+ * @returns True from the sunset date on
+ */
+export const isModelRetired = (model: Pick<ImageModel, 'sunsetDate'>, now: Date = new Date()): boolean => {
+  return !!model.sunsetDate && now.getTime() >= new Date(model.sunsetDate).getTime();
+};
+
+/**
+ * Check whether a model is deprecated or already retired
+ * @param model - Image model
+ * @param now - Current time
+ */
+export const isModelDeprecated = (model: Pick<ImageModel, 'deprecated' | 'sunsetDate'>, now: Date = new Date()): boolean => {
+  return !!model.deprecated || isModelRetired(model, now);
+};
+
 /**
  * Get default selected models with appropriate counts for each category
+ * Deprecated models are skipped and counts never exceed the model's own maxCount
  * @param models - Array of all available image models
  * @returns Array of selected models with their counts and metadata
  */
 export const getDefaultSelectedModels = (models: ImageModel[]): SelectedModel[] => {
-  const latestModels = getLatestModelsByCategory(models);
+  const latestModels = getLatestModelsByCategory(models.filter(model => !isModelDeprecated(model)));
   
   return Object.values(latestModels).map(model => {
-    const count = DEFAULT_MODEL_COUNTS[model.category as keyof typeof DEFAULT_MODEL_COUNTS] || DEFAULT_MODEL_COUNTS.default;
+    const defaultCount = DEFAULT_MODEL_COUNTS[model.category as keyof typeof DEFAULT_MODEL_COUNTS] || DEFAULT_MODEL_COUNTS.default;
+    const count = Math.min(defaultCount, model.capabilities?.maxCount ?? defaultCount);
     
     return {
       id: model.id,
@@ -101,3 +142,61 @@ export const getDefaultSelectedModels = (models: ImageModel[]): SelectedModel[]
     };
   });
 };
+
+/**
+ * Get the user-facing text of a model in a language
+ * Each field falls back from the full language tag (en-US) to its base language (en),
+ * then to the catalog's default text
+ * @param model - Model or provider with default text and per-language overrides
+ * @param language - Current i18next language
+ * @returns Name, description and category to display
+ */
+export const getLocalizedModelText = (model: LocalizableModel, language: string): Required<ModelLocaleText> => {
+  const baseLanguage = language.split('-')[0];
+  const overrides = [model.locales?.[language], model.locales?.[baseLanguage]];
+  const pick = <K extends keyof ModelLocaleText>(key: K) => overrides.find(locale => locale?.[key])?.[key];
+
+  return {
+    name: pick('name') ?? model.name,
+    description: pick('description') ?? model.description ?? '',
+    category: pick('category') ?? model.category ?? '',
+  };
+};
+
+/**
+ * Get the capability a model needs for the current input mode
+ * @param designImage - Image being edited, if any
+ * @returns Text-to-image without an image, inpainting with a mask, image-to-image otherwise
+ */
+export const getRequiredCapability = (designImage: DesignImage | null): keyof ProviderCapabilities => {
+  if (!designImage?.url) return 'textToImage';
+  return designImage.maskUrl ? 'inpainting' : 'imageToImage';
+};
+
+/**
+ * Split the selected models by whether they take part in a generation in the current mode
+ * A model takes part when it is in the catalog, supports the required capability and has not reached its sunset date
+ * @param selectedModels - Models selected by the user
+ * @param capability - Capability required by the current input mode
+ * @param catalog - Model lookup, usually modelManager
+ * @param now - Current time
+ * @returns Usable models, and the skipped ones grouped by reason
+ */
+export const partitionSelectedModels = <T extends Pick<SelectedModel, 'id'>>(
+  selectedModels: T[],
+  capability: keyof ProviderCapabilities,
+  catalog: ModelCapabilityLookup,
+  now: Date = new Date()
+): PartitionedModels<T> => {
+  return selectedModels.reduce<PartitionedModels<T>>((acc, selected) => {
+    const model = catalog.getModelById(selected.id);
+    if (!model || !catalog.supportsCapability(selected.id, capability)) {
+      acc.unsupported.push(selected);
+    } else if (isModelRetired(model, now)) {
+      acc.retired.push(selected);
+    } else {
+      acc.usable.push(selected);
+    }
+    return acc;
+  }, { usable: [], unsupported: [], retired: [] });
+};
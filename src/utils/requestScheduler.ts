@@ -0,0 +1,225 @@
+/**
+ * @file requestScheduler.ts
+ * @description Event-driven request scheduler with per-key token bucket, concurrency limit and fair queueing.
+ * @author fmw666@github
+ * @date 2025-07-18
+ */
+
+// =================================================================================================
+// Imports
+// =================================================================================================
+
+// --- Internal Libraries ---
+import { createAbortError } from '@/services/model/baseService';
+
+// =================================================================================================
+// Type Definitions
+// =================================================================================================
+
+export interface SchedulerLimits {
+  maxConcurrent: number;
+  cooldownMs: number;  // 令牌补充间隔，即两次请求开始之间的最小间隔
+  burst?: number;  // 令牌桶容量，空闲后允许连续发出的请求数，默认 1
+}
+
+export interface ScheduleOptions {
+  lane?: string;  // 公平调度的分组（如 用户:对话），不同分组之间轮流出队
+  signal?: AbortSignal;  // 排队中被中止时直接移出队列
+}
+
+interface QueuedTask {
+  run: () => void;
+}
+
+interface KeyState {
+  active: number;
+  tokens: number;
+  lastRefill: number;
+  lastStart: number;
+  lanes: Map<string, QueuedTask[]>;
+  served: Map<string, number>;  // 各分组已出队的任务数，空闲时清零
+  timer: ReturnType<typeof setTimeout> | null;
+}
+
+// =================================================================================================
+// Constants
+// =================================================================================================
+
+const DEFAULT_LANE = 'default';
+const DEFAULT_BURST = 1;
+
+// =================================================================================================
+// RequestScheduler Class
+// =================================================================================================
+
+/**
+ * RequestScheduler class for dispatching requests under per-key rate and concurrency limits
+ * Requests wait in a queue and are woken by completions or token refills instead of polling;
+ * within a key, the lane served least so far goes first and each lane is FIFO
+ */
+export class RequestScheduler<K extends string = string> {
+  private states = new Map<K, KeyState>();
+
+  /**
+   * @param getLimits - Returns the current limits of a key, read on every dispatch
+   */
+  constructor(private getLimits: (key: K) => SchedulerLimits) {}
+
+  /**
+   * Queue a task and run it once the key has a free slot and a token
+   * @param key - Rate limit key (e.g. model group)
+   * @param task - Task to run
+   * @param options - Fairness lane and abort signal
+   * @returns Result of the task
+   */
+  schedule<T>(key: K, task: () => Promise<T>, options: ScheduleOptions = {}): Promise<T> {
+    const { lane = DEFAULT_LANE, signal } = options;
+    if (signal?.aborted) {
+      return Promise.reject(createAbortError());
+    }
+
+    const state = this.getState(key);
+    return new Promise<T>((resolve, reject) => {
+      const onAbort = () => {
+        this.removeFromQueue(state, lane, entry);
+        reject(createAbortError());
+      };
+      const entry: QueuedTask = {
+        run: () => {
+          signal?.removeEventListener('abort', onAbort);
+          // 同步抛出的异常也要释放并发名额
+          Promise.resolve()
+            .then(task)
+            .then(resolve, reject)
+            .finally(() => {
+              state.active--;
+              this.dispatch(key);
+            });
+        },
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      if (state.active === 0 && state.lanes.size === 0) {
+        state.served.clear();
+      }
+      const queue = state.lanes.get(lane);
+      if (queue) {
+        queue.push(entry);
+      } else {
+        state.lanes.set(lane, [entry]);
+      }
+      this.dispatch(key);
+    });
+  }
+
+  /**
+   * Re-read the limits of every key and dispatch what they now allow,
+   * so raised limits take effect without waiting for the next completion
+   */
+  refresh(): void {
+    this.states.forEach((_, key) => this.dispatch(key));
+  }
+
+  /**
+   * Get the number of running tasks of a key
+   * @param key - Rate limit key
+   */
+  getActiveCount(key: K): number {
+    return this.states.get(key)?.active ?? 0;
+  }
+
+  /**
+   * Get the number of queued tasks of a key
+   * @param key - Rate limit key
+   */
+  getQueuedCount(key: K): number {
+    const state = this.states.get(key);
+    if (!state) return 0;
+    return [...state.lanes.values()].reduce((sum, queue) => sum + queue.length, 0);
+  }
+
+  /**
+   * Get the start time of the latest task of a key
+   * @param key - Rate limit key
+   */
+  getLastStartTime(key: K): number {
+    return this.states.get(key)?.lastStart ?? 0;
+  }
+
+  private getState(key: K): KeyState {
+    let state = this.states.get(key);
+    if (!state) {
+      state = {
+        active: 0,
+        tokens: this.getLimits(key).burst ?? DEFAULT_BURST,
+        lastRefill: Date.now(),
+        lastStart: 0,
+        lanes: new Map(),
+        served: new Map(),
+        timer: null,
+      };
+      this.states.set(key, state);
+    }
+    return state;
+  }
+
+  private refill(state: KeyState, limits: SchedulerLimits, now: number): void {
+    const capacity = limits.burst ?? DEFAULT_BURST;
+    state.tokens = limits.cooldownMs > 0
+      ? Math.min(capacity, state.tokens + (now - state.lastRefill) / limits.cooldownMs)
+      : capacity;
+    state.lastRefill = now;
+  }
+
+  /** 依次出队直到并发已满、令牌不足或队列为空；令牌不足时只挂一个定时器等待补充 */
+  private dispatch(key: K): void {
+    const state = this.getState(key);
+    const limits = this.getLimits(key);
+
+    while (state.lanes.size > 0 && state.active < limits.maxConcurrent) {
+      const now = Date.now();
+      this.refill(state, limits, now);
+      if (state.tokens < 1) {
+        if (!state.timer) {
+          state.timer = setTimeout(() => {
+            state.timer = null;
+            this.dispatch(key);
+          }, Math.ceil((1 - state.tokens) * limits.cooldownMs));
+        }
+        return;
+      }
+
+      const entry = this.dequeue(state);
+      if (!entry) return;
+      state.tokens -= 1;
+      state.active++;
+      state.lastStart = now;
+      entry.run();
+    }
+  }
+
+  /** 取出已出队次数最少的分组的首个任务，次数相同时按入队先后，使各分组轮流执行 */
+  private dequeue(state: KeyState): QueuedTask | undefined {
+    let next: string | undefined;
+    state.lanes.forEach((_, lane) => {
+      if (next === undefined || (state.served.get(lane) ?? 0) < (state.served.get(next) ?? 0)) {
+        next = lane;
+      }
+    });
+    if (next === undefined) return undefined;
+
+    const queue = state.lanes.get(next)!;
+    const entry = queue.shift();
+    if (queue.length === 0) state.lanes.delete(next);
+    state.served.set(next, (state.served.get(next) ?? 0) + 1);
+    return entry;
+  }
+
+  private removeFromQueue(state: KeyState, lane: string, entry: QueuedTask): void {
+    const queue = state.lanes.get(lane);
+    if (!queue) return;
+    const index = queue.indexOf(entry);
+    if (index >= 0) queue.splice(index, 1);
+    if (queue.length === 0) state.lanes.delete(lane);
+  }
+}
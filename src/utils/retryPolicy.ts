@@ -0,0 +1,79 @@
+/**
+ * @file retryPolicy.ts
+ * @description Retry decisions and exponential backoff delays for failed model requests.
+ * @author fmw666@github
+ * @date 2025-07-18
+ */
+
+// =================================================================================================
+// Imports
+// =================================================================================================
+
+// --- Internal Libraries ---
+import type { RetryConfig } from '@/config/models.types';
+
+// =================================================================================================
+// Type Definitions
+// =================================================================================================
+
+export interface RequestFailure {
+  status?: number;  // HTTP 状态码，网络错误时为空
+  message?: string;
+  retryAfterMs?: number;
+}
+
+// =================================================================================================
+// Constants
+// =================================================================================================
+
+export const DEFAULT_RETRY_CONFIG: RetryConfig = {
+  maxAttempts: 3,
+  baseDelayMs: 1000,
+  maxDelayMs: 20 * 1000,
+};
+
+// 请求超时、限流与服务端临时故障
+const RETRYABLE_STATUSES = [408, 425, 429, 500, 502, 503, 504];
+
+// 浏览器与 Node 中断网时的错误信息
+const NETWORK_ERROR_PATTERN = /failed to fetch|networkerror|load failed|network error|econnreset|etimedout|socket hang up/i;
+
+// 重试也不会成功的错误：内容审核拦截、凭证无效、缺少配置
+const NON_RETRYABLE_PATTERN = /内容安全|敏感|审核|content[_ ]?policy|moderation|safety|invalid api key|unauthorized|缺少必要的配置/i;
+
+// =================================================================================================
+// Utility Functions
+// =================================================================================================
+
+/**
+ * Decides whether a failed request may succeed when sent again
+ * @param failure - HTTP status, error message and Retry-After of the failure
+ * @returns True for rate limits, server errors, timeouts and network errors
+ */
+export const isRetryableFailure = ({ status, message = '' }: RequestFailure): boolean => {
+  if (NON_RETRYABLE_PATTERN.test(message)) return false;
+  if (status !== undefined) return RETRYABLE_STATUSES.includes(status);
+  return NETWORK_ERROR_PATTERN.test(message);
+};
+
+/**
+ * Computes the wait before the next attempt: Retry-After when given,
+ * otherwise exponential backoff with jitter in [50%, 100%] of the step
+ * @param attempt - Number of attempts made so far (1 after the first failure)
+ * @param config - Retry config of the model group
+ * @param retryAfterMs - Wait requested by the server
+ * @param random - Random source in [0, 1), injectable for tests
+ * @returns Delay in milliseconds, never above maxDelayMs
+ */
+export const getRetryDelay = (
+  attempt: number,
+  config: RetryConfig,
+  retryAfterMs?: number,
+  random: () => number = Math.random
+): number => {
+  if (retryAfterMs !== undefined) {
+    return Math.min(retryAfterMs, config.maxDelayMs);
+  }
+  const step = Math.min(config.baseDelayMs * 2 ** (attempt - 1), config.maxDelayMs);
+  return Math.round(step / 2 + random() * step / 2);
+};
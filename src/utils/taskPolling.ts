@@ -0,0 +1,31 @@
+/**
+ * @file taskPolling.ts
+ * @description Backoff of status polls for asynchronous provider tasks.
+ * @author fmw666@github
+ * @date 2025-07-18
+ */
+
+// =================================================================================================
+// Type Definitions
+// =================================================================================================
+
+export interface PollBackoffConfig {
+  pollIntervalMs: number;  // 第一次查询前的等待
+  maxPollIntervalMs: number;
+  pollBackoffFactor: number;  // 每次查询后等待时长的倍数
+}
+
+// =================================================================================================
+// Utility Functions
+// =================================================================================================
+
+/**
+ * Compute the wait before the next status poll
+ * The wait grows by the backoff factor after every poll, so long tasks are not polled at the initial rate
+ * @param interval - Wait before the previous poll
+ * @param config - Initial wait, maximum wait and backoff factor
+ * @returns Wait in milliseconds, never above the maximum
+ */
+export const getNextPollInterval = (interval: number, { maxPollIntervalMs, pollBackoffFactor }: PollBackoffConfig): number => {
+  return Math.min(interval * pollBackoffFactor, maxPollIntervalMs);
+};
@@ -0,0 +1,67 @@
+/**
+ * @file usageCost.ts
+ * @description Cost estimation and budget period helpers for the generation usage ledger.
+ * @author fmw666@github
+ * @date 2025-07-18
+ */
+
+// =================================================================================================
+// Imports
+// =================================================================================================
+
+// --- Internal Libraries ---
+import type { BudgetPeriod, UsageBudget } from '@/config/models.types';
+
+// =================================================================================================
+// Type Definitions
+// =================================================================================================
+
+export interface CostItem {
+  price?: number;  // 每张图片的预估费用，未配置视为免费
+  count: number;
+}
+
+// =================================================================================================
+// Utility Functions
+// =================================================================================================
+
+/**
+ * Estimates the cost of generating images with the given models
+ * @param items - Price per image and image count of each model
+ * @returns Total cost, rounded to 4 decimals to avoid floating point noise
+ */
+export const estimateCost = (items: CostItem[]): number => {
+  const total = items.reduce((sum, { price = 0, count }) => sum + price * count, 0);
+  return Math.round(total * 10000) / 10000;
+};
+
+/**
+ * Gets the start of the current budget period in local time
+ * @param period - Daily or monthly budget period
+ * @param now - Current time
+ * @returns Midnight of today, or midnight of the first day of this month
+ */
+export const getPeriodStart = (period: BudgetPeriod, now: Date = new Date()): Date => {
+  return period === 'daily'
+    ? new Date(now.getFullYear(), now.getMonth(), now.getDate())
+    : new Date(now.getFullYear(), now.getMonth(), 1);
+};
+
+/**
+ * Checks whether spending the expected cost would go over the budget
+ * @param budget - Budget limit and period
+ * @param spent - Cost already spent in the current period
+ * @param expected - Cost of the request about to be sent
+ */
+export const exceedsBudget = (budget: UsageBudget, spent: number, expected: number): boolean => {
+  return expected > 0 && spent + expected > budget.limit;
+};
+
+/**
+ * Formats a cost in yuan for display
+ * @param cost - Cost in yuan
+ * @returns Cost with 2 decimals, or 3 when below one cent
+ */
+export const formatCost = (cost: number): string => {
+  return `¥${cost > 0 && cost < 0.01 ? cost.toFixed(3) : cost.toFixed(2)}`;
+};
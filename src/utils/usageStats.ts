@@ -0,0 +1,216 @@
+/**
+ * @file usageStats.ts
+ * @description Aggregates generation results of chat messages into usage statistics for the dashboard.
+ * @author fmw666@github
+ * @date 2025-07-18
+ */
+
+// =================================================================================================
+// Imports
+// =================================================================================================
+
+// --- Internal Libraries ---
+import type { ImageResult, ImageResultAttempt, Results } from '@/services/chat';
+
+// =================================================================================================
+// Type Definitions
+// =================================================================================================
+
+export interface UsageMessage {
+  createdAt: string;
+  results: Pick<Results, 'images'>;
+}
+
+export interface ModelUsageStats {
+  name: string;
+  total: number;
+  success: number;
+  failed: number;
+  cancelled: number;
+  favorites: number;
+  successRate: number;  // 成功数 / 已结束数（不含取消）
+  favoriteRate: number;  // 收藏数 / 成功数
+  avgLatencyMs: number | null;
+}
+
+export interface DailyUsageStats {
+  date: string;  // 本地日期 YYYY-MM-DD
+  success: number;
+  failed: number;
+}
+
+export interface ErrorUsageStats {
+  message: string;
+  count: number;
+}
+
+export interface UsageStats {
+  total: number;
+  success: number;
+  failed: number;
+  cancelled: number;
+  favorites: number;
+  successRate: number;
+  favoriteRate: number;
+  avgLatencyMs: number | null;
+  daily: DailyUsageStats[];
+  models: ModelUsageStats[];
+  errors: ErrorUsageStats[];
+}
+
+type Outcome = 'success' | 'failed' | 'cancelled' | 'pending';
+
+interface Counter {
+  total: number;
+  success: number;
+  failed: number;
+  cancelled: number;
+  favorites: number;
+  latencySum: number;
+  latencyCount: number;
+}
+
+// =================================================================================================
+// Constants
+// =================================================================================================
+
+const MAX_ERROR_LENGTH = 120;
+const TOP_ERRORS = 10;
+
+// =================================================================================================
+// Utility Functions
+// =================================================================================================
+
+const createCounter = (): Counter => ({
+  total: 0,
+  success: 0,
+  failed: 0,
+  cancelled: 0,
+  favorites: 0,
+  latencySum: 0,
+  latencyCount: 0,
+});
+
+const ratio = (part: number, whole: number): number => (whole > 0 ? part / whole : 0);
+
+/**
+ * Formats a date as a local YYYY-MM-DD key
+ * @param date - Date to format
+ */
+export const toDateKey = (date: Date): string => {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+const getOutcome = (result: ImageResultAttempt & Pick<ImageResult, 'isGenerating'>): Outcome => {
+  if (result.isGenerating) return 'pending';
+  if (result.cancelled) return 'cancelled';
+  if (result.error || result.errorMessage) return 'failed';
+  return result.url || result.text ? 'success' : 'pending';
+};
+
+/**
+ * Aggregates chat message results into usage statistics
+ * Regenerated results count every attempt; latency is measured from the message
+ * to the result, so only results that were never regenerated are used for it
+ * @param messages - Messages with their generation results
+ * @param days - Number of days in the daily series, ending today
+ * @param now - Current time
+ * @returns Totals, daily series, per-model stats sorted by volume and the most common errors
+ */
+export const buildUsageStats = (messages: UsageMessage[], days: number, now: Date = new Date()): UsageStats => {
+  const overall = createCounter();
+  const byModel = new Map<string, Counter>();
+  const errorCounts = new Map<string, number>();
+  const since = new Date(now.getFullYear(), now.getMonth(), now.getDate() - days + 1);
+  const daily = new Map<string, DailyUsageStats>();
+  for (let i = 0; i < days; i++) {
+    const date = toDateKey(new Date(since.getFullYear(), since.getMonth(), since.getDate() + i));
+    daily.set(date, { date, success: 0, failed: 0 });
+  }
+
+  const count = (
+    modelName: string,
+    result: ImageResultAttempt & Pick<ImageResult, 'isGenerating' | 'isFavorite'>,
+    fallbackDate: string,
+    latencyMs: number | null
+  ) => {
+    const outcome = getOutcome(result);
+    if (outcome === 'pending') return;
+    const createdAt = new Date(result.createdAt || fallbackDate);
+    if (createdAt < since) return;
+
+    const counter = byModel.get(modelName) ?? createCounter();
+    byModel.set(modelName, counter);
+    [overall, counter].forEach(target => {
+      target.total++;
+      target[outcome]++;
+      if (outcome === 'success' && result.isFavorite) target.favorites++;
+      if (outcome === 'success' && latencyMs !== null && latencyMs >= 0) {
+        target.latencySum += latencyMs;
+        target.latencyCount++;
+      }
+    });
+
+    const day = daily.get(toDateKey(createdAt));
+    if (day && outcome !== 'cancelled') day[outcome]++;
+
+    if (outcome === 'failed') {
+      const message = (result.errorMessage || result.error || '').trim().slice(0, MAX_ERROR_LENGTH);
+      errorCounts.set(message, (errorCounts.get(message) ?? 0) + 1);
+    }
+  };
+
+  messages.forEach(message => {
+    Object.entries(message.results.images || {}).forEach(([modelName, results]) => {
+      results.forEach(result => {
+        (result.history || []).forEach(attempt => count(modelName, attempt, message.createdAt, null));
+        const latencyMs = !result.history?.length && result.createdAt
+          ? new Date(result.createdAt).getTime() - new Date(message.createdAt).getTime()
+          : null;
+        count(modelName, result, message.createdAt, latencyMs);
+      });
+    });
+  });
+
+  const toStats = (counter: Counter) => ({
+    total: counter.total,
+    success: counter.success,
+    failed: counter.failed,
+    cancelled: counter.cancelled,
+    favorites: counter.favorites,
+    successRate: ratio(counter.success, counter.success + counter.failed),
+    favoriteRate: ratio(counter.favorites, counter.success),
+    avgLatencyMs: counter.latencyCount > 0 ? Math.round(counter.latencySum / counter.latencyCount) : null,
+  });
+
+  return {
+    ...toStats(overall),
+    daily: [...daily.values()],
+    models: [...byModel.entries()]
+      .map(([name, counter]) => ({ name, ...toStats(counter) }))
+      .sort((a, b) => b.total - a.total),
+    errors: [...errorCounts.entries()]
+      .map(([message, count]) => ({ message, count }))
+      .sort((a, b) => b.count - a.count)
+      .slice(0, TOP_ERRORS),
+  };
+};
+
+/**
+ * Formats a ratio as a percentage with one decimal place
+ * @param rate - Ratio between 0 and 1
+ */
+export const formatRate = (rate: number): string => `${Math.round(rate * 1000) / 10}%`;
+
+/**
+ * Formats a latency in seconds, or minutes and seconds above one minute
+ * @param ms - Latency in milliseconds, null when unknown
+ */
+export const formatLatency = (ms: number | null): string => {
+  if (ms === null) return '-';
+  const seconds = ms / 1000;
+  if (seconds < 60) return `${seconds.toFixed(1)}s`;
+  return `${Math.floor(seconds / 60)}m ${Math.round(seconds % 60)}s`;
+};
@@ -0,0 +1,105 @@
+/**
+ * @file config.ts
+ * @description Configuration of the generation worker, read from environment variables.
+ * @author fmw666@github
+ * @date 2025-07-18
+ */
+
+// =================================================================================================
+// Type Definitions
+// =================================================================================================
+
+export interface WorkerTables {
+  jobs: string;
+  chats: string;
+  assets: string;
+  modelConfigs: string;
+  usage: string;
+}
+
+export interface WorkerConfig {
+  workerId: string;
+  postgresUrl: string;
+  concurrency: number;  // 同时执行的任务数，同一模型组的请求仍受组内并发与限流约束
+  pollIntervalMs: number;  // LISTEN 连接断开或漏掉通知时兜底轮询的间隔
+  heartbeatIntervalMs: number;
+  staleAfterMs: number;  // 执行中的任务超过该时间未刷新心跳，视为任务进程已退出
+  maxAttempts: number;  // 任务被领取的次数上限，超过后不再重新排队
+  supabaseUrl: string;
+  serviceRoleKey: string;  // 用于上传图片到 storage，未配置时保留服务商返回的原始链接
+  bucketName: string;
+  allowedHosts: string[];  // 可访问内网地址的主机名，Supabase 的主机名总是包含在内
+  tables: WorkerTables;  // 已转义的表名，可直接拼接到 SQL 中
+}
+
+// =================================================================================================
+// Constants
+// =================================================================================================
+
+export const JOBS_CHANNEL = 'generation_jobs';
+
+const DEFAULT_CONCURRENCY = 4;
+const DEFAULT_POLL_INTERVAL_MS = 10 * 1000;
+const DEFAULT_HEARTBEAT_INTERVAL_MS = 15 * 1000;
+const DEFAULT_STALE_AFTER_MS = 2 * 60 * 1000;
+const DEFAULT_MAX_ATTEMPTS = 3;
+
+// =================================================================================================
+// Utility Functions
+// =================================================================================================
+
+/**
+ * Quote a table name as a SQL identifier
+ * @param name - Table name
+ * @returns Quoted identifier
+ */
+const quoteIdentifier = (name: string): string => `"${name.replace(/"/g, '""')}"`;
+
+/**
+ * Parse a positive integer from an environment variable
+ * @param value - Raw value
+ * @param fallback - Value used when missing or invalid
+ * @returns Parsed integer
+ */
+const parsePositiveInt = (value: string | undefined, fallback: number): number => {
+  const parsed = Number(value);
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+/**
+ * Read the worker configuration from environment variables
+ * @param env - Environment variables
+ * @returns Worker configuration
+ */
+export const loadWorkerConfig = (env: NodeJS.ProcessEnv = process.env): WorkerConfig => {
+  // LISTEN 需要直连数据库，Supabase 事务模式的连接池不支持
+  const postgresUrl = env.WORKER_POSTGRES_URL || env.VITE_SUPABASE_POSTGRES_URL || '';
+  if (!postgresUrl) {
+    throw new Error('缺少数据库连接串，请配置 WORKER_POSTGRES_URL 或 VITE_SUPABASE_POSTGRES_URL');
+  }
+
+  const supabaseUrl = env.VITE_SUPABASE_URL || '';
+  const allowedHosts = (env.WORKER_ALLOWED_HOSTS || '').split(',').map(host => host.trim()).filter(Boolean);
+  if (supabaseUrl) allowedHosts.push(new URL(supabaseUrl).hostname);
+
+  return {
+    workerId: env.WORKER_ID || `worker-${process.pid}-${Math.random().toString(36).substring(2, 8)}`,
+    postgresUrl,
+    concurrency: parsePositiveInt(env.WORKER_CONCURRENCY, DEFAULT_CONCURRENCY),
+    pollIntervalMs: parsePositiveInt(env.WORKER_POLL_INTERVAL_MS, DEFAULT_POLL_INTERVAL_MS),
+    heartbeatIntervalMs: DEFAULT_HEARTBEAT_INTERVAL_MS,
+    staleAfterMs: parsePositiveInt(env.WORKER_STALE_AFTER_MS, DEFAULT_STALE_AFTER_MS),
+    maxAttempts: parsePositiveInt(env.WORKER_MAX_ATTEMPTS, DEFAULT_MAX_ATTEMPTS),
+    supabaseUrl,
+    serviceRoleKey: env.VITE_SUPABASE_SERVICE_ROLE_KEY || '',
+    bucketName: env.VITE_SUPABASE_STORAGE_BUCKET_NAME || 'designchat',
+    allowedHosts,
+    tables: {
+      jobs: quoteIdentifier(env.VITE_SUPABASE_JOBS_TABLE_NAME || 'generation_jobs'),
+      chats: quoteIdentifier(env.VITE_SUPABASE_CHAT_TABLE_NAME || 'chat_msgs'),
+      assets: quoteIdentifier(env.VITE_SUPABASE_ASSET_TABLE_NAME || 'assets'),
+      modelConfigs: quoteIdentifier(env.VITE_SUPABASE_MODEL_TABLE_NAME || 'model_configs'),
+      usage: quoteIdentifier(env.VITE_SUPABASE_USAGE_TABLE_NAME || 'generation_usage'),
+    },
+  };
+};
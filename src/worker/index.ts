@@ -0,0 +1,138 @@
+/**
+ * @file index.ts
+ * @description Entry of the generation worker: claims jobs from the generation_jobs table and runs them until stopped.
+ * @author fmw666@github
+ * @date 2025-07-18
+ */
+
+// =================================================================================================
+// Imports
+// =================================================================================================
+
+// --- Third-party Libraries ---
+import 'dotenv/config';
+
+// --- Internal Libraries ---
+import { modelApiManager } from '@/services/api';
+import type { GenerationJob } from '@/services/jobs';
+import { modelManager } from '@/services/model';
+
+import { loadWorkerConfig } from './config';
+import { JobQueue } from './jobQueue';
+import { JobRunner } from './jobRunner';
+import { createGuardedFetch } from './networkGuard';
+import { ResultWriter } from './resultWriter';
+import { createWorkerRuntime } from './runtime';
+
+// =================================================================================================
+// Worker
+// =================================================================================================
+
+const config = loadWorkerConfig();
+
+// 任务会请求用户配置的服务地址与参考图链接，禁止借此访问任务进程所在的内网
+globalThis.fetch = createGuardedFetch(globalThis.fetch, config.allowedHosts);
+
+const queue = new JobQueue(config);
+const writer = new ResultWriter(queue.pool, config);
+const runner = new JobRunner(queue.pool, writer, config);
+
+modelApiManager.setRuntime(createWorkerRuntime(queue.pool, config));
+
+const running = new Map<string, Promise<void>>();
+const timers: ReturnType<typeof setInterval>[] = [];
+let isClaiming = false;
+let claimAgain = false;
+let isStopping = false;
+
+/** 执行任务，未捕获的异常视为任务失败 */
+const runJob = async (job: GenerationJob): Promise<void> => {
+  console.log(`开始执行任务 ${job.id}（${job.model_name}，第 ${job.attempts} 次）`);
+  try {
+    await runner.run(job);
+    console.log(`任务 ${job.id} 已结束`);
+  } catch (error) {
+    console.error(`任务 ${job.id} 执行失败:`, error);
+    await writer.finishJob(job, error instanceof Error ? error.message : '未知原因').catch(finishError => {
+      // 写入失败时等待心跳超时后重新排队
+      console.error(`任务 ${job.id} 状态写入失败:`, finishError);
+    });
+  }
+};
+
+/** 领取任务直到并发已满或队列为空，领取过程中收到的通知在结束后再领取一轮 */
+const claimJobs = async (): Promise<void> => {
+  if (isClaiming) {
+    claimAgain = true;
+    return;
+  }
+  isClaiming = true;
+  try {
+    while (!isStopping && running.size < config.concurrency) {
+      const job = await queue.claim();
+      if (!job) break;
+      running.set(job.id, runJob(job).finally(() => {
+        running.delete(job.id);
+        void claimJobs();
+      }));
+    }
+  } catch (error) {
+    console.error('领取任务失败:', error);
+  } finally {
+    isClaiming = false;
+    if (claimAgain) {
+      claimAgain = false;
+      void claimJobs();
+    }
+  }
+};
+
+/** 重新排队或结束任务进程异常退出后遗留的任务 */
+const recoverStaleJobs = async (): Promise<void> => {
+  try {
+    const exhausted = await queue.recoverStale();
+    await Promise.all(exhausted.map(job => writer.finishJob(job, '任务进程多次异常退出，已停止重试')));
+    void claimJobs();
+  } catch (error) {
+    console.error('恢复遗留任务失败:', error);
+  }
+};
+
+/** 停止领取新任务，等待执行中的任务完成后退出；再次收到信号时立即退出，遗留任务由其他进程恢复 */
+const shutdown = async (signal: string): Promise<void> => {
+  if (isStopping) {
+    process.exit(1);
+  }
+  isStopping = true;
+  console.log(`收到 ${signal}，等待 ${running.size} 个执行中的任务完成…`);
+
+  await Promise.allSettled(running.values());
+  timers.forEach(timer => clearInterval(timer));
+  await queue.close();
+  process.exit(0);
+};
+
+const start = async (): Promise<void> => {
+  // 与客户端使用同一份模型目录，远程目录更新后同样定期生效
+  await modelManager.initCatalog();
+  await queue.listen(() => void claimJobs());
+
+  timers.push(
+    setInterval(() => void claimJobs(), config.pollIntervalMs),
+    setInterval(() => {
+      queue.heartbeat([...running.keys()]).catch(error => console.error('刷新任务心跳失败:', error));
+    }, config.heartbeatIntervalMs),
+    setInterval(() => void recoverStaleJobs(), config.staleAfterMs / 2)
+  );
+
+  process.on('SIGINT', () => void shutdown('SIGINT'));
+  process.on('SIGTERM', () => void shutdown('SIGTERM'));
+
+  console.log(`任务进程 ${config.workerId} 已启动，并发 ${config.concurrency}`);
+  await recoverStaleJobs();
+};
+
+start().catch(error => {
+  console.error('任务进程启动失败:', error);
+  process.exit(1);
+});
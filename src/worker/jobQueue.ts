@@ -0,0 +1,103 @@
+/**
+ * @file jobQueue.ts
+ * @description JobQueue for claiming generation jobs from Postgres and tracking their locks.
+ * @author fmw666@github
+ * @date 2025-07-18
+ */
+
+// =================================================================================================
+// Imports
+// =================================================================================================
+
+// --- Third-party Libraries ---
+import pg from 'pg';
+
+// --- Internal Libraries ---
+import type { GenerationJob } from '@/services/jobs';
+
+import { JOBS_CHANNEL, type WorkerConfig } from './config';
+
+// =================================================================================================
+// Class Definition
+// =================================================================================================
+
+/**
+ * JobQueue class for claiming queued jobs without double execution across workers
+ * New jobs wake the worker through LISTEN/NOTIFY; the lock is kept alive by heartbeats
+ * and jobs whose worker stopped heartbeating are requeued
+ */
+export class JobQueue {
+  public readonly pool: pg.Pool;
+  private listener: pg.PoolClient | null = null;
+
+  constructor(private config: WorkerConfig) {
+    // 每个执行中的任务写结果时各占一个连接，另留 LISTEN 与领取任务的连接
+    this.pool = new pg.Pool({ connectionString: config.postgresUrl, max: config.concurrency + 2 });
+    this.pool.on('error', error => console.error('数据库连接异常:', error));
+  }
+
+  /**
+   * 监听新任务通知
+   * @param onNotify - 收到通知后的回调
+   */
+  public async listen(onNotify: () => void): Promise<void> {
+    this.listener = await this.pool.connect();
+    this.listener.on('notification', () => onNotify());
+    await this.listener.query(`LISTEN ${JOBS_CHANNEL}`);
+  }
+
+  /** 领取最早排队的任务，多个任务进程同时领取时跳过已被锁定的行，互不阻塞 */
+  public async claim(): Promise<GenerationJob | null> {
+    const { jobs } = this.config.tables;
+    const { rows } = await this.pool.query<GenerationJob>(
+      `UPDATE ${jobs}
+       SET status = 'running', locked_by = $1, locked_at = now(), attempts = attempts + 1
+       WHERE id = (
+         SELECT id FROM ${jobs}
+         WHERE status = 'queued'
+         ORDER BY created_at
+         FOR UPDATE SKIP LOCKED
+         LIMIT 1
+       )
+       RETURNING *`,
+      [this.config.workerId]
+    );
+    return rows[0] ?? null;
+  }
+
+  /** 刷新执行中任务的锁定时间 */
+  public async heartbeat(jobIds: string[]): Promise<void> {
+    if (jobIds.length === 0) return;
+    await this.pool.query(
+      `UPDATE ${this.config.tables.jobs} SET locked_at = now() WHERE id = ANY($1::uuid[]) AND locked_by = $2`,
+      [jobIds, this.config.workerId]
+    );
+  }
+
+  /**
+   * 处理任务进程异常退出后遗留的任务：未达到领取次数上限的重新排队
+   * @returns 已达到上限的任务，由调用方标记为失败
+   */
+  public async recoverStale(): Promise<GenerationJob[]> {
+    const { jobs } = this.config.tables;
+    const staleAfterSeconds = this.config.staleAfterMs / 1000;
+    await this.pool.query(
+      `UPDATE ${jobs}
+       SET status = 'queued', locked_by = NULL, locked_at = NULL
+       WHERE status = 'running' AND locked_at < now() - make_interval(secs => $1) AND attempts < $2`,
+      [staleAfterSeconds, this.config.maxAttempts]
+    );
+    const { rows } = await this.pool.query<GenerationJob>(
+      `SELECT * FROM ${jobs}
+       WHERE status = 'running' AND locked_at < now() - make_interval(secs => $1) AND attempts >= $2`,
+      [staleAfterSeconds, this.config.maxAttempts]
+    );
+    return rows;
+  }
+
+  public async close(): Promise<void> {
+    this.listener?.release();
+    this.listener = null;
+    await this.pool.end();
+  }
+}
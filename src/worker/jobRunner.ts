@@ -0,0 +1,118 @@
+/**
+ * @file jobRunner.ts
+ * @description JobRunner for executing a generation job with the shared provider services.
+ * @author fmw666@github
+ * @date 2025-07-18
+ */
+
+// =================================================================================================
+// Imports
+// =================================================================================================
+
+// --- Third-party Libraries ---
+import pg from 'pg';
+
+// --- Internal Libraries ---
+// --- Services ---
+import { modelApiManager } from '@/services/api';
+import type { ImageResult } from '@/services/chat';
+import type { GenerationJob } from '@/services/jobs';
+import { modelManager, providerRegistry } from '@/services/model';
+import type { ModelConfig } from '@/services/model/modelService';
+// --- Utils ---
+import { applyGenerationResponse } from '@/utils/messageResults';
+
+import type { WorkerConfig } from './config';
+import type { ResultWriter } from './resultWriter';
+
+// =================================================================================================
+// Constants
+// =================================================================================================
+
+const PENDING_RESULT: ImageResult = {
+  id: '',
+  url: null,
+  text: null,
+  error: null,
+  errorMessage: null,
+  isGenerating: true,
+};
+
+// =================================================================================================
+// Class Definition
+// =================================================================================================
+
+export class JobRunner {
+  constructor(
+    private pool: pg.Pool,
+    private writer: ResultWriter,
+    private config: WorkerConfig
+  ) {}
+
+  /**
+   * 执行任务：只生成尚未写入的结果，每张完成后立即回写
+   * @param job - 已领取的任务
+   */
+  public async run(job: GenerationJob): Promise<void> {
+    // 对话不属于任务所属用户时直接失败，不调用服务商
+    await this.writer.verifyChat(job);
+
+    // 依赖浏览器环境的能力在任务进程中无法执行，直接失败并说明原因
+    const unsupportedReason = this.getBrowserOnlyReason(job);
+    if (unsupportedReason) {
+      await this.writer.finishJob(job, unsupportedReason);
+      return;
+    }
+
+    const pendingIds = job.result_ids.filter(resultId => !job.results[resultId]);
+    if (pendingIds.length === 0) {
+      await this.writer.finishJob(job, null);
+      return;
+    }
+
+    const modelConfig = await this.getModelConfig(job);
+    const writes: Promise<void>[] = [];
+    let failure: string | null = null;
+
+    await modelApiManager.generateImageStream(
+      job.model_id,
+      { ...job.request, count: pendingIds.length },
+      {
+        count: pendingIds.length,
+        onProgress: (response, index) => {
+          const resultId = pendingIds[index];
+          writes.push(response.progress
+            ? this.writer.writeProgress(job, resultId, response.progress)
+            : this.writer.writeResult(job, resultId, applyGenerationResponse({ ...PENDING_RESULT, id: resultId }, response)));
+        },
+        onError: error => {
+          failure = error.message || '未知原因';
+        },
+        lane: `${job.user_id}:${job.chat_id}`,
+        userId: job.user_id,
+      },
+      modelConfig
+    );
+
+    await Promise.all(writes);
+    await this.writer.finishJob(job, failure);
+  }
+
+  /** 任务所需能力只能在浏览器中执行时返回原因 */
+  private getBrowserOnlyReason(job: GenerationJob): string | undefined {
+    const group = modelManager.getModelById(job.model_id)?.group;
+    const capability = job.request.maskUrl ? 'inpainting' : job.request.imageUrl ? 'imageToImage' : 'textToImage';
+    return group ? providerRegistry.get(group)?.browserOnlyCapabilities?.[capability] : undefined;
+  }
+
+  /** 读取任务所属用户在该模型组下的服务商配置 */
+  private async getModelConfig(job: GenerationJob): Promise<ModelConfig | undefined> {
+    const group = modelManager.getModelById(job.model_id)?.group;
+    if (!group) return undefined;
+    const { rows } = await this.pool.query<ModelConfig>(
+      `SELECT * FROM ${this.config.tables.modelConfigs} WHERE user_id = $1 AND model_id = $2 LIMIT 1`,
+      [job.user_id, group]
+    );
+    return rows[0];
+  }
+}
@@ -0,0 +1,130 @@
+/**
+ * @file networkGuard.ts
+ * @description Guarded fetch for the worker: requests made on behalf of users may not reach private networks.
+ * @author fmw666@github
+ * @date 2025-07-18
+ */
+
+// =================================================================================================
+// Imports
+// =================================================================================================
+
+// --- Node Built-ins ---
+import { lookup, type LookupAddress } from 'node:dns';
+import { isIP, type LookupFunction } from 'node:net';
+
+// --- Third-party Libraries ---
+import { Agent } from 'undici';
+
+// --- Internal Libraries ---
+import { isPrivateAddress } from '@/utils/ipAddress';
+
+// =================================================================================================
+// Constants
+// =================================================================================================
+
+const MAX_REDIRECTS = 5;
+const REDIRECT_STATUSES = [301, 302, 303, 307, 308];
+// 这些协议不发起网络请求，直接交给原始 fetch
+const LOCAL_PROTOCOLS = ['data:', 'blob:'];
+const ALLOWLIST_HINT = '目标为内网或本机地址，如需访问请加入 WORKER_ALLOWED_HOSTS';
+
+// =================================================================================================
+// Error Class
+// =================================================================================================
+
+export class BlockedRequestError extends Error {
+  constructor(host: string, reason: string) {
+    super(`已拦截对 ${host} 的请求：${reason}`);
+    this.name = 'BlockedRequestError';
+  }
+}
+
+// =================================================================================================
+// Guard Factory
+// =================================================================================================
+
+/**
+ * Create a fetch that refuses to reach loopback, private and link-local addresses
+ * The worker sends requests to user-configured base URLs and user-supplied image URLs,
+ * so every hop, redirects included, is checked before it is sent. Host names are resolved once,
+ * inside the connection, and the socket connects to exactly the addresses that were checked,
+ * so a host cannot answer the check with a public address and the connection with a private one;
+ * hosts in allowedHosts (e.g. Supabase, or a self-hosted provider the operator trusts) skip the check
+ * @param baseFetch - Original fetch, Node's built-in fetch which accepts an undici dispatcher
+ * @param allowedHosts - Trusted host names
+ * @returns Guarded fetch
+ */
+export const createGuardedFetch = (baseFetch: typeof fetch, allowedHosts: readonly string[]): typeof fetch => {
+  const trusted = new Set(allowedHosts.map(host => host.toLowerCase()));
+  const isTrusted = (hostname: string) => trusted.has(hostname.replace(/^\[|\]$/g, '').toLowerCase());
+
+  // 建立连接时解析域名并检查全部地址，连接只使用检查过的地址
+  const guardedLookup: LookupFunction = (hostname, options, callback) => {
+    lookup(hostname, { ...options, all: true }, (error, addresses: LookupAddress[]) => {
+      if (error) {
+        callback(error, '');
+        return;
+      }
+      if (!isTrusted(hostname) && addresses.some(({ address }) => isPrivateAddress(address))) {
+        callback(new BlockedRequestError(hostname, ALLOWLIST_HINT), '');
+        return;
+      }
+      if (options.all) {
+        callback(null, addresses);
+      } else {
+        callback(null, addresses[0].address, addresses[0].family);
+      }
+    });
+  };
+  const dispatcher = new Agent({ connect: { lookup: guardedLookup } });
+
+  // IP 地址不经过域名解析，连接前直接检查
+  const assertAllowed = (url: URL): void => {
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+      throw new BlockedRequestError(url.host, `不支持的协议 ${url.protocol}`);
+    }
+    const hostname = url.hostname.replace(/^\[|\]$/g, '');
+    if (isIP(hostname) && !isTrusted(hostname) && isPrivateAddress(hostname)) {
+      throw new BlockedRequestError(url.host, ALLOWLIST_HINT);
+    }
+  };
+
+  const send = async (target: Parameters<typeof fetch>[0], init: RequestInit): Promise<Response> => {
+    try {
+      return await baseFetch(target, { ...init, dispatcher } as RequestInit);
+    } catch (error) {
+      // fetch 把连接阶段的错误包装为 TypeError，拦截时抛出原始原因
+      const cause = (error as { cause?: unknown } | null)?.cause;
+      throw cause instanceof BlockedRequestError ? cause : error;
+    }
+  };
+
+  return async (input, init) => {
+    let url = new URL(input instanceof Request ? input.url : String(input));
+    if (LOCAL_PROTOCOLS.includes(url.protocol)) return baseFetch(input, init);
+
+    // 手动跟随重定向，逐跳检查目标地址
+    let target: Parameters<typeof fetch>[0] = input;
+    let method = (init?.method ?? (input instanceof Request ? input.method : 'GET')).toUpperCase();
+    let currentInit: RequestInit = { ...init, redirect: 'manual' };
+    for (let redirects = 0; ; redirects++) {
+      assertAllowed(url);
+      const response = await send(target, currentInit);
+      const location = response.headers.get('location');
+      if (!REDIRECT_STATUSES.includes(response.status) || !location || init?.redirect === 'manual') {
+        return response;
+      }
+      if (redirects >= MAX_REDIRECTS) {
+        throw new BlockedRequestError(url.host, '重定向次数过多');
+      }
+      url = new URL(location, url);
+      target = url;
+      // 303 以及 301/302 的非 GET 请求按浏览器行为改为不带请求体的 GET
+      if (response.status === 303 || ((response.status === 301 || response.status === 302) && method !== 'GET')) {
+        method = 'GET';
+        currentInit = { ...currentInit, method, body: undefined };
+      }
+    }
+  };
+};
@@ -0,0 +1,167 @@
+/**
+ * @file resultWriter.ts
+ * @description ResultWriter for writing job results back to the chat messages, assets and the job row.
+ * @author fmw666@github
+ * @date 2025-07-18
+ */
+
+// =================================================================================================
+// Imports
+// =================================================================================================
+
+// --- Third-party Libraries ---
+import pg from 'pg';
+
+// --- Internal Libraries ---
+// --- Services ---
+import type { ImageResult, Message, Results } from '@/services/chat';
+import type { GenerationJob } from '@/services/jobs';
+import type { TaskProgress } from '@/services/model';
+// --- Utils ---
+import { applyGenerationJob, replaceImageResult } from '@/utils/messageResults';
+
+import type { WorkerConfig } from './config';
+
+// =================================================================================================
+// Error Class
+// =================================================================================================
+
+// 任务的对话不存在或不属于任务所属用户，任务直接失败，不再写入对话与素材
+export class ChatNotFoundError extends Error {
+  constructor(chatId: string) {
+    super(`对话不存在或不属于任务所属用户: ${chatId}`);
+    this.name = 'ChatNotFoundError';
+  }
+}
+
+// =================================================================================================
+// Class Definition
+// =================================================================================================
+
+/**
+ * ResultWriter class for persisting job results
+ * Each result is written to the chat message, its asset and the job in one transaction,
+ * so a job resumed after a crash only regenerates the results that were not written
+ */
+export class ResultWriter {
+  constructor(private pool: pg.Pool, private config: WorkerConfig) {}
+
+  /** 确认任务的对话属于任务所属用户，在调用服务商之前检查 */
+  public async verifyChat(job: GenerationJob): Promise<void> {
+    const { rowCount } = await this.pool.query(
+      `SELECT 1 FROM ${this.config.tables.chats} WHERE id = $1 AND user_id = $2`,
+      [job.chat_id, job.user_id]
+    );
+    if (!rowCount) throw new ChatNotFoundError(job.chat_id);
+  }
+
+  /** 写入一张完成的结果，保留占位的 ID、所用模型与重新生成历史，并记录任务 ID 供客户端合并 */
+  public async writeResult(job: GenerationJob, resultId: string, result: ImageResult): Promise<void> {
+    await this.updateMessage(
+      job,
+      results => replaceImageResult(results, resultId, current => ({
+        ...result, id: current.id, modelId: current.modelId, jobId: job.id, history: current.history,
+      })),
+      client => client.query(
+        `UPDATE ${this.config.tables.jobs}
+         SET results = results || jsonb_build_object($2::text, $3::jsonb), progress = progress - $2::text
+         WHERE id = $1`,
+        [job.id, resultId, JSON.stringify(result)]
+      )
+    );
+  }
+
+  /** 写入异步任务的中间状态，只更新任务，客户端通过订阅展示 */
+  public async writeProgress(job: GenerationJob, resultId: string, progress: TaskProgress): Promise<void> {
+    await this.pool.query(
+      `UPDATE ${this.config.tables.jobs} SET progress = progress || jsonb_build_object($2::text, $3::jsonb) WHERE id = $1`,
+      [job.id, resultId, JSON.stringify(progress)]
+    );
+  }
+
+  /**
+   * 结束任务，失败时把尚未完成的结果标记为失败
+   * @param job - 生成任务
+   * @param error - 失败原因，为空时表示任务完成
+   */
+  public async finishJob(job: GenerationJob, error: string | null): Promise<void> {
+    const updateJob = (client: pg.Pool | pg.PoolClient, status: string, reason: string | null) => client.query(
+      `UPDATE ${this.config.tables.jobs}
+       SET status = $2, error = $3, progress = '{}'::jsonb, locked_by = NULL, locked_at = NULL, finished_at = now()
+       WHERE id = $1`,
+      [job.id, status, reason]
+    );
+
+    try {
+      await this.updateMessage(
+        job,
+        results => error
+          ? applyGenerationJob(results, { ...job, results: {}, progress: {}, status: 'failed', error }, () => '')
+          : results,
+        client => updateJob(client, error ? 'failed' : 'completed', error)
+      );
+    } catch (updateError) {
+      if (!(updateError instanceof ChatNotFoundError)) throw updateError;
+      // 对话不可写入时只结束任务，避免任务一直处于执行中并被反复重新排队
+      await updateJob(this.pool, 'failed', updateError.message);
+    }
+  }
+
+  /**
+   * 在同一事务中更新消息结果、同步素材并更新任务
+   * 锁定对话行，避免同一消息的多个任务同时写入时互相覆盖；
+   * 对话与素材均按任务所属用户过滤，对话不属于该用户时抛出 ChatNotFoundError
+   */
+  private async updateMessage(
+    job: GenerationJob,
+    update: (results: Results) => Results,
+    updateJob: (client: pg.PoolClient) => Promise<unknown>
+  ): Promise<void> {
+    const { chats, assets } = this.config.tables;
+    const client = await this.pool.connect();
+    try {
+      await client.query('BEGIN');
+      const { rows } = await client.query<{ messages: Message[] | null }>(
+        `SELECT messages FROM ${chats} WHERE id = $1 AND user_id = $2 FOR UPDATE`,
+        [job.chat_id, job.user_id]
+      );
+      if (rows.length === 0) throw new ChatNotFoundError(job.chat_id);
+      const messages = rows[0].messages || [];
+      const message = messages.find(msg => msg.id === job.message_id);
+
+      if (message) {
+        const results = update(message.results);
+        if (results !== message.results) {
+          const updatedMessages = messages.map(msg => msg.id === message.id ? { ...msg, results } : msg);
+          await client.query(
+            `UPDATE ${chats} SET messages = $3 WHERE id = $1 AND user_id = $2`,
+            [job.chat_id, job.user_id, JSON.stringify(updatedMessages)]
+          );
+          await client.query(
+            `INSERT INTO ${assets} (user_id, chat_id, message_id, models, content, results, user_image)
+             VALUES ($1, $2, $3, $4, $5, $6, $7)
+             ON CONFLICT (chat_id, message_id) DO UPDATE SET results = EXCLUDED.results
+             WHERE ${assets}.user_id = EXCLUDED.user_id`,
+            [
+              job.user_id,
+              job.chat_id,
+              message.id,
+              JSON.stringify(message.models || []),
+              message.content || '',
+              JSON.stringify(results),
+              message.userImage ? JSON.stringify(message.userImage) : null,
+            ]
+          );
+        }
+      }
+
+      await updateJob(client);
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK').catch(() => undefined);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+}
@@ -0,0 +1,80 @@
+/**
+ * @file runtime.ts
+ * @description Generation runtime of the worker: no login session, uploads with the service role and records usage for the job owner.
+ * @author fmw666@github
+ * @date 2025-07-18
+ */
+
+// =================================================================================================
+// Imports
+// =================================================================================================
+
+// --- Third-party Libraries ---
+import { createClient } from '@supabase/supabase-js';
+import pg from 'pg';
+
+// --- Internal Libraries ---
+import type { GenerationRuntime } from '@/services/api';
+import type { UploadResult } from '@/services/storage';
+
+import type { WorkerConfig } from './config';
+
+// =================================================================================================
+// Runtime Factory
+// =================================================================================================
+
+/**
+ * Create the runtime used by the model API manager inside the worker
+ * @param pool - Database connection pool
+ * @param config - Worker configuration
+ * @returns Generation runtime
+ */
+export const createWorkerRuntime = (pool: pg.Pool, config: WorkerConfig): GenerationRuntime => {
+  const storageClient = config.supabaseUrl && config.serviceRoleKey
+    ? createClient(config.supabaseUrl, config.serviceRoleKey, { auth: { persistSession: false } })
+    : null;
+
+  const uploadImage = async (imageUrl: string): Promise<UploadResult> => {
+    if (!storageClient) {
+      return { success: false, error: '未配置 VITE_SUPABASE_SERVICE_ROLE_KEY，无法上传到存储' };
+    }
+    try {
+      // 服务端没有跨域限制，直接下载服务商返回的链接（含 data URL）
+      const response = await fetch(imageUrl);
+      if (!response.ok) {
+        throw new Error(`无法获取图片: ${response.status} ${response.statusText}`);
+      }
+      const blob = await response.blob();
+      const mimeType = blob.type || 'image/png';
+      const date = new Date().toISOString().split('T')[0];
+      const fileName = `${date}_image_${Math.random().toString(36).substring(2, 15)}.${mimeType.split('/')[1] || 'png'}`;
+
+      const bucket = storageClient.storage.from(config.bucketName);
+      const { error } = await bucket.upload(fileName, blob, { contentType: mimeType });
+      if (error) throw error;
+
+      return {
+        success: true,
+        url: bucket.getPublicUrl(fileName).data.publicUrl,
+        metadata: { size: blob.size, mimeType, uploadedAt: new Date().toISOString() },
+      };
+    } catch (error) {
+      console.error('Worker upload error:', error);
+      return { success: false, error: error instanceof Error ? error.message : '上传失败' };
+    }
+  };
+
+  return {
+    // 任务由数据库按用户隔离写入，任务进程不需要登录会话
+    checkAuth: async () => true,
+    uploadImage,
+    recordUsage: async (record, userId) => {
+      await pool.query(
+        `INSERT INTO ${config.tables.usage}
+         (user_id, model_id, model_group, count, success, latency_ms, estimated_cost, error)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8)`,
+        [userId, record.model_id, record.model_group, record.count, record.success, record.latency_ms, record.estimated_cost, record.error]
+      );
+    },
+  };
+};
@@ -30,6 +30,21 @@ export default defineConfig({
         rewrite: path => path.replace(/^\/api\/ark/, '/api/v3/images/generations'),
         // secure: false, // 如有自签证书可加
       },
+      '/api/cogview': {
+        target: 'https://open.bigmodel.cn',
+        changeOrigin: true,
+        rewrite: path => path.replace(/^\/api\/cogview/, '/api/paas/v4/images/generations'),
+      },
+      '/api/tongyi': {
+        target: 'https://dashscope.aliyuncs.com',
+        changeOrigin: true,
+        rewrite: path => path.replace(/^\/api\/tongyi/, '/api/v1'),
+      },
+      '/api/jimeng': {
+        target: 'https://visual.volcengineapi.com',
+        changeOrigin: true,
+        rewrite: path => path.replace(/^\/api\/jimeng/, ''),
+      },
     },
   },
   build: {
@@ -0,0 +1,27 @@
+import path from 'path';
+
+import { defineConfig } from 'vite';
+
+// 服务端生成任务进程，与前端共用服务商适配器与请求管理，打包为 Node 脚本
+export default defineConfig({
+  resolve: {
+    alias: {
+      '@': path.resolve(__dirname, './src'),
+    },
+  },
+  // 前端静态资源不需要复制到任务进程的产物中
+  publicDir: false,
+  build: {
+    ssr: 'src/worker/index.ts',
+    outDir: 'dist-worker',
+    target: 'node20',
+    sourcemap: true,
+    emptyOutDir: true,
+    rollupOptions: {
+      output: {
+        entryFileNames: 'index.js',
+      },
+    },
+  },
+  envPrefix: 'VITE_',
+});